@@ -0,0 +1,287 @@
+/**
+ * AlertChannels.tsx - Notification channels (Alerts page tab)
+ * The form for each channel type is built from the field list the API returns.
+ */
+import { useState } from "react";
+
+export interface Channel {
+	id: number;
+	name: string;
+	type: string;
+	config: Record<string, string>;
+	secretsSet: string[];
+	enabled: boolean;
+	createdBy: string;
+	updatedAt: string;
+}
+
+interface ChannelField {
+	key: string;
+	label: string;
+	type: "text" | "number" | "select" | "password" | "url";
+	required?: boolean;
+	placeholder?: string;
+	description?: string;
+	default?: string;
+	options?: { value: string; label: string }[];
+}
+
+export type ChannelTypes = Record<string, { label: string; fields: ChannelField[] }>;
+
+const inputClass =
+	"w-full rounded-xl border border-border-dim bg-white/5 px-3 py-2 text-sm text-gray-200 placeholder-gray-600 outline-none transition focus:border-accent/50 focus:ring-1 focus:ring-accent/30";
+
+interface Props {
+	channels: Channel[];
+	types: ChannelTypes;
+	canWrite: boolean;
+	onChange: () => void;
+}
+
+function defaults(fields: ChannelField[] = []): Record<string, string> {
+	return Object.fromEntries(fields.map((f) => [f.key, f.default ?? ""]));
+}
+
+export default function AlertChannels({ channels, types, canWrite, onChange }: Props) {
+	const [editing, setEditing] = useState<Channel | "new" | null>(null);
+	const [name, setName] = useState("");
+	const [type, setType] = useState("webhook");
+	const [config, setConfig] = useState<Record<string, string>>({});
+	const [saving, setSaving] = useState(false);
+	const [testing, setTesting] = useState<number | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [message, setMessage] = useState<string | null>(null);
+
+	function startEdit(channel?: Channel) {
+		setError(null);
+		setMessage(null);
+		if (channel) {
+			setName(channel.name);
+			setType(channel.type);
+			setConfig({ ...defaults(types[channel.type]?.fields), ...channel.config });
+			setEditing(channel);
+		} else {
+			setName("");
+			setType("webhook");
+			setConfig(defaults(types.webhook?.fields));
+			setEditing("new");
+		}
+	}
+
+	async function save(e: React.FormEvent) {
+		e.preventDefault();
+		setSaving(true);
+		setError(null);
+		setMessage(null);
+		try {
+			const isNew = editing === "new";
+			const res = await fetch(isNew ? "/api/modules/alerts/channels" : `/api/modules/alerts/channels/${(editing as Channel).id}`, {
+				method: isNew ? "POST" : "PUT",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify(isNew ? { name, type, config } : { name, config }),
+			});
+			const data = await res.json();
+			if (!res.ok) {
+				setError(data.error || "Failed to save channel");
+				return;
+			}
+			setEditing(null);
+			onChange();
+		} catch {
+			setError("Failed to save channel");
+		} finally {
+			setSaving(false);
+		}
+	}
+
+	async function test(channel: Channel) {
+		setTesting(channel.id);
+		setError(null);
+		setMessage(null);
+		try {
+			const res = await fetch(`/api/modules/alerts/channels/${channel.id}/test`, { method: "POST", credentials: "same-origin" });
+			const data = await res.json();
+			if (res.ok) setMessage(`Test notification sent to ${channel.name}`);
+			else setError(`${channel.name}: ${data.error}`);
+		} catch {
+			setError(`${channel.name}: test failed`);
+		} finally {
+			setTesting(null);
+		}
+	}
+
+	async function toggle(channel: Channel) {
+		const res = await fetch(`/api/modules/alerts/channels/${channel.id}`, {
+			method: "PUT",
+			credentials: "same-origin",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ enabled: !channel.enabled }),
+		});
+		if (!res.ok) setError((await res.json()).error || "Failed to update channel");
+		onChange();
+	}
+
+	async function remove(channel: Channel) {
+		if (!confirm(`Delete the channel "${channel.name}"? Rules that use it stop notifying it.`)) return;
+		const res = await fetch(`/api/modules/alerts/channels/${channel.id}`, { method: "DELETE", credentials: "same-origin" });
+		if (!res.ok) setError((await res.json()).error || "Failed to delete channel");
+		onChange();
+	}
+
+	const fields = types[type]?.fields ?? [];
+	const secretsSet = editing && editing !== "new" ? editing.secretsSet : [];
+
+	return (
+		<div className="space-y-4">
+			{canWrite && editing === null && (
+				<div className="flex justify-end">
+					<button
+						onClick={() => startEdit()}
+						className="rounded-lg bg-accent/20 px-3 py-1.5 text-xs font-medium text-accent transition hover:bg-accent/30"
+					>
+						+ New channel
+					</button>
+				</div>
+			)}
+
+			{editing !== null && (
+				<form onSubmit={save} className="glass-card space-y-3">
+					<div>
+						<h4 className="text-sm font-semibold">{editing === "new" ? "New notification channel" : `Edit ${editing.name}`}</h4>
+						<p className="text-xs text-gray-500">Passwords and tokens are stored encrypted and can't be viewed again.</p>
+					</div>
+					<div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+						<input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name (e.g. On-call email)" className={inputClass} required />
+						<select
+							value={type}
+							onChange={(e) => {
+								setType(e.target.value);
+								setConfig(defaults(types[e.target.value]?.fields));
+							}}
+							disabled={editing !== "new"}
+							className={`${inputClass} disabled:opacity-60`}
+						>
+							{Object.entries(types).map(([id, t]) => (
+								<option key={id} value={id}>
+									{t.label}
+								</option>
+							))}
+						</select>
+						{fields.map((field) => {
+							const keepSecret = field.type === "password" && secretsSet.includes(field.key);
+							return (
+								<label key={field.key} className="space-y-1">
+									<span className="text-xs text-gray-400">
+										{field.label}
+										{field.required && !keepSecret && " *"}
+									</span>
+									{field.type === "select" ? (
+										<select
+											value={config[field.key] ?? ""}
+											onChange={(e) => setConfig({ ...config, [field.key]: e.target.value })}
+											className={inputClass}
+										>
+											{field.options?.map((opt) => (
+												<option key={opt.value} value={opt.value}>
+													{opt.label}
+												</option>
+											))}
+										</select>
+									) : (
+										<input
+											type={field.type}
+											value={config[field.key] ?? ""}
+											onChange={(e) => setConfig({ ...config, [field.key]: e.target.value })}
+											placeholder={keepSecret ? "Unchanged" : field.placeholder}
+											required={field.required && !keepSecret}
+											autoComplete={field.type === "password" ? "new-password" : "off"}
+											className={inputClass}
+										/>
+									)}
+									{field.description && <span className="block text-[11px] text-gray-600">{field.description}</span>}
+								</label>
+							);
+						})}
+					</div>
+					<div className="flex justify-end gap-2">
+						<button
+							type="button"
+							onClick={() => setEditing(null)}
+							className="rounded-lg px-3 py-1.5 text-xs text-gray-400 transition hover:bg-white/10 hover:text-white"
+						>
+							Cancel
+						</button>
+						<button
+							type="submit"
+							disabled={saving}
+							className="rounded-lg bg-accent/20 px-3 py-1.5 text-xs font-medium text-accent transition hover:bg-accent/30 disabled:opacity-50"
+						>
+							{saving ? "Saving..." : "Save channel"}
+						</button>
+					</div>
+				</form>
+			)}
+
+			{error && <div className="rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">{error}</div>}
+			{message && (
+				<div className="rounded-xl bg-emerald-500/10 border border-emerald-500/30 p-3 text-sm text-emerald-400">{message}</div>
+			)}
+
+			<div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+				{channels.length === 0 ? (
+					<div className="glass-card col-span-full text-center">
+						<p className="text-sm text-gray-500">No notification channels configured</p>
+					</div>
+				) : (
+					channels.map((c) => (
+						<div key={c.id} className={`glass-card ${c.enabled ? "" : "opacity-60"}`}>
+							<div className="flex items-start justify-between gap-2">
+								<h4 className="truncate text-sm font-semibold">{c.name}</h4>
+								<span className="rounded-full bg-white/10 px-2 py-0.5 text-[10px] font-medium uppercase text-gray-300">
+									{types[c.type]?.label ?? c.type}
+								</span>
+							</div>
+							<p className="mt-1 truncate text-xs text-gray-500">
+								{c.config.url || c.config.to || c.config.host || ""}
+							</p>
+							<p className="text-xs text-gray-500">
+								Added by {c.createdBy}, updated {new Date(c.updatedAt).toLocaleDateString()}
+								{!c.enabled && " · disabled"}
+							</p>
+							{canWrite && (
+								<div className="mt-3 flex gap-2">
+									<button
+										onClick={() => test(c)}
+										disabled={testing === c.id}
+										className="rounded-lg bg-blue-500/20 px-3 py-1.5 text-xs font-medium text-blue-400 transition hover:bg-blue-500/30 disabled:opacity-50"
+									>
+										{testing === c.id ? "Sending..." : "Test"}
+									</button>
+									<button
+										onClick={() => startEdit(c)}
+										className="rounded-lg bg-white/5 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-white/10"
+									>
+										Edit
+									</button>
+									<button
+										onClick={() => toggle(c)}
+										className="rounded-lg bg-white/5 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-white/10"
+									>
+										{c.enabled ? "Disable" : "Enable"}
+									</button>
+									<button
+										onClick={() => remove(c)}
+										className="rounded-lg bg-red-500/20 px-3 py-1.5 text-xs font-medium text-red-400 transition hover:bg-red-500/30"
+									>
+										Delete
+									</button>
+								</div>
+							)}
+						</div>
+					))
+				)}
+			</div>
+		</div>
+	);
+}
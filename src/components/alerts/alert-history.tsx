@@ -0,0 +1,133 @@
+/**
+ * AlertHistory.tsx - Firing and resolved events, newest first (Alerts page tab)
+ */
+import { useState, useEffect } from "react";
+import type { Rule } from "./alert-manager";
+
+interface AlertEvent {
+	id: number;
+	ruleId: number;
+	ruleName: string;
+	severity: "info" | "warning" | "critical";
+	state: "firing" | "resolved";
+	value?: string;
+	message: string;
+	silenced: boolean;
+	notifyError?: string;
+	createdAt: string;
+}
+
+const STATE_STYLES: Record<AlertEvent["state"], string> = {
+	firing: "bg-red-500/20 text-red-400",
+	resolved: "bg-emerald-500/20 text-emerald-400",
+};
+
+const SEVERITY_STYLES: Record<AlertEvent["severity"], string> = {
+	info: "bg-blue-500/20 text-blue-400",
+	warning: "bg-yellow-500/20 text-yellow-400",
+	critical: "bg-red-500/20 text-red-400",
+};
+
+const inputClass =
+	"w-full rounded-xl border border-border-dim bg-white/5 px-3 py-2 text-sm text-gray-200 placeholder-gray-600 outline-none transition focus:border-accent/50 focus:ring-1 focus:ring-accent/30";
+
+export default function AlertHistory({ rules }: { rules: Rule[] }) {
+	const [events, setEvents] = useState<AlertEvent[]>([]);
+	const [ruleId, setRuleId] = useState("");
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		load();
+	}, [ruleId]);
+
+	async function load() {
+		try {
+			const params = new URLSearchParams({ limit: "200" });
+			if (ruleId) params.set("rule", ruleId);
+			const res = await fetch(`/api/modules/alerts/history?${params}`, { credentials: "same-origin" });
+			const data = await res.json();
+			setEvents(Array.isArray(data.events) ? data.events : []);
+			setError(null);
+		} catch {
+			setError("Failed to load alert history");
+		} finally {
+			setLoading(false);
+		}
+	}
+
+	return (
+		<div className="space-y-4">
+			<div className="flex gap-2">
+				<select value={ruleId} onChange={(e) => setRuleId(e.target.value)} className={`${inputClass} md:w-64`}>
+					<option value="">All rules</option>
+					{rules.map((r) => (
+						<option key={r.id} value={r.id}>
+							{r.name}
+						</option>
+					))}
+				</select>
+				<button
+					onClick={load}
+					className="rounded-lg px-3 py-2 text-xs text-gray-400 transition hover:bg-white/10 hover:text-white"
+				>
+					↻ Refresh
+				</button>
+			</div>
+
+			{error && <div className="rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">{error}</div>}
+
+			<div className="glass-card overflow-x-auto p-0">
+				<table className="w-full">
+					<thead className="border-b border-border-dim">
+						<tr>
+							<th className="px-4 py-2 text-left text-xs font-medium text-gray-400">Time</th>
+							<th className="px-4 py-2 text-left text-xs font-medium text-gray-400">Rule</th>
+							<th className="px-4 py-2 text-left text-xs font-medium text-gray-400">State</th>
+							<th className="px-4 py-2 text-left text-xs font-medium text-gray-400">Message</th>
+							<th className="px-4 py-2 text-left text-xs font-medium text-gray-400">Notification</th>
+						</tr>
+					</thead>
+					<tbody className="divide-y divide-border-dim">
+						{loading ? null : events.length === 0 ? (
+							<tr>
+								<td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">
+									No alerts have fired yet
+								</td>
+							</tr>
+						) : (
+							events.map((e) => (
+								<tr key={e.id}>
+									<td className="whitespace-nowrap px-4 py-2 text-xs text-gray-400">{new Date(e.createdAt).toLocaleString()}</td>
+									<td className="px-4 py-2 text-sm">
+										{e.ruleName}{" "}
+										<span className={`rounded-full px-2 py-0.5 text-[10px] font-medium uppercase ${SEVERITY_STYLES[e.severity]}`}>
+											{e.severity}
+										</span>
+									</td>
+									<td className="px-4 py-2">
+										<span className={`rounded-full px-2 py-0.5 text-[10px] font-medium uppercase ${STATE_STYLES[e.state]}`}>
+											{e.state}
+										</span>
+									</td>
+									<td className="px-4 py-2 text-xs text-gray-300">{e.message}</td>
+									<td className="px-4 py-2 text-xs">
+										{e.silenced ? (
+											<span className="text-gray-500">Silenced</span>
+										) : e.notifyError ? (
+											<span className="text-red-400" title={e.notifyError}>
+												Failed: {e.notifyError}
+											</span>
+										) : (
+											<span className="text-gray-600">—</span>
+										)}
+									</td>
+								</tr>
+							))
+						)}
+					</tbody>
+				</table>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,457 @@
+/**
+ * AlertManager.tsx - Alert rules, notification channels, silences and history (React island)
+ */
+import { useState, useEffect } from "react";
+import AlertChannels, { type Channel, type ChannelTypes } from "./alert-channels";
+import AlertSilences from "./alert-silences";
+import AlertHistory from "./alert-history";
+
+type Severity = "info" | "warning" | "critical";
+
+export interface Rule {
+	id: number;
+	name: string;
+	kind: string;
+	target: string;
+	operator: ">" | "<";
+	threshold: number | null;
+	forSeconds: number;
+	severity: Severity;
+	channels: number[];
+	enabled: boolean;
+	state: "ok" | "pending" | "firing" | "resolved";
+	stateSince?: string;
+	lastValue?: string;
+	lastEvaluatedAt?: string;
+	silenced: boolean;
+}
+
+type RuleKinds = Record<string, { label: string; unit: string; target?: string; threshold: boolean }>;
+
+interface RuleForm {
+	name: string;
+	kind: string;
+	target: string;
+	operator: ">" | "<";
+	threshold: string;
+	forMinutes: string;
+	severity: Severity;
+	channels: number[];
+	enabled: boolean;
+}
+
+const EMPTY_FORM: RuleForm = {
+	name: "",
+	kind: "cpu",
+	target: "",
+	operator: ">",
+	threshold: "90",
+	forMinutes: "5",
+	severity: "warning",
+	channels: [],
+	enabled: true,
+};
+
+const STATE_STYLES: Record<string, string> = {
+	ok: "bg-emerald-500/20 text-emerald-400",
+	resolved: "bg-emerald-500/20 text-emerald-400",
+	pending: "bg-yellow-500/20 text-yellow-400",
+	firing: "bg-red-500/20 text-red-400",
+};
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+	info: "bg-blue-500/20 text-blue-400",
+	warning: "bg-yellow-500/20 text-yellow-400",
+	critical: "bg-red-500/20 text-red-400",
+};
+
+const inputClass =
+	"w-full rounded-xl border border-border-dim bg-white/5 px-3 py-2 text-sm text-gray-200 placeholder-gray-600 outline-none transition focus:border-accent/50 focus:ring-1 focus:ring-accent/30";
+
+function formatDuration(seconds: number): string {
+	if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+	if (seconds % 60 === 0) return `${seconds / 60}m`;
+	return `${seconds}s`;
+}
+
+function describeRule(rule: Rule, kinds: RuleKinds): string {
+	const spec = kinds[rule.kind];
+	if (!spec) return rule.kind;
+	const subject = spec.target ? `${spec.label} ${rule.target === "*" ? "on any mount" : rule.target}` : spec.label;
+	const condition = spec.threshold ? ` ${rule.operator} ${rule.threshold}${spec.unit}` : "";
+	const duration = rule.forSeconds > 0 ? ` for ${formatDuration(rule.forSeconds)}` : "";
+	return `${subject}${condition}${duration}`;
+}
+
+export default function AlertManager({ canWrite }: { canWrite: boolean }) {
+	const [tab, setTab] = useState("rules");
+	const [rules, setRules] = useState<Rule[]>([]);
+	const [kinds, setKinds] = useState<RuleKinds>({});
+	const [channels, setChannels] = useState<Channel[]>([]);
+	const [channelTypes, setChannelTypes] = useState<ChannelTypes>({});
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [editing, setEditing] = useState<number | "new" | null>(null);
+	const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+	const [saving, setSaving] = useState(false);
+
+	useEffect(() => {
+		fetchAll();
+		const interval = setInterval(fetchRules, 15000);
+		return () => clearInterval(interval);
+	}, []);
+
+	async function fetchRules() {
+		try {
+			const res = await fetch("/api/modules/alerts/rules", { credentials: "same-origin" });
+			const data = await res.json();
+			setRules(Array.isArray(data.rules) ? data.rules : []);
+			setKinds(data.kinds ?? {});
+		} catch {
+			setError("Failed to load alert rules");
+		}
+	}
+
+	async function fetchChannels() {
+		try {
+			const res = await fetch("/api/modules/alerts/channels", { credentials: "same-origin" });
+			const data = await res.json();
+			setChannels(Array.isArray(data.channels) ? data.channels : []);
+			setChannelTypes(data.types ?? {});
+		} catch {
+			setError("Failed to load notification channels");
+		}
+	}
+
+	async function fetchAll() {
+		await Promise.all([fetchRules(), fetchChannels()]);
+		setLoading(false);
+	}
+
+	function startEdit(rule?: Rule) {
+		setError(null);
+		if (!rule) {
+			setForm(EMPTY_FORM);
+			setEditing("new");
+			return;
+		}
+		setForm({
+			name: rule.name,
+			kind: rule.kind,
+			target: rule.target,
+			operator: rule.operator,
+			threshold: rule.threshold === null ? "" : String(rule.threshold),
+			forMinutes: String(rule.forSeconds / 60),
+			severity: rule.severity,
+			channels: rule.channels,
+			enabled: rule.enabled,
+		});
+		setEditing(rule.id);
+	}
+
+	async function saveRule(e: React.FormEvent) {
+		e.preventDefault();
+		setSaving(true);
+		setError(null);
+		const spec = kinds[form.kind];
+		try {
+			const res = await fetch(editing === "new" ? "/api/modules/alerts/rules" : `/api/modules/alerts/rules/${editing}`, {
+				method: editing === "new" ? "POST" : "PUT",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					name: form.name,
+					kind: form.kind,
+					target: spec?.target ? form.target : undefined,
+					operator: form.operator,
+					threshold: spec?.threshold ? Number(form.threshold) : undefined,
+					forSeconds: Math.round(Number(form.forMinutes || 0) * 60),
+					severity: form.severity,
+					channels: form.channels,
+					enabled: form.enabled,
+				}),
+			});
+			const data = await res.json();
+			if (!res.ok) {
+				setError(data.error || "Failed to save rule");
+				return;
+			}
+			setEditing(null);
+			fetchRules();
+		} catch {
+			setError("Failed to save rule");
+		} finally {
+			setSaving(false);
+		}
+	}
+
+	async function toggleRule(rule: Rule) {
+		const res = await fetch(`/api/modules/alerts/rules/${rule.id}`, {
+			method: "PUT",
+			credentials: "same-origin",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ enabled: !rule.enabled }),
+		});
+		if (!res.ok) setError((await res.json()).error || "Failed to update rule");
+		fetchRules();
+	}
+
+	async function deleteRule(rule: Rule) {
+		if (!confirm(`Delete the alert rule "${rule.name}"? Its history is kept.`)) return;
+		const res = await fetch(`/api/modules/alerts/rules/${rule.id}`, { method: "DELETE", credentials: "same-origin" });
+		if (!res.ok) setError((await res.json()).error || "Failed to delete rule");
+		fetchRules();
+	}
+
+	const firing = rules.filter((r) => r.state === "firing").length;
+	const tabs = [
+		{ id: "rules", label: "Rules", count: rules.length },
+		{ id: "channels", label: "Channels", count: channels.length },
+		{ id: "silences", label: "Silences" },
+		{ id: "history", label: "History" },
+	];
+	const spec = kinds[form.kind];
+	const isMountKind = form.kind === "disk" || form.kind === "inodes";
+
+	return (
+		<div className="space-y-6">
+			<div className="flex gap-1 rounded-xl bg-white/5 p-1 overflow-x-auto">
+				{tabs.map((t) => (
+					<button
+						key={t.id}
+						onClick={() => setTab(t.id)}
+						className={`flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium transition whitespace-nowrap ${
+							tab === t.id ? "bg-accent/20 text-accent" : "text-gray-400 hover:text-gray-200"
+						}`}
+					>
+						{t.label}
+						{t.count !== undefined && <span className="rounded-full bg-white/10 px-1.5 py-0.5 text-[10px]">{t.count}</span>}
+					</button>
+				))}
+				{firing > 0 && (
+					<span className="ml-auto self-center rounded-full bg-red-500/20 px-3 py-1 text-xs font-medium text-red-400">
+						{firing} firing
+					</span>
+				)}
+			</div>
+
+			{error && <div className="rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">{error}</div>}
+
+			{tab === "rules" && (
+				<div className="space-y-4">
+					{canWrite && editing === null && (
+						<div className="flex justify-end">
+							<button
+								onClick={() => startEdit()}
+								className="rounded-lg bg-accent/20 px-3 py-1.5 text-xs font-medium text-accent transition hover:bg-accent/30"
+							>
+								+ New rule
+							</button>
+						</div>
+					)}
+
+					{editing !== null && (
+						<form onSubmit={saveRule} className="glass-card space-y-3">
+							<h4 className="text-sm font-semibold">{editing === "new" ? "New alert rule" : "Edit alert rule"}</h4>
+							<div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+								<input
+									value={form.name}
+									onChange={(e) => setForm({ ...form, name: e.target.value })}
+									placeholder="Name (e.g. High CPU)"
+									className={inputClass}
+									required
+								/>
+								<select value={form.kind} onChange={(e) => setForm({ ...form, kind: e.target.value })} className={inputClass}>
+									{Object.entries(kinds).map(([id, k]) => (
+										<option key={id} value={id}>
+											{k.label}
+										</option>
+									))}
+								</select>
+								{spec?.target && (
+									<input
+										value={form.target}
+										onChange={(e) => setForm({ ...form, target: e.target.value })}
+										placeholder={isMountKind ? "Mount point (default /, * for any)" : spec.target}
+										className={inputClass}
+										required={!isMountKind}
+									/>
+								)}
+								{spec?.threshold && (
+									<div className="flex gap-2">
+										<select
+											value={form.operator}
+											onChange={(e) => setForm({ ...form, operator: e.target.value as ">" | "<" })}
+											className={`${inputClass} w-20`}
+										>
+											<option value=">">&gt;</option>
+											<option value="<">&lt;</option>
+										</select>
+										<input
+											type="number"
+											step="any"
+											value={form.threshold}
+											onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+											placeholder={`Threshold${spec.unit ? ` (${spec.unit})` : ""}`}
+											className={inputClass}
+											required
+										/>
+									</div>
+								)}
+								<label className="flex items-center gap-2 text-sm text-gray-400">
+									<span className="whitespace-nowrap">For</span>
+									<input
+										type="number"
+										min="0"
+										max="1440"
+										step="any"
+										value={form.forMinutes}
+										onChange={(e) => setForm({ ...form, forMinutes: e.target.value })}
+										className={inputClass}
+									/>
+									<span className="whitespace-nowrap">minutes</span>
+								</label>
+								<select
+									value={form.severity}
+									onChange={(e) => setForm({ ...form, severity: e.target.value as Severity })}
+									className={inputClass}
+								>
+									<option value="info">Info</option>
+									<option value="warning">Warning</option>
+									<option value="critical">Critical</option>
+								</select>
+							</div>
+							<div>
+								<p className="text-xs text-gray-500 mb-2">Notify</p>
+								{channels.length === 0 ? (
+									<p className="text-xs text-gray-600">No channels yet; the rule is recorded in history only.</p>
+								) : (
+									<div className="flex flex-wrap gap-3">
+										{channels.map((c) => (
+											<label key={c.id} className="flex items-center gap-2 text-sm text-gray-300">
+												<input
+													type="checkbox"
+													checked={form.channels.includes(c.id)}
+													onChange={() =>
+														setForm({
+															...form,
+															channels: form.channels.includes(c.id)
+																? form.channels.filter((id) => id !== c.id)
+																: [...form.channels, c.id],
+														})
+													}
+													className="accent-accent"
+												/>
+												{c.name}
+											</label>
+										))}
+									</div>
+								)}
+							</div>
+							<label className="flex items-center gap-2 text-sm text-gray-300">
+								<input
+									type="checkbox"
+									checked={form.enabled}
+									onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+									className="accent-accent"
+								/>
+								Enabled
+							</label>
+							<div className="flex justify-end gap-2">
+								<button
+									type="button"
+									onClick={() => setEditing(null)}
+									className="rounded-lg px-3 py-1.5 text-xs text-gray-400 transition hover:bg-white/10 hover:text-white"
+								>
+									Cancel
+								</button>
+								<button
+									type="submit"
+									disabled={saving}
+									className="rounded-lg bg-accent/20 px-3 py-1.5 text-xs font-medium text-accent transition hover:bg-accent/30 disabled:opacity-50"
+								>
+									{saving ? "Saving..." : "Save rule"}
+								</button>
+							</div>
+						</form>
+					)}
+
+					<div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+						{loading ? null : rules.length === 0 ? (
+							<div className="glass-card col-span-full text-center">
+								<p className="text-sm text-gray-500">No alert rules configured</p>
+							</div>
+						) : (
+							rules.map((rule) => (
+								<div key={rule.id} className={`glass-card ${rule.enabled ? "" : "opacity-60"}`}>
+									<div className="flex items-start justify-between gap-2">
+										<h4 className="truncate text-sm font-semibold">{rule.name}</h4>
+										<div className="flex shrink-0 gap-1">
+											{rule.silenced && (
+												<span className="rounded-full bg-gray-500/20 px-2 py-0.5 text-[10px] font-medium uppercase text-gray-400">
+													silenced
+												</span>
+											)}
+											<span className={`rounded-full px-2 py-0.5 text-[10px] font-medium uppercase ${SEVERITY_STYLES[rule.severity]}`}>
+												{rule.severity}
+											</span>
+											<span
+												className={`rounded-full px-2 py-0.5 text-[10px] font-medium uppercase ${
+													rule.enabled ? STATE_STYLES[rule.state] : "bg-gray-500/20 text-gray-400"
+												}`}
+											>
+												{rule.enabled ? rule.state : "disabled"}
+											</span>
+										</div>
+									</div>
+									<p className="mt-1 text-xs text-gray-400">{describeRule(rule, kinds)}</p>
+									{rule.lastValue && (
+										<p className="text-xs text-gray-500">
+											Current: {rule.lastValue}
+											{rule.stateSince && ` · ${rule.state} since ${new Date(rule.stateSince).toLocaleString()}`}
+										</p>
+									)}
+									<p className="text-xs text-gray-500">
+										{rule.channels.length === 0
+											? "No notifications"
+											: `Notifies ${rule.channels.map((id) => channels.find((c) => c.id === id)?.name ?? `#${id}`).join(", ")}`}
+									</p>
+									{canWrite && (
+										<div className="mt-3 flex gap-2">
+											<button
+												onClick={() => startEdit(rule)}
+												className="rounded-lg bg-blue-500/20 px-3 py-1.5 text-xs font-medium text-blue-400 transition hover:bg-blue-500/30"
+											>
+												Edit
+											</button>
+											<button
+												onClick={() => toggleRule(rule)}
+												className="rounded-lg bg-white/5 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-white/10"
+											>
+												{rule.enabled ? "Disable" : "Enable"}
+											</button>
+											<button
+												onClick={() => deleteRule(rule)}
+												className="rounded-lg bg-red-500/20 px-3 py-1.5 text-xs font-medium text-red-400 transition hover:bg-red-500/30"
+											>
+												Delete
+											</button>
+										</div>
+									)}
+								</div>
+							))
+						)}
+					</div>
+				</div>
+			)}
+
+			{tab === "channels" && (
+				<AlertChannels channels={channels} types={channelTypes} canWrite={canWrite} onChange={fetchAll} />
+			)}
+
+			{tab === "silences" && <AlertSilences rules={rules} canWrite={canWrite} onChange={fetchRules} />}
+
+			{tab === "history" && <AlertHistory rules={rules} />}
+		</div>
+	);
+}
@@ -0,0 +1,227 @@
+/**
+ * AlertSilences.tsx - Maintenance windows that mute notifications (Alerts page tab)
+ * Silenced rules keep changing state and are still recorded in history.
+ */
+import { useState, useEffect } from "react";
+import type { Rule } from "./alert-manager";
+
+interface Silence {
+	id: number;
+	ruleId: number | null;
+	ruleName?: string;
+	startsAt: string;
+	endsAt: string;
+	reason: string;
+	active: boolean;
+	createdBy: string;
+}
+
+const inputClass =
+	"w-full rounded-xl border border-border-dim bg-white/5 px-3 py-2 text-sm text-gray-200 placeholder-gray-600 outline-none transition focus:border-accent/50 focus:ring-1 focus:ring-accent/30";
+
+const DURATIONS = [
+	{ value: "30", label: "30 minutes" },
+	{ value: "60", label: "1 hour" },
+	{ value: "240", label: "4 hours" },
+	{ value: "1440", label: "1 day" },
+	{ value: "10080", label: "1 week" },
+	{ value: "custom", label: "Custom window" },
+];
+
+/** Value for a datetime-local input, in local time. */
+function localInput(date: Date): string {
+	return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+interface Props {
+	rules: Rule[];
+	canWrite: boolean;
+	onChange: () => void;
+}
+
+export default function AlertSilences({ rules, canWrite, onChange }: Props) {
+	const [silences, setSilences] = useState<Silence[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [ruleId, setRuleId] = useState("");
+	const [duration, setDuration] = useState("60");
+	const [startsAt, setStartsAt] = useState(() => localInput(new Date()));
+	const [endsAt, setEndsAt] = useState(() => localInput(new Date(Date.now() + 3600000)));
+	const [reason, setReason] = useState("");
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		load();
+	}, []);
+
+	async function load() {
+		try {
+			const res = await fetch("/api/modules/alerts/silences", { credentials: "same-origin" });
+			const data = await res.json();
+			setSilences(Array.isArray(data.silences) ? data.silences : []);
+		} catch {
+			setError("Failed to load silences");
+		} finally {
+			setLoading(false);
+		}
+	}
+
+	async function create(e: React.FormEvent) {
+		e.preventDefault();
+		setSaving(true);
+		setError(null);
+		const window =
+			duration === "custom"
+				? { startsAt: new Date(startsAt).toISOString(), endsAt: new Date(endsAt).toISOString() }
+				: { endsAt: new Date(Date.now() + Number(duration) * 60000).toISOString() };
+		try {
+			const res = await fetch("/api/modules/alerts/silences", {
+				method: "POST",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ ruleId: ruleId ? Number(ruleId) : undefined, reason, ...window }),
+			});
+			const data = await res.json();
+			if (!res.ok) {
+				setError(data.error || "Failed to create silence");
+				return;
+			}
+			setReason("");
+			load();
+			onChange();
+		} catch {
+			setError("Failed to create silence");
+		} finally {
+			setSaving(false);
+		}
+	}
+
+	async function remove(silence: Silence) {
+		if (!confirm(silence.active ? "End this silence now?" : "Remove this silence?")) return;
+		const res = await fetch(`/api/modules/alerts/silences/${silence.id}`, { method: "DELETE", credentials: "same-origin" });
+		if (!res.ok) setError((await res.json()).error || "Failed to remove silence");
+		load();
+		onChange();
+	}
+
+	const now = new Date().toISOString();
+
+	return (
+		<div className="space-y-4">
+			{canWrite && (
+				<form onSubmit={create} className="glass-card space-y-3">
+					<div>
+						<h4 className="text-sm font-semibold">Silence notifications</h4>
+						<p className="text-xs text-gray-500">
+							Rules keep being evaluated and recorded in history, but no notifications are sent during the window.
+						</p>
+					</div>
+					<div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+						<select value={ruleId} onChange={(e) => setRuleId(e.target.value)} className={inputClass}>
+							<option value="">All rules</option>
+							{rules.map((r) => (
+								<option key={r.id} value={r.id}>
+									{r.name}
+								</option>
+							))}
+						</select>
+						<select value={duration} onChange={(e) => setDuration(e.target.value)} className={inputClass}>
+							{DURATIONS.map((d) => (
+								<option key={d.value} value={d.value}>
+									{d.label}
+								</option>
+							))}
+						</select>
+						<input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason (optional)" maxLength={200} className={inputClass} />
+						{duration === "custom" && (
+							<>
+								<label className="space-y-1">
+									<span className="text-xs text-gray-400">Starts</span>
+									<input type="datetime-local" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} className={inputClass} required />
+								</label>
+								<label className="space-y-1">
+									<span className="text-xs text-gray-400">Ends</span>
+									<input type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} className={inputClass} required />
+								</label>
+							</>
+						)}
+					</div>
+					<div className="flex justify-end">
+						<button
+							type="submit"
+							disabled={saving}
+							className="rounded-lg bg-accent/20 px-3 py-1.5 text-xs font-medium text-accent transition hover:bg-accent/30 disabled:opacity-50"
+						>
+							{saving ? "Saving..." : "Add silence"}
+						</button>
+					</div>
+				</form>
+			)}
+
+			{error && <div className="rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">{error}</div>}
+
+			<div className="glass-card overflow-x-auto p-0">
+				<table className="w-full">
+					<thead className="border-b border-border-dim">
+						<tr>
+							<th className="px-4 py-2 text-left text-xs font-medium text-gray-400">Rule</th>
+							<th className="px-4 py-2 text-left text-xs font-medium text-gray-400">Window</th>
+							<th className="px-4 py-2 text-left text-xs font-medium text-gray-400">Reason</th>
+							<th className="px-4 py-2 text-left text-xs font-medium text-gray-400">Status</th>
+							{canWrite && <th className="px-4 py-2" />}
+						</tr>
+					</thead>
+					<tbody className="divide-y divide-border-dim">
+						{loading ? null : silences.length === 0 ? (
+							<tr>
+								<td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">
+									No current or recent silences
+								</td>
+							</tr>
+						) : (
+							silences.map((s) => {
+								const status = s.active ? "active" : s.startsAt > now ? "scheduled" : "ended";
+								return (
+									<tr key={s.id}>
+										<td className="px-4 py-2 text-sm">{s.ruleId === null ? "All rules" : (s.ruleName ?? `#${s.ruleId}`)}</td>
+										<td className="px-4 py-2 text-xs text-gray-400">
+											{new Date(s.startsAt).toLocaleString()} – {new Date(s.endsAt).toLocaleString()}
+										</td>
+										<td className="px-4 py-2 text-xs text-gray-400">
+											{s.reason || "—"} <span className="text-gray-600">· {s.createdBy}</span>
+										</td>
+										<td className="px-4 py-2">
+											<span
+												className={`rounded-full px-2 py-0.5 text-[10px] font-medium uppercase ${
+													status === "active"
+														? "bg-blue-500/20 text-blue-400"
+														: status === "scheduled"
+															? "bg-yellow-500/20 text-yellow-400"
+															: "bg-gray-500/20 text-gray-400"
+												}`}
+											>
+												{status}
+											</span>
+										</td>
+										{canWrite && (
+											<td className="px-4 py-2 text-right">
+												{status !== "ended" && (
+													<button
+														onClick={() => remove(s)}
+														className="rounded-lg bg-red-500/20 px-3 py-1 text-xs font-medium text-red-400 transition hover:bg-red-500/30"
+													>
+														{status === "active" ? "End" : "Remove"}
+													</button>
+												)}
+											</td>
+										)}
+									</tr>
+								);
+							})
+						)}
+					</tbody>
+				</table>
+			</div>
+		</div>
+	);
+}
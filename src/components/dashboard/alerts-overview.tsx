@@ -0,0 +1,107 @@
+/**
+ * AlertsOverview.tsx – Active alerts and recent alert history (dashboard React island)
+ */
+import { useEffect, useState } from "react";
+
+interface Rule {
+	id: number;
+	name: string;
+	severity: "info" | "warning" | "critical";
+	enabled: boolean;
+	state: "ok" | "pending" | "firing" | "resolved";
+	stateSince?: string;
+	lastValue?: string;
+	silenced: boolean;
+}
+
+interface AlertEvent {
+	id: number;
+	ruleName: string;
+	state: "firing" | "resolved";
+	message: string;
+	createdAt: string;
+}
+
+const POLL_MS = 15000;
+
+export default function AlertsOverview() {
+	const [rules, setRules] = useState<Rule[] | null>(null);
+	const [events, setEvents] = useState<AlertEvent[]>([]);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		const load = async () => {
+			try {
+				const [rulesRes, historyRes] = await Promise.all([
+					fetch("/api/modules/alerts/rules", { credentials: "same-origin" }),
+					fetch("/api/modules/alerts/history?limit=5", { credentials: "same-origin" }),
+				]);
+				if (!rulesRes.ok || !historyRes.ok) throw new Error("Failed to fetch");
+				setRules((await rulesRes.json()).rules ?? []);
+				setEvents((await historyRes.json()).events ?? []);
+				setError(null);
+			} catch {
+				setError("Unable to load alerts");
+			}
+		};
+		load();
+		const interval = setInterval(load, POLL_MS);
+		return () => clearInterval(interval);
+	}, []);
+
+	if (error) {
+		return (
+			<div className="glass-card text-center">
+				<p className="text-sm text-red-400">{error}</p>
+			</div>
+		);
+	}
+
+	if (!rules) {
+		return <div className="glass-card h-32 animate-pulse" />;
+	}
+
+	const active = rules.filter((r) => r.enabled && (r.state === "firing" || r.state === "pending"));
+
+	return (
+		<div className="glass-card space-y-3">
+			<div className="flex items-center justify-between">
+				<h3 className="text-sm font-semibold">Alerts</h3>
+				<a href="/alerts" className="text-xs text-accent hover:underline">
+					View all →
+				</a>
+			</div>
+
+			{active.length === 0 ? (
+				<p className="text-xs text-emerald-400">
+					{rules.length === 0 ? "No alert rules configured" : `All ${rules.filter((r) => r.enabled).length} rules OK`}
+				</p>
+			) : (
+				<ul className="space-y-1.5">
+					{active.map((rule) => (
+						<li key={rule.id} className="flex items-center gap-2 text-sm">
+							<span className={`h-2 w-2 shrink-0 rounded-full ${rule.state === "firing" ? "bg-red-500" : "bg-yellow-500"}`} />
+							<span className="truncate">{rule.name}</span>
+							<span className="text-xs text-gray-500">
+								{rule.state}
+								{rule.lastValue && ` · ${rule.lastValue}`}
+								{rule.silenced && " · silenced"}
+							</span>
+						</li>
+					))}
+				</ul>
+			)}
+
+			{events.length > 0 && (
+				<div className="space-y-1 border-t border-border-dim pt-2">
+					{events.map((e) => (
+						<p key={e.id} className="truncate text-xs text-gray-500">
+							<span className={e.state === "firing" ? "text-red-400" : "text-emerald-400"}>{e.state}</span>{" "}
+							{new Date(e.createdAt).toLocaleString()} · {e.message}
+						</p>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
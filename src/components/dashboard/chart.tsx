@@ -12,6 +12,8 @@ interface SparklineProps {
 	filled?: boolean;
 	label?: string;
 	className?: string;
+	/** Stretch to the container's width (`width` only sets the aspect of the drawing). */
+	fluid?: boolean;
 }
 
 export default function Chart({
@@ -22,6 +24,7 @@ export default function Chart({
 	filled = true,
 	label,
 	className = "",
+	fluid = false,
 }: SparklineProps) {
 	if (!data.length) {
 		return (
@@ -48,9 +51,15 @@ export default function Chart({
 	const fillPath = `${linePath} L ${padding + effectiveW},${padding + effectiveH} L ${padding},${padding + effectiveH} Z`;
 
 	return (
-		<div className={`inline-flex flex-col items-start ${className}`}>
+		<div className={`${fluid ? "flex w-full" : "inline-flex"} flex-col items-start ${className}`}>
 			{label && <span className="mb-1 text-[10px] font-medium uppercase tracking-wider text-gray-500">{label}</span>}
-			<svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+			<svg
+				width={fluid ? "100%" : width}
+				height={height}
+				viewBox={`0 0 ${width} ${height}`}
+				preserveAspectRatio={fluid ? "none" : undefined}
+				className="overflow-visible"
+			>
 				{filled && (
 					<path d={fillPath} fill={color} fillOpacity={0.15} />
 				)}
@@ -61,9 +70,10 @@ export default function Chart({
 					strokeWidth={1.5}
 					strokeLinecap="round"
 					strokeLinejoin="round"
+					vectorEffect={fluid ? "non-scaling-stroke" : undefined}
 				/>
-				{/* Latest value dot */}
-				{data.length > 0 && (
+				{/* Latest value dot (it would be stretched in fluid mode) */}
+				{data.length > 0 && !fluid && (
 					<circle
 						cx={padding + effectiveW}
 						cy={padding + effectiveH - ((data[data.length - 1] - min) / range) * effectiveH}
@@ -126,3 +136,125 @@ export function LiveChart({
 
 	return <Chart data={data} color={color} label={label} height={height} width={width} className={className} />;
 }
+
+/**
+ * HistoryChart – Stored metric history (/api/system/history) with a range picker.
+ */
+export const HISTORY_RANGES = [
+	{ id: "1h", label: "1h", ms: 60 * 60 * 1000 },
+	{ id: "24h", label: "24h", ms: 24 * 60 * 60 * 1000 },
+	{ id: "7d", label: "7d", ms: 7 * 24 * 60 * 60 * 1000 },
+	{ id: "30d", label: "30d", ms: 30 * 24 * 60 * 60 * 1000 },
+] as const;
+
+export type HistoryRange = (typeof HISTORY_RANGES)[number]["id"];
+
+interface HistoryChartProps {
+	metric: string;
+	color?: string;
+	label?: string;
+	format?: (value: number) => string;
+	range?: HistoryRange;
+	onRangeChange?: (range: HistoryRange) => void;
+	height?: number;
+	className?: string;
+}
+
+function formatTick(ms: number, rangeMs: number): string {
+	const date = new Date(ms);
+	return rangeMs > 24 * 60 * 60 * 1000
+		? date.toLocaleDateString(undefined, { month: "short", day: "numeric" })
+		: date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+export function HistoryChart({
+	metric,
+	color = "#3b82f6",
+	label,
+	format = (v) => v.toFixed(1),
+	range: controlledRange,
+	onRangeChange,
+	height = 120,
+	className = "",
+}: HistoryChartProps) {
+	const [ownRange, setOwnRange] = useState<HistoryRange>("1h");
+	const range = controlledRange ?? ownRange;
+	const [points, setPoints] = useState<Array<[number, number]>>([]);
+	const [span, setSpan] = useState<{ from: number; to: number } | null>(null);
+	const [loading, setLoading] = useState(true);
+
+	useEffect(() => {
+		const rangeMs = HISTORY_RANGES.find((r) => r.id === range)!.ms;
+		let cancelled = false;
+		const fetchData = async () => {
+			const to = Date.now();
+			const from = to - rangeMs;
+			try {
+				const res = await fetch(`/api/system/history?metric=${metric}&from=${from}&to=${to}`);
+				const json = await res.json();
+				if (!cancelled && Array.isArray(json.points)) {
+					setPoints(json.points);
+					setSpan({ from, to });
+				}
+			} catch {
+				// Keep showing the last data we had
+			} finally {
+				if (!cancelled) setLoading(false);
+			}
+		};
+
+		setLoading(true);
+		fetchData();
+		// Short ranges move visibly; long ones only gain a point every few minutes
+		const timer = window.setInterval(fetchData, rangeMs <= 60 * 60 * 1000 ? 30_000 : 5 * 60_000);
+		return () => {
+			cancelled = true;
+			clearInterval(timer);
+		};
+	}, [metric, range]);
+
+	function selectRange(next: HistoryRange) {
+		if (onRangeChange) onRangeChange(next);
+		else setOwnRange(next);
+	}
+
+	const values = points.map(([, v]) => v);
+	const rangeMs = span ? span.to - span.from : 0;
+
+	return (
+		<div className={`flex flex-col gap-2 ${className}`}>
+			<div className="flex items-center justify-between gap-2">
+				{label && <span className="text-xs font-medium uppercase tracking-wider text-gray-400">{label}</span>}
+				<div className="ml-auto flex gap-1 rounded-lg bg-white/5 p-0.5">
+					{HISTORY_RANGES.map((r) => (
+						<button
+							key={r.id}
+							onClick={() => selectRange(r.id)}
+							className={`rounded-md px-2 py-0.5 text-[11px] font-medium transition ${
+								range === r.id ? "bg-accent/20 text-accent" : "text-gray-400 hover:text-gray-200"
+							}`}
+						>
+							{r.label}
+						</button>
+					))}
+				</div>
+			</div>
+			{values.length > 1 ? (
+				<>
+					<Chart data={values} color={color} height={height} width={600} fluid />
+					<div className="flex justify-between text-[10px] text-gray-500">
+						<span>{formatTick(points[0][0], rangeMs)}</span>
+						<span>
+							avg {format(values.reduce((a, b) => a + b, 0) / values.length)} · max {format(Math.max(...values))}
+						</span>
+						<span>{formatTick(points[points.length - 1][0], rangeMs)}</span>
+					</div>
+				</>
+			) : (
+				<div className="flex items-center justify-center text-xs text-gray-500" style={{ height }}>
+					{loading ? "Loading..." : "No history recorded for this range yet"}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -1,9 +1,11 @@
 /**
  * DashboardStats.jsx – Auto-refreshing system stats panel (React island).
- * Fetches system data periodically and renders stat cards + sparklines.
+ * Fetches system data periodically and renders stat cards + sparklines,
+ * plus a stored-history chart with range selection.
  */
 import { useState, useEffect, useRef } from "react";
-import Chart from "./chart.tsx";
+import Chart, { HistoryChart, type HistoryRange } from "./chart.tsx";
+import { formatBytes } from "../../lib/utils";
 
 interface SystemStats {
 	cpu?: { percent?: number; cores?: number; loadAvg?: string };
@@ -19,10 +21,35 @@ interface History {
 	disk: number[];
 }
 
+const SPARKLINE_POINTS = 20;
+
+const HISTORY_METRICS = [
+	{ id: "cpu", label: "CPU", color: "#3b82f6", format: (v: number) => `${v.toFixed(1)}%` },
+	{ id: "memory", label: "Memory", color: "#8b5cf6", format: (v: number) => `${v.toFixed(1)}%` },
+	{ id: "disk", label: "Disk", color: "#f59e0b", format: (v: number) => `${v.toFixed(1)}%` },
+	{ id: "net_rx", label: "Net ↓", color: "#06b6d4", format: (v: number) => `${formatBytes(v)}/s` },
+	{ id: "net_tx", label: "Net ↑", color: "#14b8a6", format: (v: number) => `${formatBytes(v)}/s` },
+	{ id: "load1", label: "Load", color: "#ec4899", format: (v: number) => v.toFixed(2) },
+];
+
+/** The last few stored samples, so sparklines don't start empty after a refresh. */
+async function fetchRecent(metric: string): Promise<number[]> {
+	try {
+		const to = Date.now();
+		const res = await fetch(`/api/system/history?metric=${metric}&from=${to - 5 * 60_000}&to=${to}&step=10`);
+		const json = await res.json();
+		return Array.isArray(json.points) ? json.points.slice(-SPARKLINE_POINTS).map(([, v]: [number, number]) => v) : [];
+	} catch {
+		return [];
+	}
+}
+
 export default function DashboardStats() {
 	const [stats, setStats] = useState<SystemStats | null>(null);
 	const [history, setHistory] = useState<History>({ cpu: [], ram: [], disk: [] });
 	const [error, setError] = useState<string | null>(null);
+	const [historyMetric, setHistoryMetric] = useState(HISTORY_METRICS[0]);
+	const [historyRange, setHistoryRange] = useState<HistoryRange>("1h");
 	const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
 	const fetchStats = async () => {
@@ -33,9 +60,9 @@ export default function DashboardStats() {
 			setStats(data);
 			setError(null);
 			setHistory((prev) => ({
-				cpu: [...prev.cpu.slice(-19), data.cpu?.percent ?? 0],
-				ram: [...prev.ram.slice(-19), data.memory?.usedPercent ?? 0],
-				disk: [...prev.disk.slice(-19), data.disk?.usedPercent ?? 0],
+				cpu: [...prev.cpu.slice(-(SPARKLINE_POINTS - 1)), data.cpu?.percent ?? 0],
+				ram: [...prev.ram.slice(-(SPARKLINE_POINTS - 1)), data.memory?.usedPercent ?? 0],
+				disk: [...prev.disk.slice(-(SPARKLINE_POINTS - 1)), data.disk?.usedPercent ?? 0],
 			}));
 		} catch (err) {
 			setError("Unable to connect to system API");
@@ -43,6 +70,14 @@ export default function DashboardStats() {
 	};
 
 	useEffect(() => {
+		Promise.all([fetchRecent("cpu"), fetchRecent("memory"), fetchRecent("disk")]).then(([cpu, ram, disk]) => {
+			// Stored samples go before whatever live polling has added meanwhile
+			setHistory((prev) => ({
+				cpu: [...cpu, ...prev.cpu].slice(-SPARKLINE_POINTS),
+				ram: [...ram, ...prev.ram].slice(-SPARKLINE_POINTS),
+				disk: [...disk, ...prev.disk].slice(-SPARKLINE_POINTS),
+			}));
+		});
 		fetchStats();
 		intervalRef.current = setInterval(fetchStats, 3000);
 		return () => {
@@ -132,35 +167,62 @@ export default function DashboardStats() {
 	];
 
 	return (
-		<div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
-			{cards.map((card, i) => (
-				<div key={i} className="glass-card flex flex-col gap-3">
-					<div className="flex items-start justify-between">
-						<div className="flex items-center gap-3">
-							<div className="flex h-10 w-10 items-center justify-center rounded-xl bg-white/5">
-								{card.icon}
-							</div>
-							<div>
-								<p className="text-xs font-medium uppercase tracking-wider text-gray-400">{card.label}</p>
-								<p className="mt-0.5 text-2xl font-bold tracking-tight">{card.value}</p>
+		<div className="space-y-4">
+			<div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+				{cards.map((card, i) => (
+					<div key={i} className="glass-card flex flex-col gap-3">
+						<div className="flex items-start justify-between">
+							<div className="flex items-center gap-3">
+								<div className="flex h-10 w-10 items-center justify-center rounded-xl bg-white/5">
+									{card.icon}
+								</div>
+								<div>
+									<p className="text-xs font-medium uppercase tracking-wider text-gray-400">{card.label}</p>
+									<p className="mt-0.5 text-2xl font-bold tracking-tight">{card.value}</p>
+								</div>
 							</div>
+							{card.history.length > 1 && (
+								<Chart data={card.history} color={card.color} height={36} width={80} />
+							)}
 						</div>
-						{card.history.length > 1 && (
-							<Chart data={card.history} color={card.color} height={36} width={80} />
+						<p className="text-xs text-gray-500">{card.subtitle}</p>
+						{card.percent !== undefined && (
+							<div className="h-1.5 w-full overflow-hidden rounded-full bg-white/5">
+								<div
+									className={`h-full rounded-full transition-all duration-500 ${card.percent >= 90 ? "bg-red-500" : card.percent >= 70 ? "bg-yellow-500" : "bg-blue-500"
+										}`}
+									style={{ width: `${Math.min(card.percent, 100)}%` }}
+								/>
+							</div>
 						)}
 					</div>
-					<p className="text-xs text-gray-500">{card.subtitle}</p>
-					{card.percent !== undefined && (
-						<div className="h-1.5 w-full overflow-hidden rounded-full bg-white/5">
-							<div
-								className={`h-full rounded-full transition-all duration-500 ${card.percent >= 90 ? "bg-red-500" : card.percent >= 70 ? "bg-yellow-500" : "bg-blue-500"
-									}`}
-								style={{ width: `${Math.min(card.percent, 100)}%` }}
-							/>
-						</div>
-					)}
+				))}
+			</div>
+
+			{/* Stored history (see lib/metrics-history.ts) */}
+			<div className="glass-card space-y-3">
+				<div className="flex flex-wrap gap-1">
+					{HISTORY_METRICS.map((m) => (
+						<button
+							key={m.id}
+							onClick={() => setHistoryMetric(m)}
+							className={`rounded-lg px-3 py-1 text-xs font-medium transition ${
+								historyMetric.id === m.id ? "bg-white/10 text-white" : "text-gray-400 hover:text-gray-200"
+							}`}
+						>
+							{m.label}
+						</button>
+					))}
 				</div>
-			))}
+				<HistoryChart
+					metric={historyMetric.id}
+					label={`${historyMetric.label} history`}
+					color={historyMetric.color}
+					format={historyMetric.format}
+					range={historyRange}
+					onRangeChange={setHistoryRange}
+				/>
+			</div>
 		</div>
 	);
 }
@@ -0,0 +1,195 @@
+/**
+ * DiskUsage.tsx – Usage of every mounted filesystem and per-disk throughput (React island).
+ * Polls /api/system/disks; I/O rates cover the interval since the last poll.
+ */
+import { useEffect, useState } from "react";
+import { formatBytes } from "../../lib/utils";
+
+interface Mount {
+	device: string;
+	mountpoint: string;
+	fstype: string;
+	size: number;
+	used: number;
+	available: number;
+	inodesTotal: number;
+	inodesUsed: number;
+	readOnly: boolean;
+}
+
+interface DiskRate {
+	name: string;
+	readRate: number;
+	writeRate: number;
+	readOps: number;
+	writeOps: number;
+	busy: number;
+	readTotal: number;
+	writeTotal: number;
+}
+
+interface Disks {
+	mounts: Mount[];
+	io: { readRate: number; writeRate: number; disks: DiskRate[] };
+	_error?: string;
+}
+
+const POLL_MS = 5000;
+
+/** Same thresholds as the dashboard stat cards. */
+function usageColor(percent: number): string {
+	if (percent >= 90) return "bg-red-500";
+	if (percent >= 70) return "bg-yellow-500";
+	return "bg-blue-500";
+}
+
+function percentOf(used: number, total: number): number {
+	return total > 0 ? Math.round((used / total) * 1000) / 10 : 0;
+}
+
+export default function DiskUsage({ showAlertsLink = false }: { showAlertsLink?: boolean }) {
+	const [disks, setDisks] = useState<Disks | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		const load = async () => {
+			try {
+				const res = await fetch("/api/system/disks");
+				if (!res.ok) throw new Error("Failed to fetch");
+				setDisks(await res.json());
+				setError(null);
+			} catch {
+				setError("Unable to load disk usage");
+			}
+		};
+		load();
+		const interval = setInterval(load, POLL_MS);
+		return () => clearInterval(interval);
+	}, []);
+
+	if (error) {
+		return (
+			<div className="glass-card text-center">
+				<p className="text-sm text-red-400">{error}</p>
+			</div>
+		);
+	}
+
+	if (!disks) {
+		return <div className="glass-card h-32 animate-pulse" />;
+	}
+
+	return (
+		<div className="space-y-4">
+			<div className="glass-card overflow-x-auto p-0">
+				<div className="flex items-center justify-between px-4 pt-4">
+					<h3 className="text-sm font-semibold">Filesystems</h3>
+					{showAlertsLink && (
+						<a href="/alerts" className="text-xs text-accent transition hover:underline">
+							Alert on nearly-full mounts →
+						</a>
+					)}
+				</div>
+				{disks.mounts.length === 0 ? (
+					<p className="p-4 text-xs text-gray-500">{disks._error ?? "No mounted filesystems found"}</p>
+				) : (
+					<table className="mt-2 w-full">
+						<thead className="border-b border-border-dim">
+							<tr>
+								<th className="px-4 py-2 text-left text-xs font-medium text-gray-400">Mount point</th>
+								<th className="px-4 py-2 text-left text-xs font-medium text-gray-400">Device</th>
+								<th className="px-4 py-2 text-left text-xs font-medium text-gray-400">Usage</th>
+								<th className="px-4 py-2 text-right text-xs font-medium text-gray-400">Free</th>
+								<th className="px-4 py-2 text-right text-xs font-medium text-gray-400">Inodes</th>
+							</tr>
+						</thead>
+						<tbody className="divide-y divide-border-dim">
+							{disks.mounts.map((m) => {
+								const percent = percentOf(m.used, m.size);
+								const inodePercent = percentOf(m.inodesUsed, m.inodesTotal);
+								return (
+									<tr key={m.mountpoint}>
+										<td className="px-4 py-2 font-mono text-xs">
+											{m.mountpoint}
+											{m.readOnly && (
+												<span className="ml-2 rounded-full bg-yellow-500/20 px-2 py-0.5 font-sans text-[10px] font-medium uppercase text-yellow-400">
+													read-only
+												</span>
+											)}
+										</td>
+										<td className="px-4 py-2 text-xs text-gray-400">
+											<span className="font-mono">{m.device}</span> <span className="text-gray-600">· {m.fstype}</span>
+										</td>
+										<td className="min-w-48 px-4 py-2">
+											<div className="flex items-center gap-3">
+												<div className="h-2 flex-1 overflow-hidden rounded-full bg-white/5">
+													<div
+														className={`h-full transition-all duration-500 ${usageColor(percent)}`}
+														style={{ width: `${Math.min(percent, 100)}%` }}
+													/>
+												</div>
+												<span className="w-12 shrink-0 text-right text-xs font-medium tabular-nums">{percent.toFixed(1)}%</span>
+											</div>
+											<p className="mt-0.5 text-[11px] text-gray-500 tabular-nums">
+												{formatBytes(m.used)} of {formatBytes(m.size)}
+											</p>
+										</td>
+										<td className="px-4 py-2 text-right text-xs tabular-nums">{formatBytes(m.available)}</td>
+										<td className="px-4 py-2 text-right text-xs tabular-nums">
+											{m.inodesTotal > 0 ? (
+												<span className={inodePercent >= 90 ? "text-yellow-400" : "text-gray-400"}>
+													{inodePercent.toFixed(1)}%
+												</span>
+											) : (
+												<span className="text-gray-600">—</span>
+											)}
+										</td>
+									</tr>
+								);
+							})}
+						</tbody>
+					</table>
+				)}
+			</div>
+
+			<div className="glass-card space-y-3">
+				<div className="flex items-center justify-between">
+					<h3 className="text-sm font-semibold">Disk I/O</h3>
+					<span className="text-xs text-gray-400 tabular-nums">
+						Read {formatBytes(disks.io.readRate)}/s · Write {formatBytes(disks.io.writeRate)}/s
+					</span>
+				</div>
+				{disks.io.disks.length === 0 ? (
+					<p className="text-xs text-gray-500">No block devices found</p>
+				) : (
+					<table className="w-full">
+						<thead className="border-b border-border-dim">
+							<tr>
+								<th className="px-2 py-1.5 text-left text-xs font-medium text-gray-400">Disk</th>
+								<th className="px-2 py-1.5 text-right text-xs font-medium text-gray-400">Read</th>
+								<th className="px-2 py-1.5 text-right text-xs font-medium text-gray-400">Write</th>
+								<th className="px-2 py-1.5 text-right text-xs font-medium text-gray-400">IOPS</th>
+								<th className="px-2 py-1.5 text-right text-xs font-medium text-gray-400">Busy</th>
+								<th className="px-2 py-1.5 text-right text-xs font-medium text-gray-400">Since boot</th>
+							</tr>
+						</thead>
+						<tbody className="divide-y divide-border-dim">
+							{disks.io.disks.map((d) => (
+								<tr key={d.name}>
+									<td className="px-2 py-1.5 font-mono text-xs">{d.name}</td>
+									<td className="px-2 py-1.5 text-right text-xs tabular-nums">{formatBytes(d.readRate)}/s</td>
+									<td className="px-2 py-1.5 text-right text-xs tabular-nums">{formatBytes(d.writeRate)}/s</td>
+									<td className="px-2 py-1.5 text-right text-xs tabular-nums">{d.readOps + d.writeOps}</td>
+									<td className="px-2 py-1.5 text-right text-xs tabular-nums">{d.busy.toFixed(1)}%</td>
+									<td className="px-2 py-1.5 text-right text-xs text-gray-500 tabular-nums">
+										R {formatBytes(d.readTotal)} · W {formatBytes(d.writeTotal)}
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				)}
+			</div>
+		</div>
+	);
+}
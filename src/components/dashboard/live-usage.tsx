@@ -0,0 +1,161 @@
+/**
+ * LiveUsage.tsx – Per-core CPU bars and per-interface network rates (React island).
+ * Polls /api/system, which reports usage over the interval since the last poll.
+ */
+import { useEffect, useState } from "react";
+import { formatBytes } from "../../lib/utils";
+
+interface CpuUsage {
+	percent: number;
+	user: number;
+	system: number;
+	iowait: number;
+	irq: number;
+	steal: number;
+}
+
+interface InterfaceRate {
+	name: string;
+	rxRate: number;
+	txRate: number;
+	rxTotal: number;
+	txTotal: number;
+}
+
+interface Usage {
+	cpu?: { percent?: number; breakdown?: Omit<CpuUsage, "percent"> | null; perCore?: CpuUsage[] };
+	network?: { rxRate?: number; txRate?: number; interfaces?: InterfaceRate[] };
+}
+
+const POLL_MS = 3000;
+
+/** Stacked in this order; idle is the empty remainder of the bar. */
+const CPU_STATES: Array<{ key: Exclude<keyof CpuUsage, "percent">; label: string; color: string }> = [
+	{ key: "user", label: "User", color: "bg-blue-500" },
+	{ key: "system", label: "System", color: "bg-purple-500" },
+	{ key: "iowait", label: "I/O wait", color: "bg-yellow-500" },
+	{ key: "irq", label: "IRQ", color: "bg-orange-500" },
+	{ key: "steal", label: "Steal", color: "bg-red-500" },
+];
+
+function CpuBar({ label, usage }: { label: string; usage: CpuUsage }) {
+	const title = CPU_STATES.map((s) => `${s.label} ${usage[s.key].toFixed(1)}%`).join(" · ");
+	return (
+		<div className="flex items-center gap-3" title={title}>
+			<span className="w-12 shrink-0 text-xs text-gray-400">{label}</span>
+			<div className="flex h-2.5 flex-1 overflow-hidden rounded-full bg-white/5">
+				{CPU_STATES.map((s) => (
+					<div
+						key={s.key}
+						className={`h-full transition-all duration-500 ${s.color}`}
+						style={{ width: `${Math.min(usage[s.key], 100)}%` }}
+					/>
+				))}
+			</div>
+			<span className="w-12 shrink-0 text-right text-xs font-medium tabular-nums">{usage.percent.toFixed(1)}%</span>
+		</div>
+	);
+}
+
+export default function LiveUsage() {
+	const [usage, setUsage] = useState<Usage | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		const load = async () => {
+			try {
+				const res = await fetch("/api/system");
+				if (!res.ok) throw new Error("Failed to fetch");
+				setUsage(await res.json());
+				setError(null);
+			} catch {
+				setError("Unable to load live usage");
+			}
+		};
+		load();
+		const interval = setInterval(load, POLL_MS);
+		return () => clearInterval(interval);
+	}, []);
+
+	if (error) {
+		return (
+			<div className="glass-card text-center">
+				<p className="text-sm text-red-400">{error}</p>
+			</div>
+		);
+	}
+
+	if (!usage) {
+		return <div className="glass-card h-32 animate-pulse" />;
+	}
+
+	const breakdown = usage.cpu?.breakdown;
+	const cores = usage.cpu?.perCore ?? [];
+	const interfaces = usage.network?.interfaces ?? [];
+
+	return (
+		<div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+			<div className="glass-card space-y-3">
+				<div className="flex flex-wrap items-center justify-between gap-2">
+					<h3 className="text-sm font-semibold">CPU</h3>
+					<div className="flex flex-wrap gap-3">
+						{CPU_STATES.map((s) => (
+							<span key={s.key} className="flex items-center gap-1.5 text-xs text-gray-400">
+								<span className={`h-2 w-2 rounded-full ${s.color}`} />
+								{s.label}
+								{breakdown && <span className="tabular-nums text-gray-500">{breakdown[s.key].toFixed(1)}%</span>}
+							</span>
+						))}
+					</div>
+				</div>
+				{breakdown ? (
+					<div className="space-y-2">
+						<CpuBar label="All" usage={{ ...breakdown, percent: usage.cpu?.percent ?? 0 }} />
+						<div className="space-y-1.5 border-t border-border-dim pt-2">
+							{cores.map((core, i) => (
+								<CpuBar key={i} label={`CPU ${i}`} usage={core} />
+							))}
+						</div>
+					</div>
+				) : (
+					<p className="text-xs text-gray-500">CPU statistics unavailable</p>
+				)}
+			</div>
+
+			<div className="glass-card space-y-3">
+				<div className="flex items-center justify-between">
+					<h3 className="text-sm font-semibold">Network</h3>
+					<span className="text-xs text-gray-400 tabular-nums">
+						↓ {formatBytes(usage.network?.rxRate ?? 0)}/s · ↑ {formatBytes(usage.network?.txRate ?? 0)}/s
+					</span>
+				</div>
+				{interfaces.length === 0 ? (
+					<p className="text-xs text-gray-500">No network interfaces found</p>
+				) : (
+					<table className="w-full">
+						<thead className="border-b border-border-dim">
+							<tr>
+								<th className="px-2 py-1.5 text-left text-xs font-medium text-gray-400">Interface</th>
+								<th className="px-2 py-1.5 text-right text-xs font-medium text-gray-400">↓ Rate</th>
+								<th className="px-2 py-1.5 text-right text-xs font-medium text-gray-400">↑ Rate</th>
+								<th className="px-2 py-1.5 text-right text-xs font-medium text-gray-400">Since boot</th>
+							</tr>
+						</thead>
+						<tbody className="divide-y divide-border-dim">
+							{interfaces.map((iface) => (
+								<tr key={iface.name}>
+									<td className="px-2 py-1.5 font-mono text-xs">{iface.name}</td>
+									<td className="px-2 py-1.5 text-right text-xs tabular-nums">{formatBytes(iface.rxRate)}/s</td>
+									<td className="px-2 py-1.5 text-right text-xs tabular-nums">{formatBytes(iface.txRate)}/s</td>
+									<td className="px-2 py-1.5 text-right text-xs text-gray-500 tabular-nums">
+										↓ {formatBytes(iface.rxTotal)} · ↑ {formatBytes(iface.txTotal)}
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				)}
+			</div>
+		</div>
+	);
+}
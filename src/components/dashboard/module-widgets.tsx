@@ -12,6 +12,8 @@ interface Widget {
 	component: string;
 	placement: string;
 	props?: Record<string, unknown>;
+	html?: string; // Server-rendered markup from external modules
+	error?: string;
 }
 
 interface Props {
@@ -27,7 +29,7 @@ export default function ModuleWidgets({ placement = "dashboard", className = ""
 	useEffect(() => {
 		async function fetchWidgets() {
 			try {
-				const res = await fetch(`/api/modules/widgets?placement=${placement}`);
+				const res = await fetch(`/api/modules/widgets?placement=${placement}`, { credentials: "same-origin" });
 				const data = await res.json();
 
 				if (data.widgets) {
@@ -68,10 +70,15 @@ export default function ModuleWidgets({ placement = "dashboard", className = ""
 					<div className="flex items-center justify-between mb-3">
 						<h3 className="text-sm font-medium text-gray-300">{widget.name}</h3>
 					</div>
-					{/* Widget content would be rendered here - for now shows placeholder */}
-					<div className="text-xs text-gray-500">
-						Widget: {widget.component}
-					</div>
+					{widget.error ? (
+						<div className="text-xs text-red-400">{widget.error}</div>
+					) : widget.html !== undefined ? (
+						<div dangerouslySetInnerHTML={{ __html: widget.html }} />
+					) : (
+						<div className="text-xs text-gray-500">
+							Widget: {widget.component}
+						</div>
+					)}
 				</div>
 			))}
 		</div>
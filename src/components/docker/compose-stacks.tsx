@@ -0,0 +1,562 @@
+/**
+ * ComposeStacks.tsx - Create, edit, validate, deploy and roll back Compose stacks (Docker page tab)
+ */
+import { useState, useEffect } from "react";
+import { createPortal } from "react-dom";
+import { readProgress } from "./images-tab";
+
+interface Stack {
+	name: string;
+	status: "running" | "partial" | "stopped";
+	latestVersion: number;
+	deployedVersion?: number;
+	deployedBy?: string;
+	deployedAt?: string;
+	updatedAt: string;
+}
+
+interface StackVersion {
+	version: number;
+	message?: string;
+	createdBy: string;
+	createdAt: string;
+}
+
+interface DiffLine {
+	type: "same" | "add" | "remove";
+	text: string;
+}
+
+interface StackDiff {
+	from?: number;
+	to: number;
+	compose: DiffLine[];
+	env: DiffLine[];
+}
+
+interface Draft {
+	/** Undefined while creating a new stack. */
+	name?: string;
+	newName: string;
+	compose: string;
+	env: string;
+	message: string;
+	/** Version the draft was loaded from. */
+	loadedVersion?: number;
+}
+
+interface Deploy {
+	stack: string;
+	version?: number;
+	diff?: StackDiff;
+	output: string;
+	running: boolean;
+	done: boolean;
+	error?: string;
+}
+
+const TEMPLATE = `services:
+  web:
+    image: nginx:alpine
+    ports:
+      - "8080:80"
+    restart: unless-stopped
+`;
+
+const inputClass =
+	"w-full rounded-xl border border-border-dim bg-white/5 px-3 py-2 text-sm text-gray-200 placeholder-gray-600 outline-none transition focus:border-accent/50 focus:ring-1 focus:ring-accent/30";
+
+const editorClass = `${inputClass} font-mono text-xs leading-5`;
+
+const buttonClass = "rounded-lg px-3 py-1.5 text-xs font-medium transition disabled:opacity-50";
+
+const statusClass: Record<Stack["status"], string> = {
+	running: "bg-emerald-500/20 text-emerald-400",
+	partial: "bg-yellow-500/20 text-yellow-400",
+	stopped: "bg-gray-500/20 text-gray-400",
+};
+
+/** Unchanged runs longer than this are folded, keeping a few lines of context around changes. */
+const CONTEXT = 3;
+
+function DiffView({ title, lines }: { title: string; lines: DiffLine[] }) {
+	const changed = lines.some((l) => l.type !== "same");
+	const rows: Array<DiffLine | { type: "fold"; count: number }> = [];
+	for (let i = 0; i < lines.length; ) {
+		if (lines[i].type !== "same") {
+			rows.push(lines[i++]);
+			continue;
+		}
+		let end = i;
+		while (end < lines.length && lines[end].type === "same") end++;
+		const keepBefore = i === 0 ? 0 : CONTEXT;
+		const keepAfter = end === lines.length ? 0 : CONTEXT;
+		if (end - i > keepBefore + keepAfter + 1) {
+			rows.push(...lines.slice(i, i + keepBefore));
+			rows.push({ type: "fold", count: end - i - keepBefore - keepAfter });
+			rows.push(...lines.slice(end - keepAfter, end));
+		} else {
+			rows.push(...lines.slice(i, end));
+		}
+		i = end;
+	}
+
+	return (
+		<div>
+			<h4 className="mb-1 text-xs font-semibold text-gray-400">{title}</h4>
+			{!changed ? (
+				<p className="text-xs text-gray-500">No changes</p>
+			) : (
+				<pre className="overflow-auto rounded-lg bg-black/40 p-2 font-mono text-xs">
+					{rows.map((row, i) =>
+						row.type === "fold" ? (
+							<div key={i} className="text-gray-600">
+								⋯ {row.count} unchanged line(s)
+							</div>
+						) : (
+							<div
+								key={i}
+								className={
+									row.type === "add" ? "bg-emerald-500/10 text-emerald-300" : row.type === "remove" ? "bg-red-500/10 text-red-300" : "text-gray-400"
+								}
+							>
+								{row.type === "add" ? "+ " : row.type === "remove" ? "- " : "  "}
+								{row.text}
+							</div>
+						)
+					)}
+				</pre>
+			)}
+		</div>
+	);
+}
+
+export default function ComposeStacks() {
+	const [stacks, setStacks] = useState<Stack[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [draft, setDraft] = useState<Draft | null>(null);
+	const [versions, setVersions] = useState<StackVersion[]>([]);
+	const [busy, setBusy] = useState<string | null>(null);
+	const [validation, setValidation] = useState<{ valid: boolean; error?: string } | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [deploy, setDeploy] = useState<Deploy | null>(null);
+
+	useEffect(() => {
+		load();
+	}, []);
+
+	async function load() {
+		try {
+			const res = await fetch("/api/docker/compose/stacks", { credentials: "same-origin" });
+			const data = await res.json();
+			setStacks(Array.isArray(data.stacks) ? data.stacks : []);
+		} catch {
+			setError("Failed to load stacks");
+		} finally {
+			setLoading(false);
+		}
+	}
+
+	async function open(name: string, version?: number) {
+		setError(null);
+		setValidation(null);
+		const res = await fetch(`/api/docker/compose/stacks/${name}${version ? `?version=${version}` : ""}`, {
+			credentials: "same-origin",
+		});
+		const data = await res.json();
+		if (!res.ok) {
+			setError(data.error || "Failed to load stack");
+			return;
+		}
+		setVersions(data.versions);
+		setDraft({
+			name,
+			newName: name,
+			compose: data.content.compose,
+			env: data.content.env,
+			message: "",
+			loadedVersion: data.content.version,
+		});
+	}
+
+	function create() {
+		setError(null);
+		setValidation(null);
+		setVersions([]);
+		setDraft({ newName: "", compose: TEMPLATE, env: "", message: "" });
+	}
+
+	async function validate() {
+		if (!draft) return;
+		const name = draft.name ?? draft.newName.trim();
+		if (!name) {
+			setValidation({ valid: false, error: "Enter a stack name first" });
+			return;
+		}
+		setBusy("validate");
+		try {
+			const res = await fetch(`/api/docker/compose/stacks/${name}/validate`, {
+				method: "POST",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ compose: draft.compose, env: draft.env }),
+			});
+			const data = await res.json();
+			setValidation(res.ok ? data : { valid: false, error: data.error || "Validation failed" });
+		} finally {
+			setBusy(null);
+		}
+	}
+
+	/** Save the draft as a new version; returns the stack name on success. */
+	async function save(): Promise<string | null> {
+		if (!draft) return null;
+		setBusy("save");
+		setError(null);
+		try {
+			const body = { compose: draft.compose, env: draft.env, message: draft.message };
+			const res = draft.name
+				? await fetch(`/api/docker/compose/stacks/${draft.name}`, {
+						method: "PUT",
+						credentials: "same-origin",
+						headers: { "Content-Type": "application/json" },
+						body: JSON.stringify(body),
+					})
+				: await fetch("/api/docker/compose/stacks", {
+						method: "POST",
+						credentials: "same-origin",
+						headers: { "Content-Type": "application/json" },
+						body: JSON.stringify({ ...body, name: draft.newName.trim() }),
+					});
+			const data = await res.json();
+			if (!res.ok) {
+				setValidation(data.code === "ERR220" ? { valid: false, error: data.error } : null);
+				setError(data.code === "ERR220" ? null : data.error || "Save failed");
+				return null;
+			}
+			setValidation({ valid: true });
+			await open(data.stack.name);
+			load();
+			return data.stack.name;
+		} finally {
+			setBusy(null);
+		}
+	}
+
+	/** Show what deploying `version` (default: the latest) would change, before running it. */
+	async function reviewDeploy(stack: string, version?: number) {
+		setDeploy({ stack, version, output: "", running: false, done: false });
+		const res = await fetch(`/api/docker/compose/stacks/${stack}/diff${version ? `?version=${version}` : ""}`, {
+			credentials: "same-origin",
+		});
+		const data = await res.json();
+		if (!res.ok) {
+			setDeploy({ stack, version, output: "", running: false, done: true, error: data.error || "Failed to load diff" });
+			return;
+		}
+		setDeploy({ stack, version, diff: data, output: "", running: false, done: false });
+	}
+
+	async function runDeploy() {
+		if (!deploy) return;
+		const { stack, version } = deploy;
+		setDeploy((d) => d && { ...d, running: true });
+		try {
+			const res = await fetch(`/api/docker/compose/stacks/${stack}/deploy`, {
+				method: "POST",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ version }),
+			});
+			await readProgress(res, (message) => {
+				setDeploy((d) => {
+					if (!d) return d;
+					if (message.type === "output") return { ...d, output: d.output + message.text };
+					if (message.type === "done") return { ...d, done: true, output: d.output + `\nDeployed version ${message.version}\n` };
+					if (message.type === "error") return { ...d, done: true, error: message.error };
+					return d;
+				});
+			});
+		} catch (err) {
+			setDeploy((d) => d && { ...d, done: true, error: err instanceof Error ? err.message : "Connection lost" });
+		}
+		setDeploy((d) => d && { ...d, running: false, done: true });
+		load();
+		if (draft?.name === stack) open(stack);
+	}
+
+	async function saveAndDeploy() {
+		const name = await save();
+		if (name) reviewDeploy(name);
+	}
+
+	async function remove(name: string) {
+		if (!confirm(`Delete stack ${name}? Its containers are taken down and all saved versions are removed.`)) return;
+		setBusy("delete");
+		try {
+			const res = await fetch(`/api/docker/compose/stacks/${name}`, { method: "DELETE", credentials: "same-origin" });
+			if (!res.ok) {
+				setError((await res.json()).error || "Delete failed");
+				return;
+			}
+			setDraft(null);
+			load();
+		} finally {
+			setBusy(null);
+		}
+	}
+
+	const current = draft?.name ? stacks.find((s) => s.name === draft.name) : undefined;
+
+	return (
+		<div className="grid grid-cols-1 gap-4 lg:grid-cols-[16rem_1fr]">
+			{/* Stack list */}
+			<div className="space-y-2">
+				<button onClick={create} className={`${buttonClass} w-full bg-accent/20 text-accent hover:bg-accent/30`}>
+					+ New stack
+				</button>
+				{loading ? null : stacks.length === 0 ? (
+					<div className="glass-card text-center">
+						<p className="text-sm text-gray-500">No stacks yet</p>
+					</div>
+				) : (
+					stacks.map((s) => (
+						<button
+							key={s.name}
+							onClick={() => open(s.name)}
+							className={`glass-card w-full text-left transition hover:bg-white/10 ${draft?.name === s.name ? "ring-1 ring-accent/50" : ""}`}
+						>
+							<div className="flex items-center justify-between gap-2">
+								<span className="truncate text-sm font-semibold">{s.name}</span>
+								<span className={`rounded-full px-2 py-0.5 text-[10px] font-medium uppercase ${statusClass[s.status]}`}>
+									{s.status}
+								</span>
+							</div>
+							<p className="mt-1 text-xs text-gray-500">
+								{s.deployedVersion ? `v${s.deployedVersion} deployed` : "Not deployed"}
+								{s.deployedVersion !== s.latestVersion && ` · v${s.latestVersion} saved`}
+							</p>
+						</button>
+					))
+				)}
+			</div>
+
+			{/* Editor */}
+			<div className="space-y-4">
+				{error && <div className="rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">{error}</div>}
+
+				{!draft ? (
+					<div className="glass-card text-center">
+						<p className="text-sm text-gray-500">Select a stack or create a new one</p>
+						<p className="mt-1 text-xs text-gray-600">
+							Stacks live in ServerPilot's data directory; every save is kept as a version you can roll back to
+						</p>
+					</div>
+				) : (
+					<div className="glass-card space-y-3">
+						<div className="flex flex-wrap items-center justify-between gap-3">
+							{draft.name ? (
+								<div>
+									<h3 className="text-sm font-semibold">{draft.name}</h3>
+									<p className="text-xs text-gray-500">
+										Editing v{draft.loadedVersion}
+										{current?.deployedVersion === draft.loadedVersion && " (deployed)"}
+										{current && draft.loadedVersion !== current.latestVersion && ` · latest is v${current.latestVersion}`}
+									</p>
+								</div>
+							) : (
+								<input
+									value={draft.newName}
+									onChange={(e) => setDraft({ ...draft, newName: e.target.value.toLowerCase() })}
+									placeholder="stack-name"
+									className={`${inputClass} max-w-xs`}
+								/>
+							)}
+							<div className="flex flex-wrap gap-2">
+								<button
+									onClick={validate}
+									disabled={busy !== null}
+									className={`${buttonClass} bg-white/10 text-gray-300 hover:bg-white/20`}
+								>
+									{busy === "validate" ? "Validating..." : "Validate"}
+								</button>
+								<button onClick={save} disabled={busy !== null} className={`${buttonClass} bg-blue-500/20 text-blue-400 hover:bg-blue-500/30`}>
+									{busy === "save" ? "Saving..." : "Save version"}
+								</button>
+								<button
+									onClick={saveAndDeploy}
+									disabled={busy !== null}
+									className={`${buttonClass} bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30`}
+								>
+									Save & deploy
+								</button>
+								{current && current.deployedVersion !== current.latestVersion && (
+									<button
+										onClick={() => reviewDeploy(current.name)}
+										disabled={busy !== null}
+										className={`${buttonClass} bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30`}
+									>
+										Deploy v{current.latestVersion}
+									</button>
+								)}
+								{draft.name && (
+									<button
+										onClick={() => remove(draft.name!)}
+										disabled={busy !== null}
+										className={`${buttonClass} bg-red-500/20 text-red-400 hover:bg-red-500/30`}
+									>
+										Delete
+									</button>
+								)}
+							</div>
+						</div>
+
+						{validation && (
+							<div
+								className={`rounded-xl border p-3 text-xs ${
+									validation.valid
+										? "bg-emerald-500/10 border-emerald-500/30 text-emerald-400"
+										: "bg-red-500/10 border-red-500/30 text-red-400"
+								}`}
+							>
+								{validation.valid ? "Configuration is valid" : <pre className="whitespace-pre-wrap font-mono">{validation.error}</pre>}
+							</div>
+						)}
+
+						<div>
+							<label className="mb-1 block text-xs font-medium text-gray-400">compose.yaml</label>
+							<textarea
+								value={draft.compose}
+								onChange={(e) => {
+									setDraft({ ...draft, compose: e.target.value });
+									setValidation(null);
+								}}
+								spellCheck={false}
+								rows={18}
+								className={editorClass}
+							/>
+						</div>
+						<div>
+							<label className="mb-1 block text-xs font-medium text-gray-400">.env</label>
+							<textarea
+								value={draft.env}
+								onChange={(e) => {
+									setDraft({ ...draft, env: e.target.value });
+									setValidation(null);
+								}}
+								spellCheck={false}
+								rows={5}
+								placeholder="KEY=value"
+								className={editorClass}
+							/>
+						</div>
+						<input
+							value={draft.message}
+							onChange={(e) => setDraft({ ...draft, message: e.target.value })}
+							placeholder="Describe this change (optional)"
+							maxLength={200}
+							className={inputClass}
+						/>
+
+						{versions.length > 0 && (
+							<div>
+								<h4 className="mb-2 text-xs font-semibold text-gray-400">Versions</h4>
+								<div className="divide-y divide-border-dim rounded-xl border border-border-dim">
+									{versions.map((v) => (
+										<div key={v.version} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-xs">
+											<div className="min-w-0">
+												<span className="font-semibold">v{v.version}</span>
+												{current?.deployedVersion === v.version && (
+													<span className="ml-2 rounded-full bg-emerald-500/20 px-2 py-0.5 text-[10px] uppercase text-emerald-400">
+														deployed
+													</span>
+												)}
+												<span className="ml-2 text-gray-500">
+													{v.createdBy}, {new Date(v.createdAt).toLocaleString()}
+												</span>
+												{v.message && <p className="truncate text-gray-400">{v.message}</p>}
+											</div>
+											<div className="flex gap-2">
+												<button
+													onClick={() => open(draft.name!, v.version)}
+													className={`${buttonClass} bg-white/10 text-gray-300 hover:bg-white/20`}
+												>
+													Open
+												</button>
+												{current && v.version !== current.deployedVersion && (
+													<button
+														onClick={() => reviewDeploy(current.name, v.version)}
+														className={`${buttonClass} bg-yellow-500/20 text-yellow-400 hover:bg-yellow-500/30`}
+													>
+														{v.version === current.latestVersion ? "Deploy" : "Roll back"}
+													</button>
+												)}
+											</div>
+										</div>
+									))}
+								</div>
+							</div>
+						)}
+					</div>
+				)}
+			</div>
+
+			{/* Review the diff, then stream the deploy; portal to <body> so the overlay covers the whole page */}
+			{deploy &&
+				createPortal(
+					<div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+						<div className="glass-card w-full max-w-3xl max-h-[85vh] flex flex-col">
+							<h2 className="text-lg font-semibold text-white">
+								Deploy {deploy.stack}
+								{deploy.diff && (
+									<span className="ml-2 text-sm font-normal text-gray-400">
+										{deploy.diff.from ? `v${deploy.diff.from} → v${deploy.diff.to}` : `v${deploy.diff.to} (first deploy)`}
+									</span>
+								)}
+							</h2>
+							{deploy.diff && deploy.diff.to !== (stacks.find((s) => s.name === deploy.stack)?.latestVersion ?? deploy.diff.to) && (
+								<p className="mt-1 text-xs text-yellow-400">
+									Rolling back: v{deploy.diff.to} will be saved again as the newest version and deployed.
+								</p>
+							)}
+
+							<div className="mt-3 flex-1 space-y-3 overflow-auto">
+								{!deploy.running && !deploy.done && deploy.diff && (
+									<>
+										<DiffView title="compose.yaml" lines={deploy.diff.compose} />
+										<DiffView title=".env" lines={deploy.diff.env} />
+									</>
+								)}
+								{(deploy.running || deploy.output) && (
+									<pre className="max-h-96 overflow-auto rounded-lg bg-black/40 p-3 font-mono text-xs text-gray-300 whitespace-pre-wrap">
+										{deploy.output || "Starting..."}
+									</pre>
+								)}
+								{deploy.error && <p className="text-sm text-red-400">{deploy.error}</p>}
+							</div>
+
+							<div className="mt-4 flex justify-end gap-2">
+								<button
+									onClick={() => setDeploy(null)}
+									disabled={deploy.running}
+									className={`${buttonClass} bg-white/10 text-gray-300 hover:bg-white/20`}
+								>
+									{deploy.done ? "Close" : "Cancel"}
+								</button>
+								{!deploy.done && deploy.diff && (
+									<button
+										onClick={runDeploy}
+										disabled={deploy.running}
+										className={`${buttonClass} bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30`}
+									>
+										{deploy.running ? "Deploying..." : "Deploy"}
+									</button>
+								)}
+							</div>
+						</div>
+					</div>,
+					document.body
+				)}
+		</div>
+	);
+}
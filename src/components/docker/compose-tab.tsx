@@ -0,0 +1,325 @@
+/**
+ * ComposeTab.tsx - Compose projects with project and per-service actions, scaling and service logs
+ */
+import { useState } from "react";
+import { createPortal } from "react-dom";
+
+type ComposeStatus = "running" | "partial" | "stopped";
+
+interface ComposeService {
+	name: string;
+	image: string;
+	status: ComposeStatus;
+	containers: Array<{ id: string; name: string; number: number; state: string; status: string }>;
+}
+
+export interface ComposeProject {
+	name: string;
+	status: ComposeStatus;
+	workingDir?: string;
+	configFiles: string[];
+	envFiles: string[];
+	filesAvailable: boolean;
+	services: ComposeService[];
+}
+
+interface Props {
+	projects: ComposeProject[];
+	cli: string | null;
+	onRefresh: () => void;
+}
+
+interface LogView {
+	project: string;
+	service: string;
+	lines: string[];
+	loading: boolean;
+	error?: string;
+}
+
+const statusClass: Record<ComposeStatus, string> = {
+	running: "bg-emerald-500/20 text-emerald-400",
+	partial: "bg-yellow-500/20 text-yellow-400",
+	stopped: "bg-gray-500/20 text-gray-400",
+};
+
+const buttonClass = "rounded-lg px-2.5 py-1 text-xs font-medium transition disabled:opacity-50";
+
+const inputClass =
+	"w-14 rounded-lg border border-border-dim bg-white/5 px-2 py-1 text-xs text-gray-200 outline-none transition focus:border-accent/50 focus:ring-1 focus:ring-accent/30";
+
+function StatusBadge({ status }: { status: ComposeStatus }) {
+	return <span className={`rounded-full px-2 py-0.5 text-[10px] font-medium uppercase ${statusClass[status]}`}>{status}</span>;
+}
+
+export default function ComposeTab({ projects, cli, onRefresh }: Props) {
+	const [busy, setBusy] = useState<string | null>(null);
+	const [result, setResult] = useState<{ title: string; output?: string; error?: string } | null>(null);
+	const [scaling, setScaling] = useState<Record<string, string>>({});
+	const [logView, setLogView] = useState<LogView | null>(null);
+
+	async function runAction(project: string, action: string, service?: string, replicas?: number) {
+		const target = service ? `${project}/${service}` : project;
+		if (action === "down" && !confirm(`Take down ${project}? Its containers and networks are removed.`)) return;
+
+		setBusy(`${target}:${action}`);
+		try {
+			const res = await fetch(`/api/docker/compose/${project}/action`, {
+				method: "POST",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ action, service, replicas }),
+			});
+			const data = await res.json();
+			const title = `${action} ${target}`;
+			if (data.ok) setResult(data.output ? { title, output: data.output } : null);
+			else setResult({ title, error: data.error || "Action failed" });
+			onRefresh();
+		} catch (err) {
+			setResult({ title: `${action} ${target}`, error: err instanceof Error ? err.message : "Action failed" });
+		} finally {
+			setBusy(null);
+		}
+	}
+
+	function scale(project: ComposeProject, service: ComposeService) {
+		const key = `${project.name}/${service.name}`;
+		const replicas = Number(scaling[key] ?? service.containers.length);
+		if (!Number.isInteger(replicas) || replicas < 0) {
+			alert("Replicas must be a whole number");
+			return;
+		}
+		runAction(project.name, "scale", service.name, replicas);
+	}
+
+	async function showLogs(project: string, service: string) {
+		setLogView({ project, service, lines: [], loading: true });
+		try {
+			const res = await fetch(`/api/docker/compose/${project}/logs?service=${encodeURIComponent(service)}&lines=200`, {
+				credentials: "same-origin",
+			});
+			const data = await res.json();
+			setLogView({ project, service, lines: data.logs ?? [], loading: false, error: res.ok ? undefined : data.message || data.error });
+		} catch {
+			setLogView({ project, service, lines: [], loading: false, error: "Failed to load logs" });
+		}
+	}
+
+	if (projects.length === 0) {
+		return (
+			<div className="glass-card text-center">
+				<p className="text-sm text-gray-500">No compose projects found</p>
+				<p className="text-xs text-gray-600 mt-1">
+					Projects are auto-discovered from containers carrying Compose's project labels
+				</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-4">
+			{!cli && (
+				<div className="rounded-xl bg-yellow-500/10 border border-yellow-500/30 p-3 text-xs text-yellow-400">
+					Neither <code>docker compose</code> nor <code>docker-compose</code> was found; only start, stop and restart are
+					available.
+				</div>
+			)}
+
+			{result && (
+				<div
+					className={`rounded-xl border p-3 text-xs ${
+						result.error ? "bg-red-500/10 border-red-500/30 text-red-400" : "bg-white/5 border-border-dim text-gray-300"
+					}`}
+				>
+					<div className="flex items-start justify-between gap-2">
+						<span className="font-semibold">{result.error ? `${result.title} failed` : result.title}</span>
+						<button onClick={() => setResult(null)} className="text-gray-500 hover:text-white">
+							✕
+						</button>
+					</div>
+					<pre className="mt-2 max-h-48 overflow-auto whitespace-pre-wrap font-mono">{result.error ?? result.output}</pre>
+				</div>
+			)}
+
+			{projects.map((project) => (
+				<div key={project.name} className="glass-card space-y-3">
+					<div className="flex flex-wrap items-start justify-between gap-3">
+						<div className="min-w-0">
+							<div className="flex items-center gap-2">
+								<h4 className="text-sm font-semibold">{project.name}</h4>
+								<StatusBadge status={project.status} />
+							</div>
+							{project.workingDir && <p className="mt-1 truncate text-xs text-gray-500">Directory: {project.workingDir}</p>}
+							{project.configFiles.length > 0 && (
+								<p className="truncate text-xs text-gray-500">Files: {project.configFiles.join(", ")}</p>
+							)}
+							{!project.filesAvailable && (
+								<p className="mt-1 text-xs text-yellow-400">
+									Compose files aren't readable from here; up, pull and scale are unavailable
+								</p>
+							)}
+						</div>
+						<div className="flex flex-wrap gap-2">
+							{project.status !== "running" && (
+								<button
+									onClick={() => runAction(project.name, project.filesAvailable ? "up" : "start")}
+									disabled={busy !== null}
+									className={`${buttonClass} bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30`}
+								>
+									{project.filesAvailable ? "Up" : "Start"}
+								</button>
+							)}
+							{project.status !== "stopped" && (
+								<>
+									<button
+										onClick={() => runAction(project.name, "restart")}
+										disabled={busy !== null}
+										className={`${buttonClass} bg-yellow-500/20 text-yellow-400 hover:bg-yellow-500/30`}
+									>
+										Restart
+									</button>
+									<button
+										onClick={() => runAction(project.name, "stop")}
+										disabled={busy !== null}
+										className={`${buttonClass} bg-white/10 text-gray-300 hover:bg-white/20`}
+									>
+										Stop
+									</button>
+								</>
+							)}
+							<button
+								onClick={() => runAction(project.name, "pull")}
+								disabled={busy !== null || !project.filesAvailable || !cli}
+								className={`${buttonClass} bg-blue-500/20 text-blue-400 hover:bg-blue-500/30`}
+							>
+								Pull
+							</button>
+							<button
+								onClick={() => runAction(project.name, "down")}
+								disabled={busy !== null || !cli}
+								className={`${buttonClass} bg-red-500/20 text-red-400 hover:bg-red-500/30`}
+							>
+								Down
+							</button>
+						</div>
+					</div>
+
+					<div className="divide-y divide-border-dim rounded-xl border border-border-dim">
+						{project.services.map((service) => {
+							const key = `${project.name}/${service.name}`;
+							const running = service.containers.filter((c) => c.state === "running").length;
+							return (
+								<div key={service.name} className="flex flex-wrap items-center justify-between gap-3 px-3 py-2">
+									<div className="min-w-0">
+										<div className="flex items-center gap-2">
+											<span className="text-sm font-medium">{service.name}</span>
+											<StatusBadge status={service.status} />
+											<span className="text-xs text-gray-500">
+												{running}/{service.containers.length} running
+											</span>
+										</div>
+										<p className="truncate font-mono text-xs text-gray-500">{service.image}</p>
+									</div>
+									<div className="flex flex-wrap items-center gap-2">
+										{service.status === "stopped" ? (
+											<button
+												onClick={() => runAction(project.name, "start", service.name)}
+												disabled={busy !== null}
+												className={`${buttonClass} bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30`}
+											>
+												Start
+											</button>
+										) : (
+											<button
+												onClick={() => runAction(project.name, "stop", service.name)}
+												disabled={busy !== null}
+												className={`${buttonClass} bg-white/10 text-gray-300 hover:bg-white/20`}
+											>
+												Stop
+											</button>
+										)}
+										<button
+											onClick={() => runAction(project.name, "restart", service.name)}
+											disabled={busy !== null}
+											className={`${buttonClass} bg-yellow-500/20 text-yellow-400 hover:bg-yellow-500/30`}
+										>
+											{busy === `${key}:restart` ? "Restarting..." : "Restart"}
+										</button>
+										<button
+											onClick={() => runAction(project.name, "pull", service.name)}
+											disabled={busy !== null || !project.filesAvailable || !cli}
+											className={`${buttonClass} bg-blue-500/20 text-blue-400 hover:bg-blue-500/30`}
+										>
+											{busy === `${key}:pull` ? "Pulling..." : "Pull"}
+										</button>
+										<button
+											onClick={() => runAction(project.name, "up", service.name)}
+											disabled={busy !== null || !project.filesAvailable || !cli}
+											title="Recreate this service's containers from the current config and image"
+											className={`${buttonClass} bg-blue-500/20 text-blue-400 hover:bg-blue-500/30`}
+										>
+											{busy === `${key}:up` ? "Recreating..." : "Recreate"}
+										</button>
+										<input
+											type="number"
+											min={0}
+											value={scaling[key] ?? String(service.containers.length)}
+											onChange={(e) => setScaling((s) => ({ ...s, [key]: e.target.value }))}
+											className={inputClass}
+											disabled={!project.filesAvailable || !cli}
+										/>
+										<button
+											onClick={() => scale(project, service)}
+											disabled={busy !== null || !project.filesAvailable || !cli}
+											className={`${buttonClass} bg-accent/20 text-accent hover:bg-accent/30`}
+										>
+											{busy === `${key}:scale` ? "Scaling..." : "Scale"}
+										</button>
+										<button
+											onClick={() => showLogs(project.name, service.name)}
+											className={`${buttonClass} bg-white/10 text-gray-300 hover:bg-white/20`}
+										>
+											Logs
+										</button>
+									</div>
+								</div>
+							);
+						})}
+					</div>
+				</div>
+			))}
+
+			{/* Service logs; portal to <body> so the overlay covers the whole page */}
+			{logView &&
+				createPortal(
+					<div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+						<div className="glass-card w-full max-w-4xl max-h-[80vh] flex flex-col">
+							<div className="flex items-center justify-between mb-3">
+								<h2 className="text-lg font-semibold text-white">
+									Logs: {logView.project}/{logView.service}
+								</h2>
+								<div className="flex gap-2">
+									<button
+										onClick={() => showLogs(logView.project, logView.service)}
+										className={`${buttonClass} bg-white/10 text-gray-300 hover:bg-white/20`}
+									>
+										↻ Refresh
+									</button>
+									<button onClick={() => setLogView(null)} className="text-gray-400 hover:text-white">
+										<svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+											<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+										</svg>
+									</button>
+								</div>
+							</div>
+							{logView.error && <p className="mb-2 text-sm text-red-400">{logView.error}</p>}
+							<pre className="flex-1 overflow-auto rounded-lg bg-black/40 p-3 font-mono text-xs text-gray-300 whitespace-pre-wrap">
+								{logView.loading ? "Loading..." : logView.lines.length ? logView.lines.join("\n") : "No log output"}
+							</pre>
+						</div>
+					</div>,
+					document.body
+				)}
+		</div>
+	);
+}
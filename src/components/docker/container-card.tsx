@@ -2,6 +2,9 @@
  * ContainerCard.jsx – Interactive Docker container card with resource management.
  */
 import { useState } from "react";
+import { formatBytes } from "../../lib/utils";
+import LogViewer from "./log-viewer";
+import ContainerTerminal from "./container-terminal";
 
 interface Container {
 	Id: string;
@@ -13,8 +16,8 @@ interface Container {
 }
 
 interface ContainerResources {
-	limits?: { cpu?: string; memory?: string };
-	stats?: string;
+	limits?: { cpu?: number | null; memory?: number };
+	stats?: { cpuPercent: number; memoryUsage: number; memoryLimit: number; networkRx: number; networkTx: number } | null;
 	error?: string;
 }
 
@@ -27,7 +30,7 @@ export default function ContainerCard({ container, onRefresh }: Props) {
 	const [loading, setLoading] = useState(false);
 	const [confirm, setConfirm] = useState<string | null>(null);
 	const [showLogs, setShowLogs] = useState(false);
-	const [logs, setLogs] = useState("");
+	const [showTerminal, setShowTerminal] = useState(false);
 	const [showResources, setShowResources] = useState(false);
 	const [resources, setResources] = useState<ContainerResources | null>(null);
 	const [updatingResources, setUpdatingResources] = useState(false);
@@ -65,19 +68,6 @@ export default function ContainerCard({ container, onRefresh }: Props) {
 		}
 	}
 
-	async function fetchLogs() {
-		setShowLogs(!showLogs);
-		if (!showLogs) {
-			try {
-				const res = await fetch(`/api/docker/container/${container.Id}/logs?lines=50`);
-				const data = await res.json();
-				setLogs(data.logs?.join("\n") ?? "No logs available");
-			} catch {
-				setLogs("Failed to fetch logs");
-			}
-		}
-	}
-
 	async function fetchResources() {
 		setShowResources(!showResources);
 		if (!showResources && !resources) {
@@ -187,11 +177,19 @@ export default function ContainerCard({ container, onRefresh }: Props) {
 					Remove
 				</button>
 				<button
-					onClick={fetchLogs}
+					onClick={() => setShowLogs(true)}
 					className="rounded-lg bg-blue-500/10 px-3 py-1.5 text-xs font-medium text-blue-400 transition hover:bg-blue-500/20"
 				>
-					{showLogs ? "Hide Logs" : "Logs"}
+					Logs
 				</button>
+				{state === "running" && (
+					<button
+						onClick={() => setShowTerminal(true)}
+						className="rounded-lg bg-white/10 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-white/20"
+					>
+						Terminal
+					</button>
+				)}
 				<button
 					onClick={fetchResources}
 					className="rounded-lg bg-purple-500/10 px-3 py-1.5 text-xs font-medium text-purple-400 transition hover:bg-purple-500/20"
@@ -223,13 +221,12 @@ export default function ContainerCard({ container, onRefresh }: Props) {
 				</div>
 			)}
 
-			{/* Logs panel */}
-			{showLogs && (
-				<div className="mt-2 max-h-48 overflow-auto rounded-xl bg-black/30 p-3">
-					<pre className="whitespace-pre-wrap text-[10px] leading-relaxed text-gray-400 font-mono">
-						{logs || "Loading..."}
-					</pre>
-				</div>
+			{/* Logs viewer */}
+			{showLogs && <LogViewer containerId={container.Id} containerName={name} onClose={() => setShowLogs(false)} />}
+
+			{/* Terminal */}
+			{showTerminal && (
+				<ContainerTerminal containerId={container.Id} containerName={name} onClose={() => setShowTerminal(false)} />
 			)}
 
 			{/* Resources panel */}
@@ -262,7 +259,10 @@ export default function ContainerCard({ container, onRefresh }: Props) {
 							</div>
 							{resources.stats && (
 								<div className="text-xs text-gray-500">
-									<p>Current Usage: {resources.stats}</p>
+									<p>
+										Current Usage: CPU {resources.stats.cpuPercent.toFixed(1)}% · Memory {formatBytes(resources.stats.memoryUsage)} /{" "}
+										{formatBytes(resources.stats.memoryLimit)} · Net {formatBytes(resources.stats.networkRx)} ↓ {formatBytes(resources.stats.networkTx)} ↑
+									</p>
 								</div>
 							)}
 							<button
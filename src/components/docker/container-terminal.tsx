@@ -0,0 +1,149 @@
+/**
+ * ContainerTerminal.tsx - Interactive shell inside a running container (WebSocket + xterm)
+ */
+import { useState, useEffect, useRef } from "react";
+import { createPortal } from "react-dom";
+import "@xterm/xterm/css/xterm.css";
+
+interface Props {
+	containerId: string;
+	containerName: string;
+	onClose: () => void;
+}
+
+type Shell = "auto" | "bash" | "sh";
+type Status = "connecting" | "connected" | "exited" | "disconnected";
+
+const inputClass =
+	"rounded-lg border border-border-dim bg-white/5 px-3 py-1.5 text-xs text-gray-200 placeholder-gray-600 outline-none transition focus:border-accent/50 focus:ring-1 focus:ring-accent/30";
+
+export default function ContainerTerminal({ containerId, containerName, onClose }: Props) {
+	const [shell, setShell] = useState<Shell>("auto");
+	const [status, setStatus] = useState<Status>("connecting");
+	const [error, setError] = useState<string | null>(null);
+	const [exitCode, setExitCode] = useState<number | null>(null);
+	const [connection, setConnection] = useState(0);
+	const containerRef = useRef<HTMLDivElement>(null);
+
+	useEffect(() => {
+		let disposed = false;
+		let cleanup = () => {};
+
+		setStatus("connecting");
+		setError(null);
+		setExitCode(null);
+
+		// xterm touches the DOM on import, so load it only in the browser
+		Promise.all([import("@xterm/xterm"), import("@xterm/addon-fit")]).then(([{ Terminal }, { FitAddon }]) => {
+			if (disposed || !containerRef.current) return;
+
+			const term = new Terminal({
+				cursorBlink: true,
+				fontSize: 13,
+				fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+				theme: { background: "#111827" },
+			});
+			const fit = new FitAddon();
+			term.loadAddon(fit);
+			term.open(containerRef.current);
+			fit.fit();
+			term.focus();
+
+			const protocol = location.protocol === "https:" ? "wss:" : "ws:";
+			const query = new URLSearchParams({ shell, cols: String(term.cols), rows: String(term.rows) });
+			const ws = new WebSocket(`${protocol}//${location.host}/api/docker/container/${containerId}/terminal?${query}`);
+			ws.binaryType = "arraybuffer";
+
+			const send = (message: object) => {
+				if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+			};
+
+			ws.onopen = () => setStatus("connected");
+			ws.onmessage = (e) => {
+				if (e.data instanceof ArrayBuffer) {
+					term.write(new Uint8Array(e.data));
+					return;
+				}
+				const message = JSON.parse(e.data);
+				if (message.type === "exit") {
+					setExitCode(message.code);
+					setStatus("exited");
+				} else if (message.type === "error") {
+					setError(message.error);
+				}
+			};
+			ws.onclose = () => setStatus((s) => (s === "exited" ? s : "disconnected"));
+
+			const input = term.onData((data) => send({ type: "input", data }));
+			const resize = term.onResize(({ cols, rows }) => send({ type: "resize", cols, rows }));
+			const observer = new ResizeObserver(() => fit.fit());
+			observer.observe(containerRef.current);
+
+			cleanup = () => {
+				observer.disconnect();
+				input.dispose();
+				resize.dispose();
+				ws.close();
+				term.dispose();
+			};
+		});
+
+		return () => {
+			disposed = true;
+			cleanup();
+		};
+	}, [containerId, shell, connection]);
+
+	const statusBadge: Record<Status, string> = {
+		connecting: "bg-gray-500/20 text-gray-400",
+		connected: "bg-emerald-500/20 text-emerald-400",
+		exited: "bg-yellow-500/20 text-yellow-400",
+		disconnected: "bg-red-500/20 text-red-400",
+	};
+
+	// Portal to <body>: the blurred cards this opens from would otherwise contain the fixed overlay
+	return createPortal(
+		<div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+			<div className="glass-card w-full max-w-6xl h-[85vh] flex flex-col">
+				<div className="flex items-center justify-between mb-3">
+					<div className="flex items-center gap-3">
+						<h2 className="text-lg font-semibold text-white">{containerName} Terminal</h2>
+						<span className={`rounded-full px-2 py-0.5 text-[10px] font-medium uppercase ${statusBadge[status]}`}>
+							{status === "exited" && exitCode !== null ? `exited (${exitCode})` : status}
+						</span>
+					</div>
+					<div className="flex items-center gap-2">
+						<select value={shell} onChange={(e) => setShell(e.target.value as Shell)} className={inputClass}>
+							<option value="auto">Auto (bash, then sh)</option>
+							<option value="bash">bash</option>
+							<option value="sh">sh</option>
+						</select>
+						{(status === "exited" || status === "disconnected") && (
+							<button
+								onClick={() => setConnection((c) => c + 1)}
+								className="rounded-lg bg-emerald-500/10 px-3 py-1.5 text-xs font-medium text-emerald-400 transition hover:bg-emerald-500/20"
+							>
+								Reconnect
+							</button>
+						)}
+						<button onClick={onClose} className="text-gray-400 hover:text-white">
+							<svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+								<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+							</svg>
+						</button>
+					</div>
+				</div>
+
+				{error && (
+					<div className="mb-3 rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">{error}</div>
+				)}
+
+				<div className="flex-1 min-h-0 overflow-hidden rounded-lg bg-gray-900 p-2">
+					<div ref={containerRef} className="h-full w-full" />
+				</div>
+				<p className="mt-2 text-xs text-gray-500">Commands typed here are recorded in the audit log.</p>
+			</div>
+		</div>,
+		document.body
+	);
+}
@@ -0,0 +1,470 @@
+/**
+ * ContainerWizard.tsx - Step-by-step form for creating a container (docker run)
+ */
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import {
+	emptyContainerSpec,
+	findPortConflicts,
+	isBindMount,
+	toDockerRunCommand,
+	validateContainerSpec,
+	type ContainerSpec,
+	type KeyValue,
+	type PublishingContainer,
+} from "../../lib/container-spec";
+
+interface Props {
+	containers: PublishingContainer[];
+	networks: Array<{ Name: string }>;
+	volumes: Array<{ Name: string }>;
+	onClose: () => void;
+	onCreated: () => void;
+}
+
+const STEPS = ["Image", "Ports & Networks", "Storage", "Environment", "Resources", "Review"];
+
+const RESTART_POLICIES: { value: ContainerSpec["restartPolicy"]; label: string }[] = [
+	{ value: "no", label: "Never" },
+	{ value: "always", label: "Always" },
+	{ value: "unless-stopped", label: "Unless stopped" },
+	{ value: "on-failure", label: "On failure" },
+];
+
+const inputClass =
+	"w-full rounded-xl border border-border-dim bg-white/5 px-3 py-2 text-sm text-gray-200 placeholder-gray-600 outline-none transition focus:border-accent/50 focus:ring-1 focus:ring-accent/30";
+
+const smallButton = "rounded-lg bg-white/10 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-white/20";
+const removeButton = "shrink-0 rounded-lg px-2 text-gray-500 transition hover:bg-red-500/10 hover:text-red-400";
+
+function optionalNumber(value: string): number | undefined {
+	return value.trim() === "" ? undefined : Number(value);
+}
+
+function KeyValueList({
+	items,
+	onChange,
+	keyPlaceholder,
+	addLabel,
+}: {
+	items: KeyValue[];
+	onChange: (items: KeyValue[]) => void;
+	keyPlaceholder: string;
+	addLabel: string;
+}) {
+	return (
+		<div className="space-y-2">
+			{items.map((item, i) => (
+				<div key={i} className="flex gap-2">
+					<input
+						value={item.key}
+						onChange={(e) => onChange(items.map((it, j) => (j === i ? { ...it, key: e.target.value } : it)))}
+						placeholder={keyPlaceholder}
+						className={`${inputClass} font-mono`}
+					/>
+					<input
+						value={item.value}
+						onChange={(e) => onChange(items.map((it, j) => (j === i ? { ...it, value: e.target.value } : it)))}
+						placeholder="value"
+						className={`${inputClass} font-mono`}
+					/>
+					<button type="button" onClick={() => onChange(items.filter((_, j) => j !== i))} className={removeButton}>
+						✕
+					</button>
+				</div>
+			))}
+			<button type="button" onClick={() => onChange([...items, { key: "", value: "" }])} className={smallButton}>
+				+ {addLabel}
+			</button>
+		</div>
+	);
+}
+
+export default function ContainerWizard({ containers, networks, volumes, onClose, onCreated }: Props) {
+	const [step, setStep] = useState(0);
+	const [spec, setSpec] = useState<ContainerSpec>(emptyContainerSpec());
+	const [submitting, setSubmitting] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const errors = validateContainerSpec(spec);
+	const conflicts = findPortConflicts(spec, containers);
+	const command = toDockerRunCommand(spec);
+
+	function update(changes: Partial<ContainerSpec>) {
+		setSpec((prev) => ({ ...prev, ...changes }));
+	}
+
+	async function create() {
+		setSubmitting(true);
+		setError(null);
+		try {
+			const res = await fetch("/api/docker/containers", {
+				method: "POST",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify(spec),
+			});
+			const data = await res.json();
+			if (!res.ok) {
+				throw new Error(data.error || "Failed to create container");
+			}
+			onCreated();
+			onClose();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to create container");
+		} finally {
+			setSubmitting(false);
+		}
+	}
+
+	return createPortal(
+		<div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+			<div className="glass-card w-full max-w-3xl max-h-[90vh] flex flex-col">
+				<div className="flex items-center justify-between mb-4">
+					<h2 className="text-lg font-semibold text-white">Create Container</h2>
+					<button onClick={onClose} className="text-gray-400 hover:text-white">
+						<svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+							<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+						</svg>
+					</button>
+				</div>
+
+				{/* Steps */}
+				<div className="flex gap-1 mb-4 overflow-x-auto">
+					{STEPS.map((label, i) => (
+						<button
+							key={label}
+							onClick={() => setStep(i)}
+							className={`rounded-lg px-3 py-1.5 text-xs font-medium whitespace-nowrap transition ${
+								i === step ? "bg-accent/20 text-accent" : "text-gray-400 hover:text-gray-200"
+							}`}
+						>
+							{i + 1}. {label}
+						</button>
+					))}
+				</div>
+
+				<div className="flex-1 overflow-y-auto space-y-4 pr-1">
+					{step === 0 && (
+						<>
+							<div>
+								<label className="block text-xs text-gray-500 mb-1">Image</label>
+								<input
+									value={spec.image}
+									onChange={(e) => update({ image: e.target.value })}
+									placeholder="nginx:latest"
+									className={inputClass}
+								/>
+								<p className="mt-1 text-xs text-gray-600">Pulled automatically if it isn't on the host yet</p>
+							</div>
+							<div>
+								<label className="block text-xs text-gray-500 mb-1">Name (optional)</label>
+								<input value={spec.name ?? ""} onChange={(e) => update({ name: e.target.value || undefined })} placeholder="web" className={inputClass} />
+							</div>
+							<div>
+								<label className="block text-xs text-gray-500 mb-1">Command (optional, overrides the image's CMD)</label>
+								<input
+									value={spec.command ?? ""}
+									onChange={(e) => update({ command: e.target.value || undefined })}
+									placeholder={`sh -c "echo hello"`}
+									className={`${inputClass} font-mono`}
+								/>
+							</div>
+						</>
+					)}
+
+					{step === 1 && (
+						<>
+							<div>
+								<p className="text-xs text-gray-500 mb-2">Published ports</p>
+								<div className="space-y-2">
+									{spec.ports.map((port, i) => {
+										const setPort = (changes: Partial<typeof port>) =>
+											update({ ports: spec.ports.map((p, j) => (j === i ? { ...p, ...changes } : p)) });
+										const conflict = conflicts.find((c) => c.port === port.hostPort && c.protocol === port.protocol);
+										return (
+											<div key={i}>
+												<div className="flex gap-2">
+													<input
+														value={port.hostIp ?? ""}
+														onChange={(e) => setPort({ hostIp: e.target.value || undefined })}
+														placeholder="Host IP (all)"
+														className={inputClass}
+													/>
+													<input
+														type="number"
+														value={port.hostPort ?? ""}
+														onChange={(e) => setPort({ hostPort: optionalNumber(e.target.value) })}
+														placeholder="Host port (random)"
+														className={inputClass}
+													/>
+													<input
+														type="number"
+														value={Number.isNaN(port.containerPort) ? "" : port.containerPort}
+														onChange={(e) => setPort({ containerPort: Number(e.target.value) })}
+														placeholder="Container port"
+														className={inputClass}
+													/>
+													<select
+														value={port.protocol}
+														onChange={(e) => setPort({ protocol: e.target.value as "tcp" | "udp" })}
+														className={`${inputClass} w-24`}
+													>
+														<option value="tcp">tcp</option>
+														<option value="udp">udp</option>
+													</select>
+													<button
+														type="button"
+														onClick={() => update({ ports: spec.ports.filter((_, j) => j !== i) })}
+														className={removeButton}
+													>
+														✕
+													</button>
+												</div>
+												{conflict && (
+													<p className="mt-1 text-xs text-yellow-400">
+														Port {conflict.port}/{conflict.protocol} is already published by {conflict.container}
+													</p>
+												)}
+											</div>
+										);
+									})}
+									<button
+										type="button"
+										onClick={() => update({ ports: [...spec.ports, { containerPort: NaN, protocol: "tcp" }] })}
+										className={smallButton}
+									>
+										+ Add port
+									</button>
+								</div>
+							</div>
+							<div>
+								<p className="text-xs text-gray-500 mb-2">Networks (the first is used at creation, the rest are connected before start)</p>
+								<div className="flex flex-wrap gap-3">
+									{networks.map((net) => (
+										<label key={net.Name} className="flex items-center gap-2 text-sm text-gray-300">
+											<input
+												type="checkbox"
+												checked={spec.networks.includes(net.Name)}
+												onChange={(e) =>
+													update({
+														networks: e.target.checked
+															? [...spec.networks, net.Name]
+															: spec.networks.filter((n) => n !== net.Name),
+													})
+												}
+												className="accent-accent"
+											/>
+											{net.Name}
+										</label>
+									))}
+								</div>
+								{spec.networks.length === 0 && <p className="mt-1 text-xs text-gray-600">Default bridge network</p>}
+							</div>
+						</>
+					)}
+
+					{step === 2 && (
+						<div>
+							<p className="text-xs text-gray-500 mb-2">Volumes and bind mounts (an absolute host path makes a bind mount)</p>
+							<datalist id="wizard-volumes">
+								{volumes.map((v) => (
+									<option key={v.Name} value={v.Name} />
+								))}
+							</datalist>
+							<div className="space-y-2">
+								{spec.volumes.map((volume, i) => {
+									const setVolume = (changes: Partial<typeof volume>) =>
+										update({ volumes: spec.volumes.map((v, j) => (j === i ? { ...v, ...changes } : v)) });
+									return (
+										<div key={i} className="flex items-center gap-2">
+											<input
+												list="wizard-volumes"
+												value={volume.source}
+												onChange={(e) => setVolume({ source: e.target.value })}
+												placeholder="Volume name or /host/path"
+												className={`${inputClass} font-mono`}
+											/>
+											<input
+												value={volume.target}
+												onChange={(e) => setVolume({ target: e.target.value })}
+												placeholder="/path/in/container"
+												className={`${inputClass} font-mono`}
+											/>
+											<span className="shrink-0 text-[10px] uppercase text-gray-500 w-10">
+												{volume.source ? (isBindMount(volume) ? "bind" : "volume") : ""}
+											</span>
+											<label className="flex shrink-0 items-center gap-1.5 text-xs text-gray-400">
+												<input
+													type="checkbox"
+													checked={!!volume.readOnly}
+													onChange={(e) => setVolume({ readOnly: e.target.checked })}
+													className="accent-accent"
+												/>
+												RO
+											</label>
+											<button
+												type="button"
+												onClick={() => update({ volumes: spec.volumes.filter((_, j) => j !== i) })}
+												className={removeButton}
+											>
+												✕
+											</button>
+										</div>
+									);
+								})}
+								<button
+									type="button"
+									onClick={() => update({ volumes: [...spec.volumes, { source: "", target: "" }] })}
+									className={smallButton}
+								>
+									+ Add mount
+								</button>
+							</div>
+						</div>
+					)}
+
+					{step === 3 && (
+						<>
+							<div>
+								<p className="text-xs text-gray-500 mb-2">Environment variables</p>
+								<KeyValueList items={spec.env} onChange={(env) => update({ env })} keyPlaceholder="NAME" addLabel="Add variable" />
+							</div>
+							<div>
+								<p className="text-xs text-gray-500 mb-2">Labels</p>
+								<KeyValueList
+									items={spec.labels}
+									onChange={(labels) => update({ labels })}
+									keyPlaceholder="com.example.key"
+									addLabel="Add label"
+								/>
+							</div>
+						</>
+					)}
+
+					{step === 4 && (
+						<>
+							<div className="grid grid-cols-2 gap-3">
+								<div>
+									<label className="block text-xs text-gray-500 mb-1">Restart policy</label>
+									<select
+										value={spec.restartPolicy}
+										onChange={(e) => update({ restartPolicy: e.target.value as ContainerSpec["restartPolicy"] })}
+										className={inputClass}
+									>
+										{RESTART_POLICIES.map((p) => (
+											<option key={p.value} value={p.value}>
+												{p.label}
+											</option>
+										))}
+									</select>
+								</div>
+								{spec.restartPolicy === "on-failure" && (
+									<div>
+										<label className="block text-xs text-gray-500 mb-1">Max retries (0 = unlimited)</label>
+										<input
+											type="number"
+											min={0}
+											value={spec.maxRetries ?? ""}
+											onChange={(e) => update({ maxRetries: optionalNumber(e.target.value) })}
+											className={inputClass}
+										/>
+									</div>
+								)}
+							</div>
+							<div className="grid grid-cols-2 gap-3">
+								<div>
+									<label className="block text-xs text-gray-500 mb-1">CPUs (empty = unlimited)</label>
+									<input
+										type="number"
+										step="0.1"
+										min={0}
+										value={spec.cpus ?? ""}
+										onChange={(e) => update({ cpus: optionalNumber(e.target.value) })}
+										placeholder="1.5"
+										className={inputClass}
+									/>
+								</div>
+								<div>
+									<label className="block text-xs text-gray-500 mb-1">Memory in MB (empty = unlimited)</label>
+									<input
+										type="number"
+										min={6}
+										value={spec.memoryMb ?? ""}
+										onChange={(e) => update({ memoryMb: optionalNumber(e.target.value) })}
+										placeholder="512"
+										className={inputClass}
+									/>
+								</div>
+							</div>
+						</>
+					)}
+
+					{step === 5 && (
+						<>
+							<div>
+								<p className="text-xs text-gray-500 mb-2">Equivalent command</p>
+								<pre className="whitespace-pre-wrap break-all rounded-lg bg-gray-900 p-3 font-mono text-xs text-gray-300">{command}</pre>
+							</div>
+							<label className="flex items-center gap-2 text-sm text-gray-300">
+								<input
+									type="checkbox"
+									checked={spec.start !== false}
+									onChange={(e) => update({ start: e.target.checked })}
+									className="accent-accent"
+								/>
+								Start the container after creating it
+							</label>
+							{errors.length > 0 && (
+								<div className="rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">
+									<ul className="list-disc pl-4 space-y-1">
+										{errors.map((e) => (
+											<li key={e}>{e}</li>
+										))}
+									</ul>
+								</div>
+							)}
+							{conflicts.length > 0 && (
+								<div className="rounded-xl bg-yellow-500/10 border border-yellow-500/30 p-3 text-sm text-yellow-400">
+									{conflicts.map((c) => (
+										<p key={`${c.port}/${c.protocol}`}>
+											Port {c.port}/{c.protocol} is already published by {c.container}
+										</p>
+									))}
+								</div>
+							)}
+						</>
+					)}
+
+					{error && <div className="rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">{error}</div>}
+				</div>
+
+				<div className="flex justify-between gap-2 mt-4 pt-4 border-t border-border-dim">
+					<button
+						onClick={() => (step === 0 ? onClose() : setStep(step - 1))}
+						className="rounded-xl border border-border-dim bg-white/5 px-4 py-2 text-sm font-medium text-gray-300 transition hover:bg-white/10"
+					>
+						{step === 0 ? "Cancel" : "Back"}
+					</button>
+					{step < STEPS.length - 1 ? (
+						<button
+							onClick={() => setStep(step + 1)}
+							className="rounded-xl bg-accent px-4 py-2 text-sm font-medium text-white transition hover:bg-accent/90"
+						>
+							Next
+						</button>
+					) : (
+						<button
+							onClick={create}
+							disabled={submitting || errors.length > 0 || conflicts.length > 0}
+							className="rounded-xl bg-accent px-4 py-2 text-sm font-medium text-white transition hover:bg-accent/90 disabled:opacity-50"
+						>
+							{submitting ? "Creating..." : spec.start === false ? "Create" : "Create & start"}
+						</button>
+					)}
+				</div>
+			</div>
+		</div>,
+		document.body
+	);
+}
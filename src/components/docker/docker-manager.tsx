@@ -3,6 +3,11 @@
  */
 import { useState, useEffect } from "react";
 import ContainerCard from "./container-card";
+import ContainerWizard from "./container-wizard";
+import ImagesTab, { type ImageSummary } from "./images-tab";
+import ComposeTab, { type ComposeProject } from "./compose-tab";
+import ComposeStacks from "./compose-stacks";
+import RegistryCredentials from "./registry-credentials";
 
 interface DockerContainer {
 	Id: string;
@@ -10,14 +15,7 @@ interface DockerContainer {
 	Image?: string;
 	State?: string;
 	Status?: string;
-	Ports?: Array<{ PublicPort?: number; PrivatePort: number; Type?: string }>;
-}
-
-interface DockerImage {
-	Id: string;
-	RepoTags?: string[];
-	Size?: number;
-	Created?: number;
+	Ports?: Array<{ IP?: string; PublicPort?: number; PrivatePort: number; Type?: string }>;
 }
 
 interface DockerVolume {
@@ -32,12 +30,6 @@ interface DockerNetwork {
 	Scope: string;
 }
 
-interface ComposeProject {
-	Name: string;
-	Status: string;
-	services: string[];
-}
-
 interface ScanResult {
 	imageTag: string;
 	error?: string;
@@ -53,15 +45,17 @@ interface ScanResult {
 export default function DockerManager() {
 	const [tab, setTab] = useState("containers");
 	const [containers, setContainers] = useState<DockerContainer[]>([]);
-	const [images, setImages] = useState<DockerImage[]>([]);
+	const [images, setImages] = useState<ImageSummary[]>([]);
 	const [volumes, setVolumes] = useState<DockerVolume[]>([]);
 	const [networks, setNetworks] = useState<DockerNetwork[]>([]);
 	const [composeProjects, setComposeProjects] = useState<ComposeProject[]>([]);
+	const [composeCli, setComposeCli] = useState<string | null>(null);
 	const [loading, setLoading] = useState(true);
 	const [error, setError] = useState<string | null>(null);
 	const [scanningImage, setScanningImage] = useState<string | null>(null);
 	const [scanResult, setScanResult] = useState<ScanResult | null>(null);
 	const [backingUpVolume, setBackingUpVolume] = useState<string | null>(null);
+	const [showWizard, setShowWizard] = useState(false);
 
 	useEffect(() => {
 		fetchAll();
@@ -82,7 +76,8 @@ export default function DockerManager() {
 			setVolumes(Array.isArray(vRes?.Volumes) ? vRes.Volumes : []);
 			setNetworks(Array.isArray(nRes) ? nRes : []);
 			setComposeProjects(composeRes.projects || []);
-			setError(null);
+			setComposeCli(composeRes.cli ?? null);
+			setError(Array.isArray(cRes) ? null : cRes?.error ?? null);
 		} catch {
 			setError("Failed to fetch Docker data. Is Docker running?");
 		} finally {
@@ -126,31 +121,14 @@ export default function DockerManager() {
 		}
 	}
 
-	async function composeAction(project: string, action: string) {
-		try {
-			const res = await fetch(`/api/docker/compose/${project}/action`, {
-				method: "POST",
-				credentials: "same-origin",
-				headers: { "Content-Type": "application/json" },
-				body: JSON.stringify({ action }),
-			});
-			const data = await res.json();
-			if (data.ok) {
-				fetchAll();
-			} else {
-				alert(`Action failed: ${data.error}`);
-			}
-		} catch (err) {
-			alert(`Action failed: ${err instanceof Error ? err.message : "Unknown error"}`);
-		}
-	}
-
 	const tabs = [
 		{ id: "containers", label: "Containers", count: containers.length },
 		{ id: "images", label: "Images", count: images.length },
 		{ id: "volumes", label: "Volumes", count: volumes.length },
 		{ id: "networks", label: "Networks", count: networks.length },
 		{ id: "compose", label: "Compose", count: composeProjects.length },
+		{ id: "stacks", label: "Stacks" },
+		{ id: "registries", label: "Registries" },
 	];
 
 	return (
@@ -166,7 +144,7 @@ export default function DockerManager() {
 						}`}
 					>
 						{t.label}
-						<span className="rounded-full bg-white/10 px-1.5 py-0.5 text-[10px]">{t.count}</span>
+						{t.count !== undefined && <span className="rounded-full bg-white/10 px-1.5 py-0.5 text-[10px]">{t.count}</span>}
 					</button>
 				))}
 
@@ -232,6 +210,16 @@ export default function DockerManager() {
 				</div>
 			)}
 
+			{showWizard && (
+				<ContainerWizard
+					containers={containers}
+					networks={networks}
+					volumes={volumes}
+					onClose={() => setShowWizard(false)}
+					onCreated={fetchAll}
+				/>
+			)}
+
 			{loading ? (
 				<div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
 					{[...Array(3)].map((_, i) => (
@@ -246,51 +234,30 @@ export default function DockerManager() {
 				<>
 					{/* Containers */}
 					{tab === "containers" && (
-						<div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
-							{containers.length === 0 ? (
-								<div className="glass-card col-span-full text-center">
-									<p className="text-sm text-gray-500">No containers found</p>
-								</div>
-							) : (
-								containers.map((c) => <ContainerCard key={c.Id} container={c} onRefresh={fetchAll} />)
-							)}
+						<div className="space-y-4">
+							<div className="flex justify-end">
+								<button
+									onClick={() => setShowWizard(true)}
+									className="rounded-lg bg-accent/20 px-3 py-1.5 text-xs font-medium text-accent transition hover:bg-accent/30"
+								>
+									+ Create container
+								</button>
+							</div>
+							<div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+								{containers.length === 0 ? (
+									<div className="glass-card col-span-full text-center">
+										<p className="text-sm text-gray-500">No containers found</p>
+									</div>
+								) : (
+									containers.map((c) => <ContainerCard key={c.Id} container={c} onRefresh={fetchAll} />)
+								)}
+							</div>
 						</div>
 					)}
 
-					{/* Images with Scanning */}
+					{/* Images: pull, push, tag, remove, prune and scanning */}
 					{tab === "images" && (
-						<div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
-							{images.length === 0 ? (
-								<div className="glass-card col-span-full text-center">
-									<p className="text-sm text-gray-500">No images found</p>
-								</div>
-							) : (
-								images.map((img, i) => (
-									<div key={i} className="glass-card">
-										<div className="flex items-start justify-between">
-											<div className="min-w-0">
-												<h4 className="truncate text-sm font-semibold">
-													{img.RepoTags?.[0] ?? img.Id?.slice(7, 19)}
-												</h4>
-												<p className="mt-1 text-xs text-gray-500">
-													Size: {img.Size ? (img.Size / 1024 / 1024).toFixed(1) : "N/A"} MB
-												</p>
-												<p className="text-xs text-gray-500">
-													Created: {img.Created ? new Date(img.Created * 1000).toLocaleDateString() : "N/A"}
-												</p>
-											</div>
-										</div>
-										<button
-											onClick={() => scanImage(img.Id, img.RepoTags?.[0] ?? img.Id?.slice(7, 19))}
-											disabled={scanningImage === img.Id}
-											className="mt-3 rounded-lg bg-accent/20 px-3 py-1.5 text-xs font-medium text-accent transition hover:bg-accent/30 disabled:opacity-50"
-										>
-											{scanningImage === img.Id ? "Scanning..." : "🔒 Scan"}
-										</button>
-									</div>
-								))
-							)}
-						</div>
+						<ImagesTab images={images} scanningImage={scanningImage} onScan={scanImage} onRefresh={fetchAll} />
 					)}
 
 					{/* Volumes with Backup */}
@@ -338,68 +305,14 @@ export default function DockerManager() {
 						</div>
 					)}
 
-					{/* Docker Compose */}
-					{tab === "compose" && (
-						<div className="space-y-4">
-							{composeProjects.length === 0 ? (
-								<div className="glass-card text-center">
-									<p className="text-sm text-gray-500">No compose projects found</p>
-									<p className="text-xs text-gray-600 mt-1">
-										Projects are auto-discovered from running containers with compose labels
-									</p>
-								</div>
-							) : (
-								composeProjects.map((project, i) => (
-									<div key={i} className="glass-card">
-										<div className="flex items-center justify-between">
-											<div>
-												<h4 className="text-sm font-semibold">{project.Name}</h4>
-												<p className="text-xs text-gray-500 mt-1">
-													Status: <span className={project.Status === "running" ? "text-emerald-400" : "text-gray-400"}>{project.Status}</span>
-												</p>
-												{project.services?.length > 0 && (
-													<p className="text-xs text-gray-500">
-														Services: {project.services.join(", ")}
-													</p>
-												)}
-											</div>
-											<div className="flex gap-2">
-												{project.Status === "running" ? (
-													<>
-														<button
-															onClick={() => composeAction(project.Name, "restart")}
-															className="rounded-lg bg-yellow-500/20 px-3 py-1.5 text-xs font-medium text-yellow-400 transition hover:bg-yellow-500/30"
-														>
-															Restart
-														</button>
-														<button
-															onClick={() => composeAction(project.Name, "down")}
-															className="rounded-lg bg-red-500/20 px-3 py-1.5 text-xs font-medium text-red-400 transition hover:bg-red-500/30"
-														>
-															Stop
-														</button>
-													</>
-												) : (
-													<button
-														onClick={() => composeAction(project.Name, "up")}
-														className="rounded-lg bg-emerald-500/20 px-3 py-1.5 text-xs font-medium text-emerald-400 transition hover:bg-emerald-500/30"
-													>
-														Start
-													</button>
-												)}
-												<button
-													onClick={() => composeAction(project.Name, "pull")}
-													className="rounded-lg bg-blue-500/20 px-3 py-1.5 text-xs font-medium text-blue-400 transition hover:bg-blue-500/30"
-												>
-													Pull
-												</button>
-											</div>
-										</div>
-									</div>
-								))
-							)}
-						</div>
-					)}
+					{/* Registry logins */}
+					{tab === "registries" && <RegistryCredentials />}
+
+					{/* Docker Compose: project and per-service actions */}
+					{tab === "compose" && <ComposeTab projects={composeProjects} cli={composeCli} onRefresh={fetchAll} />}
+
+					{/* Stacks edited and deployed from ServerPilot */}
+					{tab === "stacks" && <ComposeStacks />}
 				</>
 			)}
 		</div>
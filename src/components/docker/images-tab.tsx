@@ -0,0 +1,436 @@
+/**
+ * ImagesTab.tsx - Image list with pull/push progress, tagging, removal and pruning
+ */
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { formatBytes } from "../../lib/utils";
+
+export interface ImageSummary {
+	Id: string;
+	RepoTags?: string[] | null;
+	Size?: number;
+	Created?: number;
+	UsedBy?: string[];
+}
+
+interface Props {
+	images: ImageSummary[];
+	scanningImage: string | null;
+	onScan: (imageId: string, imageTag: string) => void;
+	onRefresh: () => void;
+}
+
+interface LayerProgress {
+	status: string;
+	current?: number;
+	total?: number;
+}
+
+interface Transfer {
+	title: string;
+	status: string;
+	layers: Record<string, LayerProgress>;
+	done: boolean;
+	error?: string;
+}
+
+interface PrunePreview {
+	mode: "dangling" | "unused";
+	images: ImageSummary[];
+	reclaimable: number;
+}
+
+const inputClass =
+	"rounded-lg border border-border-dim bg-white/5 px-3 py-1.5 text-xs text-gray-200 placeholder-gray-600 outline-none transition focus:border-accent/50 focus:ring-1 focus:ring-accent/30";
+
+function imageLabel(image: ImageSummary): string {
+	const tag = image.RepoTags?.find((t) => t !== "<none>:<none>");
+	return tag ?? `<none> ${image.Id.replace(/^sha256:/, "").slice(0, 12)}`;
+}
+
+/** Layers report byte counts while transferring, then a final status without them. */
+function layerPercent(layer: LayerProgress): number {
+	if (layer.total) return Math.min(100, ((layer.current ?? 0) / layer.total) * 100);
+	return /complete|already exists|Pushed|Mounted/.test(layer.status) ? 100 : 0;
+}
+
+/** Read an NDJSON progress response (see lib/image-progress.ts) until it ends. */
+export async function readProgress(res: Response, onMessage: (message: Record<string, any>) => void): Promise<void> {
+	if (!res.ok || !res.body) {
+		const data = await res.json().catch(() => ({}));
+		onMessage({ type: "error", error: data.error || `Request failed (${res.status})` });
+		return;
+	}
+	const reader = res.body.getReader();
+	const decoder = new TextDecoder();
+	let partial = "";
+	for (;;) {
+		const { value, done } = await reader.read();
+		if (done) break;
+		const lines = (partial + decoder.decode(value, { stream: true })).split("\n");
+		partial = lines.pop() ?? "";
+		for (const line of lines) if (line.trim()) onMessage(JSON.parse(line));
+	}
+	if (partial.trim()) onMessage(JSON.parse(partial));
+}
+
+export default function ImagesTab({ images, scanningImage, onScan, onRefresh }: Props) {
+	const [pullRef, setPullRef] = useState("");
+	const [transfer, setTransfer] = useState<Transfer | null>(null);
+	const [pruneMode, setPruneMode] = useState<PrunePreview["mode"]>("dangling");
+	const [prunePreview, setPrunePreview] = useState<PrunePreview | null>(null);
+	const [busy, setBusy] = useState<string | null>(null);
+	const [tagging, setTagging] = useState<string | null>(null);
+	const [newTag, setNewTag] = useState("");
+
+	async function runTransfer(title: string, request: Promise<Response>) {
+		setTransfer({ title, status: "Starting...", layers: {}, done: false });
+		try {
+			await readProgress(await request, (message) => {
+				setTransfer((t) => {
+					if (!t) return t;
+					if (message.type === "error") return { ...t, done: true, error: message.error };
+					if (message.type === "done") return { ...t, done: true, status: "Complete" };
+					if (!message.id) return { ...t, status: message.status };
+					return {
+						...t,
+						layers: { ...t.layers, [message.id]: { status: message.status, current: message.current, total: message.total } },
+					};
+				});
+			});
+		} catch (err) {
+			setTransfer((t) => t && { ...t, done: true, error: err instanceof Error ? err.message : "Connection lost" });
+		}
+		// Closing the stream without a final message means the server went away
+		setTransfer((t) => t && (t.done ? t : { ...t, done: true, error: "Connection lost" }));
+		onRefresh();
+	}
+
+	function pull() {
+		const image = pullRef.trim();
+		if (!image) return;
+		runTransfer(
+			`Pulling ${image}`,
+			fetch("/api/docker/images/pull", {
+				method: "POST",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ image }),
+			})
+		);
+	}
+
+	function push(image: ImageSummary) {
+		runTransfer(
+			`Pushing ${imageLabel(image)}`,
+			fetch(`/api/docker/images/${image.Id}/push`, {
+				method: "POST",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({}),
+			})
+		);
+	}
+
+	async function tag(image: ImageSummary) {
+		const reference = newTag.trim();
+		const colon = reference.lastIndexOf(":");
+		const hasTag = colon > reference.lastIndexOf("/");
+		const repo = hasTag ? reference.slice(0, colon) : reference;
+		const tagName = hasTag ? reference.slice(colon + 1) : "latest";
+		setBusy(image.Id);
+		try {
+			const res = await fetch(`/api/docker/images/${image.Id}/tag`, {
+				method: "POST",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ repo, tag: tagName }),
+			});
+			const data = await res.json();
+			if (!res.ok) {
+				alert(`Tag failed: ${data.error}`);
+				return;
+			}
+			setTagging(null);
+			setNewTag("");
+			onRefresh();
+		} finally {
+			setBusy(null);
+		}
+	}
+
+	async function remove(image: ImageSummary) {
+		const inUse = (image.UsedBy?.length ?? 0) > 0;
+		const question = inUse
+			? `${imageLabel(image)} is used by ${image.UsedBy!.join(", ")}. Force remove it anyway?`
+			: `Remove ${imageLabel(image)}?`;
+		if (!confirm(question)) return;
+
+		setBusy(image.Id);
+		try {
+			const res = await fetch(`/api/docker/images/${image.Id}${inUse ? "?force=1" : ""}`, {
+				method: "DELETE",
+				credentials: "same-origin",
+			});
+			const data = await res.json();
+			if (res.status === 409 && confirm(`${data.error}\n\nForce remove?`)) {
+				const forced = await fetch(`/api/docker/images/${image.Id}?force=1`, {
+					method: "DELETE",
+					credentials: "same-origin",
+				});
+				if (!forced.ok) alert(`Remove failed: ${(await forced.json()).error}`);
+			} else if (!res.ok && res.status !== 409) {
+				alert(`Remove failed: ${data.error}`);
+			}
+			onRefresh();
+		} finally {
+			setBusy(null);
+		}
+	}
+
+	async function previewPrune() {
+		setBusy("prune");
+		try {
+			const res = await fetch("/api/docker/images/prune", {
+				method: "POST",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ mode: pruneMode, dryRun: true }),
+			});
+			const data = await res.json();
+			if (!res.ok) alert(`Prune preview failed: ${data.error}`);
+			else setPrunePreview({ mode: data.mode, images: data.images, reclaimable: data.reclaimable });
+		} finally {
+			setBusy(null);
+		}
+	}
+
+	async function prune() {
+		if (!prunePreview) return;
+		setBusy("prune");
+		try {
+			const res = await fetch("/api/docker/images/prune", {
+				method: "POST",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ mode: prunePreview.mode }),
+			});
+			const data = await res.json();
+			if (!res.ok) alert(`Prune failed: ${data.error}`);
+			else alert(`Reclaimed ${formatBytes(data.reclaimed)}`);
+			setPrunePreview(null);
+			onRefresh();
+		} finally {
+			setBusy(null);
+		}
+	}
+
+	const layers = transfer ? Object.entries(transfer.layers) : [];
+
+	return (
+		<div className="space-y-4">
+			{/* Toolbar */}
+			<div className="glass-card flex flex-wrap items-center gap-2">
+				<input
+					value={pullRef}
+					onChange={(e) => setPullRef(e.target.value)}
+					onKeyDown={(e) => e.key === "Enter" && pull()}
+					placeholder="nginx:1.27 or ghcr.io/org/app:tag"
+					className={`${inputClass} min-w-[16rem] flex-1 font-mono`}
+				/>
+				<button
+					onClick={pull}
+					disabled={!pullRef.trim() || (transfer !== null && !transfer.done)}
+					className="rounded-lg bg-accent/20 px-3 py-1.5 text-xs font-medium text-accent transition hover:bg-accent/30 disabled:opacity-50"
+				>
+					⬇ Pull
+				</button>
+				<div className="ml-auto flex items-center gap-2">
+					<select value={pruneMode} onChange={(e) => setPruneMode(e.target.value as PrunePreview["mode"])} className={inputClass}>
+						<option value="dangling">Dangling images</option>
+						<option value="unused">All unused images</option>
+					</select>
+					<button
+						onClick={previewPrune}
+						disabled={busy === "prune"}
+						className="rounded-lg bg-red-500/20 px-3 py-1.5 text-xs font-medium text-red-400 transition hover:bg-red-500/30 disabled:opacity-50"
+					>
+						Prune...
+					</button>
+				</div>
+			</div>
+
+			{/* Pull / push progress */}
+			{transfer && (
+				<div className="glass-card">
+					<div className="mb-2 flex items-center justify-between">
+						<h4 className="text-sm font-semibold">{transfer.title}</h4>
+						{transfer.done && (
+							<button onClick={() => setTransfer(null)} className="text-xs text-gray-400 hover:text-white">
+								Dismiss
+							</button>
+						)}
+					</div>
+					{transfer.error ? (
+						<p className="text-xs text-red-400">{transfer.error}</p>
+					) : (
+						<p className={`text-xs ${transfer.done ? "text-emerald-400" : "text-gray-400"}`}>{transfer.status}</p>
+					)}
+					{layers.length > 0 && (
+						<div className="mt-3 space-y-1.5">
+							{layers.map(([id, layer]) => {
+								const pct = layerPercent(layer);
+								return (
+									<div key={id} className="flex items-center gap-3 text-[11px]">
+										<span className="w-24 shrink-0 font-mono text-gray-500">{id}</span>
+										<div className="h-1.5 flex-1 rounded-full bg-white/10">
+											<div className="h-1.5 rounded-full bg-accent transition-all" style={{ width: `${pct}%` }} />
+										</div>
+										<span className="w-40 shrink-0 truncate text-gray-400">
+											{layer.status}
+											{layer.total ? ` ${formatBytes(layer.current ?? 0)} / ${formatBytes(layer.total)}` : ""}
+										</span>
+									</div>
+								);
+							})}
+						</div>
+					)}
+				</div>
+			)}
+
+			{/* Image cards */}
+			<div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+				{images.length === 0 ? (
+					<div className="glass-card col-span-full text-center">
+						<p className="text-sm text-gray-500">No images found</p>
+					</div>
+				) : (
+					images.map((img) => (
+						<div key={img.Id} className="glass-card">
+							<div className="min-w-0">
+								<h4 className="truncate text-sm font-semibold">{imageLabel(img)}</h4>
+								{(img.RepoTags?.length ?? 0) > 1 && (
+									<p className="truncate text-[11px] text-gray-500">Also: {img.RepoTags!.slice(1).join(", ")}</p>
+								)}
+								<p className="mt-1 text-xs text-gray-500">Size: {img.Size ? formatBytes(img.Size) : "N/A"}</p>
+								<p className="text-xs text-gray-500">
+									Created: {img.Created ? new Date(img.Created * 1000).toLocaleDateString() : "N/A"}
+								</p>
+								<p className="truncate text-xs text-gray-500">
+									Used by:{" "}
+									{img.UsedBy?.length ? (
+										<span className="text-gray-300">{img.UsedBy.join(", ")}</span>
+									) : (
+										<span className="text-gray-600">no containers</span>
+									)}
+								</p>
+							</div>
+
+							{tagging === img.Id && (
+								<div className="mt-3 flex gap-2">
+									<input
+										value={newTag}
+										onChange={(e) => setNewTag(e.target.value)}
+										onKeyDown={(e) => e.key === "Enter" && tag(img)}
+										placeholder="repo/name:tag"
+										className={`${inputClass} min-w-0 flex-1 font-mono`}
+										autoFocus
+									/>
+									<button
+										onClick={() => tag(img)}
+										disabled={!newTag.trim() || busy === img.Id}
+										className="rounded-lg bg-accent/20 px-3 py-1.5 text-xs font-medium text-accent transition hover:bg-accent/30 disabled:opacity-50"
+									>
+										Save
+									</button>
+								</div>
+							)}
+
+							<div className="mt-3 flex flex-wrap gap-2">
+								<button
+									onClick={() => onScan(img.Id, imageLabel(img))}
+									disabled={scanningImage === img.Id}
+									className="rounded-lg bg-accent/20 px-3 py-1.5 text-xs font-medium text-accent transition hover:bg-accent/30 disabled:opacity-50"
+								>
+									{scanningImage === img.Id ? "Scanning..." : "🔒 Scan"}
+								</button>
+								<button
+									onClick={() => {
+										setTagging(tagging === img.Id ? null : img.Id);
+										setNewTag("");
+									}}
+									className="rounded-lg bg-white/10 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-white/20"
+								>
+									Tag
+								</button>
+								<button
+									onClick={() => push(img)}
+									disabled={!img.RepoTags?.some((t) => t !== "<none>:<none>") || (transfer !== null && !transfer.done)}
+									className="rounded-lg bg-blue-500/20 px-3 py-1.5 text-xs font-medium text-blue-400 transition hover:bg-blue-500/30 disabled:opacity-50"
+								>
+									⬆ Push
+								</button>
+								<button
+									onClick={() => remove(img)}
+									disabled={busy === img.Id}
+									className="rounded-lg bg-red-500/20 px-3 py-1.5 text-xs font-medium text-red-400 transition hover:bg-red-500/30 disabled:opacity-50"
+								>
+									Remove
+								</button>
+							</div>
+						</div>
+					))
+				)}
+			</div>
+
+			{/* Prune dry-run preview; portal to <body> so the overlay covers the whole page */}
+			{prunePreview &&
+				createPortal(
+					<div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+						<div className="glass-card w-full max-w-lg max-h-[80vh] flex flex-col">
+							<h2 className="text-lg font-semibold text-white">
+								Prune {prunePreview.mode === "unused" ? "unused" : "dangling"} images
+							</h2>
+							{prunePreview.images.length === 0 ? (
+								<p className="mt-3 text-sm text-gray-400">Nothing to prune.</p>
+							) : (
+								<>
+									<p className="mt-1 text-xs text-gray-400">
+										{prunePreview.images.length} image(s), up to{" "}
+										<span className="font-semibold text-white">{formatBytes(prunePreview.reclaimable)}</span> reclaimable
+										(layers shared with other images are kept)
+									</p>
+									<ul className="mt-3 flex-1 space-y-1 overflow-auto">
+										{prunePreview.images.map((img) => (
+											<li key={img.Id} className="flex justify-between gap-3 text-xs">
+												<span className="truncate font-mono text-gray-300">{imageLabel(img)}</span>
+												<span className="shrink-0 text-gray-500">{formatBytes(img.Size ?? 0)}</span>
+											</li>
+										))}
+									</ul>
+								</>
+							)}
+							<div className="mt-4 flex justify-end gap-2">
+								<button
+									onClick={() => setPrunePreview(null)}
+									className="rounded-lg bg-white/10 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-white/20"
+								>
+									Cancel
+								</button>
+								{prunePreview.images.length > 0 && (
+									<button
+										onClick={prune}
+										disabled={busy === "prune"}
+										className="rounded-lg bg-red-500/20 px-3 py-1.5 text-xs font-medium text-red-400 transition hover:bg-red-500/30 disabled:opacity-50"
+									>
+										{busy === "prune" ? "Pruning..." : "Prune"}
+									</button>
+								)}
+							</div>
+						</div>
+					</div>,
+					document.body
+				)}
+		</div>
+	);
+}
@@ -0,0 +1,278 @@
+/**
+ * LogViewer.tsx - Live container log viewer (Server-Sent Events)
+ */
+import { useState, useEffect, useRef } from "react";
+import { createPortal } from "react-dom";
+
+interface LogEntry {
+	stream: "stdout" | "stderr";
+	time?: string;
+	line: string;
+}
+
+interface Props {
+	containerId: string;
+	containerName: string;
+	onClose: () => void;
+}
+
+type Status = "connecting" | "live" | "ended" | "disconnected";
+
+const MAX_LINES = 10000;
+
+const SINCE_OPTIONS = [
+	{ value: "", label: "Last lines" },
+	{ value: "15m", label: "Last 15 minutes" },
+	{ value: "1h", label: "Last hour" },
+	{ value: "24h", label: "Last 24 hours" },
+	{ value: "7d", label: "Last 7 days" },
+];
+
+const inputClass =
+	"rounded-lg border border-border-dim bg-white/5 px-3 py-1.5 text-xs text-gray-200 placeholder-gray-600 outline-none transition focus:border-accent/50 focus:ring-1 focus:ring-accent/30";
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function highlight(line: string, search: string) {
+	if (!search) return line;
+	const parts = line.split(new RegExp(`(${escapeRegExp(search)})`, "gi"));
+	return parts.map((part, i) =>
+		i % 2 === 1 ? (
+			<mark key={i} className="rounded bg-yellow-400/30 text-yellow-200">
+				{part}
+			</mark>
+		) : (
+			part
+		)
+	);
+}
+
+export default function LogViewer({ containerId, containerName, onClose }: Props) {
+	const [entries, setEntries] = useState<LogEntry[]>([]);
+	const [status, setStatus] = useState<Status>("connecting");
+	const [error, setError] = useState<string | null>(null);
+	const [paused, setPaused] = useState(false);
+	const [search, setSearch] = useState("");
+	const [wrap, setWrap] = useState(true);
+	const [showTimestamps, setShowTimestamps] = useState(false);
+	const [streamFilter, setStreamFilter] = useState<"all" | "stdout" | "stderr">("all");
+	const [since, setSince] = useState("");
+	const [tail, setTail] = useState(200);
+	const [connection, setConnection] = useState(0);
+	const [pendingCount, setPendingCount] = useState(0);
+
+	const pausedRef = useRef(false);
+	const pendingRef = useRef<LogEntry[]>([]);
+	const scrollRef = useRef<HTMLDivElement>(null);
+	const stickToBottom = useRef(true);
+
+	useEffect(() => {
+		setEntries([]);
+		setError(null);
+		setStatus("connecting");
+		pendingRef.current = [];
+		setPendingCount(0);
+
+		const query = new URLSearchParams({ follow: "1", timestamps: "1", tail: since ? "all" : String(tail) });
+		if (since) query.set("since", since);
+		const source = new EventSource(`/api/docker/container/${containerId}/logs?${query}`);
+
+		source.onopen = () => setStatus("live");
+		source.addEventListener("logs", (e) => {
+			const batch: LogEntry[] = JSON.parse((e as MessageEvent).data);
+			if (pausedRef.current) {
+				pendingRef.current.push(...batch);
+				setPendingCount(pendingRef.current.length);
+			} else {
+				append(batch);
+			}
+		});
+		source.addEventListener("end", () => {
+			setStatus("ended");
+			source.close();
+		});
+		source.addEventListener("error", (e) => {
+			// Server-sent "error" events carry data; connection errors don't.
+			// Either way, don't let EventSource reconnect on its own: it would replay the tail.
+			const data = (e as MessageEvent).data;
+			if (data) setError(JSON.parse(data).error);
+			setStatus((s) => (s === "ended" ? s : "disconnected"));
+			source.close();
+		});
+
+		return () => source.close();
+	}, [containerId, since, tail, connection]);
+
+	useEffect(() => {
+		if (stickToBottom.current && scrollRef.current) {
+			scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+		}
+	}, [entries]);
+
+	function append(batch: LogEntry[]) {
+		setEntries((prev) => {
+			const next = prev.concat(batch);
+			return next.length > MAX_LINES ? next.slice(next.length - MAX_LINES) : next;
+		});
+	}
+
+	function togglePause() {
+		pausedRef.current = !paused;
+		if (paused && pendingRef.current.length > 0) {
+			append(pendingRef.current);
+			pendingRef.current = [];
+			setPendingCount(0);
+		}
+		setPaused(!paused);
+	}
+
+	function onScroll() {
+		const el = scrollRef.current;
+		if (el) {
+			stickToBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight < 40;
+		}
+	}
+
+	function download() {
+		const text = visible.map((e) => (e.time ? `${e.time} ${e.line}` : e.line)).join("\n");
+		const url = URL.createObjectURL(new Blob([text + "\n"], { type: "text/plain" }));
+		const a = document.createElement("a");
+		a.href = url;
+		a.download = `${containerName}-${new Date().toISOString().replace(/[:.]/g, "-")}.log`;
+		a.click();
+		URL.revokeObjectURL(url);
+	}
+
+	const visible = streamFilter === "all" ? entries : entries.filter((e) => e.stream === streamFilter);
+	const matches = search ? visible.filter((e) => e.line.toLowerCase().includes(search.toLowerCase())).length : 0;
+
+	const statusBadge: Record<Status, string> = {
+		connecting: "bg-gray-500/20 text-gray-400",
+		live: "bg-emerald-500/20 text-emerald-400",
+		ended: "bg-yellow-500/20 text-yellow-400",
+		disconnected: "bg-red-500/20 text-red-400",
+	};
+
+	// Portal to <body>: the blurred cards this opens from would otherwise contain the fixed overlay
+	return createPortal(
+		<div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+			<div className="glass-card w-full max-w-6xl h-[85vh] flex flex-col">
+				<div className="flex items-center justify-between mb-3">
+					<div className="flex items-center gap-3">
+						<h2 className="text-lg font-semibold text-white">{containerName} Logs</h2>
+						<span className={`rounded-full px-2 py-0.5 text-[10px] font-medium uppercase ${statusBadge[status]}`}>
+							{paused && status === "live" ? `paused (${pendingCount} new)` : status}
+						</span>
+					</div>
+					<button onClick={onClose} className="text-gray-400 hover:text-white">
+						<svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+							<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+						</svg>
+					</button>
+				</div>
+
+				{/* Toolbar */}
+				<div className="flex flex-wrap items-center gap-2 mb-3">
+					<input
+						type="search"
+						value={search}
+						onChange={(e) => setSearch(e.target.value)}
+						placeholder="Search..."
+						className={`${inputClass} w-48`}
+					/>
+					{search && <span className="text-xs text-gray-500">{matches} matching lines</span>}
+					<select value={streamFilter} onChange={(e) => setStreamFilter(e.target.value as typeof streamFilter)} className={inputClass}>
+						<option value="all">stdout + stderr</option>
+						<option value="stdout">stdout</option>
+						<option value="stderr">stderr</option>
+					</select>
+					<select value={since} onChange={(e) => setSince(e.target.value)} className={inputClass}>
+						{SINCE_OPTIONS.map((o) => (
+							<option key={o.value} value={o.value}>
+								{o.label}
+							</option>
+						))}
+					</select>
+					{!since && (
+						<select value={tail} onChange={(e) => setTail(Number(e.target.value))} className={inputClass}>
+							{[100, 200, 500, 1000, 5000].map((n) => (
+								<option key={n} value={n}>
+									{n} lines
+								</option>
+							))}
+						</select>
+					)}
+					<label className="flex items-center gap-1.5 text-xs text-gray-400">
+						<input type="checkbox" checked={wrap} onChange={(e) => setWrap(e.target.checked)} className="accent-accent" />
+						Wrap
+					</label>
+					<label className="flex items-center gap-1.5 text-xs text-gray-400">
+						<input
+							type="checkbox"
+							checked={showTimestamps}
+							onChange={(e) => setShowTimestamps(e.target.checked)}
+							className="accent-accent"
+						/>
+						Timestamps
+					</label>
+					<div className="ml-auto flex gap-2">
+						{status === "live" ? (
+							<button
+								onClick={togglePause}
+								className="rounded-lg bg-yellow-500/10 px-3 py-1.5 text-xs font-medium text-yellow-400 transition hover:bg-yellow-500/20"
+							>
+								{paused ? "Resume" : "Pause"}
+							</button>
+						) : (
+							status !== "connecting" && (
+								<button
+									onClick={() => setConnection((c) => c + 1)}
+									className="rounded-lg bg-emerald-500/10 px-3 py-1.5 text-xs font-medium text-emerald-400 transition hover:bg-emerald-500/20"
+								>
+									Reconnect
+								</button>
+							)
+						)}
+						<button
+							onClick={() => setEntries([])}
+							className="rounded-lg bg-white/10 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-white/20"
+						>
+							Clear
+						</button>
+						<button
+							onClick={download}
+							className="rounded-lg bg-blue-500/10 px-3 py-1.5 text-xs font-medium text-blue-400 transition hover:bg-blue-500/20"
+						>
+							Download
+						</button>
+					</div>
+				</div>
+
+				{error && (
+					<div className="mb-3 rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">{error}</div>
+				)}
+
+				<div ref={scrollRef} onScroll={onScroll} className="flex-1 overflow-auto bg-gray-900 rounded-lg p-4 font-mono text-xs">
+					{visible.length === 0 ? (
+						<p className="text-gray-500">{status === "connecting" ? "Connecting..." : "No logs"}</p>
+					) : (
+						visible.map((entry, i) => (
+							<div
+								key={i}
+								className={`${wrap ? "whitespace-pre-wrap break-all" : "whitespace-pre"} ${
+									entry.stream === "stderr" ? "text-red-300" : "text-gray-300"
+								}`}
+							>
+								{showTimestamps && entry.time && <span className="text-gray-600 mr-2">{entry.time}</span>}
+								{highlight(entry.line, search)}
+							</div>
+						))
+					)}
+				</div>
+			</div>
+		</div>,
+		document.body
+	);
+}
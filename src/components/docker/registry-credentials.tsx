@@ -0,0 +1,183 @@
+/**
+ * RegistryCredentials.tsx - Saved logins for private registries (Docker page tab)
+ */
+import { useState, useEffect } from "react";
+
+interface Registry {
+	server: string;
+	username: string;
+	createdBy: string;
+	updatedAt: string;
+	lastCheckedAt?: string;
+	lastCheckOk?: boolean;
+}
+
+const inputClass =
+	"w-full rounded-xl border border-border-dim bg-white/5 px-3 py-2 text-sm text-gray-200 placeholder-gray-600 outline-none transition focus:border-accent/50 focus:ring-1 focus:ring-accent/30";
+
+export default function RegistryCredentials() {
+	const [registries, setRegistries] = useState<Registry[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [server, setServer] = useState("");
+	const [username, setUsername] = useState("");
+	const [password, setPassword] = useState("");
+	const [saving, setSaving] = useState(false);
+	const [testing, setTesting] = useState<string | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [message, setMessage] = useState<string | null>(null);
+
+	useEffect(() => {
+		load();
+	}, []);
+
+	async function load() {
+		try {
+			const res = await fetch("/api/docker/registries", { credentials: "same-origin" });
+			const data = await res.json();
+			setRegistries(Array.isArray(data.registries) ? data.registries : []);
+		} catch {
+			setError("Failed to load registries");
+		} finally {
+			setLoading(false);
+		}
+	}
+
+	async function save(e: React.FormEvent) {
+		e.preventDefault();
+		setSaving(true);
+		setError(null);
+		setMessage(null);
+		try {
+			const res = await fetch("/api/docker/registries", {
+				method: "POST",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ server: server || "docker.io", username, password }),
+			});
+			const data = await res.json();
+			if (!res.ok) {
+				setError(data.error || "Login failed");
+				return;
+			}
+			setMessage(`Logged in to ${data.registry.server}; credentials saved`);
+			setServer("");
+			setUsername("");
+			setPassword("");
+			load();
+		} catch {
+			setError("Login failed");
+		} finally {
+			setSaving(false);
+		}
+	}
+
+	async function test(registry: string) {
+		setTesting(registry);
+		setError(null);
+		setMessage(null);
+		try {
+			const res = await fetch(`/api/docker/registries/${registry}/test`, { method: "POST", credentials: "same-origin" });
+			const data = await res.json();
+			if (res.ok) setMessage(`Login to ${registry} works`);
+			else setError(`${registry}: ${data.error}`);
+			load();
+		} finally {
+			setTesting(null);
+		}
+	}
+
+	async function remove(registry: string) {
+		if (!confirm(`Forget the saved login for ${registry}?`)) return;
+		const res = await fetch(`/api/docker/registries/${registry}`, { method: "DELETE", credentials: "same-origin" });
+		if (!res.ok) setError((await res.json()).error || "Failed to remove");
+		load();
+	}
+
+	return (
+		<div className="space-y-4">
+			<form onSubmit={save} className="glass-card space-y-3">
+				<div>
+					<h4 className="text-sm font-semibold">Add registry login</h4>
+					<p className="text-xs text-gray-500">
+						Used automatically when pulling and pushing images and for compose pulls. Passwords are stored encrypted and
+						can't be viewed again.
+					</p>
+				</div>
+				<div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+					<input value={server} onChange={(e) => setServer(e.target.value)} placeholder="docker.io, ghcr.io, registry:5000" className={inputClass} />
+					<input value={username} onChange={(e) => setUsername(e.target.value)} placeholder="Username" className={inputClass} autoComplete="off" required />
+					<input
+						type="password"
+						value={password}
+						onChange={(e) => setPassword(e.target.value)}
+						placeholder="Password or access token"
+						className={inputClass}
+						autoComplete="new-password"
+						required
+					/>
+				</div>
+				<div className="flex justify-end">
+					<button
+						type="submit"
+						disabled={saving}
+						className="rounded-lg bg-accent/20 px-3 py-1.5 text-xs font-medium text-accent transition hover:bg-accent/30 disabled:opacity-50"
+					>
+						{saving ? "Logging in..." : "Log in & save"}
+					</button>
+				</div>
+			</form>
+
+			{error && <div className="rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">{error}</div>}
+			{message && (
+				<div className="rounded-xl bg-emerald-500/10 border border-emerald-500/30 p-3 text-sm text-emerald-400">{message}</div>
+			)}
+
+			<div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+				{loading ? null : registries.length === 0 ? (
+					<div className="glass-card col-span-full text-center">
+						<p className="text-sm text-gray-500">No registry logins saved</p>
+					</div>
+				) : (
+					registries.map((r) => (
+						<div key={r.server} className="glass-card">
+							<div className="flex items-start justify-between gap-2">
+								<h4 className="truncate text-sm font-semibold">{r.server}</h4>
+								{r.lastCheckOk !== undefined && (
+									<span
+										className={`rounded-full px-2 py-0.5 text-[10px] font-medium uppercase ${
+											r.lastCheckOk ? "bg-emerald-500/20 text-emerald-400" : "bg-red-500/20 text-red-400"
+										}`}
+									>
+										{r.lastCheckOk ? "ok" : "failing"}
+									</span>
+								)}
+							</div>
+							<p className="mt-1 text-xs text-gray-500">User: {r.username}</p>
+							<p className="text-xs text-gray-500">
+								Saved by {r.createdBy}, updated {new Date(r.updatedAt).toLocaleDateString()}
+							</p>
+							{r.lastCheckedAt && (
+								<p className="text-xs text-gray-500">Last checked {new Date(r.lastCheckedAt).toLocaleString()}</p>
+							)}
+							<div className="mt-3 flex gap-2">
+								<button
+									onClick={() => test(r.server)}
+									disabled={testing === r.server}
+									className="rounded-lg bg-blue-500/20 px-3 py-1.5 text-xs font-medium text-blue-400 transition hover:bg-blue-500/30 disabled:opacity-50"
+								>
+									{testing === r.server ? "Testing..." : "Test"}
+								</button>
+								<button
+									onClick={() => remove(r.server)}
+									className="rounded-lg bg-red-500/20 px-3 py-1.5 text-xs font-medium text-red-400 transition hover:bg-red-500/30"
+								>
+									Remove
+								</button>
+							</div>
+						</div>
+					))
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,257 @@
+/**
+ * ApiKeyManager.tsx - Personal API key management on the profile page
+ */
+import { useState, useEffect } from "react";
+
+interface ApiKey {
+	id: string;
+	name: string;
+	scopes: string[];
+	createdAt: string;
+	expiresAt?: string;
+	lastUsedAt?: string;
+	lastUsedIp?: string;
+}
+
+const EXPIRY_OPTIONS = [
+	{ value: "", label: "Never" },
+	{ value: "30", label: "30 days" },
+	{ value: "90", label: "90 days" },
+	{ value: "365", label: "1 year" },
+];
+
+const inputClass =
+	"w-full rounded-xl border border-border-dim bg-white/5 px-4 py-2.5 text-sm text-gray-200 placeholder-gray-600 outline-none transition focus:border-accent/50 focus:ring-1 focus:ring-accent/30";
+
+export default function ApiKeyManager() {
+	const [keys, setKeys] = useState<ApiKey[]>([]);
+	const [availableScopes, setAvailableScopes] = useState<string[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [showCreate, setShowCreate] = useState(false);
+	const [newToken, setNewToken] = useState<string | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	// Form state
+	const [name, setName] = useState("");
+	const [scopes, setScopes] = useState<string[]>([]);
+	const [expiresInDays, setExpiresInDays] = useState("90");
+
+	useEffect(() => {
+		fetchKeys();
+	}, []);
+
+	async function fetchKeys() {
+		try {
+			const res = await fetch("/api/modules/security/api-keys", { credentials: "same-origin" });
+			const data = await res.json();
+			setKeys(data.keys || []);
+			setAvailableScopes(data.availableScopes || []);
+		} catch {
+			setError("Failed to load API keys");
+		} finally {
+			setLoading(false);
+		}
+	}
+
+	function toggleScope(scope: string) {
+		setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+	}
+
+	async function createKey(e: React.FormEvent) {
+		e.preventDefault();
+		setError(null);
+
+		try {
+			const res = await fetch("/api/modules/security/api-keys", {
+				method: "POST",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ name, scopes, expiresInDays: expiresInDays || undefined }),
+			});
+
+			const data = await res.json();
+			if (!res.ok) {
+				throw new Error(data.error || "Failed to create API key");
+			}
+
+			setNewToken(data.token);
+			setShowCreate(false);
+			setName("");
+			setScopes([]);
+			setExpiresInDays("90");
+			await fetchKeys();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to create API key");
+		}
+	}
+
+	async function revokeKey(key: ApiKey) {
+		if (!confirm(`Revoke API key "${key.name}"? Scripts using it will stop working immediately.`)) {
+			return;
+		}
+
+		try {
+			const res = await fetch(`/api/modules/security/api-keys/${key.id}`, {
+				method: "DELETE",
+				credentials: "same-origin",
+			});
+
+			if (!res.ok) {
+				const data = await res.json();
+				throw new Error(data.error || "Failed to revoke API key");
+			}
+
+			await fetchKeys();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to revoke API key");
+		}
+	}
+
+	if (loading) {
+		return (
+			<div className="flex items-center justify-center p-6">
+				<div className="animate-spin rounded-full h-6 w-6 border-b-2 border-accent" />
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-4">
+			{error && (
+				<div className="rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">{error}</div>
+			)}
+
+			{newToken && (
+				<div className="rounded-xl border border-amber-500/30 bg-amber-500/5 p-4">
+					<p className="text-sm font-medium text-amber-400">Copy your new API key</p>
+					<p className="mt-1 text-xs text-gray-400">
+						It will not be shown again. Send it as <code>Authorization: Bearer &lt;key&gt;</code>.
+					</p>
+					<code className="mt-3 block break-all rounded bg-white/5 px-2 py-1.5 text-sm text-gray-200">{newToken}</code>
+					<div className="mt-3 flex gap-2">
+						<button
+							onClick={() => navigator.clipboard?.writeText(newToken)}
+							className="rounded-xl bg-white/5 px-4 py-2 text-xs font-medium text-gray-300 transition hover:bg-white/10"
+						>
+							Copy
+						</button>
+						<button
+							onClick={() => setNewToken(null)}
+							className="rounded-xl bg-accent px-4 py-2 text-xs font-medium text-white transition hover:bg-accent/80"
+						>
+							Done
+						</button>
+					</div>
+				</div>
+			)}
+
+			{keys.length === 0 ? (
+				<p className="text-sm text-gray-500">No API keys yet.</p>
+			) : (
+				<div className="space-y-3">
+					{keys.map((key) => {
+						const expired = key.expiresAt ? new Date(key.expiresAt).getTime() <= Date.now() : false;
+						return (
+							<div
+								key={key.id}
+								className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-surface rounded-lg border border-border-dim"
+							>
+								<div className="min-w-0">
+									<div className="flex items-center gap-2 flex-wrap">
+										<span className="font-medium text-white">{key.name}</span>
+										<code className="text-xs text-gray-500">sp_{key.id}_…</code>
+										{expired && (
+											<span className="text-xs px-2 py-0.5 rounded bg-red-500/20 text-red-400">expired</span>
+										)}
+									</div>
+									<div className="flex flex-wrap gap-1 mt-1">
+										{key.scopes.map((scope) => (
+											<span key={scope} className="text-xs px-1.5 py-0.5 rounded bg-white/5 text-gray-400">
+												{scope}
+											</span>
+										))}
+									</div>
+									<p className="text-xs text-gray-500 mt-1">
+										Created {new Date(key.createdAt).toLocaleDateString()}
+										{key.expiresAt && ` • Expires ${new Date(key.expiresAt).toLocaleDateString()}`}
+										{key.lastUsedAt
+											? ` • Last used ${new Date(key.lastUsedAt).toLocaleString()}${key.lastUsedIp ? ` from ${key.lastUsedIp}` : ""}`
+											: " • Never used"}
+									</p>
+								</div>
+								<button
+									onClick={() => revokeKey(key)}
+									className="shrink-0 px-3 py-1.5 text-sm bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-colors"
+								>
+									Revoke
+								</button>
+							</div>
+						);
+					})}
+				</div>
+			)}
+
+			{showCreate ? (
+				<form onSubmit={createKey} className="space-y-3 border-t border-border-dim pt-4">
+					<input
+						type="text"
+						placeholder="Key name (e.g. deploy-script)"
+						value={name}
+						onChange={(e) => setName(e.target.value)}
+						required
+						className={inputClass}
+					/>
+					<div>
+						<p className="text-xs text-gray-500 mb-2">Scopes</p>
+						<div className="flex flex-wrap gap-3">
+							{availableScopes.map((scope) => (
+								<label key={scope} className="flex items-center gap-2 text-sm text-gray-300">
+									<input
+										type="checkbox"
+										checked={scopes.includes(scope)}
+										onChange={() => toggleScope(scope)}
+										className="accent-accent"
+									/>
+									{scope}
+								</label>
+							))}
+						</div>
+					</div>
+					<div>
+						<p className="text-xs text-gray-500 mb-2">Expires</p>
+						<select value={expiresInDays} onChange={(e) => setExpiresInDays(e.target.value)} className={inputClass}>
+							{EXPIRY_OPTIONS.map((opt) => (
+								<option key={opt.value} value={opt.value}>
+									{opt.label}
+								</option>
+							))}
+						</select>
+					</div>
+					<div className="flex gap-2">
+						<button
+							type="button"
+							onClick={() => setShowCreate(false)}
+							className="flex-1 rounded-xl border border-border-dim bg-white/5 px-4 py-2.5 text-sm font-medium text-gray-300 transition hover:bg-white/10"
+						>
+							Cancel
+						</button>
+						<button
+							type="submit"
+							disabled={scopes.length === 0}
+							className="flex-1 rounded-xl bg-accent px-4 py-2.5 text-sm font-medium text-white transition hover:bg-accent/80 disabled:opacity-50"
+						>
+							Create Key
+						</button>
+					</div>
+				</form>
+			) : (
+				<button
+					onClick={() => setShowCreate(true)}
+					className="w-full rounded-xl border border-border-dim bg-white/5 px-6 py-2.5 text-sm font-medium text-gray-300 transition hover:bg-white/10"
+				>
+					+ New API Key
+				</button>
+			)}
+		</div>
+	);
+}
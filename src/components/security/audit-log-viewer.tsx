@@ -2,6 +2,7 @@
  * AuditLogViewer.tsx - Audit log viewer component
  */
 import { useState, useEffect } from "react";
+import TerminalReplay from "../terminal/terminal-replay";
 
 interface AuditLog {
 	id: string;
@@ -20,6 +21,7 @@ type LogLevel = "all" | "error" | "warn" | "info";
 export default function AuditLogViewer() {
 	const [logs, setLogs] = useState<AuditLog[]>([]);
 	const [loading, setLoading] = useState(true);
+	const [replaySession, setReplaySession] = useState<string | null>(null);
 	const [filter, setFilter] = useState({
 		user: "",
 		action: "",
@@ -209,8 +211,21 @@ export default function AuditLogViewer() {
 											{log.action}
 										</span>
 									</td>
-									<td className="px-3 py-2 text-xs text-gray-400 max-w-xs truncate" title={log.details}>
-										{log.details}
+									<td className="px-3 py-2 text-xs text-gray-400 max-w-xs">
+										<div className="flex items-center gap-2">
+											<span className="truncate" title={log.details}>
+												{log.details}
+											</span>
+											{/* Host terminal entries point at the session's recording */}
+											{log.action === "HOST_TERMINAL" && log.target !== "host" && (
+												<button
+													onClick={() => setReplaySession(log.target)}
+													className="shrink-0 rounded bg-blue-500/10 px-1.5 py-0.5 text-[10px] font-medium text-blue-400 transition hover:bg-blue-500/20"
+												>
+													Replay
+												</button>
+											)}
+										</div>
 									</td>
 								</tr>
 							))}
@@ -221,6 +236,8 @@ export default function AuditLogViewer() {
 					<div className="text-center py-8 text-gray-500 text-sm">No audit logs found</div>
 				)}
 			</div>
+
+			{replaySession && <TerminalReplay sessionId={replaySession} onClose={() => setReplaySession(null)} />}
 		</div>
 	);
 }
@@ -10,11 +10,33 @@ interface Module {
 	description: string;
 	type: "core" | "external";
 	enabled: boolean;
+	loaded: boolean;
+	error?: string;
+	validation?: { errors: string[]; warnings: string[] };
+	packageName?: string;
 	canDisable: boolean;
+	dependencies: Record<string, string>;
+	optionalDependencies: Record<string, string>;
+	dependents: string[];
 	navItems: string[];
 	apiRoutes: string[];
 }
 
+/** Enabled modules that depend on `id`, directly or transitively */
+function enabledDependents(modules: Module[], id: string): Module[] {
+	const found: Module[] = [];
+	const visit = (current: string) => {
+		for (const m of modules) {
+			if (m.enabled && current in m.dependencies && !found.includes(m)) {
+				found.push(m);
+				visit(m.id);
+			}
+		}
+	};
+	visit(id);
+	return found;
+}
+
 interface ConfirmationModalProps {
 	isOpen: boolean;
 	title: string;
@@ -102,7 +124,7 @@ function ConfirmationModal({
 export default function ModuleManager() {
 	const [modules, setModules] = useState<Module[]>([]);
 	const [loading, setLoading] = useState(true);
-	const [activeTab, setActiveTab] = useState<"installed" | "available">("installed");
+	const [activeTab, setActiveTab] = useState<"installed" | "dependencies" | "available">("installed");
 	const [actionLoading, setActionLoading] = useState<string | null>(null);
 	const [searchQuery, setSearchQuery] = useState("");
 	const [installInput, setInstallInput] = useState("");
@@ -118,6 +140,7 @@ export default function ModuleManager() {
 		variant: "danger" | "warning" | "info";
 		moduleId: string;
 		action: "enable" | "disable" | "uninstall";
+		cascade?: boolean;
 	}>({
 		title: "",
 		message: "",
@@ -146,13 +169,18 @@ export default function ModuleManager() {
 
 	function openToggleModal(module: Module, enable: boolean) {
 		const action = enable ? "enable" : "disable";
+		const dependents = enable ? [] : enabledDependents(modules, module.id);
 		setModalConfig({
 			title: enable ? "Enable Module" : "Disable Module",
-			message: `Are you sure you want to ${action} "${module.name}"? ${!enable ? "This may affect dependent features." : ""}`,
-			confirmLabel: enable ? "Enable" : "Disable",
+			message:
+				dependents.length > 0
+					? `"${module.name}" is required by ${dependents.map((d) => d.name).join(", ")}. Disabling it will disable them too.`
+					: `Are you sure you want to ${action} "${module.name}"?`,
+			confirmLabel: enable ? "Enable" : dependents.length > 0 ? "Disable All" : "Disable",
 			variant: enable ? "info" : "warning",
 			moduleId: module.id,
 			action,
+			cascade: dependents.length > 0,
 		});
 		setModalOpen(true);
 	}
@@ -162,7 +190,7 @@ export default function ModuleManager() {
 	}
 
 	async function handleToggle() {
-		const { moduleId, action } = modalConfig;
+		const { moduleId, action, cascade } = modalConfig;
 		const enable = action === "enable";
 
 		setActionLoading(moduleId);
@@ -173,15 +201,18 @@ export default function ModuleManager() {
 				method: "POST",
 				credentials: "same-origin",
 				headers: { "Content-Type": "application/json" },
-				body: JSON.stringify({ enabled: enable }),
+				body: JSON.stringify({ enabled: enable, cascade }),
 			});
 
+			const data = await res.json();
 			if (!res.ok) {
-				const data = await res.json();
 				throw new Error(data.error || "Failed to toggle module");
 			}
 
 			closeModal();
+			if (data.warning) {
+				setError(data.warning);
+			}
 			await fetchModules();
 		} catch (err) {
 			setError(err instanceof Error ? err.message : "Failed to toggle module");
@@ -330,6 +361,16 @@ export default function ModuleManager() {
 				>
 					Installed ({modules.length})
 				</button>
+				<button
+					onClick={() => setActiveTab("dependencies")}
+					className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+						activeTab === "dependencies"
+							? "border-accent text-accent"
+							: "border-transparent text-gray-400 hover:text-gray-300"
+					}`}
+				>
+					Dependencies
+				</button>
 				<button
 					onClick={() => setActiveTab("available")}
 					className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
@@ -400,13 +441,42 @@ export default function ModuleManager() {
 												>
 													{module.type}
 												</span>
-												{!module.enabled && (
+												{!module.loaded ? (
+													<span className="text-xs px-1.5 py-0.5 rounded bg-red-500/20 text-red-400 shrink-0">
+														{module.validation?.errors.length ? "Quarantined" : "Load failed"}
+													</span>
+												) : !module.enabled && (
 													<span className="text-xs px-1.5 py-0.5 rounded bg-gray-500/20 text-gray-400 shrink-0">
 														Off
 													</span>
 												)}
 											</div>
 											<p className="text-xs text-gray-500 truncate mt-0.5">{module.description}</p>
+											{module.validation && module.validation.errors.length > 0 ? (
+												<ul className="text-xs text-red-400 mt-1 space-y-0.5 list-disc list-inside">
+													{module.validation.errors.map((e) => (
+														<li key={e} className="break-words">{e}</li>
+													))}
+												</ul>
+											) : (
+												module.error && <p className="text-xs text-red-400 mt-0.5 break-words">{module.error}</p>
+											)}
+											{module.validation && module.validation.warnings.length > 0 && (
+												<ul className="text-xs text-yellow-400 mt-1 space-y-0.5 list-disc list-inside">
+													{module.validation.warnings.map((w) => (
+														<li key={w} className="break-words">{w}</li>
+													))}
+												</ul>
+											)}
+											{(Object.keys(module.dependencies).length > 0 || module.dependents.length > 0) && (
+												<p className="text-xs text-gray-500 mt-1">
+													{Object.keys(module.dependencies).length > 0 && (
+														<>Requires {Object.keys(module.dependencies).join(", ")}</>
+													)}
+													{Object.keys(module.dependencies).length > 0 && module.dependents.length > 0 && " • "}
+													{module.dependents.length > 0 && <>Required by {module.dependents.join(", ")}</>}
+												</p>
+											)}
 										</div>
 									</div>
 
@@ -438,7 +508,7 @@ export default function ModuleManager() {
 											<>
 												<button
 													onClick={() => openToggleModal(module, !module.enabled)}
-													disabled={actionLoading === module.id}
+													disabled={actionLoading === module.id || !module.loaded}
 													className={`px-3 py-1.5 text-xs rounded-lg transition-colors ${
 														module.enabled
 															? "bg-yellow-500/20 text-yellow-400 hover:bg-yellow-500/30"
@@ -464,13 +534,67 @@ export default function ModuleManager() {
 				</>
 			)}
 
+			{/* Dependencies Tab */}
+			{activeTab === "dependencies" && (
+				<div className="glass-card p-4 space-y-3">
+					<p className="text-xs text-gray-400">
+						Modules load after their dependencies. A module cannot be enabled until its required dependencies are, and
+						disabling a dependency disables the modules that need it.
+					</p>
+					{!modules.some((m) => Object.keys(m.dependencies).length > 0 || Object.keys(m.optionalDependencies).length > 0) ? (
+						<p className="text-sm text-gray-500">No module declares dependencies.</p>
+					) : (
+						<ul className="space-y-3">
+							{modules
+								.filter((m) => Object.keys(m.dependencies).length > 0 || Object.keys(m.optionalDependencies).length > 0)
+								.map((m) => (
+									<li key={m.id}>
+										<p className="text-sm font-medium text-white">
+											{m.name} <span className="text-xs text-gray-500">v{m.version}</span>
+										</p>
+										<ul className="mt-1 ml-4 border-l border-border-dim pl-3 space-y-1">
+											{[
+												...Object.entries(m.dependencies).map(([id, range]) => ({ id, range, optional: false })),
+												...Object.entries(m.optionalDependencies).map(([id, range]) => ({ id, range, optional: true })),
+											].map(({ id, range, optional }) => {
+												const dep = modules.find((d) => d.id === id);
+												const status = !dep || !dep.loaded ? "missing" : dep.enabled ? "enabled" : "disabled";
+												return (
+													<li key={id} className="text-xs flex items-center gap-2">
+														<span className="text-gray-300">→ {dep?.name ?? id}</span>
+														<code className="text-gray-500">{range}</code>
+														{optional && <span className="text-gray-500">optional</span>}
+														<span
+															className={
+																status === "enabled"
+																	? "text-emerald-400"
+																	: status === "disabled"
+																		? "text-yellow-400"
+																		: optional
+																			? "text-gray-500"
+																			: "text-red-400"
+															}
+														>
+															{status}
+														</span>
+													</li>
+												);
+											})}
+										</ul>
+									</li>
+								))}
+						</ul>
+					)}
+				</div>
+			)}
+
 			{/* Install Tab */}
 			{activeTab === "available" && (
 				<div className="space-y-4">
 					<div className="glass-card p-4">
 						<h3 className="text-sm font-semibold text-white mb-2">Install External Module</h3>
 						<p className="text-xs text-gray-400 mb-4">
-							Install a third-party module from npm. The module will be available after restart.
+							Install a third-party module from npm. The module is loaded as soon as the install finishes.
 						</p>
 						<div className="flex gap-2">
 							<input
@@ -504,7 +628,7 @@ export default function ModuleManager() {
 							</li>
 							<li className="flex items-start gap-2">
 								<span className="text-accent shrink-0">3.</span>
-								<span>Rebuild and restart to load the new module</span>
+								<span>The module loads immediately; load errors are shown in the Installed tab</span>
 							</li>
 						</ul>
 					</div>
@@ -0,0 +1,252 @@
+/**
+ * RoleManager.tsx - Create and edit roles from module-declared permissions
+ */
+import { useState } from "react";
+
+export interface Role {
+	name: string;
+	description: string;
+	permissions: string[];
+	builtin: boolean;
+	userCount: number;
+}
+
+export interface Permission {
+	id: string;
+	label: string;
+	description?: string;
+	moduleId: string;
+	moduleName: string;
+}
+
+interface Props {
+	roles: Role[];
+	permissions: Permission[];
+	onChange: () => void | Promise<void>;
+}
+
+export default function RoleManager({ roles, permissions, onChange }: Props) {
+	const [editing, setEditing] = useState<string | null>(null);
+	const [creating, setCreating] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	// Form state
+	const [name, setName] = useState("");
+	const [description, setDescription] = useState("");
+	const [selected, setSelected] = useState<string[]>([]);
+
+	const byModule = permissions.reduce<Record<string, Permission[]>>((groups, p) => {
+		(groups[p.moduleName] ||= []).push(p);
+		return groups;
+	}, {});
+
+	function startCreate() {
+		setEditing(null);
+		setCreating(true);
+		setName("");
+		setDescription("");
+		setSelected([]);
+		setError(null);
+	}
+
+	function startEdit(role: Role) {
+		setCreating(false);
+		setEditing(role.name);
+		setName(role.name);
+		setDescription(role.description);
+		setSelected(role.permissions);
+		setError(null);
+	}
+
+	function cancel() {
+		setCreating(false);
+		setEditing(null);
+	}
+
+	function togglePermission(id: string) {
+		setSelected((prev) => (prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]));
+	}
+
+	async function save(e: React.FormEvent) {
+		e.preventDefault();
+		setError(null);
+
+		try {
+			const res = await fetch(
+				creating ? "/api/modules/security/roles" : `/api/modules/security/roles/${editing}`,
+				{
+					method: creating ? "POST" : "PUT",
+					credentials: "same-origin",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify({ name, description, permissions: selected }),
+				}
+			);
+
+			if (!res.ok) {
+				const data = await res.json();
+				throw new Error(data.error || "Failed to save role");
+			}
+
+			cancel();
+			await onChange();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to save role");
+		}
+	}
+
+	async function deleteRole(role: Role) {
+		if (!confirm(`Delete role "${role.name}"?`)) {
+			return;
+		}
+
+		try {
+			const res = await fetch(`/api/modules/security/roles/${role.name}`, {
+				method: "DELETE",
+				credentials: "same-origin",
+			});
+
+			if (!res.ok) {
+				const data = await res.json();
+				throw new Error(data.error || "Failed to delete role");
+			}
+
+			await onChange();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to delete role");
+		}
+	}
+
+	const form = (
+		<form onSubmit={save} className="space-y-4 border-t border-border-dim pt-4">
+			{creating && (
+				<div>
+					<label className="block text-sm text-gray-400 mb-1">Name</label>
+					<input
+						type="text"
+						placeholder="docker-deployer"
+						value={name}
+						onChange={(e) => setName(e.target.value.toLowerCase())}
+						required
+						className="w-full bg-surface border border-border-dim rounded-lg px-4 py-2"
+					/>
+				</div>
+			)}
+			<div>
+				<label className="block text-sm text-gray-400 mb-1">Description</label>
+				<input
+					type="text"
+					value={description}
+					onChange={(e) => setDescription(e.target.value)}
+					className="w-full bg-surface border border-border-dim rounded-lg px-4 py-2"
+				/>
+			</div>
+			{editing !== "admin" && (
+				<div className="space-y-3">
+					{Object.entries(byModule).map(([moduleName, perms]) => (
+						<div key={moduleName}>
+							<p className="text-xs font-semibold uppercase tracking-wider text-gray-500 mb-2">{moduleName}</p>
+							<div className="space-y-2">
+								{perms.map((p) => (
+									<label key={p.id} className="flex items-start gap-2 text-sm text-gray-300">
+										<input
+											type="checkbox"
+											checked={selected.includes(p.id)}
+											onChange={() => togglePermission(p.id)}
+											className="accent-accent mt-0.5"
+										/>
+										<span>
+											{p.label} <code className="text-xs text-gray-500">{p.id}</code>
+											{p.description && <span className="block text-xs text-gray-500">{p.description}</span>}
+										</span>
+									</label>
+								))}
+							</div>
+						</div>
+					))}
+				</div>
+			)}
+			<div className="flex gap-2">
+				<button
+					type="button"
+					onClick={cancel}
+					className="flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600"
+				>
+					Cancel
+				</button>
+				<button type="submit" className="flex-1 px-4 py-2 bg-accent text-white rounded-lg hover:bg-accent/90">
+					{creating ? "Create Role" : "Save Role"}
+				</button>
+			</div>
+		</form>
+	);
+
+	return (
+		<div className="glass-card space-y-4">
+			<div className="flex justify-between items-center">
+				<div>
+					<h2 className="text-lg font-semibold text-white">Roles</h2>
+					<p className="text-xs text-gray-500 mt-1">Roles grant permissions declared by modules. Changes apply immediately.</p>
+				</div>
+				<button
+					onClick={startCreate}
+					className="px-4 py-2 bg-accent text-white rounded-lg hover:bg-accent/90 transition-colors"
+				>
+					+ Add Role
+				</button>
+			</div>
+
+			{error && (
+				<div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg">{error}</div>
+			)}
+
+			<div className="space-y-3">
+				{roles.map((role) => (
+					<div key={role.name} className="p-3 bg-surface rounded-lg border border-border-dim">
+						<div className="flex items-center justify-between gap-3">
+							<div className="min-w-0">
+								<div className="flex items-center gap-2 flex-wrap">
+									<span className="font-medium text-white">{role.name}</span>
+									{role.builtin && (
+										<span className="text-xs px-2 py-0.5 rounded bg-white/5 text-gray-400">built-in</span>
+									)}
+									<span className="text-xs text-gray-500">
+										{role.userCount} user{role.userCount === 1 ? "" : "s"}
+									</span>
+								</div>
+								{role.description && <p className="text-xs text-gray-500 mt-1">{role.description}</p>}
+								<div className="flex flex-wrap gap-1 mt-1">
+									{role.permissions.map((p) => (
+										<span key={p} className="text-xs px-1.5 py-0.5 rounded bg-white/5 text-gray-400">
+											{p === "*" ? "all permissions" : p}
+										</span>
+									))}
+								</div>
+							</div>
+							<div className="flex items-center gap-2 shrink-0">
+								<button
+									onClick={() => startEdit(role)}
+									className="px-3 py-1.5 text-sm bg-white/5 text-gray-300 rounded-lg hover:bg-white/10 transition-colors"
+								>
+									Edit
+								</button>
+								{!role.builtin && (
+									<button
+										onClick={() => deleteRole(role)}
+										disabled={role.userCount > 0}
+										title={role.userCount > 0 ? "Reassign its users first" : undefined}
+										className="px-3 py-1.5 text-sm bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-colors disabled:opacity-50"
+									>
+										Delete
+									</button>
+								)}
+							</div>
+						</div>
+						{editing === role.name && form}
+					</div>
+				))}
+			</div>
+
+			{creating && form}
+		</div>
+	);
+}
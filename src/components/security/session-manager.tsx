@@ -0,0 +1,181 @@
+/**
+ * SessionManager.tsx - Active login sessions on the profile page
+ */
+import { useState, useEffect } from "react";
+
+interface Session {
+	id: string;
+	createdAt: string;
+	lastSeenAt: string;
+	expiresAt: string;
+	ip?: string;
+	userAgent?: string;
+	current: boolean;
+}
+
+/** Short browser/OS label from a user agent string */
+function describeUserAgent(ua?: string): string {
+	if (!ua) return "Unknown device";
+	const browser = /Edg\//.test(ua)
+		? "Edge"
+		: /Firefox\//.test(ua)
+			? "Firefox"
+			: /Chrome\//.test(ua)
+				? "Chrome"
+				: /Safari\//.test(ua)
+					? "Safari"
+					: /curl\//.test(ua)
+						? "curl"
+						: null;
+	const os = /Windows/.test(ua)
+		? "Windows"
+		: /Android/.test(ua)
+			? "Android"
+			: /iPhone|iPad/.test(ua)
+				? "iOS"
+				: /Mac OS X/.test(ua)
+					? "macOS"
+					: /Linux/.test(ua)
+						? "Linux"
+						: null;
+	if (browser && os) return `${browser} on ${os}`;
+	return browser || os || ua.slice(0, 60);
+}
+
+export default function SessionManager() {
+	const [sessions, setSessions] = useState<Session[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		fetchSessions();
+	}, []);
+
+	async function fetchSessions() {
+		try {
+			const res = await fetch("/api/modules/security/sessions", { credentials: "same-origin" });
+			const data = await res.json();
+			setSessions(data.sessions || []);
+		} catch {
+			setError("Failed to load sessions");
+		} finally {
+			setLoading(false);
+		}
+	}
+
+	async function revokeSession(session: Session) {
+		if (session.current && !confirm("This is your current session. Sign out now?")) {
+			return;
+		}
+
+		try {
+			const res = await fetch(`/api/modules/security/sessions/${session.id}`, {
+				method: "DELETE",
+				credentials: "same-origin",
+			});
+
+			if (!res.ok) {
+				const data = await res.json();
+				throw new Error(data.error || "Failed to revoke session");
+			}
+
+			if (session.current) {
+				window.location.href = "/login";
+				return;
+			}
+			await fetchSessions();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to revoke session");
+		}
+	}
+
+	async function revokeOthers() {
+		try {
+			const res = await fetch("/api/modules/security/sessions", {
+				method: "DELETE",
+				credentials: "same-origin",
+			});
+
+			if (!res.ok) {
+				const data = await res.json();
+				throw new Error(data.error || "Failed to revoke sessions");
+			}
+
+			await fetchSessions();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to revoke sessions");
+		}
+	}
+
+	async function logoutEverywhere() {
+		if (!confirm("Sign out of every session, including this one?")) {
+			return;
+		}
+
+		await fetch("/api/auth/logout?everywhere=1", { method: "POST", credentials: "same-origin" });
+		window.location.href = "/login";
+	}
+
+	if (loading) {
+		return (
+			<div className="flex items-center justify-center p-6">
+				<div className="animate-spin rounded-full h-6 w-6 border-b-2 border-accent" />
+			</div>
+		);
+	}
+
+	const others = sessions.filter((s) => !s.current).length;
+
+	return (
+		<div className="space-y-4">
+			{error && (
+				<div className="rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">{error}</div>
+			)}
+
+			<div className="space-y-3">
+				{sessions.map((session) => (
+					<div
+						key={session.id}
+						className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-surface rounded-lg border border-border-dim"
+					>
+						<div className="min-w-0">
+							<div className="flex items-center gap-2 flex-wrap">
+								<span className="font-medium text-white">{describeUserAgent(session.userAgent)}</span>
+								{session.current && (
+									<span className="text-xs px-2 py-0.5 rounded bg-emerald-500/20 text-emerald-400">this device</span>
+								)}
+							</div>
+							<p className="text-xs text-gray-500 mt-1">
+								{session.ip || "Unknown IP"}
+								{` • Signed in ${new Date(session.createdAt).toLocaleString()}`}
+								{` • Last seen ${new Date(session.lastSeenAt).toLocaleString()}`}
+							</p>
+						</div>
+						<button
+							onClick={() => revokeSession(session)}
+							className="shrink-0 px-3 py-1.5 text-sm bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-colors"
+						>
+							{session.current ? "Sign out" : "Revoke"}
+						</button>
+					</div>
+				))}
+			</div>
+
+			<div className="flex flex-col sm:flex-row gap-2">
+				<button
+					onClick={revokeOthers}
+					disabled={others === 0}
+					className="flex-1 rounded-xl border border-border-dim bg-white/5 px-4 py-2.5 text-sm font-medium text-gray-300 transition hover:bg-white/10 disabled:opacity-50"
+				>
+					Sign Out Other Sessions
+				</button>
+				<button
+					onClick={logoutEverywhere}
+					className="flex-1 rounded-xl bg-red-500/10 px-4 py-2.5 text-sm font-medium text-red-400 transition hover:bg-red-500/20"
+				>
+					Log Out Everywhere
+				</button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,306 @@
+/**
+ * TwoFactorSettings.tsx - Authenticator app (TOTP) enrollment on the profile page
+ */
+import { useState, useEffect } from "react";
+
+interface Status {
+	enabled: boolean;
+	enabledAt?: string;
+	recoveryCodesRemaining: number;
+	required: boolean;
+}
+
+interface Enrollment {
+	secret: string;
+	otpauthUri: string;
+	qrCode: string;
+}
+
+const inputClass =
+	"w-full rounded-xl border border-border-dim bg-white/5 px-4 py-2.5 text-sm text-gray-200 placeholder-gray-600 outline-none transition focus:border-accent/50 focus:ring-1 focus:ring-accent/30";
+
+export default function TwoFactorSettings() {
+	const [status, setStatus] = useState<Status | null>(null);
+	const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+	const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+	const [code, setCode] = useState("");
+	const [password, setPassword] = useState("");
+	const [showDisable, setShowDisable] = useState(false);
+	const [busy, setBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		fetchStatus();
+	}, []);
+
+	async function fetchStatus() {
+		try {
+			const res = await fetch("/api/modules/security/two-factor", { credentials: "same-origin" });
+			if (res.ok) {
+				setStatus(await res.json());
+			}
+		} catch {
+			setError("Failed to load two-factor status");
+		}
+	}
+
+	async function post(path: string, body: Record<string, unknown> = {}) {
+		setBusy(true);
+		setError(null);
+		try {
+			const res = await fetch(`/api/modules/security/two-factor/${path}`, {
+				method: "POST",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify(body),
+			});
+			const data = await res.json().catch(() => ({}));
+			if (!res.ok) {
+				throw new Error(data.error || "Request failed");
+			}
+			return data;
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Request failed");
+			return null;
+		} finally {
+			setBusy(false);
+		}
+	}
+
+	async function startSetup() {
+		const data = await post("setup");
+		if (data) {
+			setEnrollment(data);
+			setRecoveryCodes(null);
+			setCode("");
+		}
+	}
+
+	async function confirmSetup(e: React.FormEvent) {
+		e.preventDefault();
+		const data = await post("enable", { code });
+		if (data) {
+			setEnrollment(null);
+			setRecoveryCodes(data.recoveryCodes);
+			setCode("");
+			await fetchStatus();
+		}
+	}
+
+	async function disable(e: React.FormEvent) {
+		e.preventDefault();
+		const data = await post("disable", { password, code });
+		if (data) {
+			setShowDisable(false);
+			setPassword("");
+			setCode("");
+			setRecoveryCodes(null);
+			await fetchStatus();
+		}
+	}
+
+	async function regenerateCodes() {
+		const input = prompt("Enter a code from your authenticator app to generate new recovery codes:");
+		if (!input) return;
+		const data = await post("recovery-codes", { code: input });
+		if (data) {
+			setRecoveryCodes(data.recoveryCodes);
+			await fetchStatus();
+		}
+	}
+
+	function downloadCodes() {
+		if (!recoveryCodes) return;
+		const blob = new Blob([recoveryCodes.join("\n") + "\n"], { type: "text/plain" });
+		const url = URL.createObjectURL(blob);
+		const a = document.createElement("a");
+		a.href = url;
+		a.download = "serverpilot-recovery-codes.txt";
+		a.click();
+		URL.revokeObjectURL(url);
+	}
+
+	return (
+		<div>
+			<div className="flex items-center justify-between">
+				<div>
+					<h3 className="text-sm font-medium text-gray-300">Two-Factor Authentication</h3>
+					<p className="text-xs text-gray-500">Require a code from an authenticator app when signing in</p>
+				</div>
+				{status?.enabled ? (
+					<span className="rounded-full bg-emerald-500/20 px-2 py-0.5 text-xs font-medium text-emerald-400">
+						Enabled
+					</span>
+				) : status?.required ? (
+					<span className="rounded-full bg-red-500/20 px-2 py-0.5 text-xs font-medium text-red-400">
+						Required
+					</span>
+				) : (
+					<span className="rounded-full bg-gray-500/20 px-2 py-0.5 text-xs font-medium text-gray-400">
+						Disabled
+					</span>
+				)}
+			</div>
+
+			{error && (
+				<div className="mt-3 rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">
+					{error}
+				</div>
+			)}
+
+			{status?.required && !status.enabled && !enrollment && (
+				<p className="mt-3 text-xs text-amber-400">
+					An administrator requires two-factor authentication for your role. Set it up to continue using ServerPilot.
+				</p>
+			)}
+
+			{recoveryCodes && (
+				<div className="mt-4 rounded-xl border border-amber-500/30 bg-amber-500/5 p-4">
+					<p className="text-sm font-medium text-amber-400">Save your recovery codes</p>
+					<p className="mt-1 text-xs text-gray-400">
+						Each code can be used once if you lose access to your authenticator app. They will not be shown again.
+					</p>
+					<div className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm text-gray-200">
+						{recoveryCodes.map((c) => (
+							<span key={c} className="rounded bg-white/5 px-2 py-1 text-center">
+								{c}
+							</span>
+						))}
+					</div>
+					<div className="mt-3 flex gap-2">
+						<button
+							onClick={downloadCodes}
+							className="rounded-xl bg-white/5 px-4 py-2 text-xs font-medium text-gray-300 transition hover:bg-white/10"
+						>
+							Download
+						</button>
+						<button
+							onClick={() => setRecoveryCodes(null)}
+							className="rounded-xl bg-accent px-4 py-2 text-xs font-medium text-white transition hover:bg-accent/80"
+						>
+							I've saved them
+						</button>
+					</div>
+				</div>
+			)}
+
+			{enrollment && (
+				<form onSubmit={confirmSetup} className="mt-4 space-y-3">
+					<p className="text-xs text-gray-400">
+						Scan this QR code with your authenticator app, or enter the secret manually, then enter the 6-digit code it shows.
+					</p>
+					<div className="flex flex-col sm:flex-row gap-4 items-start">
+						<img src={enrollment.qrCode} alt="Two-factor QR code" className="h-40 w-40 rounded-lg bg-white p-1" />
+						<div className="flex-1 space-y-2">
+							<p className="text-xs text-gray-500">Secret</p>
+							<code className="block break-all rounded bg-white/5 px-2 py-1 text-sm text-gray-200">
+								{enrollment.secret}
+							</code>
+							<input
+								type="text"
+								inputMode="numeric"
+								autoComplete="one-time-code"
+								placeholder="123456"
+								value={code}
+								onChange={(e) => setCode(e.target.value)}
+								required
+								className={inputClass}
+							/>
+						</div>
+					</div>
+					<div className="flex gap-2">
+						<button
+							type="button"
+							onClick={() => setEnrollment(null)}
+							className="flex-1 rounded-xl border border-border-dim bg-white/5 px-4 py-2.5 text-sm font-medium text-gray-300 transition hover:bg-white/10"
+						>
+							Cancel
+						</button>
+						<button
+							type="submit"
+							disabled={busy}
+							className="flex-1 rounded-xl bg-accent px-4 py-2.5 text-sm font-medium text-white transition hover:bg-accent/80 disabled:opacity-50"
+						>
+							Verify & Enable
+						</button>
+					</div>
+				</form>
+			)}
+
+			{status && !status.enabled && !enrollment && (
+				<button
+					onClick={startSetup}
+					disabled={busy}
+					className="mt-3 w-full rounded-xl bg-accent px-6 py-2.5 text-sm font-medium text-white transition hover:bg-accent/80 disabled:opacity-50"
+				>
+					Enable 2FA
+				</button>
+			)}
+
+			{status?.enabled && !showDisable && (
+				<div className="mt-3 space-y-3">
+					<p className="text-xs text-gray-500">
+						{status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} remaining
+						{status.enabledAt && ` • Enabled ${new Date(status.enabledAt).toLocaleDateString()}`}
+					</p>
+					<div className="flex flex-col sm:flex-row gap-2">
+						<button
+							onClick={regenerateCodes}
+							disabled={busy}
+							className="flex-1 rounded-xl border border-border-dim bg-white/5 px-4 py-2.5 text-sm font-medium text-gray-300 transition hover:bg-white/10 disabled:opacity-50"
+						>
+							New Recovery Codes
+						</button>
+						{!status.required && (
+							<button
+								onClick={() => setShowDisable(true)}
+								className="flex-1 rounded-xl bg-red-500/10 px-4 py-2.5 text-sm font-medium text-red-400 transition hover:bg-red-500/20"
+							>
+								Disable 2FA
+							</button>
+						)}
+					</div>
+				</div>
+			)}
+
+			{showDisable && (
+				<form onSubmit={disable} className="mt-4 space-y-3">
+					<input
+						type="password"
+						placeholder="Current password"
+						value={password}
+						onChange={(e) => setPassword(e.target.value)}
+						required
+						className={inputClass}
+					/>
+					<input
+						type="text"
+						inputMode="numeric"
+						autoComplete="one-time-code"
+						placeholder="Authenticator code"
+						value={code}
+						onChange={(e) => setCode(e.target.value)}
+						required
+						className={inputClass}
+					/>
+					<div className="flex gap-2">
+						<button
+							type="button"
+							onClick={() => setShowDisable(false)}
+							className="flex-1 rounded-xl border border-border-dim bg-white/5 px-4 py-2.5 text-sm font-medium text-gray-300 transition hover:bg-white/10"
+						>
+							Cancel
+						</button>
+						<button
+							type="submit"
+							disabled={busy}
+							className="flex-1 rounded-xl bg-red-500 px-4 py-2.5 text-sm font-medium text-white transition hover:bg-red-600 disabled:opacity-50"
+						>
+							Disable 2FA
+						</button>
+					</div>
+				</form>
+			)}
+		</div>
+	);
+}
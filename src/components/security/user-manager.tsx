@@ -2,12 +2,14 @@
  * UserManager.tsx - User management component
  */
 import { useState, useEffect } from "react";
+import RoleManager, { type Role, type Permission } from "./role-manager";
 
 interface User {
 	username: string;
-	role: "admin" | "operator" | "viewer";
+	role: string;
 	createdAt: string;
 	lastLogin?: string;
+	twoFactorEnabled?: boolean;
 }
 
 export default function UserManager() {
@@ -20,12 +22,97 @@ export default function UserManager() {
 	// Form state
 	const [newUsername, setNewUsername] = useState("");
 	const [newPassword, setNewPassword] = useState("");
-	const [newRole, setNewRole] = useState<User["role"]>("viewer");
+	const [newRole, setNewRole] = useState("viewer");
+
+	// Roles
+	const [roles, setRoles] = useState<Role[]>([]);
+	const [permissions, setPermissions] = useState<Permission[]>([]);
+
+	// 2FA policy
+	const [requiredRoles, setRequiredRoles] = useState<string[]>([]);
 
 	useEffect(() => {
 		fetchUsers();
+		fetchRoles();
+		fetchTwoFactorPolicy();
 	}, []);
 
+	async function fetchRoles() {
+		try {
+			const res = await fetch("/api/modules/security/roles", { credentials: "same-origin" });
+			if (res.ok) {
+				const data = await res.json();
+				setRoles(data.roles || []);
+				setPermissions(data.permissions || []);
+			}
+		} catch {
+			setError("Failed to load roles");
+		}
+	}
+
+	async function fetchTwoFactorPolicy() {
+		try {
+			const res = await fetch("/api/modules/security/two-factor/policy", { credentials: "same-origin" });
+			if (res.ok) {
+				const data = await res.json();
+				setRequiredRoles(data.requiredRoles || []);
+			}
+		} catch {
+			// Policy is optional UI; ignore load failures
+		}
+	}
+
+	async function toggleRequiredRole(role: string) {
+		const next = requiredRoles.includes(role)
+			? requiredRoles.filter((r) => r !== role)
+			: [...requiredRoles, role];
+		setError(null);
+		try {
+			const res = await fetch("/api/modules/security/two-factor/policy", {
+				method: "PUT",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ requiredRoles: next }),
+			});
+
+			if (!res.ok) {
+				const data = await res.json();
+				throw new Error(data.error || "Failed to update 2FA policy");
+			}
+
+			setRequiredRoles(next);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to update 2FA policy");
+		}
+	}
+
+	async function resetTwoFactor(username: string) {
+		if (!confirm(`Reset two-factor authentication for "${username}"? They will be able to sign in with only their password.`)) {
+			return;
+		}
+
+		setActionLoading(username);
+		try {
+			const res = await fetch(`/api/modules/security/users/${username}`, {
+				method: "PUT",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ resetTwoFactor: true }),
+			});
+
+			if (!res.ok) {
+				const data = await res.json();
+				throw new Error(data.error || "Failed to reset 2FA");
+			}
+
+			await fetchUsers();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to reset 2FA");
+		} finally {
+			setActionLoading(null);
+		}
+	}
+
 	async function fetchUsers() {
 		try {
 			const res = await fetch("/api/modules/security/users", { credentials: "same-origin" });
@@ -63,7 +150,7 @@ export default function UserManager() {
 			setNewUsername("");
 			setNewPassword("");
 			setNewRole("viewer");
-			await fetchUsers();
+			await Promise.all([fetchUsers(), fetchRoles()]);
 		} catch (err) {
 			setError(err instanceof Error ? err.message : "Failed to create user");
 		}
@@ -94,7 +181,7 @@ export default function UserManager() {
 		}
 	}
 
-	async function changeRole(username: string, role: User["role"]) {
+	async function changeRole(username: string, role: string) {
 		setActionLoading(username);
 		try {
 			const res = await fetch(`/api/modules/security/users/${username}`, {
@@ -109,7 +196,7 @@ export default function UserManager() {
 				throw new Error(data.error || "Failed to change role");
 			}
 
-			await fetchUsers();
+			await Promise.all([fetchUsers(), fetchRoles()]);
 		} catch (err) {
 			setError(err instanceof Error ? err.message : "Failed to change role");
 		} finally {
@@ -164,6 +251,9 @@ export default function UserManager() {
 									>
 											{user.role}
 										</span>
+									{user.twoFactorEnabled && (
+										<span className="text-xs px-2 py-0.5 rounded bg-emerald-500/20 text-emerald-400">2FA</span>
+									)}
 								</div>
 								<p className="text-xs text-gray-500 mt-1">
 									Created: {new Date(user.createdAt).toLocaleDateString()}
@@ -174,14 +264,25 @@ export default function UserManager() {
 							<div className="flex items-center gap-2">
 								<select
 									value={user.role}
-									onChange={(e) => changeRole(user.username, e.target.value as User["role"])}
+									onChange={(e) => changeRole(user.username, e.target.value)}
 									disabled={actionLoading === user.username}
 									className="bg-surface border border-border-dim rounded px-2 py-1 text-sm"
 								>
-									<option value="viewer">Viewer</option>
-									<option value="operator">Operator</option>
-									<option value="admin">Admin</option>
+									{roles.map((role) => (
+										<option key={role.name} value={role.name}>
+											{role.name}
+										</option>
+									))}
 								</select>
+								{user.twoFactorEnabled && (
+									<button
+										onClick={() => resetTwoFactor(user.username)}
+										disabled={actionLoading === user.username}
+										className="px-3 py-1.5 text-sm bg-white/5 text-gray-300 rounded-lg hover:bg-white/10 transition-colors disabled:opacity-50"
+									>
+										Reset 2FA
+									</button>
+								)}
 								<button
 									onClick={() => deleteUser(user.username)}
 									disabled={actionLoading === user.username}
@@ -195,6 +296,28 @@ export default function UserManager() {
 				</div>
 			</div>
 
+			<RoleManager roles={roles} permissions={permissions} onChange={fetchRoles} />
+
+			<div className="glass-card">
+				<h2 className="text-lg font-semibold text-white">Two-Factor Policy</h2>
+				<p className="text-xs text-gray-500 mt-1">
+					Users in these roles must enroll an authenticator app before they can use the dashboard.
+				</p>
+				<div className="flex flex-wrap gap-4 mt-4">
+					{roles.map(({ name }) => (
+						<label key={name} className="flex items-center gap-2 text-sm text-gray-300 capitalize">
+							<input
+								type="checkbox"
+								checked={requiredRoles.includes(name)}
+								onChange={() => toggleRequiredRole(name)}
+								className="accent-accent"
+							/>
+							{name}
+						</label>
+					))}
+				</div>
+			</div>
+
 			{/* Create User Modal */}
 			{showCreateModal && (
 				<div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
@@ -225,12 +348,15 @@ export default function UserManager() {
 								<label className="block text-sm text-gray-400 mb-1">Role</label>
 								<select
 									value={newRole}
-									onChange={(e) => setNewRole(e.target.value as User["role"])}
+									onChange={(e) => setNewRole(e.target.value)}
 									className="w-full bg-surface border border-border-dim rounded-lg px-4 py-2"
 								>
-									<option value="viewer">Viewer - Read only</option>
-									<option value="operator">Operator - Can manage services</option>
-									<option value="admin">Admin - Full access</option>
+									{roles.map((role) => (
+										<option key={role.name} value={role.name}>
+											{role.name}
+											{role.description && ` - ${role.description}`}
+										</option>
+									))}
 								</select>
 							</div>
 							<div className="flex gap-2 pt-2">
@@ -0,0 +1,217 @@
+/**
+ * ModuleSettings.tsx - Settings forms generated from each module's schema
+ */
+import { useState, useEffect } from "react";
+
+interface SettingField {
+	type: "text" | "number" | "boolean" | "select" | "password";
+	label: string;
+	description?: string;
+	default?: unknown;
+	options?: { value: string; label: string }[];
+	required?: boolean;
+}
+
+interface ModuleInfo {
+	id: string;
+	name: string;
+	canEdit: boolean;
+}
+
+interface Props {
+	modules: ModuleInfo[];
+}
+
+const inputClass =
+	"w-full rounded-xl border border-border-dim bg-white/5 px-4 py-2.5 text-sm text-gray-200 placeholder-gray-600 outline-none transition focus:border-accent/50 focus:ring-1 focus:ring-accent/30";
+
+function ModuleSettingsForm({ module, canEdit }: { module: ModuleInfo; canEdit: boolean }) {
+	const [schema, setSchema] = useState<Record<string, SettingField>>({});
+	const [values, setValues] = useState<Record<string, unknown>>({});
+	const [secretsSet, setSecretsSet] = useState<string[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [saved, setSaved] = useState(false);
+
+	useEffect(() => {
+		fetchSettings();
+	}, [module.id]);
+
+	async function fetchSettings() {
+		try {
+			const res = await fetch(`/api/modules/${module.id}/settings`, { credentials: "same-origin" });
+			const data = await res.json();
+			if (!res.ok) {
+				throw new Error(data.error || "Failed to load settings");
+			}
+			setSchema(data.schema);
+			setValues(data.values);
+			setSecretsSet(data.secretsSet);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to load settings");
+		} finally {
+			setLoading(false);
+		}
+	}
+
+	function setValue(key: string, value: unknown) {
+		setValues((prev) => ({ ...prev, [key]: value }));
+		setSaved(false);
+	}
+
+	async function save(e: React.FormEvent) {
+		e.preventDefault();
+		setSaving(true);
+		setError(null);
+
+		try {
+			const res = await fetch(`/api/modules/${module.id}/settings`, {
+				method: "PUT",
+				credentials: "same-origin",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify(values),
+			});
+			const data = await res.json();
+			if (!res.ok) {
+				throw new Error(data.error || "Failed to save settings");
+			}
+
+			setValues(data.values);
+			setSecretsSet(data.secretsSet);
+			setSaved(true);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to save settings");
+		} finally {
+			setSaving(false);
+		}
+	}
+
+	function renderField(key: string, field: SettingField) {
+		const value = values[key];
+
+		switch (field.type) {
+			case "boolean":
+				return (
+					<label className="flex items-center gap-2 text-sm text-gray-300">
+						<input
+							type="checkbox"
+							checked={value === true}
+							onChange={(e) => setValue(key, e.target.checked)}
+							disabled={!canEdit}
+							className="accent-accent"
+						/>
+						{field.label}
+					</label>
+				);
+			case "select":
+				return (
+					<select
+						value={String(value ?? "")}
+						onChange={(e) => setValue(key, e.target.value)}
+						disabled={!canEdit}
+						required={field.required}
+						className={inputClass}
+					>
+						{!field.required && <option value="">—</option>}
+						{field.options?.map((o) => (
+							<option key={o.value} value={o.value}>
+								{o.label}
+							</option>
+						))}
+					</select>
+				);
+			case "number":
+				return (
+					<input
+						type="number"
+						value={value === undefined || value === null ? "" : String(value)}
+						onChange={(e) => setValue(key, e.target.value === "" ? null : Number(e.target.value))}
+						disabled={!canEdit}
+						required={field.required}
+						className={inputClass}
+					/>
+				);
+			case "password":
+				return (
+					<input
+						type="password"
+						autoComplete="new-password"
+						placeholder={secretsSet.includes(key) ? "•••••••• (unchanged)" : ""}
+						value={String(value ?? "")}
+						onChange={(e) => setValue(key, e.target.value)}
+						disabled={!canEdit}
+						required={field.required && !secretsSet.includes(key)}
+						className={inputClass}
+					/>
+				);
+			default:
+				return (
+					<input
+						type="text"
+						value={String(value ?? "")}
+						onChange={(e) => setValue(key, e.target.value)}
+						disabled={!canEdit}
+						required={field.required}
+						className={inputClass}
+					/>
+				);
+		}
+	}
+
+	return (
+		<div className="glass-card">
+			<h2 className="text-lg font-semibold text-gray-200 mb-4">{module.name}</h2>
+
+			{loading ? (
+				<div className="animate-pulse bg-gray-700 h-16 rounded-lg" />
+			) : (
+				<form onSubmit={save} className="space-y-4">
+					{Object.entries(schema).map(([key, field]) => (
+						<div key={key}>
+							{field.type !== "boolean" && (
+								<label className="block text-sm text-gray-400 mb-1">
+									{field.label}
+									{field.required && <span className="text-red-400"> *</span>}
+								</label>
+							)}
+							{renderField(key, field)}
+							{field.description && <p className="text-xs text-gray-500 mt-1">{field.description}</p>}
+						</div>
+					))}
+
+					{error && (
+						<div className="rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">{error}</div>
+					)}
+
+					{canEdit && (
+						<div className="flex items-center gap-3">
+							<button
+								type="submit"
+								disabled={saving}
+								className="rounded-xl bg-accent px-5 py-2.5 text-sm font-medium text-white transition hover:bg-accent/80 disabled:opacity-50"
+							>
+								{saving ? "Saving..." : "Save"}
+							</button>
+							{saved && <span className="text-sm text-emerald-400">Saved</span>}
+						</div>
+					)}
+				</form>
+			)}
+		</div>
+	);
+}
+
+export default function ModuleSettings({ modules }: Props) {
+	if (modules.length === 0) {
+		return null;
+	}
+
+	return (
+		<div className="space-y-6">
+			{modules.map((module) => (
+				<ModuleSettingsForm key={module.id} module={module} canEdit={module.canEdit} />
+			))}
+		</div>
+	);
+}
@@ -0,0 +1,120 @@
+/**
+ * HostTerminal.tsx - Recorded shell session on the host (WebSocket + xterm)
+ */
+import { useState, useEffect, useRef } from "react";
+import "@xterm/xterm/css/xterm.css";
+
+type Status = "connecting" | "connected" | "exited" | "disconnected";
+
+export default function HostTerminal() {
+	const [status, setStatus] = useState<Status>("connecting");
+	const [error, setError] = useState<string | null>(null);
+	const [exitCode, setExitCode] = useState<number | null>(null);
+	const [connection, setConnection] = useState(0);
+	const containerRef = useRef<HTMLDivElement>(null);
+
+	useEffect(() => {
+		let disposed = false;
+		let cleanup = () => {};
+
+		setStatus("connecting");
+		setError(null);
+		setExitCode(null);
+
+		// xterm touches the DOM on import, so load it only in the browser
+		Promise.all([import("@xterm/xterm"), import("@xterm/addon-fit")]).then(([{ Terminal }, { FitAddon }]) => {
+			if (disposed || !containerRef.current) return;
+
+			const term = new Terminal({
+				cursorBlink: true,
+				fontSize: 13,
+				fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+				theme: { background: "#111827" },
+			});
+			const fit = new FitAddon();
+			term.loadAddon(fit);
+			term.open(containerRef.current);
+			fit.fit();
+			term.focus();
+
+			const protocol = location.protocol === "https:" ? "wss:" : "ws:";
+			const query = new URLSearchParams({ cols: String(term.cols), rows: String(term.rows) });
+			const ws = new WebSocket(`${protocol}//${location.host}/api/modules/terminal/session?${query}`);
+			ws.binaryType = "arraybuffer";
+
+			const send = (message: object) => {
+				if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+			};
+
+			ws.onopen = () => setStatus("connected");
+			ws.onmessage = (e) => {
+				if (e.data instanceof ArrayBuffer) {
+					term.write(new Uint8Array(e.data));
+					return;
+				}
+				const message = JSON.parse(e.data);
+				if (message.type === "exit") {
+					setExitCode(message.code);
+					setStatus("exited");
+				} else if (message.type === "error") {
+					setError(message.error);
+				}
+			};
+			ws.onclose = (e) => {
+				if (e.code === 1008 && e.reason) setError(e.reason);
+				setStatus((s) => (s === "exited" ? s : "disconnected"));
+			};
+
+			const input = term.onData((data) => send({ type: "input", data }));
+			const resize = term.onResize(({ cols, rows }) => send({ type: "resize", cols, rows }));
+			const observer = new ResizeObserver(() => fit.fit());
+			observer.observe(containerRef.current);
+
+			cleanup = () => {
+				observer.disconnect();
+				input.dispose();
+				resize.dispose();
+				ws.close();
+				term.dispose();
+			};
+		});
+
+		return () => {
+			disposed = true;
+			cleanup();
+		};
+	}, [connection]);
+
+	const statusBadge: Record<Status, string> = {
+		connecting: "bg-gray-500/20 text-gray-400",
+		connected: "bg-emerald-500/20 text-emerald-400",
+		exited: "bg-yellow-500/20 text-yellow-400",
+		disconnected: "bg-red-500/20 text-red-400",
+	};
+
+	return (
+		<div className="glass-card flex h-[calc(100vh-14rem)] min-h-[400px] flex-col">
+			<div className="mb-3 flex items-center justify-between">
+				<span className={`rounded-full px-2 py-0.5 text-[10px] font-medium uppercase ${statusBadge[status]}`}>
+					{status === "exited" && exitCode !== null ? `exited (${exitCode})` : status}
+				</span>
+				{(status === "exited" || status === "disconnected") && (
+					<button
+						onClick={() => setConnection((c) => c + 1)}
+						className="rounded-lg bg-emerald-500/10 px-3 py-1.5 text-xs font-medium text-emerald-400 transition hover:bg-emerald-500/20"
+					>
+						New session
+					</button>
+				)}
+			</div>
+
+			{error && (
+				<div className="mb-3 rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">{error}</div>
+			)}
+
+			<div className="flex-1 min-h-0 overflow-hidden rounded-lg bg-gray-900 p-2">
+				<div ref={containerRef} className="h-full w-full" />
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,196 @@
+/**
+ * TerminalReplay.tsx - Plays back a recorded host terminal session (asciicast v2)
+ */
+import { useState, useEffect, useRef } from "react";
+import { createPortal } from "react-dom";
+import type { Terminal } from "@xterm/xterm";
+import "@xterm/xterm/css/xterm.css";
+
+interface Props {
+	sessionId: string;
+	onClose: () => void;
+}
+
+type CastEvent = [number, string, string];
+
+// Long pauses (someone reading a man page) are shortened to this many seconds
+const MAX_IDLE = 2;
+
+const inputClass =
+	"rounded-lg border border-border-dim bg-white/5 px-3 py-1.5 text-xs text-gray-200 placeholder-gray-600 outline-none transition focus:border-accent/50 focus:ring-1 focus:ring-accent/30";
+
+function formatTime(seconds: number): string {
+	const s = Math.floor(seconds);
+	return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+/** Parse a recording, compressing idle gaps so the timeline is watchable. */
+function parseCast(text: string): { width: number; height: number; title?: string; events: CastEvent[] } {
+	const [headerLine, ...lines] = text.split("\n").filter(Boolean);
+	const header = JSON.parse(headerLine);
+	const events: CastEvent[] = [];
+	let last = 0;
+	let shift = 0;
+	for (const line of lines) {
+		const [time, type, data] = JSON.parse(line) as CastEvent;
+		if (time - last > MAX_IDLE) shift += time - last - MAX_IDLE;
+		last = time;
+		events.push([time - shift, type, data]);
+	}
+	return { width: header.width, height: header.height, title: header.title, events };
+}
+
+export default function TerminalReplay({ sessionId, onClose }: Props) {
+	const [cast, setCast] = useState<ReturnType<typeof parseCast> | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [playing, setPlaying] = useState(true);
+	const [speed, setSpeed] = useState(1);
+	const [position, setPosition] = useState(0);
+	const containerRef = useRef<HTMLDivElement>(null);
+	const termRef = useRef<Terminal | null>(null);
+	const indexRef = useRef(0);
+
+	useEffect(() => {
+		fetch(`/api/modules/terminal/recordings/${sessionId}`, { credentials: "same-origin" })
+			.then(async (res) => {
+				if (!res.ok) throw new Error((await res.json()).error || "Failed to load recording");
+				setCast(parseCast(await res.text()));
+			})
+			.catch((err) => setError(err instanceof Error ? err.message : "Failed to load recording"));
+	}, [sessionId]);
+
+	// Create the terminal once the recording (and its size) is known
+	useEffect(() => {
+		if (!cast) return;
+		let disposed = false;
+		import("@xterm/xterm").then(({ Terminal }) => {
+			if (disposed || !containerRef.current) return;
+			const term = new Terminal({
+				cols: cast.width,
+				rows: cast.height,
+				disableStdin: true,
+				fontSize: 13,
+				fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+				theme: { background: "#111827" },
+			});
+			term.open(containerRef.current);
+			termRef.current = term;
+			indexRef.current = 0;
+			setPosition(0);
+		});
+		return () => {
+			disposed = true;
+			termRef.current?.dispose();
+			termRef.current = null;
+		};
+	}, [cast]);
+
+	// Playback: schedule the next event relative to the current one
+	useEffect(() => {
+		if (!cast || !playing) return;
+		let timer: ReturnType<typeof setTimeout>;
+
+		function step() {
+			const term = termRef.current;
+			if (!term || !cast) {
+				timer = setTimeout(step, 50);
+				return;
+			}
+			const event = cast.events[indexRef.current];
+			if (!event) {
+				setPlaying(false);
+				return;
+			}
+			const [time, type, data] = event;
+			if (type === "o") term.write(data);
+			if (type === "r") {
+				const [cols, rows] = data.split("x").map(Number);
+				if (cols && rows) term.resize(cols, rows);
+			}
+			indexRef.current++;
+			setPosition(time);
+
+			const next = cast.events[indexRef.current];
+			if (next) timer = setTimeout(step, ((next[0] - time) * 1000) / speed);
+			else setPlaying(false);
+		}
+
+		const current = cast.events[indexRef.current];
+		const previous = indexRef.current > 0 ? cast.events[indexRef.current - 1][0] : 0;
+		timer = setTimeout(step, current ? ((current[0] - previous) * 1000) / speed : 0);
+		return () => clearTimeout(timer);
+	}, [cast, playing, speed]);
+
+	function restart() {
+		termRef.current?.reset();
+		indexRef.current = 0;
+		setPosition(0);
+		setPlaying(true);
+	}
+
+	const duration = cast?.events.length ? cast.events[cast.events.length - 1][0] : 0;
+	const finished = cast !== null && indexRef.current >= cast.events.length;
+
+	// Portal to <body> so the overlay covers the whole page
+	return createPortal(
+		<div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+			<div className="glass-card w-full max-w-6xl max-h-[90vh] flex flex-col">
+				<div className="flex items-center justify-between mb-3">
+					<div>
+						<h2 className="text-lg font-semibold text-white">Session Replay</h2>
+						<p className="text-xs text-gray-500">{cast?.title ?? sessionId}</p>
+					</div>
+					<button onClick={onClose} className="text-gray-400 hover:text-white">
+						<svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+							<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+						</svg>
+					</button>
+				</div>
+
+				{error ? (
+					<div className="rounded-xl bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">{error}</div>
+				) : (
+					<>
+						<div className="flex flex-wrap items-center gap-2 mb-3">
+							<button
+								onClick={finished ? restart : () => setPlaying(!playing)}
+								disabled={!cast}
+								className="rounded-lg bg-emerald-500/10 px-3 py-1.5 text-xs font-medium text-emerald-400 transition hover:bg-emerald-500/20 disabled:opacity-50"
+							>
+								{finished ? "Replay" : playing ? "Pause" : "Play"}
+							</button>
+							<button
+								onClick={restart}
+								disabled={!cast}
+								className="rounded-lg bg-white/10 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-white/20 disabled:opacity-50"
+							>
+								Restart
+							</button>
+							<select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} className={inputClass}>
+								{[0.5, 1, 2, 4, 8].map((s) => (
+									<option key={s} value={s}>
+										{s}x
+									</option>
+								))}
+							</select>
+							<span className="text-xs text-gray-500 font-mono">
+								{formatTime(position)} / {formatTime(duration)}
+							</span>
+							<a
+								href={`/api/modules/terminal/recordings/${sessionId}?download=1`}
+								className="ml-auto rounded-lg bg-blue-500/10 px-3 py-1.5 text-xs font-medium text-blue-400 transition hover:bg-blue-500/20"
+							>
+								Download .cast
+							</a>
+						</div>
+						<div className="flex-1 min-h-0 overflow-auto rounded-lg bg-gray-900 p-2">
+							{!cast && <p className="text-xs text-gray-500">Loading recording...</p>}
+							<div ref={containerRef} />
+						</div>
+					</>
+				)}
+			</div>
+		</div>,
+		document.body
+	);
+}
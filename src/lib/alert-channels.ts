@@ -0,0 +1,360 @@
+/**
+ * alert-channels.ts – Where alert notifications are sent (server-side).
+ *
+ * A channel is an email account (SMTP), a generic JSON webhook, a
+ * Slack-compatible incoming webhook, an ntfy topic or a Gotify server. Each
+ * type declares its fields in CHANNEL_TYPES, which also drives the form in
+ * the UI. The whole config is stored encrypted (webhook URLs tend to embed
+ * tokens); fields marked secret are never sent back to the browser.
+ */
+
+import os from "node:os";
+import { db } from "./db";
+import { createSecretBox } from "./secrets";
+import { mailAddress, sendMail, type SmtpSecurity } from "./smtp";
+
+export type ChannelType = "email" | "webhook" | "slack" | "ntfy" | "gotify";
+
+export type AlertSeverity = "info" | "warning" | "critical";
+
+export interface ChannelField {
+	key: string;
+	label: string;
+	type: "text" | "number" | "select" | "password" | "url";
+	required?: boolean;
+	placeholder?: string;
+	description?: string;
+	default?: string;
+	options?: { value: string; label: string }[];
+}
+
+export const CHANNEL_TYPES: Record<ChannelType, { label: string; fields: ChannelField[] }> = {
+	email: {
+		label: "Email (SMTP)",
+		fields: [
+			{ key: "host", label: "SMTP server", type: "text", required: true, placeholder: "smtp.example.com" },
+			{ key: "port", label: "Port", type: "number", required: true, default: "587" },
+			{
+				key: "security",
+				label: "Encryption",
+				type: "select",
+				default: "starttls",
+				options: [
+					{ value: "starttls", label: "STARTTLS" },
+					{ value: "tls", label: "TLS" },
+					{ value: "none", label: "None" },
+				],
+			},
+			{ key: "username", label: "Username", type: "text" },
+			{ key: "password", label: "Password", type: "password" },
+			{ key: "from", label: "From", type: "text", required: true, placeholder: "ServerPilot <alerts@example.com>" },
+			{ key: "to", label: "To", type: "text", required: true, description: "Comma-separated addresses" },
+		],
+	},
+	webhook: {
+		label: "Webhook",
+		fields: [
+			{ key: "url", label: "URL", type: "url", required: true, description: "Receives a JSON POST per notification" },
+			{ key: "authorization", label: "Authorization header", type: "password", placeholder: "Bearer …" },
+		],
+	},
+	slack: {
+		label: "Slack-compatible webhook",
+		fields: [
+			{
+				key: "url",
+				label: "Webhook URL",
+				type: "password",
+				required: true,
+				description: "Incoming webhook of Slack, Mattermost, Rocket.Chat, …",
+			},
+		],
+	},
+	ntfy: {
+		label: "ntfy",
+		fields: [
+			{ key: "url", label: "Topic URL", type: "url", required: true, placeholder: "https://ntfy.sh/my-server-alerts" },
+			{ key: "token", label: "Access token", type: "password" },
+		],
+	},
+	gotify: {
+		label: "Gotify",
+		fields: [
+			{ key: "url", label: "Server URL", type: "url", required: true, placeholder: "https://gotify.example.com" },
+			{ key: "token", label: "Application token", type: "password", required: true },
+		],
+	},
+};
+
+const CHANNEL_NAME_PATTERN = /^[\w .-]{1,64}$/;
+const EMAIL_PATTERN = /^[^\s@<>,]+@[^\s@<>,]+$/;
+const SEND_TIMEOUT = 10_000;
+
+export interface AlertChannel {
+	id: number;
+	name: string;
+	type: ChannelType;
+	/** Non-secret fields only. */
+	config: Record<string, string>;
+	/** Secret fields that have a value. */
+	secretsSet: string[];
+	enabled: boolean;
+	createdBy: string;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface AlertNotification {
+	title: string;
+	message: string;
+	state: "firing" | "resolved" | "test";
+	severity: AlertSeverity;
+	rule?: string;
+	value?: string;
+}
+
+interface DbChannel {
+	id: number;
+	name: string;
+	type: ChannelType;
+	config: string;
+	enabled: number;
+	created_by: string;
+	created_at: string;
+	updated_at: string;
+}
+
+const secrets = createSecretBox("alert-channels");
+
+export function isChannelType(type: unknown): type is ChannelType {
+	return typeof type === "string" && Object.hasOwn(CHANNEL_TYPES, type);
+}
+
+function readConfig(row: DbChannel): Record<string, string> {
+	return JSON.parse(secrets.decrypt(row.config));
+}
+
+function mapDbChannel(row: DbChannel): AlertChannel {
+	const fields = CHANNEL_TYPES[row.type]?.fields ?? [];
+	let stored: Record<string, string> = {};
+	try {
+		stored = readConfig(row);
+	} catch {
+		// JWT_SECRET changed; the channel has to be re-entered
+	}
+	const config: Record<string, string> = {};
+	const secretsSet: string[] = [];
+	for (const field of fields) {
+		if (field.type === "password") {
+			if (stored[field.key]) secretsSet.push(field.key);
+		} else if (stored[field.key] !== undefined) {
+			config[field.key] = stored[field.key];
+		}
+	}
+	return {
+		id: row.id,
+		name: row.name,
+		type: row.type,
+		config,
+		secretsSet,
+		enabled: row.enabled === 1,
+		createdBy: row.created_by,
+		createdAt: row.created_at,
+		updatedAt: row.updated_at,
+	};
+}
+
+function getRow(id: number): DbChannel | undefined {
+	return db.prepare("SELECT * FROM alert_channels WHERE id = ?").get(id) as DbChannel | undefined;
+}
+
+/**
+ * Check user input against the type's fields. Secret fields left empty keep
+ * their previous value. Throws with a message for the user on bad input.
+ */
+function normalizeConfig(type: ChannelType, input: unknown, previous: Record<string, string> = {}): Record<string, string> {
+	const values = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+	const config: Record<string, string> = {};
+
+	for (const field of CHANNEL_TYPES[type].fields) {
+		const raw = values[field.key];
+		let value = typeof raw === "string" || typeof raw === "number" ? String(raw).trim() : "";
+		if (!value && field.type === "password") value = previous[field.key] ?? "";
+		if (!value) value = field.default ?? "";
+
+		if (!value) {
+			if (field.required) throw new Error(`${field.label} is required`);
+			continue;
+		}
+		if (field.type === "number" && !/^\d{1,5}$/.test(value)) {
+			throw new Error(`${field.label} must be a number`);
+		}
+		if (field.type === "select" && !field.options?.some((o) => o.value === value)) {
+			throw new Error(`Invalid ${field.label.toLowerCase()}`);
+		}
+		if (field.type === "url" || (field.type === "password" && field.key === "url")) {
+			let url: URL;
+			try {
+				url = new URL(value);
+			} catch {
+				throw new Error(`${field.label} must be a URL`);
+			}
+			if (url.protocol !== "http:" && url.protocol !== "https:") {
+				throw new Error(`${field.label} must be an http(s) URL`);
+			}
+		}
+		config[field.key] = value;
+	}
+
+	if (type === "email") {
+		if (!EMAIL_PATTERN.test(mailAddress(config.from))) throw new Error("From must be an email address");
+		if (!config.to.split(",").every((a) => EMAIL_PATTERN.test(mailAddress(a)))) {
+			throw new Error("To must be a comma-separated list of email addresses");
+		}
+	}
+	return config;
+}
+
+export function listChannels(): AlertChannel[] {
+	const rows = db.prepare("SELECT * FROM alert_channels ORDER BY name").all() as DbChannel[];
+	return rows.map(mapDbChannel);
+}
+
+export function getChannel(id: number): AlertChannel | undefined {
+	const row = getRow(id);
+	return row ? mapDbChannel(row) : undefined;
+}
+
+export function createChannel(name: string, type: unknown, config: unknown, createdBy: string): AlertChannel {
+	if (!CHANNEL_NAME_PATTERN.test(name)) {
+		throw new Error("Name must be 1-64 letters, digits, spaces, dots, dashes or underscores");
+	}
+	if (!isChannelType(type)) throw new Error("Unknown channel type");
+	if (db.prepare("SELECT id FROM alert_channels WHERE name = ?").get(name)) {
+		throw new Error("A channel with this name already exists");
+	}
+
+	const stored = secrets.encrypt(JSON.stringify(normalizeConfig(type, config)));
+	const now = new Date().toISOString();
+	const { lastInsertRowid } = db
+		.prepare(`
+			INSERT INTO alert_channels (name, type, config, enabled, created_by, created_at, updated_at)
+			VALUES (?, ?, ?, 1, ?, ?, ?)
+		`)
+		.run(name, type, stored, createdBy, now, now);
+	return getChannel(Number(lastInsertRowid))!;
+}
+
+export function updateChannel(id: number, updates: { name?: string; config?: unknown; enabled?: boolean }): AlertChannel {
+	const row = getRow(id);
+	if (!row) throw new Error("Channel not found");
+
+	const name = updates.name ?? row.name;
+	if (!CHANNEL_NAME_PATTERN.test(name)) {
+		throw new Error("Name must be 1-64 letters, digits, spaces, dots, dashes or underscores");
+	}
+	if (db.prepare("SELECT id FROM alert_channels WHERE name = ? AND id != ?").get(name, id)) {
+		throw new Error("A channel with this name already exists");
+	}
+
+	let stored = row.config;
+	if (updates.config !== undefined) {
+		let previous: Record<string, string> = {};
+		try {
+			previous = readConfig(row);
+		} catch {
+			// Unreadable secrets have to be entered again
+		}
+		stored = secrets.encrypt(JSON.stringify(normalizeConfig(row.type, updates.config, previous)));
+	}
+
+	const enabled = updates.enabled ?? row.enabled === 1;
+	db.prepare("UPDATE alert_channels SET name = ?, config = ?, enabled = ?, updated_at = ? WHERE id = ?").run(
+		name,
+		stored,
+		enabled ? 1 : 0,
+		new Date().toISOString(),
+		id
+	);
+	return getChannel(id)!;
+}
+
+/** Delete a channel and take it off the rules that notify it. */
+export function deleteChannel(id: number): boolean {
+	const rules = db.prepare("SELECT id, channels FROM alert_rules").all() as { id: number; channels: string }[];
+	const update = db.prepare("UPDATE alert_rules SET channels = ? WHERE id = ?");
+	return db.transaction(() => {
+		for (const rule of rules) {
+			const ids = rule.channels.split(",").filter(Boolean);
+			if (ids.includes(String(id))) update.run(ids.filter((c) => c !== String(id)).join(","), rule.id);
+		}
+		return db.prepare("DELETE FROM alert_channels WHERE id = ?").run(id).changes > 0;
+	})();
+}
+
+async function post(url: string, body: string, headers: Record<string, string>): Promise<void> {
+	const res = await fetch(url, { method: "POST", body, headers, signal: AbortSignal.timeout(SEND_TIMEOUT) });
+	if (!res.ok) {
+		const text = (await res.text().catch(() => "")).slice(0, 200);
+		throw new Error(`HTTP ${res.status}${text ? `: ${text}` : ""}`);
+	}
+}
+
+const NTFY_PRIORITY: Record<AlertSeverity, string> = { info: "default", warning: "high", critical: "urgent" };
+const GOTIFY_PRIORITY: Record<AlertSeverity, number> = { info: 2, warning: 5, critical: 8 };
+
+/** Send one notification through a channel. Throws when delivery fails. */
+export async function sendToChannel(id: number, notification: AlertNotification): Promise<void> {
+	const row = getRow(id);
+	if (!row) throw new Error("Channel not found");
+	const config = readConfig(row);
+	const host = os.hostname();
+	const title = `${notification.title} (${host})`;
+
+	switch (row.type) {
+		case "email":
+			await sendMail(
+				{
+					host: config.host,
+					port: Number(config.port),
+					security: config.security as SmtpSecurity,
+					username: config.username,
+					password: config.password,
+				},
+				{ from: config.from, to: config.to.split(",").map((a) => a.trim()), subject: title, text: notification.message }
+			);
+			break;
+
+		case "webhook":
+			await post(
+				config.url,
+				JSON.stringify({ ...notification, host, at: new Date().toISOString() }),
+				{ "Content-Type": "application/json", ...(config.authorization ? { Authorization: config.authorization } : {}) }
+			);
+			break;
+
+		case "slack":
+			await post(config.url, JSON.stringify({ text: `*${title}*\n${notification.message}` }), {
+				"Content-Type": "application/json",
+			});
+			break;
+
+		case "ntfy":
+			await post(config.url, notification.message, {
+				// HTTP headers are Latin-1; ntfy decodes RFC 2047 words
+				Title: /^[\x20-\x7e]*$/.test(title) ? title : `=?UTF-8?B?${Buffer.from(title).toString("base64")}?=`,
+				Priority: notification.state === "firing" ? NTFY_PRIORITY[notification.severity] : "default",
+				Tags: notification.state === "firing" ? "rotating_light" : notification.state === "resolved" ? "white_check_mark" : "bell",
+				...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+			});
+			break;
+
+		case "gotify":
+			await post(
+				`${config.url.replace(/\/+$/, "")}/message`,
+				JSON.stringify({ title, message: notification.message, priority: GOTIFY_PRIORITY[notification.severity] }),
+				{ "Content-Type": "application/json", "X-Gotify-Key": config.token }
+			);
+			break;
+	}
+}
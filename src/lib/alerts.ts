@@ -0,0 +1,663 @@
+/**
+ * alerts.ts – Alert rules, silences, history and the background evaluator.
+ *
+ * Every EVALUATION_INTERVAL_MS each enabled rule is checked against the
+ * latest metrics sample (CPU, memory, load), `df` (disk and inode usage per
+ * mount), the Docker daemon (containers) or systemd (services). Disk and inode
+ * rules target one mount point, or "*" for whichever mount is fullest (or
+ * emptiest, for "<"). A rule moves through:
+ *
+ *   ok/resolved → pending   condition true, waiting out its "for" duration
+ *   pending     → firing    still true after the duration (notifies)
+ *   pending     → ok        cleared before it fired
+ *   firing      → resolved  cleared (notifies if the firing did)
+ *
+ * Firing and resolving are recorded in alert_events. While a silence covers
+ * a rule its transitions are still recorded but nothing is sent; if it is
+ * still firing when the silence ends, the firing notification goes out then.
+ * Rules whose source can't be read (Docker down, no sample yet) keep their
+ * state until it can.
+ */
+
+import { db } from "./db";
+import { listContainers, type DockerContainer } from "./docker";
+import { runAsync } from "./exec";
+import { logSystemError, ERROR_CODES } from "./audit";
+import { getLatestSample, type MetricSample } from "./metrics-history";
+import { readDiskUsage, readMounts, type MountUsage } from "./system-stats";
+import { getChannel, sendToChannel, type AlertNotification, type AlertSeverity } from "./alert-channels";
+
+export type { AlertSeverity } from "./alert-channels";
+
+export type RuleKind = "cpu" | "memory" | "disk" | "inodes" | "load" | "container" | "service";
+export type AlertState = "ok" | "pending" | "firing" | "resolved";
+export type RuleOperator = ">" | "<";
+
+export const RULE_KINDS: Record<RuleKind, { label: string; unit: string; target?: string; threshold: boolean }> = {
+	cpu: { label: "CPU usage", unit: "%", threshold: true },
+	memory: { label: "Memory usage", unit: "%", threshold: true },
+	disk: { label: "Disk usage", unit: "%", target: "Mount point", threshold: true },
+	inodes: { label: "Inode usage", unit: "%", target: "Mount point", threshold: true },
+	load: { label: "Load average (1 min)", unit: "", threshold: true },
+	container: { label: "Container not running", unit: "", target: "Container name", threshold: false },
+	service: { label: "Service not active", unit: "", target: "Service name", threshold: false },
+};
+
+const SEVERITIES: AlertSeverity[] = ["info", "warning", "critical"];
+const RULE_NAME_PATTERN = /^[\w .%>/-]{1,64}$/;
+const CONTAINER_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]{0,127}$/;
+const SERVICE_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9@._:-]{0,127}$/;
+const MOUNT_PATTERN = /^\/[\w.@+/-]{0,255}$/;
+/** Disk and inode rule target that matches every mount. */
+const ANY_MOUNT = "*";
+const MAX_FOR_SECONDS = 24 * 3600;
+
+const EVALUATION_INTERVAL_MS = 15_000;
+const HISTORY_RETENTION_MS = 90 * 24 * 3600_000;
+/** Silences that ended longer ago than this drop out of the list. */
+const SILENCE_LIST_WINDOW_MS = 7 * 24 * 3600_000;
+
+export interface AlertRule {
+	id: number;
+	name: string;
+	kind: RuleKind;
+	/** Mount point, container or service name; empty for host-wide metrics. */
+	target: string;
+	operator: RuleOperator;
+	threshold: number | null;
+	/** How long the condition must hold before the rule fires. */
+	forSeconds: number;
+	severity: AlertSeverity;
+	channels: number[];
+	enabled: boolean;
+	state: AlertState;
+	stateSince?: string;
+	lastValue?: string;
+	lastEvaluatedAt?: string;
+	/** A silence currently covers this rule. */
+	silenced: boolean;
+	createdBy: string;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface RuleInput {
+	name?: unknown;
+	kind?: unknown;
+	target?: unknown;
+	operator?: unknown;
+	threshold?: unknown;
+	forSeconds?: unknown;
+	severity?: unknown;
+	channels?: unknown;
+	enabled?: unknown;
+}
+
+export interface AlertSilence {
+	id: number;
+	/** null silences every rule. */
+	ruleId: number | null;
+	ruleName?: string;
+	startsAt: string;
+	endsAt: string;
+	reason: string;
+	active: boolean;
+	createdBy: string;
+	createdAt: string;
+}
+
+export interface AlertEvent {
+	id: number;
+	ruleId: number;
+	ruleName: string;
+	severity: AlertSeverity;
+	state: "firing" | "resolved";
+	value?: string;
+	message: string;
+	silenced: boolean;
+	notifyError?: string;
+	createdAt: string;
+}
+
+interface DbRule {
+	id: number;
+	name: string;
+	kind: RuleKind;
+	target: string;
+	operator: RuleOperator;
+	threshold: number | null;
+	for_seconds: number;
+	severity: AlertSeverity;
+	channels: string;
+	enabled: number;
+	state: AlertState;
+	state_since: string | null;
+	last_value: string | null;
+	last_evaluated_at: string | null;
+	notified: number;
+	created_by: string;
+	created_at: string;
+	updated_at: string;
+}
+
+interface DbSilence {
+	id: number;
+	rule_id: number | null;
+	rule_name: string | null;
+	starts_at: string;
+	ends_at: string;
+	reason: string;
+	created_by: string;
+	created_at: string;
+}
+
+interface DbEvent {
+	id: number;
+	rule_id: number;
+	rule_name: string;
+	severity: AlertSeverity;
+	state: "firing" | "resolved";
+	value: string | null;
+	message: string;
+	silenced: number;
+	notify_error: string | null;
+	created_at: string;
+}
+
+function isSilenced(ruleId: number, now = new Date().toISOString()): boolean {
+	return !!db
+		.prepare("SELECT id FROM alert_silences WHERE (rule_id IS NULL OR rule_id = ?) AND starts_at <= ? AND ends_at > ?")
+		.get(ruleId, now, now);
+}
+
+function mapDbRule(row: DbRule): AlertRule {
+	return {
+		id: row.id,
+		name: row.name,
+		kind: row.kind,
+		target: row.target,
+		operator: row.operator,
+		threshold: row.threshold,
+		forSeconds: row.for_seconds,
+		severity: row.severity,
+		channels: row.channels.split(",").filter(Boolean).map(Number),
+		enabled: row.enabled === 1,
+		state: row.state,
+		stateSince: row.state_since || undefined,
+		lastValue: row.last_value || undefined,
+		lastEvaluatedAt: row.last_evaluated_at || undefined,
+		silenced: isSilenced(row.id),
+		createdBy: row.created_by,
+		createdAt: row.created_at,
+		updatedAt: row.updated_at,
+	};
+}
+
+function mapDbSilence(row: DbSilence, now: string): AlertSilence {
+	return {
+		id: row.id,
+		ruleId: row.rule_id,
+		ruleName: row.rule_name || undefined,
+		startsAt: row.starts_at,
+		endsAt: row.ends_at,
+		reason: row.reason,
+		active: row.starts_at <= now && row.ends_at > now,
+		createdBy: row.created_by,
+		createdAt: row.created_at,
+	};
+}
+
+function mapDbEvent(row: DbEvent): AlertEvent {
+	return {
+		id: row.id,
+		ruleId: row.rule_id,
+		ruleName: row.rule_name,
+		severity: row.severity,
+		state: row.state,
+		value: row.value || undefined,
+		message: row.message,
+		silenced: row.silenced === 1,
+		notifyError: row.notify_error || undefined,
+		createdAt: row.created_at,
+	};
+}
+
+function getRuleRow(id: number): DbRule | undefined {
+	return db.prepare("SELECT * FROM alert_rules WHERE id = ?").get(id) as DbRule | undefined;
+}
+
+/* ── Rules ── */
+
+type RuleFields = Pick<DbRule, "name" | "kind" | "target" | "operator" | "threshold" | "for_seconds" | "severity" | "channels" | "enabled">;
+
+/** Merge user input over an existing rule (or defaults) and validate. Throws with a message for the user. */
+function normalizeRule(input: RuleInput, existing?: DbRule): RuleFields {
+	const name = input.name === undefined ? existing?.name : typeof input.name === "string" ? input.name.trim() : "";
+	if (!name || !RULE_NAME_PATTERN.test(name)) {
+		throw new Error("Name must be 1-64 letters, digits, spaces or . % > / - _");
+	}
+
+	const kind = (input.kind ?? existing?.kind) as RuleKind;
+	if (typeof kind !== "string" || !Object.hasOwn(RULE_KINDS, kind)) throw new Error("Unknown rule type");
+	const spec = RULE_KINDS[kind];
+
+	let target = "";
+	if (spec.target) {
+		target = input.target === undefined ? (existing?.target ?? "") : typeof input.target === "string" ? input.target.trim() : "";
+		if (kind === "disk" || kind === "inodes") {
+			target ||= "/";
+			if (target !== ANY_MOUNT && (!MOUNT_PATTERN.test(target) || target.split("/").includes(".."))) {
+				throw new Error("Invalid mount point");
+			}
+		} else if (kind === "container") {
+			target = target.replace(/^\//, "");
+			if (!CONTAINER_NAME_PATTERN.test(target)) throw new Error("Invalid container name");
+		} else if (!SERVICE_NAME_PATTERN.test(target)) {
+			throw new Error("Invalid service name");
+		}
+	}
+
+	let operator: RuleOperator = ">";
+	let threshold: number | null = null;
+	if (spec.threshold) {
+		operator = (input.operator ?? existing?.operator ?? ">") as RuleOperator;
+		if (operator !== ">" && operator !== "<") throw new Error("Operator must be > or <");
+		threshold = Number(input.threshold ?? existing?.threshold);
+		if (input.threshold === null || !Number.isFinite(threshold)) throw new Error("Threshold must be a number");
+		if (spec.unit === "%" && (threshold < 0 || threshold > 100)) throw new Error("Threshold must be between 0 and 100");
+	}
+
+	const forSeconds = Number(input.forSeconds ?? existing?.for_seconds ?? 0);
+	if (!Number.isInteger(forSeconds) || forSeconds < 0 || forSeconds > MAX_FOR_SECONDS) {
+		throw new Error("Duration must be between 0 seconds and 24 hours");
+	}
+
+	const severity = (input.severity ?? existing?.severity ?? "warning") as AlertSeverity;
+	if (!SEVERITIES.includes(severity)) throw new Error("Severity must be info, warning or critical");
+
+	let channels = existing?.channels ?? "";
+	if (input.channels !== undefined) {
+		if (!Array.isArray(input.channels) || !input.channels.every((id) => Number.isInteger(id) && getChannel(id))) {
+			throw new Error("Unknown notification channel");
+		}
+		channels = Array.from(new Set(input.channels as number[])).join(",");
+	}
+
+	const enabled = input.enabled === undefined ? (existing?.enabled ?? 1) : input.enabled ? 1 : 0;
+
+	return { name, kind, target, operator, threshold, for_seconds: forSeconds, severity, channels, enabled };
+}
+
+export function listRules(): AlertRule[] {
+	const rows = db.prepare("SELECT * FROM alert_rules ORDER BY name").all() as DbRule[];
+	return rows.map(mapDbRule);
+}
+
+export function getRule(id: number): AlertRule | undefined {
+	const row = getRuleRow(id);
+	return row ? mapDbRule(row) : undefined;
+}
+
+export function createRule(input: RuleInput, createdBy: string): AlertRule {
+	const rule = normalizeRule(input);
+	if (db.prepare("SELECT id FROM alert_rules WHERE name = ?").get(rule.name)) {
+		throw new Error("A rule with this name already exists");
+	}
+	const now = new Date().toISOString();
+	const { lastInsertRowid } = db
+		.prepare(`
+			INSERT INTO alert_rules (name, kind, target, operator, threshold, for_seconds, severity, channels, enabled,
+				created_by, created_at, updated_at)
+			VALUES (@name, @kind, @target, @operator, @threshold, @for_seconds, @severity, @channels, @enabled,
+				@createdBy, @now, @now)
+		`)
+		.run({ ...rule, createdBy, now });
+	return getRule(Number(lastInsertRowid))!;
+}
+
+/**
+ * Update a rule. Changing what it watches, or disabling it, starts it over
+ * from "ok" without notifying.
+ */
+export function updateRule(id: number, input: RuleInput): AlertRule {
+	const existing = getRuleRow(id);
+	if (!existing) throw new Error("Rule not found");
+	const rule = normalizeRule(input, existing);
+	if (db.prepare("SELECT id FROM alert_rules WHERE name = ? AND id != ?").get(rule.name, id)) {
+		throw new Error("A rule with this name already exists");
+	}
+
+	const reset =
+		rule.kind !== existing.kind ||
+		rule.target !== existing.target ||
+		rule.operator !== existing.operator ||
+		rule.threshold !== existing.threshold ||
+		!rule.enabled;
+
+	db.prepare(`
+		UPDATE alert_rules SET name = @name, kind = @kind, target = @target, operator = @operator, threshold = @threshold,
+			for_seconds = @for_seconds, severity = @severity, channels = @channels, enabled = @enabled, updated_at = @now
+		WHERE id = @id
+	`).run({ ...rule, id, now: new Date().toISOString() });
+	if (reset) {
+		db.prepare("UPDATE alert_rules SET state = 'ok', state_since = NULL, last_value = NULL, notified = 0 WHERE id = ?").run(id);
+	}
+	return getRule(id)!;
+}
+
+/** Delete a rule and its silences. Its history stays, under the rule's name. */
+export function deleteRule(id: number): boolean {
+	return db.transaction(() => {
+		db.prepare("DELETE FROM alert_silences WHERE rule_id = ?").run(id);
+		return db.prepare("DELETE FROM alert_rules WHERE id = ?").run(id).changes > 0;
+	})();
+}
+
+/* ── Silences ── */
+
+export function listSilences(): AlertSilence[] {
+	const now = new Date().toISOString();
+	const rows = db
+		.prepare(`
+			SELECT s.*, r.name AS rule_name FROM alert_silences s LEFT JOIN alert_rules r ON r.id = s.rule_id
+			WHERE s.ends_at > ? ORDER BY s.ends_at DESC
+		`)
+		.all(new Date(Date.now() - SILENCE_LIST_WINDOW_MS).toISOString()) as DbSilence[];
+	return rows.map((row) => mapDbSilence(row, now));
+}
+
+export function createSilence(
+	input: { ruleId?: unknown; startsAt?: unknown; endsAt?: unknown; reason?: unknown },
+	createdBy: string
+): AlertSilence {
+	let ruleId: number | null = null;
+	if (input.ruleId !== undefined && input.ruleId !== null) {
+		ruleId = Number(input.ruleId);
+		if (!getRuleRow(ruleId)) throw new Error("Rule not found");
+	}
+
+	const startsAt = input.startsAt === undefined ? new Date() : new Date(String(input.startsAt));
+	const endsAt = new Date(String(input.endsAt));
+	if (Number.isNaN(startsAt.getTime()) || Number.isNaN(endsAt.getTime())) {
+		throw new Error("Start and end must be dates");
+	}
+	if (endsAt <= startsAt || endsAt.getTime() <= Date.now()) {
+		throw new Error("A silence must end in the future, after it starts");
+	}
+
+	const reason = typeof input.reason === "string" ? input.reason.trim().slice(0, 200) : "";
+	const now = new Date().toISOString();
+	db.prepare("DELETE FROM alert_silences WHERE ends_at < ?").run(new Date(Date.now() - SILENCE_LIST_WINDOW_MS).toISOString());
+	const { lastInsertRowid } = db
+		.prepare(`
+			INSERT INTO alert_silences (rule_id, starts_at, ends_at, reason, created_by, created_at)
+			VALUES (?, ?, ?, ?, ?, ?)
+		`)
+		.run(ruleId, startsAt.toISOString(), endsAt.toISOString(), reason, createdBy, now);
+
+	return listSilences().find((s) => s.id === Number(lastInsertRowid))!;
+}
+
+export function deleteSilence(id: number): boolean {
+	return db.prepare("DELETE FROM alert_silences WHERE id = ?").run(id).changes > 0;
+}
+
+/* ── History ── */
+
+export function listAlertEvents(options: { limit?: number; ruleId?: number } = {}): AlertEvent[] {
+	const limit = Math.min(Math.max(options.limit ?? 100, 1), 1000);
+	const rows = (
+		options.ruleId !== undefined
+			? db.prepare("SELECT * FROM alert_events WHERE rule_id = ? ORDER BY id DESC LIMIT ?").all(options.ruleId, limit)
+			: db.prepare("SELECT * FROM alert_events ORDER BY id DESC LIMIT ?").all(limit)
+	) as DbEvent[];
+	return rows.map(mapDbEvent);
+}
+
+function recordEvent(rule: DbRule, state: AlertEvent["state"], value: string, message: string, silenced: boolean): number {
+	const now = new Date();
+	db.prepare("DELETE FROM alert_events WHERE created_at < ?").run(new Date(now.getTime() - HISTORY_RETENTION_MS).toISOString());
+	const { lastInsertRowid } = db
+		.prepare(`
+			INSERT INTO alert_events (rule_id, rule_name, severity, state, value, message, silenced, created_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+		`)
+		.run(rule.id, rule.name, rule.severity, state, value, message, silenced ? 1 : 0, now.toISOString());
+	return Number(lastInsertRowid);
+}
+
+/* ── Evaluation ── */
+
+interface Observation {
+	breaching: boolean;
+	value: string;
+	/** One line for notifications, e.g. "CPU usage is 93.1% (threshold > 90%)". */
+	summary: string;
+}
+
+interface EvaluationContext {
+	sample: MetricSample | null;
+	containers?: Promise<DockerContainer[] | null>;
+	mounts?: MountUsage[] | null;
+}
+
+function compareMetric(rule: DbRule, label: string, value: number | null | undefined): Observation | null {
+	if (value === null || value === undefined || !Number.isFinite(value) || rule.threshold === null) return null;
+	const unit = RULE_KINDS[rule.kind].unit;
+	const shown = unit === "%" ? `${value.toFixed(1)}%` : value.toFixed(2);
+	const breaching = rule.operator === ">" ? value > rule.threshold : value < rule.threshold;
+	return { breaching, value: shown, summary: `${label} is ${shown} (threshold ${rule.operator} ${rule.threshold}${unit})` };
+}
+
+/** Used share of a mount in percent, or null when df reported no capacity (e.g. no inode limit). */
+function mountPercent(mount: MountUsage, kind: "disk" | "inodes"): number | null {
+	const [used, total] = kind === "disk" ? [mount.used, mount.size] : [mount.inodesUsed, mount.inodesTotal];
+	return total > 0 ? (used / total) * 100 : null;
+}
+
+/**
+ * Disk or inode usage for a rule's target. "*" picks the mount closest to
+ * breaching; a path is measured on the mount that contains it.
+ */
+function observeMount(rule: DbRule, ctx: EvaluationContext, kind: "disk" | "inodes"): Observation | null {
+	const label = kind === "disk" ? "Disk usage" : "Inode usage";
+	if (ctx.mounts === undefined) ctx.mounts = readMounts();
+	const mounts = ctx.mounts ?? [];
+
+	if (rule.target === ANY_MOUNT) {
+		let worst: { mount: MountUsage; percent: number } | null = null;
+		for (const mount of mounts) {
+			const percent = mountPercent(mount, kind);
+			if (percent === null) continue;
+			if (!worst || (rule.operator === ">" ? percent > worst.percent : percent < worst.percent)) worst = { mount, percent };
+		}
+		return worst ? compareMetric(rule, `${label} of ${worst.mount.mountpoint}`, worst.percent) : null;
+	}
+
+	// The deepest mount containing the target; "/" only when nothing below it does
+	const contains = (m: MountUsage) =>
+		rule.target === m.mountpoint || rule.target.startsWith(m.mountpoint === "/" ? "/" : `${m.mountpoint}/`);
+	const mount = mounts.filter(contains).sort((a, b) => b.mountpoint.length - a.mountpoint.length)[0];
+	if (mount && (mount.mountpoint !== "/" || rule.target === "/")) {
+		return compareMetric(rule, `${label} of ${rule.target}`, mountPercent(mount, kind));
+	}
+
+	// The target may sit on a mount df:mounts skips (e.g. tmpfs), so ask df about the path itself
+	const disk = kind === "disk" ? readDiskUsage(rule.target) : null;
+	if (disk && disk.total > 0) return compareMetric(rule, `${label} of ${rule.target}`, (disk.used / disk.total) * 100);
+	if (mount) return compareMetric(rule, `${label} of ${rule.target}`, mountPercent(mount, kind));
+	return null;
+}
+
+async function observe(rule: DbRule, ctx: EvaluationContext): Promise<Observation | null> {
+	const { sample } = ctx;
+	switch (rule.kind) {
+		case "cpu":
+			return compareMetric(rule, "CPU usage", sample?.cpu);
+		case "memory":
+			return compareMetric(
+				rule,
+				"Memory usage",
+				sample?.mem_used != null && sample.mem_total ? (sample.mem_used / sample.mem_total) * 100 : null
+			);
+		case "load":
+			return compareMetric(rule, "Load average", sample?.load1);
+		case "disk":
+		case "inodes":
+			return observeMount(rule, ctx, rule.kind);
+		case "container": {
+			ctx.containers ??= listContainers({ all: true }).catch(() => null);
+			const containers = await ctx.containers;
+			if (!containers) return null;
+			const container = containers.find((c) => c.Names.some((n) => n.replace(/^\//, "") === rule.target));
+			const state = container?.State ?? "missing";
+			return {
+				breaching: state !== "running",
+				value: state,
+				summary: container ? `Container ${rule.target} is ${state} (${container.Status})` : `Container ${rule.target} does not exist`,
+			};
+		}
+		case "service": {
+			const result = await runAsync("systemctl:is-active", [rule.target], 10_000);
+			const state = result.stdout.trim().split("\n")[0];
+			if (!state) return null;
+			return { breaching: state !== "active", value: state, summary: `Service ${rule.target} is ${state}` };
+		}
+	}
+}
+
+/** Send to the rule's enabled channels; failures are stored on the event and logged. */
+async function notify(rule: DbRule, notification: AlertNotification, eventId: number | null): Promise<void> {
+	const channels = rule.channels
+		.split(",")
+		.filter(Boolean)
+		.map((id) => getChannel(Number(id)))
+		.filter((c) => c?.enabled);
+
+	const results = await Promise.allSettled(channels.map((c) => sendToChannel(c!.id, notification)));
+	const errors = results.flatMap((r, i) =>
+		r.status === "rejected" ? [`${channels[i]!.name}: ${r.reason instanceof Error ? r.reason.message : String(r.reason)}`] : []
+	);
+	if (errors.length === 0) return;
+
+	if (eventId !== null) {
+		db.prepare("UPDATE alert_events SET notify_error = ? WHERE id = ?").run(errors.join("; "), eventId);
+	}
+	logSystemError(ERROR_CODES.ERR_ALERT_NOTIFY_FAILED, `Alert "${rule.name}" notification failed: ${errors.join("; ")}`, {
+		action: "ALERT_NOTIFY",
+		target: rule.name,
+	});
+}
+
+function formatDuration(seconds: number): string {
+	if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+	if (seconds % 60 === 0) return `${seconds / 60}m`;
+	return `${seconds}s`;
+}
+
+/** Apply one observation to a rule's state; returns the notification to send, if any. */
+function transition(
+	rule: DbRule,
+	obs: Observation,
+	now: Date
+): { notification: AlertNotification; eventId: number | null } | null {
+	const iso = now.toISOString();
+	const silenced = isSilenced(rule.id, iso);
+	let { state, state_since: since, notified } = rule;
+	let result: { notification: AlertNotification; eventId: number | null } | null = null;
+
+	const firing = (): AlertNotification => ({
+		title: `[FIRING] ${rule.name}`,
+		message: rule.for_seconds > 0 ? `${obs.summary}, for at least ${formatDuration(rule.for_seconds)}` : obs.summary,
+		state: "firing",
+		severity: rule.severity,
+		rule: rule.name,
+		value: obs.value,
+	});
+
+	if (obs.breaching) {
+		if (state === "ok" || state === "resolved") {
+			state = "pending";
+			since = iso;
+		}
+		if (state === "pending" && now.getTime() - new Date(since ?? iso).getTime() >= rule.for_seconds * 1000) {
+			state = "firing";
+			since = iso;
+			notified = 0;
+			const eventId = recordEvent(rule, "firing", obs.value, obs.summary, silenced);
+			if (!silenced) result = { notification: firing(), eventId };
+		} else if (state === "firing" && !notified && !silenced) {
+			// Fired during a silence that has ended since
+			result = { notification: firing(), eventId: null };
+		}
+		if (result) notified = 1;
+	} else if (state === "pending") {
+		state = "ok";
+		since = iso;
+	} else if (state === "firing") {
+		state = "resolved";
+		since = iso;
+		const eventId = recordEvent(rule, "resolved", obs.value, obs.summary, silenced);
+		if (notified && !silenced) {
+			result = {
+				notification: {
+					title: `[RESOLVED] ${rule.name}`,
+					message: obs.summary,
+					state: "resolved",
+					severity: rule.severity,
+					rule: rule.name,
+					value: obs.value,
+				},
+				eventId,
+			};
+		}
+		notified = 0;
+	}
+
+	db.prepare(`
+		UPDATE alert_rules SET state = ?, state_since = ?, last_value = ?, last_evaluated_at = ?, notified = ? WHERE id = ?
+	`).run(state, since, obs.value, iso, notified, rule.id);
+	return result;
+}
+
+/** Evaluate all enabled rules once. */
+export async function evaluateAlerts(now = new Date()): Promise<void> {
+	const rules = db.prepare("SELECT * FROM alert_rules WHERE enabled = 1").all() as DbRule[];
+	const ctx: EvaluationContext = { sample: getLatestSample(now.getTime()) };
+	const deliveries: Promise<void>[] = [];
+
+	for (const rule of rules) {
+		const obs = await observe(rule, ctx).catch(() => null);
+		if (!obs) continue;
+		const outcome = transition(rule, obs, now);
+		if (outcome) deliveries.push(notify(rule, outcome.notification, outcome.eventId));
+	}
+	await Promise.all(deliveries);
+}
+
+let engine: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Start evaluating rules in the background (once per process), next to the
+ * metrics collector. Ticks where `isEnabled` returns false are skipped.
+ */
+export function startAlertEngine(isEnabled: () => boolean = () => true): void {
+	if (engine) return;
+	let running = false;
+	let failing = false;
+	engine = setInterval(async () => {
+		// A slow channel can outlast the interval; skip rather than pile up
+		if (running || !isEnabled()) return;
+		running = true;
+		try {
+			await evaluateAlerts();
+			failing = false;
+		} catch (err) {
+			if (!failing) console.error("[alerts] Evaluation failed:", err);
+			failing = true;
+		} finally {
+			running = false;
+		}
+	}, EVALUATION_INTERVAL_MS);
+	engine.unref();
+}
@@ -0,0 +1,198 @@
+/**
+ * api-keys.ts – Personal API keys for scripted access (server-side).
+ *
+ * Keys look like "sp_<id>_<secret>". Only a SHA-256 hash of the secret is
+ * stored; the plaintext key is returned once at creation time.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { db } from "./db";
+import { getUser, type UserRole } from "./users";
+import { hasPermission } from "./roles";
+
+export const API_KEY_SCOPES = [
+	"docker:read",
+	"docker:write",
+	"service:read",
+	"service:write",
+	"system:read",
+	"settings:read",
+	"settings:write",
+	"alerts:read",
+	"alerts:write",
+	"admin",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface ApiKey {
+	id: string;
+	username: string;
+	name: string;
+	scopes: ApiKeyScope[];
+	createdAt: string;
+	expiresAt?: string;
+	lastUsedAt?: string;
+	lastUsedIp?: string;
+}
+
+interface DbApiKey {
+	id: string;
+	username: string;
+	name: string;
+	secret_hash: string;
+	scopes: string;
+	created_at: string;
+	expires_at: string | null;
+	last_used_at: string | null;
+	last_used_ip: string | null;
+}
+
+function mapDbApiKey(row: DbApiKey): ApiKey {
+	return {
+		id: row.id,
+		username: row.username,
+		name: row.name,
+		scopes: row.scopes.split(",").filter(Boolean) as ApiKeyScope[],
+		createdAt: row.created_at,
+		expiresAt: row.expires_at || undefined,
+		lastUsedAt: row.last_used_at || undefined,
+		lastUsedIp: row.last_used_ip || undefined,
+	};
+}
+
+function hashSecret(secret: string): string {
+	return createHash("sha256").update(secret).digest("hex");
+}
+
+export function listApiKeys(username: string): ApiKey[] {
+	const rows = db
+		.prepare("SELECT * FROM api_keys WHERE username = ? ORDER BY created_at DESC")
+		.all(username) as DbApiKey[];
+	return rows.map(mapDbApiKey);
+}
+
+/**
+ * Create a key for a user. Scopes must be a subset of what the user's role allows.
+ * Returns the stored key plus the plaintext token (never retrievable again).
+ */
+export function createApiKey(
+	username: string,
+	role: UserRole,
+	name: string,
+	scopes: string[],
+	expiresAt?: string
+): { key: ApiKey; token: string } {
+	if (!name.trim()) {
+		throw new Error("Key name required");
+	}
+	if (scopes.length === 0) {
+		throw new Error("At least one scope is required");
+	}
+	for (const scope of scopes) {
+		if (!(API_KEY_SCOPES as readonly string[]).includes(scope)) {
+			throw new Error(`Unknown scope: ${scope}`);
+		}
+		if (!hasPermission(role, scope)) {
+			throw new Error(`Your role cannot grant scope: ${scope}`);
+		}
+	}
+	if (expiresAt && isNaN(Date.parse(expiresAt))) {
+		throw new Error("Invalid expiry date");
+	}
+
+	const id = randomBytes(6).toString("hex");
+	const secret = randomBytes(32).toString("base64url");
+	const createdAt = new Date().toISOString();
+
+	db.prepare(`
+		INSERT INTO api_keys (id, username, name, secret_hash, scopes, created_at, expires_at)
+		VALUES (?, ?, ?, ?, ?, ?, ?)
+	`).run(id, username, name.trim(), hashSecret(secret), scopes.join(","), createdAt, expiresAt ?? null);
+
+	return {
+		key: { id, username, name: name.trim(), scopes: scopes as ApiKeyScope[], createdAt, expiresAt },
+		token: `sp_${id}_${secret}`,
+	};
+}
+
+export function revokeApiKey(username: string, id: string): void {
+	const result = db.prepare("DELETE FROM api_keys WHERE id = ? AND username = ?").run(id, username);
+	if (result.changes === 0) {
+		throw new Error("API key not found");
+	}
+}
+
+/**
+ * Resolve a presented token to its key and owner. Returns null for unknown,
+ * malformed or expired keys, and for keys whose owner no longer exists.
+ */
+export function verifyApiKey(token: string, ip?: string): { key: ApiKey; role: UserRole } | null {
+	const match = token.match(/^sp_([0-9a-f]{12})_([A-Za-z0-9_-]+)$/);
+	if (!match) return null;
+
+	const row = db.prepare("SELECT * FROM api_keys WHERE id = ?").get(match[1]) as DbApiKey | undefined;
+	if (!row) return null;
+
+	const expected = Buffer.from(row.secret_hash, "hex");
+	const actual = Buffer.from(hashSecret(match[2]), "hex");
+	if (!timingSafeEqual(expected, actual)) return null;
+
+	if (row.expires_at && Date.parse(row.expires_at) <= Date.now()) return null;
+
+	const owner = getUser(row.username);
+	if (!owner) return null;
+
+	const lastUsedAt = new Date().toISOString();
+	db.prepare("UPDATE api_keys SET last_used_at = ?, last_used_ip = ? WHERE id = ?").run(lastUsedAt, ip ?? null, row.id);
+
+	return {
+		key: { ...mapDbApiKey(row), lastUsedAt, lastUsedIp: ip },
+		role: owner.role,
+	};
+}
+
+/**
+ * Scope required to call an API path with a key. Anything not listed
+ * explicitly needs the "admin" scope.
+ */
+export function getRequiredScope(pathname: string, method: string): ApiKeyScope {
+	const write = method !== "GET" && method !== "HEAD";
+
+	if (pathname.startsWith("/api/docker") || pathname.startsWith("/api/modules/docker/")) {
+		return write ? "docker:write" : "docker:read";
+	}
+	if (pathname.startsWith("/api/services/") || pathname.startsWith("/api/modules/service/")) {
+		return write ? "service:write" : "service:read";
+	}
+	if (
+		pathname === "/api/system" ||
+		pathname.startsWith("/api/system/") ||
+		pathname.startsWith("/api/modules/system/") ||
+		pathname === "/api/metrics"
+	) {
+		return "system:read";
+	}
+	if (pathname === "/api/settings" || pathname.startsWith("/api/settings/")) {
+		return write ? "settings:write" : "settings:read";
+	}
+	if (pathname.startsWith("/api/modules/alerts/")) {
+		return write ? "alerts:write" : "alerts:read";
+	}
+	return "admin";
+}
+
+/** Whether a key may call the given path: it needs the scope, and its owner's role must still allow it. */
+export function apiKeyAllows(key: ApiKey, role: UserRole, pathname: string, method: string): boolean {
+	// Keys can never manage keys, sessions or 2FA – that needs an interactive login
+	if (pathname.startsWith("/api/modules/security/") && !pathname.startsWith("/api/modules/security/users")) {
+		return false;
+	}
+	if (pathname.startsWith("/api/auth/")) {
+		return false;
+	}
+
+	const required = getRequiredScope(pathname, method);
+	const hasScope = key.scopes.includes("admin") || key.scopes.includes(required);
+	return hasScope && hasPermission(role, required);
+}
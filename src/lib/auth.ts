@@ -6,14 +6,21 @@
  *   JWT_SECRET=your-random-secret-here
  */
 
+import { hkdfSync, randomBytes } from "node:crypto";
+import dc from "node:diagnostics_channel";
+import type { IncomingMessage } from "node:http";
 import jwt from "jsonwebtoken";
 import type { AstroCookies } from "astro";
 import { getUser, verifyPassword, updateLastLogin, type UserRole } from "./users";
+import { isTwoFactorEnabled, verifySecondFactor } from "./two-factor";
+import { createSession, touchSession, type SessionMeta } from "./sessions";
 
 // Use process.env for runtime (Node adapter) with import.meta.env fallback for dev
 const JWT_SECRET = process.env.JWT_SECRET || import.meta.env.JWT_SECRET || "serverpilot-dev-secret-change-me";
 const TOKEN_COOKIE = "sp_token";
 const TOKEN_EXPIRY = "24h";
+const PENDING_2FA_COOKIE = "sp_2fa_pending";
+const PENDING_2FA_EXPIRY = "5m";
 
 // Startup validation: refuse to run in production without a real secret
 if (JWT_SECRET === "serverpilot-dev-secret-change-me") {
@@ -28,37 +35,180 @@ if (JWT_SECRET === "serverpilot-dev-secret-change-me") {
 export interface User {
 	username: string;
 	role: UserRole;
+	/** Session id (the JWT `jti`) for cookie-based logins. */
+	sessionId?: string;
+	/** Set when the request was authenticated with a personal API key instead of a session. */
+	apiKey?: { id: string; name: string; scopes: string[] };
 }
 
-/** Validate credentials & return JWT token. */
-export function authenticate(username: string, password: string): string | null {
+interface TokenPayload {
+	username: string;
+	role: UserRole;
+	jti?: string;
+	stage?: string;
+}
+
+// Users authenticated via `Authorization: Bearer` for the current request, keyed by its cookie jar
+const apiKeyUsers = new WeakMap<AstroCookies, User>();
+
+export type AuthResult =
+	| { status: "ok"; token: string }
+	| { status: "2fa_required"; pendingToken: string };
+
+interface PendingTwoFactor {
+	username: string;
+	stage: "2fa";
+}
+
+/**
+ * Derive a 256-bit key from JWT_SECRET for encrypting data at rest. Each
+ * purpose gets its own key. Changing JWT_SECRET makes such data unreadable.
+ */
+export function deriveSecretKey(purpose: string): Buffer {
+	return Buffer.from(hkdfSync("sha256", JWT_SECRET, "serverpilot", purpose, 32));
+}
+
+function issueToken(user: User, meta: SessionMeta): string {
+	updateLastLogin(user.username);
+
+	const jti = createSession(user.username, meta);
+	return jwt.sign({ username: user.username, role: user.role }, JWT_SECRET, {
+		expiresIn: TOKEN_EXPIRY,
+		jwtid: jti,
+	});
+}
+
+/**
+ * Validate credentials. Returns a session token, or a short-lived
+ * "pending 2FA" token when the user has two-factor authentication enabled.
+ */
+export function authenticate(username: string, password: string, meta: SessionMeta = {}): AuthResult | null {
 	const user = getUser(username);
 	if (!user) return null;
 	if (!verifyPassword(username, password)) return null;
-	
-	updateLastLogin(username);
-	
-	return jwt.sign({ username: user.username, role: user.role } satisfies User, JWT_SECRET, {
-		expiresIn: TOKEN_EXPIRY,
-	});
+
+	if (isTwoFactorEnabled(user.username)) {
+		const pendingToken = jwt.sign({ username: user.username, stage: "2fa" } satisfies PendingTwoFactor, JWT_SECRET, {
+			expiresIn: PENDING_2FA_EXPIRY,
+		});
+		return { status: "2fa_required", pendingToken };
+	}
+
+	return { status: "ok", token: issueToken({ username: user.username, role: user.role }, meta) };
+}
+
+/** Decode a pending 2FA token and return the username it was issued for. */
+export function getPendingTwoFactorUser(pendingToken: string): string | null {
+	try {
+		const pending = jwt.verify(pendingToken, JWT_SECRET) as PendingTwoFactor;
+		return pending.stage === "2fa" ? pending.username : null;
+	} catch {
+		return null;
+	}
 }
 
-/** Verify JWT token and return user payload. */
+/**
+ * Complete the second login step with a TOTP or recovery code.
+ * Returns the session token and which factor was used.
+ */
+export function completeTwoFactor(
+	pendingToken: string,
+	input: { code?: string; recoveryCode?: string },
+	meta: SessionMeta = {}
+): { token: string; username: string; method: "totp" | "recovery" } | null {
+	const username = getPendingTwoFactorUser(pendingToken);
+	if (!username) return null;
+
+	const user = getUser(username);
+	if (!user) return null;
+
+	const method = verifySecondFactor(user.username, input);
+	if (!method) return null;
+
+	return { token: issueToken({ username: user.username, role: user.role }, meta), username: user.username, method };
+}
+
+/**
+ * Verify JWT token and return user payload. Pending 2FA tokens and tokens
+ * whose session was revoked (or never registered) are rejected.
+ */
 export function verifyToken(token: string): User | null {
 	try {
-		return jwt.verify(token, JWT_SECRET) as User;
+		const payload = jwt.verify(token, JWT_SECRET) as TokenPayload;
+		if (payload.stage || !payload.jti) return null;
+		if (!touchSession(payload.jti, payload.username)) return null;
+		return { username: payload.username, role: payload.role, sessionId: payload.jti };
 	} catch {
 		return null;
 	}
 }
 
-/** Extract user from Astro cookie. */
+/** Extract the bearer token from an Authorization header, if any. */
+export function getBearerToken(request: Request): string | null {
+	const header = request.headers.get("authorization");
+	const match = header?.match(/^Bearer\s+(\S+)$/i);
+	return match ? match[1] : null;
+}
+
+/** Attach an API-key user to the request (called by middleware after the key is verified). */
+export function bindApiKeyUser(cookies: AstroCookies, user: User): void {
+	apiKeyUsers.set(cookies, user);
+}
+
+/** Extract user from Astro cookie (or from a verified API key for this request). */
 export function getUserFromCookies(cookies: AstroCookies): User | null {
+	const apiKeyUser = apiKeyUsers.get(cookies);
+	if (apiKeyUser) return apiKeyUser;
+
 	const token = cookies.get(TOKEN_COOKIE)?.value;
 	if (!token) return null;
 	return verifyToken(token);
 }
 
+/** Reverse proxies whose X-Forwarded-For header is believed (TRUSTED_PROXIES, comma-separated IPs). */
+const TRUSTED_PROXIES = (process.env.TRUSTED_PROXIES ?? "")
+	.split(",")
+	.map((ip) => ip.trim())
+	.filter(Boolean);
+
+function isTrustedProxy(remoteAddress: string | undefined): boolean {
+	const remote = remoteAddress?.startsWith("::ffff:") ? remoteAddress.slice(7) : remoteAddress;
+	return !!remote && TRUSTED_PROXIES.includes(remote);
+}
+
+/**
+ * Client IP for a connection: the socket address, or the first
+ * X-Forwarded-For entry when the socket belongs to a trusted proxy.
+ * The header is client-supplied otherwise, so it can't be used for the LAN check.
+ */
+export function resolveClientIp(remoteAddress: string | undefined, forwardedFor: string | null | undefined): string | undefined {
+	if (isTrustedProxy(remoteAddress)) {
+		return forwardedFor?.split(",")[0]?.trim() || remoteAddress;
+	}
+	return remoteAddress;
+}
+
+/*
+ * Astro's clientAddress is the first X-Forwarded-For entry whenever that
+ * header is present. Drop the header before Astro builds the request unless
+ * the connection comes from a trusted proxy, so clientAddress is the socket
+ * address for the LAN check and the audit log. Requests seen here are marked
+ * so ones that arrived before this module loaded can be told apart.
+ */
+const PEER_CHECKED_HEADER = "x-serverpilot-peer-checked";
+const PEER_CHECKED_TOKEN = randomBytes(16).toString("hex");
+
+dc.subscribe("http.server.request.start", (message) => {
+	const { request } = message as { request: IncomingMessage };
+	if (!isTrustedProxy(request.socket.remoteAddress)) delete request.headers["x-forwarded-for"];
+	request.headers[PEER_CHECKED_HEADER] = PEER_CHECKED_TOKEN;
+});
+
+/** False when `clientAddress` may still come from a client-supplied X-Forwarded-For header. */
+export function isClientAddressTrusted(request: Request): boolean {
+	return !request.headers.has("x-forwarded-for") || request.headers.get(PEER_CHECKED_HEADER) === PEER_CHECKED_TOKEN;
+}
+
 /** Check if the request IP is on local LAN (RFC 1918 + loopback). */
 export function isLocalNetwork(ip: string | undefined): boolean {
 	if (!ip) return true; // SSR localhost
@@ -76,4 +226,4 @@ export function isLocalNetwork(ip: string | undefined): boolean {
 	return false;
 }
 
-export { TOKEN_COOKIE };
+export { TOKEN_COOKIE, PENDING_2FA_COOKIE };
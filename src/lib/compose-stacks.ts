@@ -0,0 +1,355 @@
+/**
+ * compose-stacks.ts – Compose stacks created and edited in ServerPilot.
+ *
+ * Every save of a stack's compose.yaml and .env is kept as a numbered
+ * version in SQLite. Deploying a version writes it to data/stacks/<name>/
+ * and runs `up` from there, so the files on disk are always the deployed
+ * revision and the stack also shows up as a regular Compose project.
+ * Rolling back re-saves an old version as the newest one and deploys it,
+ * which keeps the history linear.
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { db } from "./db";
+import { DockerError, listContainers } from "./docker";
+import { COMPOSE_LABELS, detectComposeCli, runCompose, streamCompose, type ComposeTarget } from "./compose";
+import { diffLines, type DiffLine } from "./line-diff";
+import { ERROR_CODES } from "./logger";
+
+export const STACKS_DIR = path.join(process.cwd(), "data", "stacks");
+
+/** Compose project names: lowercase letters, digits, dashes and underscores. */
+const STACK_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/;
+const MAX_COMPOSE_SIZE = 256 * 1024;
+const MAX_ENV_SIZE = 64 * 1024;
+
+export interface ComposeStack {
+	name: string;
+	createdBy: string;
+	createdAt: string;
+	updatedAt: string;
+	latestVersion: number;
+	deployedVersion?: number;
+	deployedBy?: string;
+	deployedAt?: string;
+}
+
+export interface StackVersion {
+	version: number;
+	message?: string;
+	createdBy: string;
+	createdAt: string;
+}
+
+export interface StackContent extends StackVersion {
+	compose: string;
+	env: string;
+}
+
+export interface StackDiff {
+	/** Deployed version the diff starts from; undefined when never deployed. */
+	from?: number;
+	to: number;
+	compose: DiffLine[];
+	env: DiffLine[];
+}
+
+interface DbStack {
+	name: string;
+	created_by: string;
+	created_at: string;
+	updated_at: string;
+	deployed_version: number | null;
+	deployed_by: string | null;
+	deployed_at: string | null;
+	latest_version: number;
+}
+
+interface DbStackVersion {
+	version: number;
+	compose: string;
+	env: string;
+	message: string | null;
+	created_by: string;
+	created_at: string;
+}
+
+function mapDbStack(row: DbStack): ComposeStack {
+	return {
+		name: row.name,
+		createdBy: row.created_by,
+		createdAt: row.created_at,
+		updatedAt: row.updated_at,
+		latestVersion: row.latest_version,
+		deployedVersion: row.deployed_version ?? undefined,
+		deployedBy: row.deployed_by || undefined,
+		deployedAt: row.deployed_at || undefined,
+	};
+}
+
+function mapDbVersion(row: DbStackVersion): StackContent {
+	return {
+		version: row.version,
+		message: row.message || undefined,
+		createdBy: row.created_by,
+		createdAt: row.created_at,
+		compose: row.compose,
+		env: row.env,
+	};
+}
+
+const STACK_QUERY = `
+	SELECT s.*, (SELECT MAX(version) FROM compose_stack_versions v WHERE v.stack = s.name) AS latest_version
+	FROM compose_stacks s
+`;
+
+export function isValidStackName(name: string): boolean {
+	return STACK_NAME_PATTERN.test(name);
+}
+
+/** Shape and size check for submitted stack files; returns a problem or null. */
+export function checkStackFiles(compose: unknown, env: unknown): string | null {
+	if (typeof compose !== "string" || !compose.trim()) return "compose is required";
+	if (env !== undefined && typeof env !== "string") return "env must be a string";
+	if (Buffer.byteLength(compose) > MAX_COMPOSE_SIZE) return `compose.yaml is larger than ${MAX_COMPOSE_SIZE / 1024} KB`;
+	if (env && Buffer.byteLength(env) > MAX_ENV_SIZE) return `.env is larger than ${MAX_ENV_SIZE / 1024} KB`;
+	return null;
+}
+
+export function stackDir(name: string): string {
+	return path.join(STACKS_DIR, name);
+}
+
+/** The deployed stack, as the Compose CLI sees it. */
+export function stackTarget(name: string): ComposeTarget {
+	const dir = stackDir(name);
+	return {
+		name,
+		workingDir: dir,
+		configFiles: [path.join(dir, "compose.yaml")],
+		envFiles: [path.join(dir, ".env")],
+		filesAvailable: true,
+	};
+}
+
+export function listStacks(): ComposeStack[] {
+	const rows = db.prepare(`${STACK_QUERY} ORDER BY s.name`).all() as DbStack[];
+	return rows.map(mapDbStack);
+}
+
+export function getStack(name: string): ComposeStack | undefined {
+	const row = db.prepare(`${STACK_QUERY} WHERE s.name = ?`).get(name) as DbStack | undefined;
+	return row ? mapDbStack(row) : undefined;
+}
+
+/** A stack by name; throws ERR_COMPOSE_STACK_NOT_FOUND when there is none. */
+export function requireStack(name: string): ComposeStack {
+	const stack = getStack(name);
+	if (!stack) {
+		throw new DockerError(`Stack "${name}" not found`, 404, ERROR_CODES.ERR_COMPOSE_STACK_NOT_FOUND);
+	}
+	return stack;
+}
+
+export function listStackVersions(name: string): StackVersion[] {
+	const rows = db
+		.prepare("SELECT version, message, created_by, created_at FROM compose_stack_versions WHERE stack = ? ORDER BY version DESC")
+		.all(name) as Omit<DbStackVersion, "compose" | "env">[];
+	return rows.map((row) => ({
+		version: row.version,
+		message: row.message || undefined,
+		createdBy: row.created_by,
+		createdAt: row.created_at,
+	}));
+}
+
+export function getStackVersion(name: string, version: number): StackContent | undefined {
+	const row = db.prepare("SELECT * FROM compose_stack_versions WHERE stack = ? AND version = ?").get(name, version) as
+		| DbStackVersion
+		| undefined;
+	return row ? mapDbVersion(row) : undefined;
+}
+
+/** Whether a Compose project with this name is running from somewhere other than the stack's directory. */
+export async function isForeignProject(name: string): Promise<boolean> {
+	const containers = await listContainers({ all: true, filters: { label: [`${COMPOSE_LABELS.project}=${name}`] } });
+	return containers.some((c) => c.Labels[COMPOSE_LABELS.workingDir] !== stackDir(name));
+}
+
+/**
+ * Check a compose file and env file with `compose config`, from a scratch
+ * directory. Returns the CLI's complaint, or null when the stack is valid.
+ */
+export async function validateStack(name: string, compose: string, env: string): Promise<string | null> {
+	if (!(await detectComposeCli())) {
+		throw new DockerError("Neither `docker compose` nor `docker-compose` is installed", 500, ERROR_CODES.ERR_COMPOSE_ACTION_FAILED);
+	}
+
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "serverpilot-stack-"));
+	try {
+		fs.writeFileSync(path.join(dir, "compose.yaml"), compose);
+		fs.writeFileSync(path.join(dir, ".env"), env, { mode: 0o600 });
+		await runCompose(
+			{
+				name,
+				workingDir: dir,
+				configFiles: [path.join(dir, "compose.yaml")],
+				envFiles: [path.join(dir, ".env")],
+				filesAvailable: true,
+			},
+			["config", "--quiet"],
+			30_000
+		);
+		return null;
+	} catch (err) {
+		if (!(err instanceof DockerError)) throw err;
+		// Point at the file names, not the scratch directory
+		return err.message.split(`${dir}${path.sep}`).join("");
+	} finally {
+		fs.rmSync(dir, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Validate and store a new version of a stack, creating the stack on its
+ * first save. Saving files identical to the latest version returns that
+ * version instead. Throws ERR_COMPOSE_STACK_INVALID with the CLI's complaint
+ * when the files don't validate.
+ */
+export async function saveStackVersion(
+	name: string,
+	compose: string,
+	env: string,
+	savedBy: string,
+	message?: string
+): Promise<StackContent> {
+	const latest = getStack(name);
+	const unchanged = latest && getStackVersion(name, latest.latestVersion);
+	if (unchanged && unchanged.compose === compose && unchanged.env === env) return unchanged;
+
+	const problem = await validateStack(name, compose, env);
+	if (problem) {
+		throw new DockerError(problem, 400, ERROR_CODES.ERR_COMPOSE_STACK_INVALID);
+	}
+
+	const now = new Date().toISOString();
+	const version = db.transaction(() => {
+		db.prepare(`
+			INSERT INTO compose_stacks (name, created_by, created_at, updated_at) VALUES (?, ?, ?, ?)
+			ON CONFLICT(name) DO UPDATE SET updated_at = excluded.updated_at
+		`).run(name, savedBy, now, now);
+		const { latest } = db.prepare("SELECT MAX(version) AS latest FROM compose_stack_versions WHERE stack = ?").get(name) as {
+			latest: number | null;
+		};
+		const next = (latest ?? 0) + 1;
+		db.prepare(`
+			INSERT INTO compose_stack_versions (stack, version, compose, env, message, created_by, created_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?)
+		`).run(name, next, compose, env, message || null, savedBy, now);
+		return next;
+	})();
+	return getStackVersion(name, version)!;
+}
+
+/** Changes `version` (default: the latest) would make to what is deployed now. */
+export function diffStack(name: string, version?: number): StackDiff {
+	const stack = requireStack(name);
+	const to = version ?? stack.latestVersion;
+	const target = getStackVersion(name, to);
+	if (!target) {
+		throw new DockerError(`Stack "${name}" has no version ${to}`, 404, ERROR_CODES.ERR_COMPOSE_STACK_NOT_FOUND);
+	}
+	const deployed = stack.deployedVersion ? getStackVersion(name, stack.deployedVersion) : undefined;
+	return {
+		from: deployed?.version,
+		to,
+		compose: diffLines(deployed?.compose ?? "", target.compose),
+		env: diffLines(deployed?.env ?? "", target.env),
+	};
+}
+
+function readFileOrNull(file: string): string | null {
+	try {
+		return fs.readFileSync(file, "utf-8");
+	} catch {
+		return null;
+	}
+}
+
+function writeStackFiles(name: string, compose: string, env: string): void {
+	const dir = stackDir(name);
+	fs.mkdirSync(dir, { recursive: true });
+	fs.writeFileSync(path.join(dir, "compose.yaml"), compose);
+	fs.writeFileSync(path.join(dir, ".env"), env, { mode: 0o600 });
+}
+
+const deploying = new Set<string>();
+
+/**
+ * Deploy a version of a stack (default: the latest) with `up -d`, passing
+ * the CLI's output to `onOutput` as it arrives. Deploying an older version
+ * is a rollback: it is saved again as the newest version first. If `up`
+ * fails, the previously deployed files are put back.
+ */
+export async function deployStack(
+	name: string,
+	version: number | undefined,
+	deployedBy: string,
+	onOutput: (text: string) => void
+): Promise<StackContent> {
+	const stack = requireStack(name);
+	if (deploying.has(name)) {
+		throw new DockerError(`Stack "${name}" is already being deployed`, 409, ERROR_CODES.ERR_COMPOSE_DEPLOY_FAILED);
+	}
+
+	deploying.add(name);
+	try {
+		let content = getStackVersion(name, version ?? stack.latestVersion);
+		if (!content) {
+			throw new DockerError(`Stack "${name}" has no version ${version}`, 404, ERROR_CODES.ERR_COMPOSE_STACK_NOT_FOUND);
+		}
+		if (content.version !== stack.latestVersion) {
+			onOutput(`Rolling back to version ${content.version}\n`);
+			content = await saveStackVersion(name, content.compose, content.env, deployedBy, `Rollback to v${content.version}`);
+		}
+
+		const target = stackTarget(name);
+		const previous = { compose: readFileOrNull(target.configFiles[0]), env: readFileOrNull(target.envFiles[0]) };
+		writeStackFiles(name, content.compose, content.env);
+		try {
+			await streamCompose(target, ["up", "-d", "--remove-orphans"], onOutput);
+		} catch (err) {
+			if (previous.compose !== null) writeStackFiles(name, previous.compose, previous.env ?? "");
+			const message = err instanceof Error ? err.message : String(err);
+			throw new DockerError(`Deploy of version ${content.version} failed: ${message}`, 500, ERROR_CODES.ERR_COMPOSE_DEPLOY_FAILED);
+		}
+
+		db.prepare("UPDATE compose_stacks SET deployed_version = ?, deployed_by = ?, deployed_at = ? WHERE name = ?").run(
+			content.version,
+			deployedBy,
+			new Date().toISOString(),
+			name
+		);
+		return content;
+	} finally {
+		deploying.delete(name);
+	}
+}
+
+/** Take a stack down (if it was ever deployed) and delete its files and history. */
+export async function deleteStack(name: string): Promise<string> {
+	const stack = requireStack(name);
+	let output = "";
+	if (stack.deployedVersion && fs.existsSync(stackTarget(name).configFiles[0])) {
+		const result = await runCompose(stackTarget(name), ["down", "--remove-orphans"]);
+		output = [result.stdout, result.stderr].filter(Boolean).join("\n");
+	}
+	db.transaction(() => {
+		db.prepare("DELETE FROM compose_stack_versions WHERE stack = ?").run(name);
+		db.prepare("DELETE FROM compose_stacks WHERE name = ?").run(name);
+	})();
+	fs.rmSync(stackDir(name), { recursive: true, force: true });
+	return output;
+}
@@ -0,0 +1,275 @@
+/**
+ * compose.ts – Docker Compose projects, discovered from container labels.
+ *
+ * Compose stamps every container it creates with com.docker.compose.* labels
+ * naming the project, the service, the project's working directory and the
+ * config files it was started from. Projects are rebuilt from those labels,
+ * so anything started with `docker compose` (v2) or `docker-compose` (v1)
+ * shows up, wherever its files live.
+ *
+ * Start/stop/restart only touch existing containers and go through the
+ * Engine API. Up, down, pull and scale need the project's files and run the
+ * Compose CLI (whichever of the two is installed) from its working directory.
+ */
+
+import fs from "node:fs";
+import { DockerError, listContainers, restartContainer, startContainer, stopContainer } from "./docker";
+import type { DockerContainer } from "./docker";
+import { runAsync, runStreaming, type ExecResult } from "./exec";
+import { ERROR_CODES } from "./logger";
+import { withDockerConfig } from "./registry-credentials";
+
+export const COMPOSE_LABELS = {
+	project: "com.docker.compose.project",
+	service: "com.docker.compose.service",
+	workingDir: "com.docker.compose.project.working_dir",
+	configFiles: "com.docker.compose.project.config_files",
+	envFile: "com.docker.compose.project.environment_file",
+	number: "com.docker.compose.container-number",
+	oneoff: "com.docker.compose.oneoff",
+} as const;
+
+export type ComposeStatus = "running" | "partial" | "stopped";
+
+export interface ComposeContainer {
+	id: string;
+	name: string;
+	number: number;
+	state: DockerContainer["State"];
+	status: string;
+}
+
+export interface ComposeService {
+	name: string;
+	image: string;
+	status: ComposeStatus;
+	containers: ComposeContainer[];
+}
+
+export interface ComposeProject {
+	name: string;
+	status: ComposeStatus;
+	workingDir?: string;
+	configFiles: string[];
+	envFiles: string[];
+	/** Whether the config files can be read from here (needed for up, pull and scale). */
+	filesAvailable: boolean;
+	services: ComposeService[];
+}
+
+export type ComposeCli = "docker compose" | "docker-compose";
+
+const CLI_KEYS: Record<ComposeCli, string> = { "docker compose": "docker:compose", "docker-compose": "docker-compose" };
+
+function statusOf(containers: { state: string }[]): ComposeStatus {
+	const running = containers.filter((c) => c.state === "running").length;
+	if (running === 0) return "stopped";
+	return running === containers.length ? "running" : "partial";
+}
+
+/** Config file labels are comma-separated absolute paths. */
+function splitList(value: string | undefined): string[] {
+	return (value ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+function buildProjects(containers: DockerContainer[]): ComposeProject[] {
+	const byProject = new Map<string, DockerContainer[]>();
+	for (const container of containers) {
+		const labels = container.Labels ?? {};
+		const project = labels[COMPOSE_LABELS.project];
+		// One-off `compose run` containers aren't part of a service
+		if (!project || labels[COMPOSE_LABELS.oneoff] === "True") continue;
+		byProject.set(project, [...(byProject.get(project) ?? []), container]);
+	}
+
+	return Array.from(byProject, ([name, members]) => {
+		// Containers from the latest `up` carry the current file locations
+		const newest = [...members].sort((a, b) => b.Created - a.Created)[0].Labels;
+		const configFiles = splitList(newest[COMPOSE_LABELS.configFiles]);
+
+		const byService = new Map<string, ComposeService>();
+		for (const container of members) {
+			const serviceName = container.Labels[COMPOSE_LABELS.service] ?? "default";
+			const service = byService.get(serviceName) ?? { name: serviceName, image: container.Image, status: "stopped", containers: [] };
+			service.containers.push({
+				id: container.Id,
+				name: container.Names?.[0]?.replace(/^\//, "") ?? container.Id.slice(0, 12),
+				number: Number(container.Labels[COMPOSE_LABELS.number]) || 1,
+				state: container.State,
+				status: container.Status,
+			});
+			byService.set(serviceName, service);
+		}
+
+		const services = Array.from(byService.values())
+			.map((service) => ({
+				...service,
+				status: statusOf(service.containers),
+				containers: service.containers.sort((a, b) => a.number - b.number),
+			}))
+			.sort((a, b) => a.name.localeCompare(b.name));
+
+		return {
+			name,
+			status: statusOf(services.flatMap((s) => s.containers)),
+			workingDir: newest[COMPOSE_LABELS.workingDir] || undefined,
+			configFiles,
+			envFiles: splitList(newest[COMPOSE_LABELS.envFile]),
+			filesAvailable: configFiles.length > 0 && configFiles.every((file) => fs.existsSync(file)),
+			services,
+		};
+	}).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function listComposeProjects(): Promise<ComposeProject[]> {
+	const containers = await listContainers({ all: true, filters: { label: [COMPOSE_LABELS.project] } });
+	return buildProjects(containers);
+}
+
+/** A project by name; throws ERR_COMPOSE_PROJECT_NOT_FOUND when no container belongs to it. */
+export async function getComposeProject(name: string): Promise<ComposeProject> {
+	const containers = await listContainers({ all: true, filters: { label: [`${COMPOSE_LABELS.project}=${name}`] } });
+	const [project] = buildProjects(containers);
+	if (!project) {
+		throw new DockerError(`Compose project "${name}" not found`, 404, ERROR_CODES.ERR_COMPOSE_PROJECT_NOT_FOUND);
+	}
+	return project;
+}
+
+let detectedCli: ComposeCli | null = null;
+
+/** The installed Compose CLI, preferring the v2 plugin. Null when neither is available. */
+export async function detectComposeCli(): Promise<ComposeCli | null> {
+	if (detectedCli) return detectedCli;
+	for (const cli of ["docker compose", "docker-compose"] as const) {
+		if ((await runAsync(CLI_KEYS[cli], ["version"], 10_000)).ok) {
+			detectedCli = cli;
+			return cli;
+		}
+	}
+	return null;
+}
+
+function requireFiles(project: ComposeProject, action: string): void {
+	if (!project.filesAvailable) {
+		const where = project.configFiles.length ? project.configFiles.join(", ") : "unknown (not recorded on its containers)";
+		throw new DockerError(
+			`Cannot ${action} "${project.name}": its compose files are not readable from ServerPilot (${where})`,
+			409,
+			ERROR_CODES.ERR_COMPOSE_ACTION_FAILED
+		);
+	}
+}
+
+/** What the CLI needs to address a project: discovered projects and managed stacks both fit. */
+export type ComposeTarget = Pick<ComposeProject, "name" | "workingDir" | "configFiles" | "envFiles" | "filesAvailable">;
+
+async function composeCommand(target: ComposeTarget, args: string[]) {
+	const cli = await detectComposeCli();
+	if (!cli) {
+		throw new DockerError("Neither `docker compose` nor `docker-compose` is installed", 500, ERROR_CODES.ERR_COMPOSE_ACTION_FAILED);
+	}
+
+	const fileArgs = target.filesAvailable ? target.configFiles.flatMap((file) => ["-f", file]) : [];
+	const envArgs = target.filesAvailable ? target.envFiles.filter((file) => fs.existsSync(file)).flatMap((file) => ["--env-file", file]) : [];
+	const cwd = target.workingDir && fs.existsSync(target.workingDir) ? target.workingDir : undefined;
+	return { cli, key: CLI_KEYS[cli], args: ["-p", target.name, ...fileArgs, ...envArgs, ...args], cwd };
+}
+
+/**
+ * Run a Compose CLI command against a project, from its working directory
+ * and with its recorded config/env files. Saved registry logins are
+ * available to it. Throws ERR_COMPOSE_ACTION_FAILED when it exits non-zero.
+ */
+export async function runCompose(target: ComposeTarget, args: string[], timeoutMs = 120_000): Promise<ExecResult> {
+	const command = await composeCommand(target, args);
+	const result = await withDockerConfig((env) => runAsync(command.key, command.args, timeoutMs, { cwd: command.cwd, env }));
+	if (!result.ok) {
+		throw new DockerError(result.stderr || result.stdout || `${command.cli} ${args[0]} failed`, 500, ERROR_CODES.ERR_COMPOSE_ACTION_FAILED);
+	}
+	return result;
+}
+
+/** Like runCompose, but hands output to `onOutput` while the command runs. */
+export async function streamCompose(
+	target: ComposeTarget,
+	args: string[],
+	onOutput: (text: string) => void,
+	timeoutMs = 600_000
+): Promise<ExecResult> {
+	const command = await composeCommand(target, args);
+	const result = await withDockerConfig((env) => runStreaming(command.key, command.args, onOutput, timeoutMs, { cwd: command.cwd, env }));
+	if (!result.ok) {
+		const lastLine = (result.stderr || result.stdout).split("\n").pop();
+		throw new DockerError(lastLine || `${command.cli} ${args[0]} failed`, 500, ERROR_CODES.ERR_COMPOSE_ACTION_FAILED);
+	}
+	return result;
+}
+
+/** Compose reports progress on stderr, so both streams make up the output. */
+function output(result: ExecResult): string {
+	return [result.stdout, result.stderr].filter(Boolean).join("\n");
+}
+
+export const PROJECT_ACTIONS = ["up", "down", "start", "stop", "restart", "pull"] as const;
+export const SERVICE_ACTIONS = ["up", "start", "stop", "restart", "pull", "scale"] as const;
+
+export type ProjectAction = (typeof PROJECT_ACTIONS)[number];
+export type ServiceAction = (typeof SERVICE_ACTIONS)[number];
+
+/** Start, stop or restart existing containers directly, without needing the compose files. */
+async function eachContainer(containers: ComposeContainer[], action: "start" | "stop" | "restart"): Promise<void> {
+	for (const container of containers) {
+		if (action === "start") await startContainer(container.id);
+		else if (action === "stop") await stopContainer(container.id);
+		else await restartContainer(container.id);
+	}
+}
+
+/** Run a lifecycle action on a whole project. Returns the CLI output, if any. */
+export async function composeProjectAction(project: ComposeProject, action: ProjectAction): Promise<string> {
+	switch (action) {
+		case "start":
+		case "stop":
+		case "restart":
+			await eachContainer(project.services.flatMap((s) => s.containers), action);
+			return "";
+		case "up":
+			requireFiles(project, "start");
+			return output(await runCompose(project, ["up", "-d", "--remove-orphans"], 300_000));
+		case "pull":
+			requireFiles(project, "pull");
+			return output(await runCompose(project, ["pull"], 600_000));
+		case "down":
+			// v2 can take a project down from its labels alone; v1 needs the files
+			if (!project.filesAvailable && (await detectComposeCli()) === "docker-compose") requireFiles(project, "take down");
+			return output(await runCompose(project, ["down"]));
+	}
+}
+
+/** Run a lifecycle action on one service; `replicas` is required for "scale". */
+export async function composeServiceAction(
+	project: ComposeProject,
+	service: ComposeService,
+	action: ServiceAction,
+	replicas?: number
+): Promise<string> {
+	switch (action) {
+		case "start":
+		case "stop":
+		case "restart":
+			await eachContainer(service.containers, action);
+			return "";
+		case "up":
+			requireFiles(project, "recreate services of");
+			return output(await runCompose(project, ["up", "-d", "--no-deps", service.name], 300_000));
+		case "pull":
+			requireFiles(project, "pull services of");
+			return output(await runCompose(project, ["pull", service.name], 600_000));
+		case "scale":
+			requireFiles(project, "scale services of");
+			return output(
+				await runCompose(project, ["up", "-d", "--no-deps", "--no-recreate", "--scale", `${service.name}=${replicas}`, service.name], 300_000)
+			);
+	}
+}
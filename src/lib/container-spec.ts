@@ -0,0 +1,330 @@
+/**
+ * container-spec.ts – Form-shaped description of a new container.
+ *
+ * Shared by the create wizard (validation, `docker run` preview, port
+ * conflict warnings) and POST /api/docker/containers, which runs the same
+ * checks and turns the spec into an Engine API create request.
+ * No Node imports: this module is bundled for the browser too.
+ */
+
+import type { DockerContainerCreate, DockerRestartPolicy } from "./docker-types";
+
+export interface PortMapping {
+	hostIp?: string;
+	hostPort?: number; // empty = let Docker pick
+	containerPort: number;
+	protocol: "tcp" | "udp";
+}
+
+export interface VolumeMapping {
+	source: string; // volume name or absolute host path (bind mount)
+	target: string;
+	readOnly?: boolean;
+}
+
+export interface KeyValue {
+	key: string;
+	value: string;
+}
+
+export interface ContainerSpec {
+	image: string;
+	name?: string;
+	command?: string;
+	ports: PortMapping[];
+	env: KeyValue[];
+	volumes: VolumeMapping[];
+	networks: string[]; // the first one is attached at creation, the rest before start
+	restartPolicy: DockerRestartPolicy["Name"];
+	maxRetries?: number; // for on-failure
+	labels: KeyValue[];
+	cpus?: number;
+	memoryMb?: number;
+	start?: boolean;
+}
+
+/** The parts of a container listing that port conflict checks look at. */
+export interface PublishingContainer {
+	Names?: string[];
+	State?: string;
+	Ports?: { IP?: string; PublicPort?: number; Type?: string }[];
+}
+
+export interface PortConflict {
+	port: number;
+	protocol: string;
+	container: string;
+}
+
+const NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const IMAGE_PATTERN = /^[a-z0-9][a-z0-9._\-/:@]*$/i;
+const RESTART_POLICIES = ["", "no", "always", "unless-stopped", "on-failure"];
+
+export function emptyContainerSpec(): ContainerSpec {
+	return { image: "", ports: [], env: [], volumes: [], networks: [], restartPolicy: "no", labels: [], start: true };
+}
+
+/** Loose check for "name", "name:tag", "registry:5000/org/name@sha256:…" and the like. */
+export function isImageReference(reference: string): boolean {
+	return IMAGE_PATTERN.test(reference);
+}
+
+export function isBindMount(volume: VolumeMapping): boolean {
+	return volume.source.startsWith("/");
+}
+
+/**
+ * Parts of a spec that reach into the host rather than Docker-managed
+ * resources: bind mounts and the host network. Only admins may create these;
+ * docker:write alone would otherwise be enough to mount the host's root.
+ */
+export function hostAccessIn(spec: ContainerSpec): string[] {
+	const found = spec.volumes.filter(isBindMount).map((v) => `bind mount of ${v.source}`);
+	if (spec.networks.includes("host")) found.push("the host network");
+	return found;
+}
+
+/** Split a command line into arguments, honouring single and double quotes. */
+export function splitCommand(command: string): string[] {
+	const args: string[] = [];
+	let current = "";
+	let quote: string | null = null;
+	let inArg = false;
+
+	for (const ch of command) {
+		if (quote) {
+			if (ch === quote) quote = null;
+			else current += ch;
+		} else if (ch === "'" || ch === '"') {
+			quote = ch;
+			inArg = true;
+		} else if (/\s/.test(ch)) {
+			if (inArg) args.push(current);
+			current = "";
+			inArg = false;
+		} else {
+			current += ch;
+			inArg = true;
+		}
+	}
+	if (inArg) args.push(current);
+	return args;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isOptional(value: unknown, type: "string" | "number" | "boolean"): boolean {
+	return value === undefined || typeof value === type;
+}
+
+/**
+ * Type errors in a spec that didn't come from the wizard (e.g. a hand-written
+ * API request), so the checks below can rely on the declared field types.
+ */
+function shapeErrors(spec: ContainerSpec): string[] {
+	const errors: string[] = [];
+	const input = spec as unknown as Record<string, unknown>;
+
+	if (typeof input.image !== "string") errors.push("image must be a string");
+	for (const field of ["name", "command"]) {
+		if (!isOptional(input[field], "string")) errors.push(`${field} must be a string`);
+	}
+	for (const field of ["maxRetries", "cpus", "memoryMb"]) {
+		if (!isOptional(input[field], "number")) errors.push(`${field} must be a number`);
+	}
+	if (!isOptional(input.start, "boolean")) errors.push("start must be true or false");
+	if (!RESTART_POLICIES.includes(input.restartPolicy as string)) {
+		errors.push(`restartPolicy must be one of: ${RESTART_POLICIES.filter(Boolean).join(", ")}`);
+	}
+
+	for (const field of ["ports", "env", "volumes", "networks", "labels"] as const) {
+		if (!Array.isArray(input[field])) errors.push(`${field} must be a list`);
+	}
+	if (errors.length > 0) return errors;
+
+	if (
+		!spec.ports.every(
+			(p: unknown) =>
+				isRecord(p) &&
+				typeof p.containerPort === "number" &&
+				isOptional(p.hostPort, "number") &&
+				isOptional(p.hostIp, "string") &&
+				(p.protocol === "tcp" || p.protocol === "udp")
+		)
+	) {
+		errors.push("ports must be objects with a numeric containerPort and a protocol of tcp or udp");
+	}
+	for (const field of ["env", "labels"] as const) {
+		if (!spec[field].every((kv: unknown) => isRecord(kv) && typeof kv.key === "string" && typeof kv.value === "string")) {
+			errors.push(`${field} must be a list of { key, value } strings`);
+		}
+	}
+	if (
+		!spec.volumes.every(
+			(v: unknown) => isRecord(v) && typeof v.source === "string" && typeof v.target === "string" && isOptional(v.readOnly, "boolean")
+		)
+	) {
+		errors.push("volumes must be objects with a source and target string");
+	}
+	if (!spec.networks.every((n: unknown) => typeof n === "string")) errors.push("networks must be a list of names");
+	return errors;
+}
+
+/** Field errors for a spec; an empty list means it can be submitted. */
+export function validateContainerSpec(spec: ContainerSpec): string[] {
+	const shape = shapeErrors(spec);
+	if (shape.length > 0) return shape;
+
+	const errors: string[] = [];
+
+	if (!spec.image?.trim()) errors.push("Image is required");
+	else if (!isImageReference(spec.image.trim())) errors.push(`Invalid image reference "${spec.image}"`);
+
+	if (spec.name && !NAME_PATTERN.test(spec.name)) {
+		errors.push("Name may only contain letters, digits, '_', '.' and '-', and must start with a letter or digit");
+	}
+
+	const seenPorts = new Set<string>();
+	for (const port of spec.ports) {
+		if (typeof port.containerPort !== "number" || Number.isNaN(port.containerPort)) {
+			errors.push("Every port mapping needs a container port");
+		} else if (!Number.isInteger(port.containerPort) || port.containerPort < 1 || port.containerPort > 65535) {
+			errors.push(`Container port ${port.containerPort} is out of range`);
+		}
+		if (port.hostPort !== undefined) {
+			if (!Number.isInteger(port.hostPort) || port.hostPort < 1 || port.hostPort > 65535) {
+				errors.push(`Host port ${port.hostPort} is out of range`);
+			}
+			const key = `${port.hostPort}/${port.protocol}`;
+			if (seenPorts.has(key)) errors.push(`Host port ${key} is mapped twice`);
+			seenPorts.add(key);
+		}
+	}
+
+	for (const { key } of spec.env) {
+		if (!ENV_KEY_PATTERN.test(key)) errors.push(`Invalid environment variable name "${key}"`);
+	}
+	for (const { key } of spec.labels) {
+		if (!key.trim()) errors.push("Labels need a key");
+	}
+
+	for (const volume of spec.volumes) {
+		if (!volume.source.trim()) errors.push(`Volume for ${volume.target || "?"} needs a source`);
+		else if (!isBindMount(volume) && !NAME_PATTERN.test(volume.source)) {
+			errors.push(`"${volume.source}" is neither a volume name nor an absolute host path`);
+		}
+		if (!volume.target.startsWith("/")) errors.push(`Mount target "${volume.target}" must be an absolute path`);
+		// Binds are "src:dst[:ro]" strings; a separator in either path would smuggle in extra fields
+		for (const path of [volume.source, volume.target]) {
+			if (/[:,]/.test(path)) errors.push(`"${path}" must not contain ":" or ","`);
+		}
+	}
+
+	if (spec.cpus !== undefined && (!(spec.cpus > 0) || spec.cpus > 1024)) errors.push("CPUs must be a positive number");
+	if (spec.memoryMb !== undefined && !(spec.memoryMb >= 6)) errors.push("Memory limit must be at least 6 MB");
+	if (spec.restartPolicy === "on-failure" && spec.maxRetries !== undefined && spec.maxRetries < 0) {
+		errors.push("Max retries cannot be negative");
+	}
+
+	return errors;
+}
+
+/** Host ports the spec wants that running containers already publish. */
+export function findPortConflicts(spec: ContainerSpec, containers: PublishingContainer[]): PortConflict[] {
+	const conflicts: PortConflict[] = [];
+	for (const port of spec.ports) {
+		if (port.hostPort === undefined) continue;
+		for (const container of containers) {
+			if (container.State !== "running") continue;
+			const clash = container.Ports?.some(
+				(p) =>
+					p.PublicPort === port.hostPort &&
+					(p.Type ?? "tcp") === port.protocol &&
+					(!port.hostIp || !p.IP || p.IP === port.hostIp || p.IP === "0.0.0.0" || p.IP === "::")
+			);
+			if (clash) {
+				conflicts.push({
+					port: port.hostPort,
+					protocol: port.protocol,
+					container: container.Names?.[0]?.replace(/^\//, "") ?? "unknown",
+				});
+				break;
+			}
+		}
+	}
+	return conflicts;
+}
+
+/** Engine API create body for a (validated) spec. */
+export function toCreateConfig(spec: ContainerSpec): DockerContainerCreate {
+	const exposed: Record<string, object> = {};
+	const bindings: Record<string, { HostIp?: string; HostPort?: string }[]> = {};
+	for (const port of spec.ports) {
+		const key = `${port.containerPort}/${port.protocol}`;
+		exposed[key] = {};
+		(bindings[key] ??= []).push({ HostIp: port.hostIp || undefined, HostPort: port.hostPort ? String(port.hostPort) : "" });
+	}
+
+	const [network] = spec.networks;
+	const command = spec.command?.trim() ? splitCommand(spec.command) : undefined;
+
+	return {
+		Image: spec.image.trim(),
+		Cmd: command,
+		Env: spec.env.map(({ key, value }) => `${key}=${value}`),
+		Labels: Object.fromEntries(spec.labels.map(({ key, value }) => [key, value])),
+		ExposedPorts: exposed,
+		HostConfig: {
+			PortBindings: bindings,
+			Binds: spec.volumes.map((v) => `${v.source}:${v.target}${v.readOnly ? ":ro" : ""}`),
+			NetworkMode: network || undefined,
+			RestartPolicy: {
+				Name: spec.restartPolicy,
+				MaximumRetryCount: spec.restartPolicy === "on-failure" ? spec.maxRetries ?? 0 : undefined,
+			},
+			NanoCpus: spec.cpus ? Math.round(spec.cpus * 1e9) : undefined,
+			Memory: spec.memoryMb ? Math.round(spec.memoryMb * 1024 * 1024) : undefined,
+		},
+		NetworkingConfig: network ? { EndpointsConfig: { [network]: {} } } : undefined,
+	};
+}
+
+function shellQuote(arg: string): string {
+	return /^[A-Za-z0-9_\-.,:/=@%+]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/** The equivalent `docker run` command line, for the wizard's preview. */
+export function toDockerRunCommand(spec: ContainerSpec): string {
+	const args = spec.start === false ? ["docker", "create"] : ["docker", "run", "-d"];
+
+	if (spec.name) args.push("--name", spec.name);
+	for (const port of spec.ports) {
+		const host = port.hostIp ? `${port.hostIp}:${port.hostPort ?? ""}:` : port.hostPort ? `${port.hostPort}:` : "";
+		args.push("-p", `${host}${port.containerPort}${port.protocol === "udp" ? "/udp" : ""}`);
+	}
+	for (const volume of spec.volumes) {
+		args.push("-v", `${volume.source}:${volume.target}${volume.readOnly ? ":ro" : ""}`);
+	}
+	for (const { key, value } of spec.env) args.push("-e", `${key}=${value}`);
+	for (const { key, value } of spec.labels) args.push("--label", `${key}=${value}`);
+	if (spec.networks[0]) args.push("--network", spec.networks[0]);
+	if (spec.restartPolicy !== "no") {
+		args.push(
+			"--restart",
+			spec.restartPolicy === "on-failure" && spec.maxRetries ? `on-failure:${spec.maxRetries}` : spec.restartPolicy
+		);
+	}
+	if (spec.cpus) args.push("--cpus", String(spec.cpus));
+	if (spec.memoryMb) args.push("--memory", `${spec.memoryMb}m`);
+	args.push(spec.image.trim() || "<image>");
+	if (spec.command?.trim()) args.push(...splitCommand(spec.command));
+
+	let line = args.map(shellQuote).join(" ");
+	for (const network of spec.networks.slice(1)) {
+		line += ` && docker network connect ${shellQuote(network)} ${shellQuote(spec.name || "<container>")}`;
+	}
+	return line;
+}
@@ -0,0 +1,213 @@
+/**
+ * container-terminal.ts – Interactive container shells over WebSocket.
+ *
+ * Each connection runs `docker exec -it` with a TTY and relays the
+ * hijacked socket both ways. Protocol:
+ *   client → server  {"type":"input","data":"ls\r"} | {"type":"resize","cols":120,"rows":40}
+ *   server → client  binary frames with raw terminal output
+ *                    {"type":"exit","code":0} | {"type":"error","error":"..."}
+ *
+ * Sessions close after a period without input, and what the user typed
+ * is written to the audit log when the session ends.
+ */
+
+import type { WebSocket, RawData } from "ws";
+import { inspectExec, openExecSession, resizeExec, toDockerError } from "./docker";
+import { logAction, LOG_LEVELS } from "./audit";
+import type { WebSocketContext } from "./websocket";
+
+export type TerminalShell = "auto" | "bash" | "sh";
+
+const SHELL_COMMANDS: Record<TerminalShell, string[]> = {
+	// Prefer bash, but most slim images only ship sh
+	auto: ["/bin/sh", "-c", "command -v bash >/dev/null 2>&1 && exec bash || exec sh"],
+	bash: ["bash"],
+	sh: ["sh"],
+};
+
+const MAX_TRANSCRIPT = 32 * 1024;
+const MIN_SIZE = 10;
+const MAX_SIZE = 1000;
+
+function clampSize(value: unknown, fallback: number): number {
+	const n = Math.floor(Number(value));
+	return Number.isFinite(n) && n > 0 ? Math.min(Math.max(n, MIN_SIZE), MAX_SIZE) : fallback;
+}
+
+/**
+ * Rebuilds typed command lines from raw keystrokes: escape sequences
+ * (arrow keys, bracketed paste markers) are dropped, backspace edits the
+ * current line and Enter commits it.
+ */
+function createTranscript() {
+	const lines: string[] = [];
+	let current = "";
+	let size = 0;
+	let truncated = false;
+
+	function commit() {
+		if (truncated) return;
+		if (size + current.length > MAX_TRANSCRIPT) {
+			truncated = true;
+			lines.push("[transcript truncated]");
+			return;
+		}
+		size += current.length + 1;
+		lines.push(current);
+	}
+
+	return {
+		push(data: string) {
+			const cleaned = data.replace(/\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b[O\]][^\x07\x1b]*(\x07|\x1b\\)?|\x1b./g, "");
+			for (const ch of cleaned) {
+				if (ch === "\r" || ch === "\n") {
+					commit();
+					current = "";
+				} else if (ch === "\x7f" || ch === "\b") {
+					current = current.slice(0, -1);
+				} else if (ch === "\x03") {
+					current += "^C";
+					commit();
+					current = "";
+				} else if (ch === "\x04") {
+					current += "^D";
+				} else if (ch >= " ") {
+					current += ch;
+				}
+			}
+		},
+		toString() {
+			if (current) commit();
+			current = "";
+			return lines.filter((line) => line.trim()).join("\n");
+		},
+	};
+}
+
+export async function handleContainerTerminal(ws: WebSocket, ctx: WebSocketContext, idleMinutes: number): Promise<void> {
+	const { user, params, url, ip } = ctx;
+	const id = params.id;
+	const shellParam = url.searchParams.get("shell") ?? "auto";
+	const shell: TerminalShell = shellParam in SHELL_COMMANDS ? (shellParam as TerminalShell) : "auto";
+	let cols = clampSize(url.searchParams.get("cols"), 80);
+	let rows = clampSize(url.searchParams.get("rows"), 24);
+
+	const sendJson = (message: object) => {
+		if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+	};
+
+	// Buffer keystrokes typed while the exec is still being set up
+	const early: string[] = [];
+	ws.on("message", (raw: RawData, isBinary: boolean) => {
+		if (!isBinary) early.push(raw.toString());
+	});
+
+	let session: Awaited<ReturnType<typeof openExecSession>>;
+	try {
+		session = await openExecSession(id, SHELL_COMMANDS[shell], { cols, rows });
+	} catch (err) {
+		const error = toDockerError(err);
+		logAction(user.username, "CONTAINER_TERMINAL", id, `Failed to open ${shell} session: ${error.message}`, ip, {
+			level: LOG_LEVELS.ERROR,
+			code: error.code,
+		});
+		sendJson({ type: "error", error: error.message, code: error.code });
+		ws.close(1011, "exec failed");
+		return;
+	}
+
+	const { execId, socket } = session;
+	if (ws.readyState !== ws.OPEN) {
+		socket.destroy();
+		return;
+	}
+	const startedAt = Date.now();
+	const transcript = createTranscript();
+	let idleTimer: ReturnType<typeof setTimeout> | undefined;
+	let closeReason = "closed by user";
+	let finished = false;
+
+	logAction(user.username, "CONTAINER_TERMINAL", id, `Opened ${shell} session`, ip, {
+		level: LOG_LEVELS.INFO,
+		code: "INF011",
+	});
+
+	function resetIdle() {
+		clearTimeout(idleTimer);
+		if (idleMinutes <= 0) return;
+		idleTimer = setTimeout(() => {
+			closeReason = "idle timeout";
+			sendJson({ type: "error", error: `Session closed after ${idleMinutes} minutes without input` });
+			finish();
+		}, idleMinutes * 60_000);
+	}
+
+	async function finish() {
+		if (finished) return;
+		finished = true;
+		clearTimeout(idleTimer);
+		socket.destroy();
+
+		let exitCode: number | null = null;
+		try {
+			exitCode = (await inspectExec(execId)).ExitCode;
+		} catch {
+			// The container may already be gone
+		}
+		sendJson({ type: "exit", code: exitCode });
+		if (ws.readyState === ws.OPEN) ws.close(1000);
+
+		const seconds = Math.round((Date.now() - startedAt) / 1000);
+		const typed = transcript.toString();
+		logAction(
+			user.username,
+			"CONTAINER_TERMINAL",
+			id,
+			`Session ended (${closeReason}) after ${seconds}s (exit ${exitCode ?? "unknown"})${typed ? `\n${typed}` : ""}`,
+			ip,
+			{ level: LOG_LEVELS.INFO, code: "INF011" }
+		);
+	}
+
+	function handleMessage(raw: string) {
+		let message: { type?: string; data?: unknown; cols?: unknown; rows?: unknown };
+		try {
+			message = JSON.parse(raw);
+		} catch {
+			return;
+		}
+
+		if (message.type === "input" && typeof message.data === "string") {
+			resetIdle();
+			transcript.push(message.data);
+			socket.write(message.data);
+		} else if (message.type === "resize") {
+			cols = clampSize(message.cols, cols);
+			rows = clampSize(message.rows, rows);
+			resizeExec(execId, cols, rows).catch(() => {
+				// Resizing races with the process exiting; nothing to report
+			});
+		}
+	}
+
+	ws.removeAllListeners("message");
+	ws.on("message", (raw: RawData, isBinary: boolean) => {
+		if (!isBinary) handleMessage(raw.toString());
+	});
+	for (const raw of early) handleMessage(raw);
+
+	socket.on("data", (chunk: Buffer) => {
+		if (ws.readyState === ws.OPEN) ws.send(chunk, { binary: true });
+	});
+	socket.on("end", () => {
+		closeReason = "shell exited";
+		finish();
+	});
+	socket.on("error", () => {
+		closeReason = "lost connection to Docker";
+		finish();
+	});
+	ws.on("close", () => finish());
+
+	resetIdle();
+}
@@ -20,6 +20,17 @@ function tableExists(tableName: string): boolean {
 	return !!result;
 }
 
+/** Run a data migration once per database; applied ids are kept in the migrations table. */
+function runMigration(id: string, migrate: () => void): void {
+	const applied = db.prepare("SELECT id FROM migrations WHERE id = ?").get(id);
+	if (applied) return;
+	db.transaction(() => {
+		migrate();
+		db.prepare("INSERT INTO migrations (id, applied_at) VALUES (?, ?)").run(id, new Date().toISOString());
+	})();
+	console.log(`[db] Applied migration ${id}`);
+}
+
 function migrateFromFileStorage(): void {
 	const usersFile = path.join(process.cwd(), "data", "users.json");
 
@@ -144,6 +155,332 @@ export function initializeDatabase(): void {
 			insert.run(s.key, s.value, new Date().toISOString());
 		}
 	}
+
+	if (!tableExists("user_totp")) {
+		db.exec(`
+			CREATE TABLE user_totp (
+				username TEXT PRIMARY KEY,
+				secret TEXT NOT NULL,
+				enabled INTEGER NOT NULL DEFAULT 0,
+				last_used_step INTEGER,
+				created_at TEXT NOT NULL,
+				enabled_at TEXT
+			)
+		`);
+		console.log("[db] Created user_totp table");
+	}
+
+	if (!tableExists("recovery_codes")) {
+		db.exec(`
+			CREATE TABLE recovery_codes (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				username TEXT NOT NULL,
+				code_hash TEXT NOT NULL,
+				created_at TEXT NOT NULL,
+				used_at TEXT
+			)
+		`);
+		db.exec("CREATE INDEX idx_recovery_codes_username ON recovery_codes (username)");
+		console.log("[db] Created recovery_codes table");
+	}
+
+	if (!tableExists("api_keys")) {
+		db.exec(`
+			CREATE TABLE api_keys (
+				id TEXT PRIMARY KEY,
+				username TEXT NOT NULL,
+				name TEXT NOT NULL,
+				secret_hash TEXT NOT NULL,
+				scopes TEXT NOT NULL,
+				created_at TEXT NOT NULL,
+				expires_at TEXT,
+				last_used_at TEXT,
+				last_used_ip TEXT
+			)
+		`);
+		db.exec("CREATE INDEX idx_api_keys_username ON api_keys (username)");
+		console.log("[db] Created api_keys table");
+	}
+
+	if (!tableExists("sessions")) {
+		db.exec(`
+			CREATE TABLE sessions (
+				jti TEXT PRIMARY KEY,
+				username TEXT NOT NULL,
+				created_at TEXT NOT NULL,
+				last_seen_at TEXT NOT NULL,
+				expires_at TEXT NOT NULL,
+				ip TEXT,
+				user_agent TEXT
+			)
+		`);
+		db.exec("CREATE INDEX idx_sessions_username ON sessions (username)");
+		console.log("[db] Created sessions table");
+	}
+
+	if (!tableExists("module_state")) {
+		db.exec(`
+			CREATE TABLE module_state (
+				module_id TEXT PRIMARY KEY,
+				enabled INTEGER NOT NULL DEFAULT 1,
+				installed_version TEXT,
+				first_enabled_at TEXT,
+				updated_at TEXT NOT NULL
+			)
+		`);
+		console.log("[db] Created module_state table");
+	}
+
+	if (!tableExists("module_settings")) {
+		db.exec(`
+			CREATE TABLE module_settings (
+				module_id TEXT NOT NULL,
+				key TEXT NOT NULL,
+				value TEXT NOT NULL,
+				updated_at TEXT NOT NULL,
+				PRIMARY KEY (module_id, key)
+			)
+		`);
+		console.log("[db] Created module_settings table");
+	}
+
+	if (!tableExists("registry_credentials")) {
+		db.exec(`
+			CREATE TABLE registry_credentials (
+				server TEXT PRIMARY KEY,
+				username TEXT NOT NULL,
+				secret TEXT NOT NULL,
+				created_by TEXT NOT NULL,
+				created_at TEXT NOT NULL,
+				updated_at TEXT NOT NULL,
+				last_checked_at TEXT,
+				last_check_ok INTEGER
+			)
+		`);
+		console.log("[db] Created registry_credentials table");
+	}
+
+	if (!tableExists("compose_stacks")) {
+		db.exec(`
+			CREATE TABLE compose_stacks (
+				name TEXT PRIMARY KEY,
+				created_by TEXT NOT NULL,
+				created_at TEXT NOT NULL,
+				updated_at TEXT NOT NULL,
+				deployed_version INTEGER,
+				deployed_by TEXT,
+				deployed_at TEXT
+			)
+		`);
+		console.log("[db] Created compose_stacks table");
+	}
+
+	if (!tableExists("compose_stack_versions")) {
+		db.exec(`
+			CREATE TABLE compose_stack_versions (
+				stack TEXT NOT NULL,
+				version INTEGER NOT NULL,
+				compose TEXT NOT NULL,
+				env TEXT NOT NULL,
+				message TEXT,
+				created_by TEXT NOT NULL,
+				created_at TEXT NOT NULL,
+				PRIMARY KEY (stack, version)
+			)
+		`);
+		console.log("[db] Created compose_stack_versions table");
+	}
+
+	if (!tableExists("metric_samples")) {
+		db.exec(`
+			CREATE TABLE metric_samples (
+				tier TEXT NOT NULL,
+				ts INTEGER NOT NULL,
+				cpu REAL,
+				mem_used INTEGER,
+				mem_total INTEGER,
+				disk_used INTEGER,
+				disk_total INTEGER,
+				net_rx REAL,
+				net_tx REAL,
+				load1 REAL,
+				load5 REAL,
+				load15 REAL,
+				PRIMARY KEY (tier, ts)
+			)
+		`);
+		console.log("[db] Created metric_samples table");
+	}
+
+	if (!tableExists("alert_channels")) {
+		db.exec(`
+			CREATE TABLE alert_channels (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				name TEXT NOT NULL UNIQUE,
+				type TEXT NOT NULL,
+				config TEXT NOT NULL,
+				enabled INTEGER NOT NULL DEFAULT 1,
+				created_by TEXT NOT NULL,
+				created_at TEXT NOT NULL,
+				updated_at TEXT NOT NULL
+			)
+		`);
+		console.log("[db] Created alert_channels table");
+	}
+
+	if (!tableExists("alert_rules")) {
+		db.exec(`
+			CREATE TABLE alert_rules (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				name TEXT NOT NULL UNIQUE,
+				kind TEXT NOT NULL,
+				target TEXT NOT NULL DEFAULT '',
+				operator TEXT NOT NULL DEFAULT '>',
+				threshold REAL,
+				for_seconds INTEGER NOT NULL DEFAULT 0,
+				severity TEXT NOT NULL DEFAULT 'warning',
+				channels TEXT NOT NULL DEFAULT '',
+				enabled INTEGER NOT NULL DEFAULT 1,
+				state TEXT NOT NULL DEFAULT 'ok',
+				state_since TEXT,
+				last_value TEXT,
+				last_evaluated_at TEXT,
+				notified INTEGER NOT NULL DEFAULT 0,
+				created_by TEXT NOT NULL,
+				created_at TEXT NOT NULL,
+				updated_at TEXT NOT NULL
+			)
+		`);
+		console.log("[db] Created alert_rules table");
+	}
+
+	if (!tableExists("alert_silences")) {
+		db.exec(`
+			CREATE TABLE alert_silences (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				rule_id INTEGER,
+				starts_at TEXT NOT NULL,
+				ends_at TEXT NOT NULL,
+				reason TEXT NOT NULL DEFAULT '',
+				created_by TEXT NOT NULL,
+				created_at TEXT NOT NULL
+			)
+		`);
+		console.log("[db] Created alert_silences table");
+	}
+
+	if (!tableExists("alert_events")) {
+		db.exec(`
+			CREATE TABLE alert_events (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				rule_id INTEGER NOT NULL,
+				rule_name TEXT NOT NULL,
+				severity TEXT NOT NULL,
+				state TEXT NOT NULL,
+				value TEXT,
+				message TEXT NOT NULL,
+				silenced INTEGER NOT NULL DEFAULT 0,
+				notify_error TEXT,
+				created_at TEXT NOT NULL
+			)
+		`);
+		db.exec("CREATE INDEX idx_alert_events_created ON alert_events (created_at)");
+		console.log("[db] Created alert_events table");
+	}
+
+	if (!tableExists("roles")) {
+		db.exec(`
+			CREATE TABLE roles (
+				name TEXT PRIMARY KEY,
+				description TEXT,
+				permissions TEXT NOT NULL,
+				builtin INTEGER NOT NULL DEFAULT 0,
+				created_at TEXT NOT NULL,
+				updated_at TEXT NOT NULL
+			)
+		`);
+		console.log("[db] Created roles table");
+
+		const defaultRoles = [
+			{ name: "admin", description: "Full access", permissions: "*" },
+			{
+				name: "operator",
+				description: "Can create containers and manage images",
+				permissions: "docker:read,docker:write,service:read,system:read,settings:read,alerts:read",
+			},
+			{ name: "viewer", description: "Read only", permissions: "docker:read,service:read,system:read,settings:read,alerts:read" },
+		];
+		const now = new Date().toISOString();
+		const insert = db.prepare(`
+			INSERT INTO roles (name, description, permissions, builtin, created_at, updated_at)
+			VALUES (?, ?, ?, 1, ?, ?)
+		`);
+		for (const r of defaultRoles) {
+			insert.run(r.name, r.description, r.permissions, now, now);
+		}
+	}
+
+	if (!tableExists("migrations")) {
+		db.exec(`
+			CREATE TABLE migrations (
+				id TEXT PRIMARY KEY,
+				applied_at TEXT NOT NULL
+			)
+		`);
+		console.log("[db] Created migrations table");
+	}
+
+	// Actions that were admin-only before roles existed got their own permissions.
+	// The built-in operator keeps only what it could do then; custom roles keep
+	// what their "write" permissions used to grant.
+	runMigration("split-admin-permissions", () => {
+		const rows = db.prepare("SELECT name, permissions, builtin FROM roles WHERE name != 'admin'").all() as {
+			name: string;
+			permissions: string;
+			builtin: number;
+		}[];
+		const update = db.prepare("UPDATE roles SET permissions = ?, description = COALESCE(?, description) WHERE name = ?");
+		for (const row of rows) {
+			const perms = new Set(row.permissions.split(",").filter(Boolean));
+			const custom = row.builtin !== 1;
+			if (custom && perms.has("docker:write")) {
+				perms.add("docker:manage");
+				perms.add("docker:exec");
+			}
+			if (custom && perms.has("service:write")) {
+				perms.add("service:control");
+				perms.add("service:config");
+			}
+			perms.delete("service:write");
+			update.run(Array.from(perms).join(","), row.name === "operator" && !custom ? "Can create containers and manage images" : null, row.name);
+		}
+	});
+
+	// The alerts module arrived after the built-in roles were seeded
+	runMigration("builtin-alerts-read", () => {
+		const rows = db.prepare("SELECT name, permissions FROM roles WHERE builtin = 1 AND name IN ('operator', 'viewer')").all() as {
+			name: string;
+			permissions: string;
+		}[];
+		const update = db.prepare("UPDATE roles SET permissions = ? WHERE name = ?");
+		for (const row of rows) {
+			const perms = row.permissions.split(",").filter(Boolean);
+			if (!perms.includes("alerts:read")) update.run([...perms, "alerts:read"].join(","), row.name);
+		}
+	});
+
+	// Compose stacks moved from docker:write to their own permission: a stack
+	// can ask for privileged containers and host mounts, which docker:write can't
+	runMigration("stack-permission", () => {
+		const rows = db.prepare("SELECT name, permissions FROM roles WHERE builtin = 0").all() as { name: string; permissions: string }[];
+		const update = db.prepare("UPDATE roles SET permissions = ? WHERE name = ?");
+		for (const row of rows) {
+			const perms = row.permissions.split(",").filter(Boolean);
+			if (perms.includes("docker:write") && !perms.includes("docker:stacks")) {
+				update.run([...perms, "docker:stacks"].join(","), row.name);
+			}
+		}
+	});
 }
 
 initializeDatabase();
@@ -0,0 +1,220 @@
+/**
+ * docker-types.ts – Models returned by the Docker Engine API.
+ * Only the fields ServerPilot reads are typed; the API returns more.
+ */
+
+export interface DockerPort {
+	IP?: string;
+	PrivatePort: number;
+	PublicPort?: number;
+	Type: "tcp" | "udp" | "sctp";
+}
+
+export interface DockerMount {
+	Type: "bind" | "volume" | "tmpfs" | "npipe";
+	Name?: string;
+	Source: string;
+	Destination: string;
+	Mode: string;
+	RW: boolean;
+}
+
+/** GET /containers/json */
+export interface DockerContainer {
+	Id: string;
+	Names: string[];
+	Image: string;
+	ImageID: string;
+	Command: string;
+	Created: number;
+	State: "created" | "running" | "paused" | "restarting" | "removing" | "exited" | "dead";
+	Status: string;
+	Ports: DockerPort[];
+	Labels: Record<string, string>;
+	Mounts: DockerMount[];
+}
+
+export interface DockerRestartPolicy {
+	Name: "" | "no" | "always" | "unless-stopped" | "on-failure";
+	MaximumRetryCount?: number;
+}
+
+export interface DockerHostConfig {
+	Binds?: string[] | null;
+	NetworkMode?: string;
+	PortBindings?: Record<string, { HostIp?: string; HostPort?: string }[] | null>;
+	RestartPolicy?: DockerRestartPolicy;
+	AutoRemove?: boolean;
+	NanoCpus?: number;
+	CpusetCpus?: string;
+	Memory?: number;
+	MemorySwap?: number;
+}
+
+/** GET /containers/{id}/json */
+export interface DockerContainerInspect {
+	Id: string;
+	Name: string;
+	Created: string;
+	Image: string;
+	RestartCount: number;
+	State: {
+		Status: DockerContainer["State"];
+		Running: boolean;
+		Paused: boolean;
+		Restarting: boolean;
+		OOMKilled: boolean;
+		Dead: boolean;
+		Pid: number;
+		ExitCode: number;
+		Error: string;
+		StartedAt: string;
+		FinishedAt: string;
+	};
+	Config: {
+		Hostname: string;
+		User: string;
+		Tty: boolean;
+		Env: string[] | null;
+		Cmd: string[] | null;
+		Entrypoint: string[] | null;
+		Image: string;
+		WorkingDir: string;
+		Labels: Record<string, string> | null;
+		ExposedPorts?: Record<string, object> | null;
+	};
+	HostConfig: DockerHostConfig;
+	Mounts: DockerMount[];
+	NetworkSettings: {
+		Ports: Record<string, { HostIp: string; HostPort: string }[] | null> | null;
+		Networks: Record<string, { NetworkID: string; IPAddress: string; Gateway: string; MacAddress: string }>;
+	};
+}
+
+interface DockerCpuStats {
+	cpu_usage: { total_usage: number; percpu_usage?: number[] };
+	system_cpu_usage?: number;
+	online_cpus?: number;
+}
+
+/** GET /containers/{id}/stats?stream=false */
+export interface DockerContainerStats {
+	read: string;
+	cpu_stats: DockerCpuStats;
+	precpu_stats: DockerCpuStats;
+	memory_stats: { usage?: number; limit?: number; stats?: Record<string, number> };
+	networks?: Record<string, { rx_bytes: number; tx_bytes: number }>;
+	blkio_stats?: { io_service_bytes_recursive: { op: string; value: number }[] | null };
+	pids_stats?: { current?: number };
+}
+
+/** Stats reduced to the numbers the UI shows. */
+export interface ContainerUsage {
+	cpuPercent: number;
+	memoryUsage: number;
+	memoryLimit: number;
+	memoryPercent: number;
+	networkRx: number;
+	networkTx: number;
+	blockRead: number;
+	blockWrite: number;
+	pids: number;
+}
+
+/** POST /containers/{id}/update */
+export interface DockerContainerUpdate {
+	NanoCpus?: number;
+	CpusetCpus?: string;
+	Memory?: number;
+	MemorySwap?: number;
+	RestartPolicy?: DockerRestartPolicy;
+}
+
+/** POST /containers/create */
+export interface DockerContainerCreate {
+	Image: string;
+	Cmd?: string[];
+	Entrypoint?: string[];
+	Env?: string[];
+	Labels?: Record<string, string>;
+	WorkingDir?: string;
+	Tty?: boolean;
+	ExposedPorts?: Record<string, object>;
+	HostConfig?: DockerHostConfig;
+	NetworkingConfig?: { EndpointsConfig: Record<string, object> };
+}
+
+/** GET /images/json */
+export interface DockerImage {
+	Id: string;
+	ParentId: string;
+	RepoTags: string[] | null;
+	RepoDigests: string[] | null;
+	Created: number;
+	Size: number;
+	Containers: number;
+	Labels: Record<string, string> | null;
+}
+
+/** GET /images/{name}/json */
+export interface DockerImageInspect {
+	Id: string;
+	RepoTags: string[] | null;
+	RepoDigests: string[] | null;
+	Created: string;
+	Size: number;
+}
+
+/** One line of the progress stream from POST /images/create and /images/{name}/push */
+export interface DockerImageProgress {
+	id?: string;
+	status?: string;
+	progress?: string;
+	progressDetail?: { current?: number; total?: number };
+	error?: string;
+}
+
+/** DELETE /images/{name} */
+export interface DockerImageDeleteItem {
+	Untagged?: string;
+	Deleted?: string;
+}
+
+/** POST /images/prune */
+export interface DockerImagePruneResult {
+	ImagesDeleted: DockerImageDeleteItem[] | null;
+	SpaceReclaimed: number;
+}
+
+/** GET /volumes */
+export interface DockerVolume {
+	Name: string;
+	Driver: string;
+	Mountpoint: string;
+	CreatedAt?: string;
+	Labels: Record<string, string> | null;
+	Scope: "local" | "global";
+	Options: Record<string, string> | null;
+}
+
+/** GET /networks */
+export interface DockerNetwork {
+	Id: string;
+	Name: string;
+	Created: string;
+	Scope: string;
+	Driver: string;
+	EnableIPv6: boolean;
+	Internal: boolean;
+	Attachable: boolean;
+	IPAM: { Driver: string; Config: { Subnet?: string; Gateway?: string }[] | null };
+	Labels: Record<string, string> | null;
+}
+
+/** GET /exec/{id}/json */
+export interface DockerExecInspect {
+	ID: string;
+	Running: boolean;
+	ExitCode: number | null;
+	ContainerID: string;
+}
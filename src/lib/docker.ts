@@ -0,0 +1,771 @@
+/**
+ * docker.ts – Docker Engine API client.
+ * Talks HTTP to the Docker daemon instead of shelling out to the CLI.
+ *
+ * Connection follows the Docker CLI environment variables:
+ *   DOCKER_HOST         unix:///var/run/docker.sock (default) or tcp://host:2376
+ *   DOCKER_TLS_VERIFY   "1" to use TLS for tcp:// hosts
+ *   DOCKER_CERT_PATH    directory with ca.pem, cert.pem and key.pem
+ *   DOCKER_API_VERSION  pin an API version (e.g. "1.43"); defaults to the daemon's
+ *
+ * Failures throw a DockerError carrying the HTTP status to answer with and
+ * the matching ERR2xx code.
+ */
+
+import http from "node:http";
+import https from "node:https";
+import fs from "node:fs";
+import path from "node:path";
+import type { Duplex } from "node:stream";
+import { ERROR_CODES, type ErrorCode } from "./logger";
+import type {
+	ContainerUsage,
+	DockerContainer,
+	DockerContainerCreate,
+	DockerContainerInspect,
+	DockerContainerStats,
+	DockerContainerUpdate,
+	DockerExecInspect,
+	DockerImage,
+	DockerImageDeleteItem,
+	DockerImageInspect,
+	DockerImageProgress,
+	DockerImagePruneResult,
+	DockerNetwork,
+	DockerVolume,
+} from "./docker-types";
+
+export type * from "./docker-types";
+
+const DEFAULT_SOCKET = "/var/run/docker.sock";
+const DEFAULT_TIMEOUT = 15_000;
+
+/** Error from the Docker daemon (or from reaching it), with the status and code to report. */
+export class DockerError extends Error {
+	constructor(
+		message: string,
+		public status: number,
+		public code: ErrorCode
+	) {
+		super(message);
+		this.name = "DockerError";
+	}
+}
+
+interface Connection {
+	socketPath?: string;
+	host?: string;
+	port?: number;
+	tls?: { ca?: Buffer; cert?: Buffer; key?: Buffer };
+}
+
+let connection: Connection | null = null;
+
+/** Resolve DOCKER_HOST & co. once; the environment doesn't change at runtime. */
+function getConnection(): Connection {
+	if (connection) return connection;
+
+	const dockerHost = process.env.DOCKER_HOST || `unix://${DEFAULT_SOCKET}`;
+	if (dockerHost.startsWith("unix://") || dockerHost.startsWith("/")) {
+		connection = { socketPath: dockerHost.replace(/^unix:\/\//, "") };
+		return connection;
+	}
+
+	const url = new URL(dockerHost.replace(/^tcp:\/\//, "http://"));
+	const certPath = process.env.DOCKER_CERT_PATH;
+	const useTls = process.env.DOCKER_TLS_VERIFY === "1" || url.protocol === "https:";
+	const readCert = (file: string) => (certPath ? fs.readFileSync(path.join(certPath, file)) : undefined);
+
+	connection = {
+		host: url.hostname,
+		port: Number(url.port) || (useTls ? 2376 : 2375),
+		tls: useTls ? { ca: readCert("ca.pem"), cert: readCert("cert.pem"), key: readCert("key.pem") } : undefined,
+	};
+	return connection;
+}
+
+/** Which code a failed call reports; 404s get their own "not found" code. */
+interface ErrorCodes {
+	notFound?: ErrorCode;
+	failed?: ErrorCode;
+}
+
+interface RequestOptions extends ErrorCodes {
+	method?: "GET" | "POST" | "PUT" | "DELETE" | "HEAD";
+	query?: Record<string, string | number | boolean | undefined>;
+	body?: unknown;
+	headers?: Record<string, string>;
+	timeout?: number;
+}
+
+const UNREACHABLE = ["ENOENT", "ECONNREFUSED", "EACCES", "EPERM", "ENOTFOUND", "EHOSTUNREACH", "ECONNRESET"];
+
+function buildPath(apiPath: string, query?: RequestOptions["query"]): string {
+	const version = process.env.DOCKER_API_VERSION;
+	const params = new URLSearchParams();
+	for (const [key, value] of Object.entries(query ?? {})) {
+		if (value !== undefined) params.set(key, String(value));
+	}
+	const qs = params.toString();
+	return `${version ? `/v${version}` : ""}${apiPath}${qs ? `?${qs}` : ""}`;
+}
+
+function connectionError(err: NodeJS.ErrnoException): DockerError {
+	if (err.code && UNREACHABLE.includes(err.code)) {
+		return new DockerError(`Cannot connect to the Docker daemon (${err.code}). Is Docker running?`, 503, ERROR_CODES.ERR_DOCKER_NOT_RUNNING);
+	}
+	return new DockerError(err.message, 500, ERROR_CODES.ERR_INTERNAL);
+}
+
+/** Turn a non-2xx daemon reply into a DockerError. */
+function responseError(status: number, body: Buffer, codes: ErrorCodes): DockerError {
+	let message = body.toString("utf-8").trim();
+	try {
+		message = JSON.parse(message).message ?? message;
+	} catch {
+		// Plain-text error body
+	}
+	message ||= `Docker API returned ${status}`;
+
+	if (status === 404) {
+		return new DockerError(message, 404, codes.notFound ?? ERROR_CODES.ERR_NOT_FOUND);
+	}
+	const code = codes.failed ?? ERROR_CODES.ERR_INTERNAL;
+	if (status === 400 || status === 409) {
+		return new DockerError(message, status, code);
+	}
+	return new DockerError(message, 500, code);
+}
+
+/**
+ * Open a request and resolve with the response stream once headers arrive.
+ * Rejects with a DockerError for non-2xx replies (the error body is read first).
+ * Used directly for streaming endpoints (logs, pulls, exec output).
+ */
+export function dockerStream(apiPath: string, opts: RequestOptions = {}): Promise<http.IncomingMessage> {
+	const { conn, requestOptions, payload } = prepareRequest(apiPath, opts);
+
+	return new Promise((resolve, reject) => {
+		const req = (conn.tls ? https : http).request(requestOptions, (res) => {
+			const status = res.statusCode ?? 500;
+			if (status < 300 || status === 304) {
+				resolve(res);
+				return;
+			}
+			rejectWithBody(res, opts, reject);
+		});
+
+		if (opts.timeout !== 0) {
+			req.setTimeout(opts.timeout ?? DEFAULT_TIMEOUT, () => {
+				req.destroy(new DockerError(`Docker API request timed out: ${requestOptions.method} ${apiPath}`, 504, ERROR_CODES.ERR_TIMEOUT));
+			});
+		}
+		req.on("error", (err) => reject(err instanceof DockerError ? err : connectionError(err)));
+		if (payload) req.write(payload);
+		req.end();
+	});
+}
+
+/**
+ * Like dockerStream, but asks the daemon to hijack the connection
+ * (`Upgrade: tcp`) and resolves with the raw bidirectional socket.
+ * Used to attach to interactive exec sessions.
+ */
+export function dockerUpgrade(apiPath: string, opts: RequestOptions = {}): Promise<Duplex> {
+	const { conn, requestOptions, payload } = prepareRequest(apiPath, opts, { Connection: "Upgrade", Upgrade: "tcp" });
+
+	return new Promise((resolve, reject) => {
+		const req = (conn.tls ? https : http).request(requestOptions);
+		req.on("upgrade", (_res, socket, head) => {
+			if (head.length > 0) socket.unshift(head);
+			resolve(socket);
+		});
+		// Daemons that don't switch protocols answer with a plain response
+		req.on("response", (res) => rejectWithBody(res, opts, reject));
+		req.on("error", (err) => reject(err instanceof DockerError ? err : connectionError(err)));
+		if (payload) req.write(payload);
+		req.end();
+	});
+}
+
+function prepareRequest(apiPath: string, opts: RequestOptions, extraHeaders: Record<string, string> = {}) {
+	const conn = getConnection();
+	const payload = opts.body === undefined ? undefined : Buffer.from(JSON.stringify(opts.body));
+	const requestOptions: https.RequestOptions = {
+		method: opts.method ?? "GET",
+		path: buildPath(apiPath, opts.query),
+		socketPath: conn.socketPath,
+		host: conn.host,
+		port: conn.port,
+		...conn.tls,
+		headers: {
+			Host: "docker",
+			...opts.headers,
+			...extraHeaders,
+			...(payload ? { "Content-Type": "application/json", "Content-Length": payload.length } : {}),
+		},
+	};
+	return { conn, requestOptions, payload };
+}
+
+function rejectWithBody(res: http.IncomingMessage, codes: ErrorCodes, reject: (err: DockerError) => void): void {
+	const status = res.statusCode ?? 500;
+	const chunks: Buffer[] = [];
+	res.on("data", (chunk: Buffer) => chunks.push(chunk));
+	res.on("end", () => reject(responseError(status, Buffer.concat(chunks), codes)));
+	res.on("error", (err) => reject(connectionError(err)));
+}
+
+/** Read a whole response body, keeping the request timeout running while it streams. */
+function readBody(res: http.IncomingMessage): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		res.on("data", (chunk: Buffer) => chunks.push(chunk));
+		res.on("end", () => resolve(Buffer.concat(chunks)));
+		res.on("error", (err) => reject(err instanceof DockerError ? err : connectionError(err)));
+		res.on("close", () => {
+			if (!res.complete) reject(res.errored instanceof DockerError ? res.errored : connectionError(new Error("Connection closed")));
+		});
+	});
+}
+
+async function dockerRaw(apiPath: string, opts: RequestOptions = {}): Promise<{ status: number; body: Buffer }> {
+	const res = await dockerStream(apiPath, opts);
+	return { status: res.statusCode ?? 200, body: await readBody(res) };
+}
+
+async function dockerJson<T>(apiPath: string, opts: RequestOptions = {}): Promise<T> {
+	const { body } = await dockerRaw(apiPath, opts);
+	return (body.length ? JSON.parse(body.toString("utf-8")) : null) as T;
+}
+
+/**
+ * Split a multiplexed stdout/stderr stream (8-byte frame headers) into its parts.
+ * Containers with a TTY send raw output, which is returned as stdout.
+ */
+export function demuxOutput(buffer: Buffer): { stdout: string; stderr: string } {
+	const stdout: Buffer[] = [];
+	const stderr: Buffer[] = [];
+	let offset = 0;
+
+	while (offset + 8 <= buffer.length) {
+		const type = buffer[offset];
+		const framed = type <= 2 && buffer[offset + 1] === 0 && buffer[offset + 2] === 0 && buffer[offset + 3] === 0;
+		if (!framed) break;
+		const size = buffer.readUInt32BE(offset + 4);
+		const frame = buffer.subarray(offset + 8, offset + 8 + size);
+		(type === 2 ? stderr : stdout).push(frame);
+		offset += 8 + size;
+	}
+	if (offset < buffer.length) {
+		stdout.push(buffer.subarray(offset));
+	}
+
+	return { stdout: Buffer.concat(stdout).toString("utf-8"), stderr: Buffer.concat(stderr).toString("utf-8") };
+}
+
+/** Container ids/names go into URL paths; "/name" from listings is accepted too. */
+function ref(idOrName: string): string {
+	return encodeURIComponent(idOrName.replace(/^\//, ""));
+}
+
+const containerCodes = { notFound: ERROR_CODES.ERR_CONTAINER_NOT_FOUND };
+
+/* ── System ── */
+
+export async function ping(): Promise<boolean> {
+	try {
+		await dockerRaw("/_ping", { timeout: 3000 });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/* ── Containers ── */
+
+export function listContainers(opts: { all?: boolean; filters?: Record<string, string[]> } = {}): Promise<DockerContainer[]> {
+	return dockerJson("/containers/json", {
+		query: { all: opts.all ?? true, filters: opts.filters ? JSON.stringify(opts.filters) : undefined },
+	});
+}
+
+export function inspectContainer(id: string): Promise<DockerContainerInspect> {
+	return dockerJson(`/containers/${ref(id)}/json`, containerCodes);
+}
+
+export async function startContainer(id: string): Promise<void> {
+	await dockerRaw(`/containers/${ref(id)}/start`, { method: "POST", ...containerCodes, failed: ERROR_CODES.ERR_CONTAINER_START_FAILED });
+}
+
+export async function stopContainer(id: string, timeoutSeconds?: number): Promise<void> {
+	await dockerRaw(`/containers/${ref(id)}/stop`, {
+		method: "POST",
+		query: { t: timeoutSeconds },
+		timeout: 60_000,
+		...containerCodes,
+		failed: ERROR_CODES.ERR_CONTAINER_STOP_FAILED,
+	});
+}
+
+export async function restartContainer(id: string, timeoutSeconds?: number): Promise<void> {
+	await dockerRaw(`/containers/${ref(id)}/restart`, {
+		method: "POST",
+		query: { t: timeoutSeconds },
+		timeout: 60_000,
+		...containerCodes,
+		failed: ERROR_CODES.ERR_CONTAINER_START_FAILED,
+	});
+}
+
+export async function removeContainer(id: string, opts: { force?: boolean; volumes?: boolean } = {}): Promise<void> {
+	await dockerRaw(`/containers/${ref(id)}`, {
+		method: "DELETE",
+		query: { force: opts.force ?? false, v: opts.volumes ?? false },
+		timeout: 60_000,
+		...containerCodes,
+		failed: ERROR_CODES.ERR_CONTAINER_REMOVE_FAILED,
+	});
+}
+
+export async function updateContainer(id: string, update: DockerContainerUpdate): Promise<void> {
+	await dockerRaw(`/containers/${ref(id)}/update`, { method: "POST", body: update, ...containerCodes });
+}
+
+export async function createContainer(config: DockerContainerCreate, name?: string): Promise<{ Id: string; Warnings: string[] }> {
+	return dockerJson("/containers/create", {
+		method: "POST",
+		query: { name },
+		body: config,
+		notFound: ERROR_CODES.ERR_IMAGE_NOT_FOUND,
+	});
+}
+
+/** Block until the container exits; resolves with its exit code. */
+export async function waitContainer(id: string, timeout = 0): Promise<number> {
+	const result = await dockerJson<{ StatusCode: number }>(`/containers/${ref(id)}/wait`, { method: "POST", timeout, ...containerCodes });
+	return result.StatusCode;
+}
+
+export type LogStream = "stdout" | "stderr";
+
+export interface LogOptions {
+	tail?: number;
+	since?: number; // unix seconds
+	until?: number; // unix seconds
+	timestamps?: boolean;
+	stdout?: boolean;
+	stderr?: boolean;
+}
+
+function logQuery(opts: LogOptions, follow: boolean): RequestOptions["query"] {
+	return {
+		follow,
+		stdout: opts.stdout ?? true,
+		stderr: opts.stderr ?? true,
+		tail: opts.tail ?? "all",
+		timestamps: opts.timestamps,
+		since: opts.since,
+		until: opts.until,
+	};
+}
+
+export async function containerLogs(id: string, opts: LogOptions = {}): Promise<{ stdout: string; stderr: string }> {
+	const { body } = await dockerRaw(`/containers/${ref(id)}/logs`, { query: logQuery(opts, false), ...containerCodes });
+	return demuxOutput(body);
+}
+
+/**
+ * Open a container's log stream. With `follow` it stays open until the
+ * container stops or the caller destroys the stream; there is no idle timeout.
+ * `tty` tells whether the output is raw (TTY) or multiplexed (see createDemuxer).
+ */
+export async function openLogStream(
+	id: string,
+	opts: LogOptions & { follow?: boolean } = {}
+): Promise<{ stream: http.IncomingMessage; tty: boolean }> {
+	const info = await inspectContainer(id);
+	const stream = await dockerStream(`/containers/${ref(id)}/logs`, {
+		query: logQuery(opts, opts.follow ?? false),
+		timeout: 0,
+		...containerCodes,
+	});
+	return { stream, tty: info.Config.Tty };
+}
+
+/**
+ * Incremental version of demuxOutput for live streams: frames may be split
+ * across chunks, so partial headers and payloads are buffered until complete.
+ */
+export function createDemuxer(tty: boolean, onData: (stream: LogStream, data: Buffer) => void): (chunk: Buffer) => void {
+	if (tty) {
+		return (chunk) => onData("stdout", chunk);
+	}
+
+	let pending: Buffer = Buffer.alloc(0);
+	return (chunk) => {
+		pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+		while (pending.length >= 8) {
+			const size = pending.readUInt32BE(4);
+			if (pending.length < 8 + size) break;
+			onData(pending[0] === 2 ? "stderr" : "stdout", pending.subarray(8, 8 + size));
+			pending = pending.subarray(8 + size);
+		}
+	};
+}
+
+export function containerStats(id: string): Promise<DockerContainerStats> {
+	return dockerJson(`/containers/${ref(id)}/stats`, { query: { stream: false }, ...containerCodes });
+}
+
+/** CPU and memory figures computed the way `docker stats` does. */
+export function summarizeStats(stats: DockerContainerStats): ContainerUsage {
+	const cpuDelta = stats.cpu_stats.cpu_usage.total_usage - (stats.precpu_stats.cpu_usage?.total_usage ?? 0);
+	const systemDelta = (stats.cpu_stats.system_cpu_usage ?? 0) - (stats.precpu_stats.system_cpu_usage ?? 0);
+	const cpus = stats.cpu_stats.online_cpus ?? stats.cpu_stats.cpu_usage.percpu_usage?.length ?? 1;
+	const cpuPercent = systemDelta > 0 && cpuDelta > 0 ? (cpuDelta / systemDelta) * cpus * 100 : 0;
+
+	// Page cache counts towards usage but not towards what `docker stats` shows
+	const cache = stats.memory_stats.stats?.inactive_file ?? stats.memory_stats.stats?.cache ?? 0;
+	const memoryUsage = Math.max((stats.memory_stats.usage ?? 0) - cache, 0);
+	const memoryLimit = stats.memory_stats.limit ?? 0;
+
+	const networks = Object.values(stats.networks ?? {});
+	const blkio = stats.blkio_stats?.io_service_bytes_recursive ?? [];
+	const sumOp = (op: string) => blkio.filter((e) => e.op.toLowerCase() === op).reduce((sum, e) => sum + e.value, 0);
+
+	return {
+		cpuPercent: Math.round(cpuPercent * 100) / 100,
+		memoryUsage,
+		memoryLimit,
+		memoryPercent: memoryLimit > 0 ? Math.round((memoryUsage / memoryLimit) * 10000) / 100 : 0,
+		networkRx: networks.reduce((sum, n) => sum + n.rx_bytes, 0),
+		networkTx: networks.reduce((sum, n) => sum + n.tx_bytes, 0),
+		blockRead: sumOp("read"),
+		blockWrite: sumOp("write"),
+		pids: stats.pids_stats?.current ?? 0,
+	};
+}
+
+/**
+ * Start an interactive exec session with a TTY (like `docker exec -it`).
+ * Resolves with the exec id and the hijacked socket: writes go to the
+ * process's stdin, reads are its raw terminal output.
+ */
+export async function openExecSession(
+	id: string,
+	cmd: string[],
+	opts: { cols?: number; rows?: number; user?: string; workingDir?: string; env?: string[] } = {}
+): Promise<{ execId: string; socket: Duplex }> {
+	const exec = await dockerJson<{ Id: string }>(`/containers/${ref(id)}/exec`, {
+		method: "POST",
+		body: {
+			Cmd: cmd,
+			AttachStdin: true,
+			AttachStdout: true,
+			AttachStderr: true,
+			Tty: true,
+			User: opts.user,
+			WorkingDir: opts.workingDir,
+			Env: ["TERM=xterm-256color", ...(opts.env ?? [])],
+			ConsoleSize: opts.rows && opts.cols ? [opts.rows, opts.cols] : undefined,
+		},
+		...containerCodes,
+		failed: ERROR_CODES.ERR_CONTAINER_START_FAILED,
+	});
+
+	const socket = await dockerUpgrade(`/exec/${exec.Id}/start`, {
+		method: "POST",
+		body: { Detach: false, Tty: true },
+	});
+	return { execId: exec.Id, socket };
+}
+
+export async function resizeExec(execId: string, cols: number, rows: number): Promise<void> {
+	await dockerRaw(`/exec/${execId}/resize`, { method: "POST", query: { h: rows, w: cols } });
+}
+
+export function inspectExec(execId: string): Promise<DockerExecInspect> {
+	return dockerJson(`/exec/${execId}/json`);
+}
+
+/**
+ * Run a command in a running container without a TTY and collect its output.
+ * @param timeout - Milliseconds to wait for the command to finish
+ */
+export async function execInContainer(
+	id: string,
+	cmd: string[],
+	opts: { workingDir?: string; user?: string; env?: string[]; timeout?: number } = {}
+): Promise<{ stdout: string; stderr: string; exitCode: number | null }> {
+	const exec = await dockerJson<{ Id: string }>(`/containers/${ref(id)}/exec`, {
+		method: "POST",
+		body: {
+			Cmd: cmd,
+			AttachStdout: true,
+			AttachStderr: true,
+			WorkingDir: opts.workingDir,
+			User: opts.user,
+			Env: opts.env,
+		},
+		...containerCodes,
+	});
+
+	const { body } = await dockerRaw(`/exec/${exec.Id}/start`, {
+		method: "POST",
+		body: { Detach: false, Tty: false },
+		timeout: opts.timeout ?? 30_000,
+	});
+	const info = await inspectExec(exec.Id);
+	return { ...demuxOutput(body), exitCode: info.ExitCode };
+}
+
+/* ── Images ── */
+
+export function listImages(opts: { all?: boolean } = {}): Promise<DockerImage[]> {
+	return dockerJson("/images/json", { query: { all: opts.all ?? false } });
+}
+
+export function inspectImage(name: string): Promise<DockerImageInspect> {
+	return dockerJson(`/images/${encodeURIComponent(name)}/json`, { notFound: ERROR_CODES.ERR_IMAGE_NOT_FOUND });
+}
+
+export async function imageExists(name: string): Promise<boolean> {
+	try {
+		await inspectImage(name);
+		return true;
+	} catch (err) {
+		if (err instanceof DockerError && err.status === 404) return false;
+		throw err;
+	}
+}
+
+/** Credentials for a registry; the daemon takes them base64url-encoded in X-Registry-Auth. */
+export interface RegistryAuth {
+	username?: string;
+	password?: string;
+	serveraddress?: string;
+}
+
+export interface ImageTransferOptions {
+	auth?: RegistryAuth;
+	onProgress?: (event: DockerImageProgress) => void;
+}
+
+function registryAuthHeader(auth: RegistryAuth = {}): Record<string, string> {
+	return { "X-Registry-Auth": Buffer.from(JSON.stringify(auth)).toString("base64url") };
+}
+
+/**
+ * Read a pull/push progress stream to the end. The daemon answers 200 and
+ * reports failures inside the stream, so error events become a DockerError.
+ */
+async function followProgress(
+	res: http.IncomingMessage,
+	failedCode: ErrorCode,
+	onProgress?: (event: DockerImageProgress) => void
+): Promise<void> {
+	const handle = (line: string) => {
+		if (!line.trim()) return;
+		let event: DockerImageProgress;
+		try {
+			event = JSON.parse(line);
+		} catch {
+			return;
+		}
+		if (event.error) throw new DockerError(event.error, 500, failedCode);
+		onProgress?.(event);
+	};
+
+	let partial = "";
+	for await (const chunk of res) {
+		const lines = (partial + (chunk as Buffer).toString("utf-8")).split("\n");
+		partial = lines.pop() ?? "";
+		lines.forEach(handle);
+	}
+	handle(partial);
+}
+
+/**
+ * Check credentials against a registry through the daemon (`docker login`
+ * without storing anything). Rejected logins come back as 400.
+ */
+export async function registryLogin(auth: RegistryAuth): Promise<void> {
+	try {
+		await dockerRaw("/auth", { method: "POST", body: auth, timeout: 30_000, failed: ERROR_CODES.ERR_REGISTRY_LOGIN_FAILED });
+	} catch (err) {
+		if (err instanceof DockerError && err.code === ERROR_CODES.ERR_REGISTRY_LOGIN_FAILED) {
+			throw new DockerError(err.message, 400, err.code);
+		}
+		throw err;
+	}
+}
+
+/** Pull an image and wait for the pull to finish, reporting layer progress as it goes. */
+export async function pullImage(image: string, tag = "latest", opts: ImageTransferOptions = {}): Promise<void> {
+	const res = await dockerStream("/images/create", {
+		method: "POST",
+		query: { fromImage: image, tag: tag || undefined },
+		headers: registryAuthHeader(opts.auth),
+		timeout: 0,
+		notFound: ERROR_CODES.ERR_IMAGE_NOT_FOUND,
+		failed: ERROR_CODES.ERR_IMAGE_PULL_FAILED,
+	});
+	await followProgress(res, ERROR_CODES.ERR_IMAGE_PULL_FAILED, opts.onProgress);
+}
+
+/** Push a local image (by repository name) to its registry. */
+export async function pushImage(name: string, tag = "latest", opts: ImageTransferOptions = {}): Promise<void> {
+	const res = await dockerStream(`/images/${encodeURIComponent(name)}/push`, {
+		method: "POST",
+		query: { tag: tag || undefined },
+		headers: registryAuthHeader(opts.auth),
+		timeout: 0,
+		notFound: ERROR_CODES.ERR_IMAGE_NOT_FOUND,
+		failed: ERROR_CODES.ERR_IMAGE_PUSH_FAILED,
+	});
+	await followProgress(res, ERROR_CODES.ERR_IMAGE_PUSH_FAILED, opts.onProgress);
+}
+
+/** Add a repository:tag reference to an existing image. */
+export async function tagImage(name: string, repo: string, tag = "latest"): Promise<void> {
+	await dockerRaw(`/images/${encodeURIComponent(name)}/tag`, {
+		method: "POST",
+		query: { repo, tag },
+		notFound: ERROR_CODES.ERR_IMAGE_NOT_FOUND,
+	});
+}
+
+/**
+ * Remove an image (or just one of its tags). Images used by a container
+ * are refused with a 409 unless `force` is set.
+ */
+export function removeImage(name: string, opts: { force?: boolean } = {}): Promise<DockerImageDeleteItem[]> {
+	return dockerJson(`/images/${encodeURIComponent(name)}`, {
+		method: "DELETE",
+		query: { force: opts.force ?? false },
+		notFound: ERROR_CODES.ERR_IMAGE_NOT_FOUND,
+		failed: ERROR_CODES.ERR_IMAGE_REMOVE_FAILED,
+	});
+}
+
+/** Remove dangling images, or with `unused` every image no container uses. */
+export function pruneImages(unused = false): Promise<DockerImagePruneResult> {
+	return dockerJson("/images/prune", {
+		method: "POST",
+		query: { filters: JSON.stringify({ dangling: [String(!unused)] }) },
+		timeout: 120_000,
+		failed: ERROR_CODES.ERR_IMAGE_REMOVE_FAILED,
+	});
+}
+
+/** Untagged images ("<none>:<none>") left behind when a tag moves to a newer build. */
+export function isDanglingImage(image: DockerImage): boolean {
+	return !image.RepoTags?.some((tag) => tag !== "<none>:<none>");
+}
+
+/** Names of the containers (any state) created from each image id. */
+export function containersByImage(containers: DockerContainer[]): Map<string, string[]> {
+	const usage = new Map<string, string[]>();
+	for (const container of containers) {
+		const name = container.Names?.[0]?.replace(/^\//, "") ?? container.Id.slice(0, 12);
+		const names = usage.get(container.ImageID) ?? [];
+		names.push(name);
+		usage.set(container.ImageID, names);
+	}
+	return usage;
+}
+
+/* ── Volumes ── */
+
+export async function listVolumes(): Promise<DockerVolume[]> {
+	const result = await dockerJson<{ Volumes: DockerVolume[] | null }>("/volumes");
+	return result.Volumes ?? [];
+}
+
+export function inspectVolume(name: string): Promise<DockerVolume> {
+	return dockerJson(`/volumes/${encodeURIComponent(name)}`, { notFound: ERROR_CODES.ERR_VOLUME_NOT_FOUND });
+}
+
+export function createVolume(name: string, labels?: Record<string, string>): Promise<DockerVolume> {
+	return dockerJson("/volumes/create", {
+		method: "POST",
+		body: { Name: name, Labels: labels },
+		failed: ERROR_CODES.ERR_VOLUME_CREATE_FAILED,
+	});
+}
+
+export async function removeVolume(name: string, force = false): Promise<void> {
+	await dockerRaw(`/volumes/${encodeURIComponent(name)}`, {
+		method: "DELETE",
+		query: { force },
+		notFound: ERROR_CODES.ERR_VOLUME_NOT_FOUND,
+		failed: ERROR_CODES.ERR_VOLUME_REMOVE_FAILED,
+	});
+}
+
+/* ── Networks ── */
+
+export function listNetworks(): Promise<DockerNetwork[]> {
+	return dockerJson("/networks");
+}
+
+export function inspectNetwork(id: string): Promise<DockerNetwork> {
+	return dockerJson(`/networks/${encodeURIComponent(id)}`, { notFound: ERROR_CODES.ERR_NETWORK_NOT_FOUND });
+}
+
+export async function connectNetwork(network: string, containerId: string): Promise<void> {
+	await dockerRaw(`/networks/${encodeURIComponent(network)}/connect`, {
+		method: "POST",
+		body: { Container: containerId },
+		notFound: ERROR_CODES.ERR_NETWORK_NOT_FOUND,
+	});
+}
+
+/* ── One-off containers ── */
+
+/**
+ * Run a short-lived helper container to completion (pulling the image if
+ * needed), then remove it. Used for volume backup/restore.
+ * Throws a DockerError with `failedCode` if the command exits non-zero.
+ */
+export async function runToCompletion(
+	config: DockerContainerCreate,
+	opts: { timeout?: number; failedCode?: ErrorCode } = {}
+): Promise<{ stdout: string; stderr: string }> {
+	const [image, tag] = splitImageTag(config.Image);
+	if (!(await imageExists(config.Image))) {
+		await pullImage(image, tag);
+	}
+
+	const { Id } = await createContainer(config);
+	try {
+		await startContainer(Id);
+		const exitCode = await waitContainer(Id, opts.timeout ?? 120_000);
+		const output = await containerLogs(Id);
+		if (exitCode !== 0) {
+			throw new DockerError(
+				output.stderr.trim() || output.stdout.trim() || `Exited with code ${exitCode}`,
+				500,
+				opts.failedCode ?? ERROR_CODES.ERR_INTERNAL
+			);
+		}
+		return output;
+	} finally {
+		await removeContainer(Id, { force: true }).catch(() => undefined);
+	}
+}
+
+/** "alpine" → ["alpine", "latest"], "registry:5000/app:1.2" → ["registry:5000/app", "1.2"]. */
+export function splitImageTag(reference: string): [string, string] {
+	if (reference.includes("@")) return [reference, ""];
+	const slash = reference.lastIndexOf("/");
+	const colon = reference.lastIndexOf(":");
+	return colon > slash ? [reference.slice(0, colon), reference.slice(colon + 1)] : [reference, "latest"];
+}
+
+/** Normalize anything thrown by this client (or around it) into a DockerError. */
+export function toDockerError(err: unknown, failedCode: ErrorCode = ERROR_CODES.ERR_INTERNAL): DockerError {
+	if (err instanceof DockerError) return err;
+	return new DockerError(err instanceof Error ? err.message : "Unknown error", 500, failedCode);
+}
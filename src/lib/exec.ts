@@ -7,7 +7,7 @@
  * Dynamic arguments are passed separately and validated per-command.
  */
 
-import { execFileSync, execFile as execFileCb } from "node:child_process";
+import { execFileSync, execFile as execFileCb, spawn } from "node:child_process";
 
 /* ── Command registry: maps command keys to binary + static args ── */
 export interface CommandDef {
@@ -27,7 +27,11 @@ const COMMAND_REGISTRY: Record<string, CommandDef> = {
 	"cat:proc/cpuinfo": { bin: "cat", args: ["/proc/cpuinfo"] },
 	"cat:proc/uptime": { bin: "cat", args: ["/proc/uptime"] },
 	"cat:proc/net/dev": { bin: "cat", args: ["/proc/net/dev"] },
+	"cat:proc/mounts": { bin: "cat", args: ["/proc/mounts"] },
+	"cat:proc/diskstats": { bin: "cat", args: ["/proc/diskstats"] },
 	"cat:proc/version": { bin: "cat", args: ["/proc/version"] },
+	"cat:etc/shells": { bin: "cat", args: ["/etc/shells"] },
+	"getent:passwd": { bin: "getent", args: ["passwd"] },
 	hostname: { bin: "hostname", args: [] },
 	uname: { bin: "uname", args: [] },
 	uptime: { bin: "uptime", args: [] },
@@ -35,7 +39,8 @@ const COMMAND_REGISTRY: Record<string, CommandDef> = {
 	"ip:addr": { bin: "ip", args: ["addr"] },
 	"ip:link": { bin: "ip", args: ["-s", "link"] },
 	"free": { bin: "free", args: ["-b"] },
-	"df": { bin: "df", args: ["-B1", "/"] },
+	"df": { bin: "df", args: ["-B1"] },
+	"df:mounts": { bin: "df", args: ["-B1", "--output=source,fstype,size,used,avail,itotal,iused,target"] },
 	timedatectl: { bin: "timedatectl", args: [] },
 
 	// Systemd service management
@@ -50,24 +55,20 @@ const COMMAND_REGISTRY: Record<string, CommandDef> = {
 	"journalctl:unit-json": { bin: "journalctl", args: ["-u"] },
 	"systemctl:list-units": { bin: "systemctl", args: ["list-units", "--type=service", "--all", "--no-pager", "--plain"] },
 
-	// Docker read-only
-	"docker:ps": { bin: "docker", args: ["ps", "-a", "--format", "{{json .}}"] },
-	"docker:images": { bin: "docker", args: ["images", "--format", "{{json .}}"] },
-	"docker:volumes": { bin: "docker", args: ["volume", "ls", "--format", "{{json .}}"] },
-	"docker:networks": { bin: "docker", args: ["network", "ls", "--format", "{{json .}}"] },
-	"docker:logs": { bin: "docker", args: ["logs"] },
-
-	// Docker container lifecycle
-	"docker:start": { bin: "docker", args: ["start"] },
-	"docker:stop": { bin: "docker", args: ["stop"] },
-	"docker:restart": { bin: "docker", args: ["restart"] },
-	"docker:rm": { bin: "docker", args: ["rm", "-f"] },
-
 	// System configuration
 	"hostnamectl:set-hostname": { bin: "hostnamectl", args: ["set-hostname"] },
 	"timedatectl:set-timezone": { bin: "timedatectl", args: ["set-timezone"] },
+
+	// Docker Compose: the v2 plugin, or the legacy standalone binary
+	"docker:compose": { bin: "docker", args: ["compose"] },
+	"docker-compose": { bin: "docker-compose", args: [] },
 };
 
+export interface ExecOptions {
+	cwd?: string;
+	env?: NodeJS.ProcessEnv;
+}
+
 export interface ExecResult {
 	ok: boolean;
 	stdout: string;
@@ -92,7 +93,7 @@ export function unregisterCommand(key: string): void {
 
 /**
  * Run a registered command synchronously (blocking).
- * @param key - Registry key (e.g. "docker:ps", "free", "cat:proc/stat")
+ * @param key - Registry key (e.g. "systemctl:status", "free", "cat:proc/stat")
  * @param extraArgs - Additional arguments appended after the fixed args (already validated by caller)
  * @param timeoutMs - Execution timeout in milliseconds
  */
@@ -124,8 +125,9 @@ export function runSync(key: string, extraArgs: string[] = [], timeoutMs = 10_00
  * @param key - Registry key
  * @param extraArgs - Additional arguments appended after the fixed args
  * @param timeoutMs - Execution timeout in milliseconds
+ * @param options - Working directory and environment for the child process
  */
-export function runAsync(key: string, extraArgs: string[] = [], timeoutMs = 15_000): Promise<ExecResult> {
+export function runAsync(key: string, extraArgs: string[] = [], timeoutMs = 15_000, options: ExecOptions = {}): Promise<ExecResult> {
 	return new Promise((resolve) => {
 		const def = COMMAND_REGISTRY[key];
 		if (!def) {
@@ -133,7 +135,7 @@ export function runAsync(key: string, extraArgs: string[] = [], timeoutMs = 15_0
 			return;
 		}
 		const allArgs = [...def.args, ...extraArgs];
-		execFileCb(def.bin, allArgs, { timeout: timeoutMs, encoding: "utf-8" }, (err, stdout, stderr) => {
+		execFileCb(def.bin, allArgs, { timeout: timeoutMs, encoding: "utf-8", ...options }, (err, stdout, stderr) => {
 			if (err) {
 				resolve({
 					ok: false,
@@ -147,3 +149,42 @@ export function runAsync(key: string, extraArgs: string[] = [], timeoutMs = 15_0
 		});
 	});
 }
+
+/**
+ * Run a registered command asynchronously, passing output to `onOutput` as it
+ * arrives (for progress that should reach the user before the command ends).
+ * Resolves with the full output once the process exits.
+ * @param key - Registry key
+ * @param extraArgs - Additional arguments appended after the fixed args
+ * @param onOutput - Called with each chunk of stdout/stderr text
+ * @param timeoutMs - Execution timeout in milliseconds
+ * @param options - Working directory and environment for the child process
+ */
+export function runStreaming(
+	key: string,
+	extraArgs: string[],
+	onOutput: (text: string, stream: "stdout" | "stderr") => void,
+	timeoutMs = 300_000,
+	options: ExecOptions = {}
+): Promise<ExecResult> {
+	return new Promise((resolve) => {
+		const def = COMMAND_REGISTRY[key];
+		if (!def) {
+			resolve({ ok: false, stdout: "", stderr: `Command not registered: ${key}`, code: 1 });
+			return;
+		}
+		const output = { stdout: "", stderr: "" };
+		const child = spawn(def.bin, [...def.args, ...extraArgs], { timeout: timeoutMs, stdio: ["ignore", "pipe", "pipe"], ...options });
+		for (const stream of ["stdout", "stderr"] as const) {
+			child[stream].setEncoding("utf-8");
+			child[stream].on("data", (text: string) => {
+				output[stream] += text;
+				onOutput(text, stream);
+			});
+		}
+		child.on("error", (err) => resolve({ ok: false, stdout: output.stdout.trim(), stderr: err.message, code: 1 }));
+		child.on("close", (code) => {
+			resolve({ ok: code === 0, stdout: output.stdout.trim(), stderr: output.stderr.trim(), code: code ?? 1 });
+		});
+	});
+}
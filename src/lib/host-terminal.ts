@@ -0,0 +1,330 @@
+/**
+ * host-terminal.ts – Admin shell on the host over WebSocket.
+ *
+ * Each connection gets a real PTY (node-pty) running the configured login
+ * shell, optionally as another user via `su`. The protocol matches the
+ * container terminal (see container-terminal.ts).
+ *
+ * Terminal output is recorded in asciicast v2 format under
+ * data/terminal-recordings/, named by the session id that the audit log
+ * entries point at, so sessions can be replayed later. Keystrokes are not
+ * recorded: they would include passwords typed at prompts. Old recordings are
+ * pruned by age and total size whenever a session ends.
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { spawn, type IPty } from "node-pty";
+import type { WebSocket, RawData } from "ws";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "./audit";
+import { runSync } from "./exec";
+import type { WebSocketContext } from "./websocket";
+
+export const RECORDINGS_DIR = path.join(process.cwd(), "data", "terminal-recordings");
+
+const MAX_RECORDING = 50 * 1024 * 1024;
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const MIN_SIZE = 10;
+const MAX_SIZE = 1000;
+const ACCOUNT_NAME_PATTERN = /^[a-z_][a-z0-9_-]{0,31}\$?$/i;
+
+export interface HostTerminalOptions {
+	shell: string;
+	user?: string;
+	maxSessions: number;
+	idleMinutes: number;
+	recordingRetentionDays: number;
+	recordingMaxTotalMb: number;
+}
+
+export interface HostTerminalSession {
+	id: string;
+	username: string;
+	ip?: string;
+	startedAt: string;
+}
+
+const activeSessions = new Map<string, HostTerminalSession>();
+
+export function listHostTerminalSessions(): HostTerminalSession[] {
+	return Array.from(activeSessions.values());
+}
+
+function clampSize(value: unknown, fallback: number): number {
+	const n = Math.floor(Number(value));
+	return Number.isFinite(n) && n > 0 ? Math.min(Math.max(n, MIN_SIZE), MAX_SIZE) : fallback;
+}
+
+/** Path of a session's recording, or null for ids that aren't session ids. */
+export function getRecordingPath(sessionId: string): string | null {
+	if (!SESSION_ID_PATTERN.test(sessionId)) return null;
+	const file = path.join(RECORDINGS_DIR, `${sessionId}.cast`);
+	return fs.existsSync(file) ? file : null;
+}
+
+/**
+ * Delete recordings older than `retentionDays`, then the oldest ones until
+ * the rest fit in `maxTotalMb` (0 disables either limit). Recordings of open
+ * sessions are kept.
+ */
+function pruneRecordings(retentionDays: number, maxTotalMb: number): void {
+	let recordings: { file: string; id: string; mtimeMs: number; size: number }[];
+	try {
+		recordings = fs
+			.readdirSync(RECORDINGS_DIR)
+			.filter((name) => name.endsWith(".cast"))
+			.map((name) => {
+				const file = path.join(RECORDINGS_DIR, name);
+				const { mtimeMs, size } = fs.statSync(file);
+				return { file, id: name.slice(0, -".cast".length), mtimeMs, size };
+			})
+			.sort((a, b) => a.mtimeMs - b.mtimeMs);
+	} catch {
+		return;
+	}
+
+	const cutoff = retentionDays > 0 ? Date.now() - retentionDays * 24 * 60 * 60 * 1000 : -Infinity;
+	const maxTotal = maxTotalMb > 0 ? maxTotalMb * 1024 * 1024 : Infinity;
+	let total = recordings.reduce((sum, r) => sum + r.size, 0);
+	for (const recording of recordings) {
+		if (recording.mtimeMs >= cutoff && total <= maxTotal) break;
+		if (activeSessions.has(recording.id)) continue;
+		fs.rmSync(recording.file, { force: true });
+		total -= recording.size;
+	}
+}
+
+/** Appends asciicast v2 events: a JSON header line, then [seconds, type, data] per event. */
+function createRecorder(sessionId: string, header: { cols: number; rows: number; shell: string; title: string }) {
+	fs.mkdirSync(RECORDINGS_DIR, { recursive: true, mode: 0o700 });
+	const file = fs.createWriteStream(path.join(RECORDINGS_DIR, `${sessionId}.cast`), { mode: 0o600 });
+	const start = Date.now();
+	let size = 0;
+	let full = false;
+
+	function write(line: string) {
+		size += Buffer.byteLength(line);
+		file.write(line);
+	}
+
+	write(
+		JSON.stringify({
+			version: 2,
+			width: header.cols,
+			height: header.rows,
+			timestamp: Math.floor(start / 1000),
+			title: header.title,
+			env: { SHELL: header.shell, TERM: "xterm-256color" },
+		}) + "\n"
+	);
+
+	function event(type: "o" | "r", data: string) {
+		if (full) return;
+		const elapsed = (Date.now() - start) / 1000;
+		if (size > MAX_RECORDING) {
+			full = true;
+			write(JSON.stringify([elapsed, "o", "\r\n[recording size limit reached]\r\n"]) + "\n");
+			return;
+		}
+		write(JSON.stringify([elapsed, type, data]) + "\n");
+	}
+
+	return {
+		output: (data: string) => event("o", data),
+		resize: (cols: number, rows: number) => event("r", `${cols}x${rows}`),
+		close: () => file.end(),
+	};
+}
+
+/**
+ * Problems with the terminal settings before they are saved or used: the
+ * shell must be a login shell listed in /etc/shells, the user an existing
+ * account and the recording limits not negative. Returns messages for the
+ * settings form.
+ */
+export function checkTerminalSettings(values: {
+	shell?: unknown;
+	user?: unknown;
+	recordingRetentionDays?: unknown;
+	recordingMaxTotalMb?: unknown;
+}): string[] {
+	const errors: string[] = [];
+
+	const shells = runSync("cat:etc/shells");
+	const allowed = shells.stdout
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line.startsWith("/"));
+	if (typeof values.shell !== "string" || !allowed.includes(values.shell)) {
+		errors.push(shells.ok ? "Login shell must be one of the shells listed in /etc/shells" : "Unable to read /etc/shells");
+	}
+
+	const user = values.user;
+	if (user !== undefined && user !== null && user !== "") {
+		if (typeof user !== "string" || !ACCOUNT_NAME_PATTERN.test(user) || !runSync("getent:passwd", [user]).ok) {
+			errors.push("Run as user must be an existing account");
+		}
+	}
+
+	for (const [key, label] of [
+		["recordingRetentionDays", "Keep recordings for"],
+		["recordingMaxTotalMb", "Recordings size limit"],
+	] as const) {
+		const value = values[key];
+		if (typeof value === "number" && value < 0) errors.push(`${label} cannot be negative`);
+	}
+	return errors;
+}
+
+/** Command line for the configured shell, switching user through `su` when one is set. */
+function shellCommand(options: HostTerminalOptions): { file: string; args: string[] } {
+	const currentUser = os.userInfo().username;
+	if (options.user && options.user !== currentUser) {
+		return { file: "su", args: ["-", options.user, "-s", options.shell] };
+	}
+	return { file: options.shell, args: ["-l"] };
+}
+
+export function handleHostTerminal(ws: WebSocket, ctx: WebSocketContext, options: HostTerminalOptions): void {
+	const { user, url, ip } = ctx;
+
+	const sendJson = (message: object) => {
+		if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+	};
+
+	if (activeSessions.size >= options.maxSessions) {
+		logAction(user.username, "HOST_TERMINAL", "host", `Refused: ${activeSessions.size} sessions already open`, ip, {
+			level: LOG_LEVELS.WARN,
+			code: ERROR_CODES.ERR_FORBIDDEN,
+		});
+		sendJson({ type: "error", error: `Too many terminal sessions (limit ${options.maxSessions}); close another one first` });
+		ws.close(1013, "session limit");
+		return;
+	}
+
+	// Settings saved before they were validated, or since removed from the system
+	const invalid = checkTerminalSettings(options);
+	if (invalid.length > 0) {
+		logAction(user.username, "HOST_TERMINAL", "host", `Refused: ${invalid.join("; ")}`, ip, {
+			level: LOG_LEVELS.WARN,
+			code: ERROR_CODES.ERR_INVALID_INPUT,
+		});
+		sendJson({ type: "error", error: `Terminal settings are invalid: ${invalid.join("; ")}` });
+		ws.close(1011, "invalid settings");
+		return;
+	}
+
+	let cols = clampSize(url.searchParams.get("cols"), 80);
+	let rows = clampSize(url.searchParams.get("rows"), 24);
+	const { file, args } = shellCommand(options);
+	const runAs = options.user || os.userInfo().username;
+	const home = options.user ? "/" : os.homedir();
+
+	let shell: IPty;
+	try {
+		// Only a minimal environment: the server's own variables hold secrets
+		shell = spawn(file, args, {
+			name: "xterm-256color",
+			cols,
+			rows,
+			cwd: home,
+			env: {
+				PATH: process.env.PATH ?? "/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin",
+				LANG: process.env.LANG ?? "C.UTF-8",
+				HOME: home,
+				SHELL: options.shell,
+				TERM: "xterm-256color",
+			},
+		});
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		logAction(user.username, "HOST_TERMINAL", "host", `Failed to start ${options.shell}: ${message}`, ip, {
+			level: LOG_LEVELS.ERROR,
+			code: ERROR_CODES.ERR_INTERNAL,
+		});
+		sendJson({ type: "error", error: `Failed to start ${options.shell}: ${message}` });
+		ws.close(1011, "spawn failed");
+		return;
+	}
+
+	const sessionId = randomUUID();
+	const startedAt = Date.now();
+	const recorder = createRecorder(sessionId, { cols, rows, shell: options.shell, title: `${runAs}@${os.hostname()}` });
+	let idleTimer: ReturnType<typeof setTimeout> | undefined;
+	let closeReason = "closed by user";
+	let finished = false;
+
+	activeSessions.set(sessionId, { id: sessionId, username: user.username, ip, startedAt: new Date(startedAt).toISOString() });
+	logAction(user.username, "HOST_TERMINAL", sessionId, `Opened ${options.shell} as ${runAs}`, ip, {
+		level: LOG_LEVELS.INFO,
+		code: "INF012",
+	});
+
+	function resetIdle() {
+		clearTimeout(idleTimer);
+		if (options.idleMinutes <= 0) return;
+		idleTimer = setTimeout(() => {
+			closeReason = "idle timeout";
+			sendJson({ type: "error", error: `Session closed after ${options.idleMinutes} minutes without input` });
+			finish(null);
+		}, options.idleMinutes * 60_000);
+	}
+
+	function finish(exitCode: number | null) {
+		if (finished) return;
+		finished = true;
+		clearTimeout(idleTimer);
+		activeSessions.delete(sessionId);
+		if (exitCode === null) shell.kill("SIGHUP");
+		recorder.close();
+		pruneRecordings(options.recordingRetentionDays, options.recordingMaxTotalMb);
+
+		sendJson({ type: "exit", code: exitCode });
+		if (ws.readyState === ws.OPEN) ws.close(1000);
+
+		const seconds = Math.round((Date.now() - startedAt) / 1000);
+		logAction(
+			user.username,
+			"HOST_TERMINAL",
+			sessionId,
+			`Session ended (${closeReason}) after ${seconds}s (exit ${exitCode ?? "unknown"})`,
+			ip,
+			{ level: LOG_LEVELS.INFO, code: "INF012" }
+		);
+	}
+
+	shell.onData((data) => {
+		if (finished) return;
+		recorder.output(data);
+		if (ws.readyState === ws.OPEN) ws.send(Buffer.from(data), { binary: true });
+	});
+	shell.onExit(({ exitCode }) => {
+		closeReason = "shell exited";
+		finish(exitCode);
+	});
+
+	ws.on("message", (raw: RawData, isBinary: boolean) => {
+		if (isBinary) return;
+		let message: { type?: string; data?: unknown; cols?: unknown; rows?: unknown };
+		try {
+			message = JSON.parse(raw.toString());
+		} catch {
+			return;
+		}
+
+		if (message.type === "input" && typeof message.data === "string") {
+			resetIdle();
+			shell.write(message.data);
+		} else if (message.type === "resize") {
+			cols = clampSize(message.cols, cols);
+			rows = clampSize(message.rows, rows);
+			shell.resize(cols, rows);
+			recorder.resize(cols, rows);
+		}
+	});
+	ws.on("close", () => finish(null));
+
+	resetIdle();
+}
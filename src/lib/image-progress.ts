@@ -0,0 +1,85 @@
+/**
+ * image-progress.ts – Relays image pull/push progress to the browser.
+ *
+ * The response is newline-delimited JSON, one message per line:
+ *   {"type":"progress","id":"a1b2c3","status":"Downloading","current":1024,"total":4096}
+ *   {"type":"done"}
+ *   {"type":"error","error":"...","code":"ERR207"}
+ * Progress messages without an id are status lines for the whole image.
+ * Failures after the stream has started arrive as an "error" message, so
+ * clients must check the last message rather than the HTTP status.
+ */
+
+import { toDockerError, type DockerError, type DockerImageProgress } from "./docker";
+import type { ErrorCode } from "./logger";
+
+export interface ImageProgressMessage {
+	type: "progress";
+	id?: string;
+	status: string;
+	current?: number;
+	total?: number;
+}
+
+type Send = (event: DockerImageProgress) => void;
+
+/**
+ * Run a pull or push and stream its progress as NDJSON. `onFinish` is called
+ * once with the error (or null), for audit logging.
+ */
+export function imageProgressResponse(
+	request: Request,
+	task: (onProgress: Send) => Promise<void>,
+	failedCode: ErrorCode,
+	onFinish: (error: DockerError | null) => void
+): Response {
+	const encoder = new TextEncoder();
+	let closed = false;
+
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			const write = (message: object) => {
+				if (!closed) controller.enqueue(encoder.encode(JSON.stringify(message) + "\n"));
+			};
+
+			// The daemon keeps pulling if the browser goes away; just stop relaying
+			request.signal.addEventListener("abort", () => (closed = true), { once: true });
+
+			task((event) => {
+				write({
+					type: "progress",
+					id: event.id,
+					status: event.status ?? "",
+					current: event.progressDetail?.current,
+					total: event.progressDetail?.total,
+				} satisfies ImageProgressMessage);
+			})
+				.then(() => {
+					write({ type: "done" });
+					onFinish(null);
+				})
+				.catch((err) => {
+					const error = toDockerError(err, failedCode);
+					write({ type: "error", error: error.message, code: error.code });
+					onFinish(error);
+				})
+				.finally(() => {
+					if (closed) return;
+					closed = true;
+					controller.close();
+				});
+		},
+		cancel() {
+			closed = true;
+		},
+	});
+
+	return new Response(body, {
+		status: 200,
+		headers: {
+			"Content-Type": "application/x-ndjson",
+			"Cache-Control": "no-cache",
+			"X-Accel-Buffering": "no",
+		},
+	});
+}
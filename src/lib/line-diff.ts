@@ -0,0 +1,76 @@
+/**
+ * line-diff.ts – Line-by-line diff of two texts (for reviewing config changes).
+ *
+ * Common leading and trailing lines are matched directly; the changed middle
+ * is aligned by longest common subsequence. Very large changed regions are
+ * shown as a plain remove/add instead, to keep the table small.
+ */
+
+export interface DiffLine {
+	type: "same" | "add" | "remove";
+	text: string;
+}
+
+const MAX_TABLE_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+	if (!text) return [];
+	return text.replace(/\r\n/g, "\n").replace(/\n$/, "").split("\n");
+}
+
+export function diffLines(before: string, after: string): DiffLine[] {
+	const a = splitLines(before);
+	const b = splitLines(after);
+
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) start++;
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	const head: DiffLine[] = a.slice(0, start).map((text) => ({ type: "same", text }));
+	const tail: DiffLine[] = a.slice(endA).map((text) => ({ type: "same", text }));
+	const midA = a.slice(start, endA);
+	const midB = b.slice(start, endB);
+
+	if ((midA.length + 1) * (midB.length + 1) > MAX_TABLE_CELLS) {
+		return [
+			...head,
+			...midA.map((text): DiffLine => ({ type: "remove", text })),
+			...midB.map((text): DiffLine => ({ type: "add", text })),
+			...tail,
+		];
+	}
+
+	// lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+	const width = midB.length + 1;
+	const lcs = new Uint32Array((midA.length + 1) * width);
+	for (let i = midA.length - 1; i >= 0; i--) {
+		for (let j = midB.length - 1; j >= 0; j--) {
+			lcs[i * width + j] =
+				midA[i] === midB[j] ? lcs[(i + 1) * width + j + 1] + 1 : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+		}
+	}
+
+	const middle: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < midA.length && j < midB.length) {
+		if (midA[i] === midB[j]) {
+			middle.push({ type: "same", text: midA[i] });
+			i++;
+			j++;
+		} else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+			middle.push({ type: "remove", text: midA[i++] });
+		} else {
+			middle.push({ type: "add", text: midB[j++] });
+		}
+	}
+	while (i < midA.length) middle.push({ type: "remove", text: midA[i++] });
+	while (j < midB.length) middle.push({ type: "add", text: midB[j++] });
+
+	return [...head, ...middle, ...tail];
+}
@@ -26,6 +26,8 @@ export const ERROR_CODES = {
 	ERR_INVALID_CREDENTIALS: "ERR102",
 	ERR_SESSION_EXPIRED: "ERR103",
 	ERR_TOKEN_INVALID: "ERR104",
+	ERR_TWO_FACTOR_INVALID: "ERR105",
+	ERR_TWO_FACTOR_REQUIRED: "ERR106",
 
 	// Docker errors (ERR2xx)
 	ERR_DOCKER_NOT_RUNNING: "ERR201",
@@ -43,6 +45,12 @@ export const ERROR_CODES = {
 	ERR_NETWORK_NOT_FOUND: "ERR213",
 	ERR_COMPOSE_ACTION_FAILED: "ERR214",
 	ERR_COMPOSE_PROJECT_NOT_FOUND: "ERR215",
+	ERR_IMAGE_REMOVE_FAILED: "ERR216",
+	ERR_IMAGE_PUSH_FAILED: "ERR217",
+	ERR_REGISTRY_LOGIN_FAILED: "ERR218",
+	ERR_COMPOSE_STACK_NOT_FOUND: "ERR219",
+	ERR_COMPOSE_STACK_INVALID: "ERR220",
+	ERR_COMPOSE_DEPLOY_FAILED: "ERR221",
 
 	// Service errors (ERR3xx)
 	ERR_SERVICE_NOT_FOUND: "ERR301",
@@ -55,6 +63,8 @@ export const ERROR_CODES = {
 	ERR_MODULE_UNINSTALL_FAILED: "ERR403",
 	ERR_MODULE_ENABLE_FAILED: "ERR404",
 	ERR_MODULE_DISABLE_FAILED: "ERR405",
+	ERR_MODULE_LOAD_FAILED: "ERR406",
+	ERR_MODULE_SANDBOX_DENIED: "ERR407",
 
 	// Settings errors (ERR5xx)
 	ERR_SETTINGS_SAVE_FAILED: "ERR501",
@@ -70,6 +80,9 @@ export const ERROR_CODES = {
 	ERR_PASSWORD_CHANGE_FAILED: "ERR605",
 	ERR_LAST_ADMIN_CANNOT_DELETE: "ERR606",
 	ERR_CANNOT_DELETE_SELF: "ERR607",
+
+	// Alert errors (ERR7xx)
+	ERR_ALERT_NOTIFY_FAILED: "ERR701",
 } as const;
 
 export type ErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES] | "INF000";
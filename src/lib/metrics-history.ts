@@ -0,0 +1,237 @@
+/**
+ * metrics-history.ts – Background sampling of host metrics into SQLite.
+ *
+ * Every SAMPLE_INTERVAL_MS the collector stores one "raw" row with the same
+ * numbers /api/system reports (CPU, memory, root disk, network, load). Raw
+ * rows are averaged into 1-minute rows, and those into hourly rows, as each
+ * bucket completes. Each tier is pruned to its retention window:
+ *
+ *   raw – every 10 s, kept 24 h
+ *   1m  – 1-minute averages, kept 7 days
+ *   1h  – hourly averages, kept a year
+ *
+ * CPU and network are stored as rates over the interval (percent busy and
+ * bytes per second), computed from the difference between two samples.
+ */
+
+import { db } from "./db";
+import {
+	cpuUsage,
+	readCpuStat,
+	readLoadAvg,
+	readMemory,
+	readNetworkTotals,
+	readRootDisk,
+	type CpuTimes,
+	type NetworkTotals,
+} from "./system-stats";
+
+export const SAMPLE_INTERVAL_MS = 10_000;
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export type TierId = "raw" | "1m" | "1h";
+
+interface Tier {
+	id: TierId;
+	resolutionMs: number;
+	retentionMs: number;
+}
+
+/** Finest first. */
+const TIERS: Tier[] = [
+	{ id: "raw", resolutionMs: SAMPLE_INTERVAL_MS, retentionMs: DAY },
+	{ id: "1m", resolutionMs: MINUTE, retentionMs: 7 * DAY },
+	{ id: "1h", resolutionMs: HOUR, retentionMs: 365 * DAY },
+];
+
+const COLUMNS = ["cpu", "mem_used", "mem_total", "disk_used", "disk_total", "net_rx", "net_tx", "load1", "load5", "load15"] as const;
+const INTEGER_COLUMNS = new Set(["mem_used", "mem_total", "disk_used", "disk_total"]);
+
+type Sample = Record<(typeof COLUMNS)[number], number | null>;
+
+export type MetricSample = Sample & { at: number };
+
+/** Metrics the history API serves, as SQL over the stored columns. */
+export const METRICS = {
+	cpu: { expr: "cpu", unit: "%" },
+	memory: { expr: "mem_used * 100.0 / NULLIF(mem_total, 0)", unit: "%" },
+	memory_used: { expr: "mem_used", unit: "bytes" },
+	disk: { expr: "disk_used * 100.0 / NULLIF(disk_total, 0)", unit: "%" },
+	disk_used: { expr: "disk_used", unit: "bytes" },
+	net_rx: { expr: "net_rx", unit: "bytes/s" },
+	net_tx: { expr: "net_tx", unit: "bytes/s" },
+	load1: { expr: "load1", unit: "" },
+	load5: { expr: "load5", unit: "" },
+	load15: { expr: "load15", unit: "" },
+} as const;
+
+export type MetricName = keyof typeof METRICS;
+
+export function isMetricName(name: string): name is MetricName {
+	return Object.hasOwn(METRICS, name);
+}
+
+export interface MetricHistory {
+	metric: MetricName;
+	unit: string;
+	tier: TierId;
+	from: number;
+	to: number;
+	/** Bucket width in milliseconds. */
+	step: number;
+	/** [bucket start (ms), average] pairs, oldest first. Buckets without samples are omitted. */
+	points: Array<[number, number]>;
+}
+
+/** Most points a single history query returns; wider ranges get wider buckets. */
+const MAX_POINTS = 1000;
+/** Points aimed for when the caller doesn't pick a step. */
+const DEFAULT_POINTS = 300;
+
+let previous: { at: number; cpu: CpuTimes; net: NetworkTotals | null } | null = null;
+let lastSample: MetricSample | null = null;
+
+/** Read the host and return a row, or null on the first call (rates need two readings) or off Linux. */
+function takeSample(now: number): Sample | null {
+	const cpu = readCpuStat()?.all;
+	if (!cpu) return null;
+	const net = readNetworkTotals();
+	const last = previous;
+	previous = { at: now, cpu, net };
+	if (!last) return null;
+
+	const seconds = (now - last.at) / 1000;
+	const mem = readMemory();
+	const disk = readRootDisk();
+	const load = readLoadAvg();
+	// Counters reset when an interface goes away; skip the rate rather than store a negative one
+	const rate = (current?: number, before?: number) =>
+		current !== undefined && before !== undefined && current >= before && seconds > 0 ? (current - before) / seconds : null;
+
+	return {
+		cpu: cpuUsage(cpu, last.cpu).percent,
+		mem_used: mem?.used ?? null,
+		mem_total: mem?.total ?? null,
+		disk_used: disk?.used ?? null,
+		disk_total: disk?.total ?? null,
+		net_rx: rate(net?.rx, last.net?.rx),
+		net_tx: rate(net?.tx, last.net?.tx),
+		load1: load?.[0] ?? null,
+		load5: load?.[1] ?? null,
+		load15: load?.[2] ?? null,
+	};
+}
+
+const insertSample = db.prepare(
+	`INSERT OR REPLACE INTO metric_samples (tier, ts, ${COLUMNS.join(", ")}) VALUES ('raw', @ts, ${COLUMNS.map((c) => `@${c}`).join(", ")})`
+);
+
+const averages = COLUMNS.map((c) => (INTEGER_COLUMNS.has(c) ? `CAST(AVG(${c}) AS INTEGER)` : `AVG(${c})`)).join(", ");
+
+/**
+ * Average completed buckets of `source` that `target` doesn't have yet. Returns how many were added.
+ * Bucket widths are bound as BigInt so SQLite divides integers (plain numbers bind as REAL).
+ */
+function rollup(source: Tier, target: Tier, now: number): number {
+	const bucket = target.resolutionMs;
+	const end = Math.floor(now / bucket) * bucket;
+	const { latest } = db.prepare("SELECT MAX(ts) AS latest FROM metric_samples WHERE tier = ?").get(target.id) as {
+		latest: number | null;
+	};
+	const start = latest === null ? 0 : latest + bucket;
+	if (start >= end) return 0;
+
+	return db
+		.prepare(`
+			INSERT OR REPLACE INTO metric_samples (tier, ts, ${COLUMNS.join(", ")})
+			SELECT ?, (ts / @bucket) * @bucket, ${averages}
+			FROM metric_samples WHERE tier = ? AND ts >= ? AND ts < ?
+			GROUP BY ts / @bucket
+		`)
+		.run(target.id, source.id, start, end, { bucket: BigInt(bucket) }).changes;
+}
+
+function prune(now: number): void {
+	const remove = db.prepare("DELETE FROM metric_samples WHERE tier = ? AND ts < ?");
+	for (const tier of TIERS) remove.run(tier.id, now - tier.retentionMs);
+}
+
+/** Take one sample and roll up/prune as buckets complete. */
+export function collectMetrics(now = Date.now()): void {
+	const sample = takeSample(now);
+	if (!sample) return;
+	insertSample.run({ ts: now, ...sample });
+	lastSample = { at: now, ...sample };
+
+	const [raw, minute, hour] = TIERS;
+	if (rollup(raw, minute, now) > 0) {
+		rollup(minute, hour, now);
+		prune(now);
+	}
+}
+
+/** The newest sample, or null when sampling has stalled (none in the last three intervals). */
+export function getLatestSample(now = Date.now()): MetricSample | null {
+	return lastSample && now - lastSample.at <= 3 * SAMPLE_INTERVAL_MS ? lastSample : null;
+}
+
+let collector: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Start sampling in the background (once per process). Called when the
+ * middleware loads, i.e. with the first request after the server starts.
+ */
+export function startMetricsCollector(): void {
+	if (collector) return;
+	let failing = false;
+	const tick = () => {
+		try {
+			collectMetrics();
+			failing = false;
+		} catch (err) {
+			// Log once per streak of failures, not every 10 seconds
+			if (!failing) console.error("[metrics] Sampling failed:", err);
+			failing = true;
+		}
+	};
+	tick();
+	collector = setInterval(tick, SAMPLE_INTERVAL_MS);
+	collector.unref();
+}
+
+/**
+ * Averages of a metric over [from, to] in buckets of `step` ms. Uses the
+ * coarsest tier that is still fine enough for the step and old enough to
+ * cover `from`. The newest minute (or hour) only reaches the coarser tiers
+ * once it has completed.
+ */
+export function queryHistory(metric: MetricName, from: number, to: number, step?: number, now = Date.now()): MetricHistory {
+	const range = Math.max(to - from, 1);
+	let bucket = Math.ceil(Math.max(step ?? range / DEFAULT_POINTS, range / MAX_POINTS, SAMPLE_INTERVAL_MS));
+
+	const covering = TIERS.filter((t) => now - from <= t.retentionMs);
+	const candidates = covering.length ? covering : [TIERS[TIERS.length - 1]];
+	const tier = [...candidates].reverse().find((t) => t.resolutionMs <= bucket) ?? candidates[0];
+	bucket = Math.max(bucket, tier.resolutionMs);
+
+	const rows = db
+		.prepare(`
+			SELECT (ts / @bucket) * @bucket AS bucket, AVG(${METRICS[metric].expr}) AS value
+			FROM metric_samples WHERE tier = ? AND ts >= ? AND ts <= ?
+			GROUP BY ts / @bucket HAVING value IS NOT NULL ORDER BY bucket
+		`)
+		.all(tier.id, from, to, { bucket: BigInt(bucket) }) as Array<{ bucket: number; value: number }>;
+
+	return {
+		metric,
+		unit: METRICS[metric].unit,
+		tier: tier.id,
+		from,
+		to,
+		step: bucket,
+		points: rows.map((r) => [r.bucket, Math.round(r.value * 100) / 100]),
+	};
+}
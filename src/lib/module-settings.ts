@@ -0,0 +1,52 @@
+/**
+ * module-settings.ts – Stored values for module settings (server-side).
+ *
+ * Values are kept as JSON per module and key. Validation against the
+ * module's schema happens in src/modules/settings.ts before saving.
+ */
+
+import { db } from "./db";
+
+export function getStoredModuleSettings(moduleId: string): Record<string, unknown> {
+	const rows = db.prepare("SELECT key, value FROM module_settings WHERE module_id = ?").all(moduleId) as {
+		key: string;
+		value: string;
+	}[];
+
+	const values: Record<string, unknown> = {};
+	for (const row of rows) {
+		try {
+			values[row.key] = JSON.parse(row.value);
+		} catch {
+			// Ignore rows that were not written by saveModuleSettings
+		}
+	}
+	return values;
+}
+
+/** Upsert the given keys; a null value deletes the stored key. */
+export function saveModuleSettings(moduleId: string, values: Record<string, unknown>): void {
+	const updatedAt = new Date().toISOString();
+	const upsert = db.prepare(`
+		INSERT INTO module_settings (module_id, key, value, updated_at)
+		VALUES (?, ?, ?, ?)
+		ON CONFLICT(module_id, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+	`);
+	const remove = db.prepare("DELETE FROM module_settings WHERE module_id = ? AND key = ?");
+
+	const transaction = db.transaction(() => {
+		for (const [key, value] of Object.entries(values)) {
+			if (value === null) {
+				remove.run(moduleId, key);
+			} else {
+				upsert.run(moduleId, key, JSON.stringify(value), updatedAt);
+			}
+		}
+	});
+
+	transaction();
+}
+
+export function deleteModuleSettings(moduleId: string): void {
+	db.prepare("DELETE FROM module_settings WHERE module_id = ?").run(moduleId);
+}
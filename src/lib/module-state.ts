@@ -0,0 +1,78 @@
+/**
+ * module-state.ts – Persisted per-module state (server-side).
+ *
+ * Remembers whether an admin turned a module off, which version was last
+ * registered and when it was first enabled, so restarts keep those choices.
+ */
+
+import { db } from "./db";
+
+export interface ModuleState {
+	moduleId: string;
+	enabled: boolean;
+	installedVersion?: string;
+	firstEnabledAt?: string;
+	updatedAt: string;
+}
+
+interface DbModuleState {
+	module_id: string;
+	enabled: number;
+	installed_version: string | null;
+	first_enabled_at: string | null;
+	updated_at: string;
+}
+
+function mapDbModuleState(row: DbModuleState): ModuleState {
+	return {
+		moduleId: row.module_id,
+		enabled: row.enabled === 1,
+		installedVersion: row.installed_version || undefined,
+		firstEnabledAt: row.first_enabled_at || undefined,
+		updatedAt: row.updated_at,
+	};
+}
+
+export function listModuleStates(): ModuleState[] {
+	const rows = db.prepare("SELECT * FROM module_state").all() as DbModuleState[];
+	return rows.map(mapDbModuleState);
+}
+
+export function getModuleState(moduleId: string): ModuleState | undefined {
+	const row = db.prepare("SELECT * FROM module_state WHERE module_id = ?").get(moduleId) as DbModuleState | undefined;
+	return row ? mapDbModuleState(row) : undefined;
+}
+
+/**
+ * Record the version a module registered with. A module seen for the first
+ * time starts enabled.
+ */
+export function recordModuleVersion(moduleId: string, version: string): ModuleState {
+	const now = new Date().toISOString();
+	db.prepare(`
+		INSERT INTO module_state (module_id, enabled, installed_version, first_enabled_at, updated_at)
+		VALUES (?, 1, ?, ?, ?)
+		ON CONFLICT(module_id) DO UPDATE SET installed_version = excluded.installed_version
+	`).run(moduleId, version, now, now);
+
+	return getModuleState(moduleId)!;
+}
+
+export function saveModuleEnabled(moduleId: string, enabled: boolean): ModuleState {
+	const now = new Date().toISOString();
+	db.prepare(`
+		INSERT INTO module_state (module_id, enabled, first_enabled_at, updated_at)
+		VALUES (?, ?, ?, ?)
+		ON CONFLICT(module_id) DO UPDATE SET
+			enabled = excluded.enabled,
+			first_enabled_at = COALESCE(module_state.first_enabled_at, excluded.first_enabled_at),
+			updated_at = excluded.updated_at
+	`).run(moduleId, enabled ? 1 : 0, enabled ? now : null, now);
+
+	return getModuleState(moduleId)!;
+}
+
+/** Forget a module's state (after it is uninstalled). */
+export function deleteModuleState(moduleId: string): void {
+	db.prepare("DELETE FROM module_state WHERE module_id = ?").run(moduleId);
+}
@@ -0,0 +1,294 @@
+/**
+ * prometheus.ts – Metric families for GET /api/metrics, in the Prometheus
+ * text exposition format (server-side).
+ *
+ * Host figures come from the same readers as /api/system (lib/system-stats.ts).
+ * Counters are cumulative since boot (host, containers) or since ServerPilot
+ * started (login failures), so Prometheus can rate() them.
+ */
+
+import {
+	readCpuStat,
+	readCpuCores,
+	readDiskStats,
+	readDiskUsage,
+	readLoadAvg,
+	readMemory,
+	readMounts,
+	readNetworkInterfaces,
+	readUptimeSeconds,
+} from "./system-stats";
+import { containerStats, listContainers, summarizeStats, type DockerContainer } from "./docker";
+import { runAsync } from "./exec";
+
+export type MetricType = "gauge" | "counter";
+
+export interface MetricFamily {
+	name: string;
+	help: string;
+	type: MetricType;
+	samples: { labels?: Record<string, string>; value: number }[];
+}
+
+/** Same list as the service module's routes; units that aren't installed are left out. */
+const ALLOWED_SERVICES = [
+	"nginx",
+	"ssh",
+	"sshd",
+	"ufw",
+	"docker",
+	"apache2",
+	"mysql",
+	"mariadb",
+	"postgresql",
+	"redis",
+	"php8.1-fpm",
+	"php8.2-fpm",
+	"fail2ban",
+	"cron",
+];
+
+const UNIT_STATES = ["active", "activating", "deactivating", "inactive", "failed"];
+
+/** /proc/stat counts in USER_HZ, which is 100 on every Linux architecture we run on. */
+const USER_HZ = 100;
+
+const CONTAINER_STATS_TIMEOUT = 5_000;
+
+export type LoginFailureReason = "password" | "two_factor" | "rate_limited";
+
+const loginFailures: Record<LoginFailureReason, number> = { password: 0, two_factor: 0, rate_limited: 0 };
+
+/** Count a failed sign-in for serverpilot_login_failures_total. */
+export function recordLoginFailure(reason: LoginFailureReason): void {
+	loginFailures[reason]++;
+}
+
+export function family(name: string, type: MetricType, help: string): MetricFamily {
+	return { name, help, type, samples: [] };
+}
+
+function escapeLabel(value: string): string {
+	return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+	if (Number.isNaN(value)) return "NaN";
+	if (!Number.isFinite(value)) return value > 0 ? "+Inf" : "-Inf";
+	return String(value);
+}
+
+/** Render families in the text format (version 0.0.4). Families without samples are left out. */
+export function formatMetrics(families: MetricFamily[]): string {
+	const lines: string[] = [];
+	for (const f of families) {
+		if (f.samples.length === 0) continue;
+		lines.push(`# HELP ${f.name} ${f.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+		lines.push(`# TYPE ${f.name} ${f.type}`);
+		for (const sample of f.samples) {
+			const labels = Object.entries(sample.labels ?? {})
+				.map(([key, value]) => `${key}="${escapeLabel(value)}"`)
+				.join(",");
+			lines.push(`${f.name}${labels ? `{${labels}}` : ""} ${formatValue(sample.value)}`);
+		}
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+/* ── Host ── */
+
+export function collectHostMetrics(): MetricFamily[] {
+	const cpuSeconds = family("serverpilot_cpu_seconds_total", "counter", "Seconds the CPUs spent in each mode since boot.");
+	const cores = family("serverpilot_cpu_cores", "gauge", "Number of logical CPUs.");
+	const load = family("serverpilot_load_average", "gauge", "System load average.");
+	const memTotal = family("serverpilot_memory_total_bytes", "gauge", "Total physical memory.");
+	const memUsed = family("serverpilot_memory_used_bytes", "gauge", "Memory in use, as reported by free.");
+	const memFree = family("serverpilot_memory_free_bytes", "gauge", "Unused memory.");
+	const diskTotal = family("serverpilot_filesystem_size_bytes", "gauge", "Size of the filesystem.");
+	const diskUsed = family("serverpilot_filesystem_used_bytes", "gauge", "Space used on the filesystem.");
+	const diskAvail = family("serverpilot_filesystem_avail_bytes", "gauge", "Space available to unprivileged users.");
+	const files = family("serverpilot_filesystem_files", "gauge", "Inodes on the filesystem.");
+	const filesUsed = family("serverpilot_filesystem_files_used", "gauge", "Inodes in use on the filesystem.");
+	const readOnly = family("serverpilot_filesystem_readonly", "gauge", "Whether the filesystem is mounted read-only (1) or not (0).");
+	const uptime = family("serverpilot_uptime_seconds", "gauge", "Seconds since the host booted.");
+	const rx = family("serverpilot_network_receive_bytes_total", "counter", "Bytes received per interface since boot.");
+	const tx = family("serverpilot_network_transmit_bytes_total", "counter", "Bytes sent per interface since boot.");
+	const readBytes = family("serverpilot_disk_read_bytes_total", "counter", "Bytes read per disk since boot.");
+	const writtenBytes = family("serverpilot_disk_written_bytes_total", "counter", "Bytes written per disk since boot.");
+	const readsDone = family("serverpilot_disk_reads_completed_total", "counter", "Reads completed per disk since boot.");
+	const writesDone = family("serverpilot_disk_writes_completed_total", "counter", "Writes completed per disk since boot.");
+	const ioTime = family("serverpilot_disk_io_time_seconds_total", "counter", "Seconds each disk spent doing I/O since boot.");
+
+	const stat = readCpuStat();
+	stat?.cores.forEach((times, i) => {
+		for (const mode of ["user", "system", "idle", "iowait", "irq", "steal"] as const) {
+			cpuSeconds.samples.push({ labels: { cpu: String(i), mode }, value: times[mode] / USER_HZ });
+		}
+	});
+
+	const coreCount = readCpuCores();
+	if (coreCount > 0) cores.samples.push({ value: coreCount });
+
+	const loadAvg = readLoadAvg();
+	if (loadAvg) {
+		(["1m", "5m", "15m"] as const).forEach((period, i) => load.samples.push({ labels: { period }, value: loadAvg[i] }));
+	}
+
+	const memory = readMemory();
+	if (memory) {
+		memTotal.samples.push({ value: memory.total });
+		memUsed.samples.push({ value: memory.used });
+		memFree.samples.push({ value: memory.free });
+	}
+
+	const mounts = readMounts();
+	if (mounts) {
+		for (const m of mounts) {
+			const labels = { mountpoint: m.mountpoint, device: m.device, fstype: m.fstype };
+			diskTotal.samples.push({ labels, value: m.size });
+			diskUsed.samples.push({ labels, value: m.used });
+			diskAvail.samples.push({ labels, value: m.available });
+			// Filesystems without a fixed inode table (btrfs, some network mounts) report 0
+			if (m.inodesTotal > 0) {
+				files.samples.push({ labels, value: m.inodesTotal });
+				filesUsed.samples.push({ labels, value: m.inodesUsed });
+			}
+			readOnly.samples.push({ labels, value: m.readOnly ? 1 : 0 });
+		}
+	} else {
+		const disk = readDiskUsage("/");
+		if (disk) {
+			diskTotal.samples.push({ labels: { mountpoint: "/" }, value: disk.total });
+			diskUsed.samples.push({ labels: { mountpoint: "/" }, value: disk.used });
+		}
+	}
+
+	const secs = readUptimeSeconds();
+	if (secs !== null) uptime.samples.push({ value: secs });
+
+	for (const iface of readNetworkInterfaces() ?? []) {
+		rx.samples.push({ labels: { device: iface.name }, value: iface.rx });
+		tx.samples.push({ labels: { device: iface.name }, value: iface.tx });
+	}
+
+	for (const disk of readDiskStats() ?? []) {
+		const labels = { device: disk.name };
+		readBytes.samples.push({ labels, value: disk.readBytes });
+		writtenBytes.samples.push({ labels, value: disk.writeBytes });
+		readsDone.samples.push({ labels, value: disk.reads });
+		writesDone.samples.push({ labels, value: disk.writes });
+		ioTime.samples.push({ labels, value: disk.ioMs / 1000 });
+	}
+
+	return [
+		cpuSeconds,
+		cores,
+		load,
+		memTotal,
+		memUsed,
+		memFree,
+		diskTotal,
+		diskUsed,
+		diskAvail,
+		files,
+		filesUsed,
+		readOnly,
+		uptime,
+		rx,
+		tx,
+		readBytes,
+		writtenBytes,
+		readsDone,
+		writesDone,
+		ioTime,
+	];
+}
+
+/* ── Containers ── */
+
+export async function collectContainerMetrics(): Promise<MetricFamily[]> {
+	const up = family("serverpilot_docker_up", "gauge", "Whether the Docker Engine answered (1) or not (0).");
+	const running = family("serverpilot_container_running", "gauge", "Whether the container is running (1) or not (0).");
+	const cpu = family("serverpilot_container_cpu_seconds_total", "counter", "CPU time consumed by the container.");
+	const memUsage = family("serverpilot_container_memory_usage_bytes", "gauge", "Container memory use, excluding page cache.");
+	const memLimit = family("serverpilot_container_memory_limit_bytes", "gauge", "Memory available to the container.");
+	const rx = family("serverpilot_container_network_receive_bytes_total", "counter", "Bytes received by the container.");
+	const tx = family("serverpilot_container_network_transmit_bytes_total", "counter", "Bytes sent by the container.");
+	const blockRead = family("serverpilot_container_block_read_bytes_total", "counter", "Bytes read from block devices.");
+	const blockWrite = family("serverpilot_container_block_write_bytes_total", "counter", "Bytes written to block devices.");
+	const pids = family("serverpilot_container_pids", "gauge", "Processes in the container.");
+	const families = [up, running, cpu, memUsage, memLimit, rx, tx, blockRead, blockWrite, pids];
+
+	let containers: DockerContainer[];
+	try {
+		containers = await listContainers({ all: true });
+	} catch {
+		up.samples.push({ value: 0 });
+		return families;
+	}
+	up.samples.push({ value: 1 });
+
+	await Promise.all(
+		containers.map(async (c) => {
+			const name = (c.Names[0] ?? c.Id.slice(0, 12)).replace(/^\//, "");
+			running.samples.push({ labels: { name, image: c.Image }, value: c.State === "running" ? 1 : 0 });
+			if (c.State !== "running") return;
+
+			// A container can stop between the list and the stats call; skip it then
+			const stats = await Promise.race([
+				containerStats(c.Id),
+				new Promise<null>((resolve) => setTimeout(resolve, CONTAINER_STATS_TIMEOUT, null).unref()),
+			]).catch(() => null);
+			if (!stats) return;
+
+			const usage = summarizeStats(stats);
+			const labels = { name };
+			cpu.samples.push({ labels, value: stats.cpu_stats.cpu_usage.total_usage / 1e9 });
+			memUsage.samples.push({ labels, value: usage.memoryUsage });
+			memLimit.samples.push({ labels, value: usage.memoryLimit });
+			rx.samples.push({ labels, value: usage.networkRx });
+			tx.samples.push({ labels, value: usage.networkTx });
+			blockRead.samples.push({ labels, value: usage.blockRead });
+			blockWrite.samples.push({ labels, value: usage.blockWrite });
+			pids.samples.push({ labels, value: usage.pids });
+		})
+	);
+
+	// Stable output order makes scrapes easy to diff
+	for (const f of families) f.samples.sort((a, b) => (a.labels?.name ?? "").localeCompare(b.labels?.name ?? ""));
+	return families;
+}
+
+/* ── systemd ── */
+
+export async function collectServiceMetrics(): Promise<MetricFamily[]> {
+	const state = family("serverpilot_systemd_unit_state", "gauge", "State of each allowed systemd service (1 for the current state).");
+
+	const result = await runAsync("systemctl:list-units", [], 10_000);
+	if (!result.ok) return [state];
+
+	for (const line of result.stdout.split("\n")) {
+		// UNIT LOAD ACTIVE SUB DESCRIPTION
+		const [unit, , active] = line.trim().split(/\s+/);
+		const name = unit?.endsWith(".service") ? unit.slice(0, -".service".length) : null;
+		if (!name || !ALLOWED_SERVICES.includes(name)) continue;
+		for (const s of UNIT_STATES) {
+			state.samples.push({ labels: { name, state: s }, value: active === s ? 1 : 0 });
+		}
+	}
+	return [state];
+}
+
+/* ── ServerPilot ── */
+
+export function collectLoginMetrics(): MetricFamily[] {
+	const failures = family(
+		"serverpilot_login_failures_total",
+		"counter",
+		"Rejected sign-ins since ServerPilot started: wrong password, wrong second factor or rate limited."
+	);
+	for (const [reason, value] of Object.entries(loginFailures)) {
+		failures.samples.push({ labels: { reason }, value });
+	}
+	return [failures];
+}
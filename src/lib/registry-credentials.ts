@@ -0,0 +1,196 @@
+/**
+ * registry-credentials.ts – Saved logins for private image registries (server-side).
+ *
+ * Passwords/tokens are encrypted with AES-256-GCM under a key derived from
+ * JWT_SECRET (see lib/secrets.ts) and are never handed back to the API;
+ * they only leave this module as X-Registry-Auth for the daemon, or as a
+ * throwaway Docker CLI config for compose.
+ *
+ * Credentials are keyed by registry host ("ghcr.io", "registry.example.com:5000");
+ * Docker Hub is stored as "docker.io".
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { db } from "./db";
+import { createSecretBox } from "./secrets";
+import type { RegistryAuth } from "./docker";
+
+const DOCKER_HUB = "docker.io";
+const DOCKER_HUB_ADDRESS = "https://index.docker.io/v1/";
+const HUB_ALIASES = ["index.docker.io", "registry-1.docker.io", "registry.hub.docker.com"];
+const SERVER_PATTERN = /^[a-z0-9]([a-z0-9.-]*[a-z0-9])?(:\d{1,5})?$/;
+
+export interface RegistryCredential {
+	server: string;
+	username: string;
+	createdBy: string;
+	createdAt: string;
+	updatedAt: string;
+	lastCheckedAt?: string;
+	lastCheckOk?: boolean;
+}
+
+interface DbRegistryCredential {
+	server: string;
+	username: string;
+	secret: string;
+	created_by: string;
+	created_at: string;
+	updated_at: string;
+	last_checked_at: string | null;
+	last_check_ok: number | null;
+}
+
+function mapDbCredential(row: DbRegistryCredential): RegistryCredential {
+	return {
+		server: row.server,
+		username: row.username,
+		createdBy: row.created_by,
+		createdAt: row.created_at,
+		updatedAt: row.updated_at,
+		lastCheckedAt: row.last_checked_at || undefined,
+		lastCheckOk: row.last_check_ok === null ? undefined : row.last_check_ok === 1,
+	};
+}
+
+const secrets = createSecretBox("registry-credentials");
+
+/**
+ * Canonical registry host for user input: drops the scheme and any path,
+ * lowercases, and folds Docker Hub's aliases into "docker.io".
+ * Returns null when it isn't a host[:port].
+ */
+export function normalizeRegistryServer(input: string): string | null {
+	const host = input
+		.trim()
+		.toLowerCase()
+		.replace(/^https?:\/\//, "")
+		.split("/")[0];
+	if (!host) return null;
+	if (HUB_ALIASES.includes(host)) return DOCKER_HUB;
+	return SERVER_PATTERN.test(host) ? host : null;
+}
+
+/** Registry an image reference pulls from: "ghcr.io/org/app:1" → "ghcr.io", "nginx" → "docker.io". */
+export function registryForImage(image: string): string {
+	const [first, ...rest] = image.split("/");
+	if (rest.length > 0 && (first.includes(".") || first.includes(":") || first === "localhost")) {
+		return normalizeRegistryServer(first) ?? first;
+	}
+	return DOCKER_HUB;
+}
+
+/** Address the daemon expects for a registry host (Docker Hub still uses its v1 URL). */
+function serverAddress(server: string): string {
+	return server === DOCKER_HUB ? DOCKER_HUB_ADDRESS : server;
+}
+
+function getRow(server: string): DbRegistryCredential | undefined {
+	return db.prepare("SELECT * FROM registry_credentials WHERE server = ?").get(server) as DbRegistryCredential | undefined;
+}
+
+export function listRegistryCredentials(): RegistryCredential[] {
+	const rows = db.prepare("SELECT * FROM registry_credentials ORDER BY server").all() as DbRegistryCredential[];
+	return rows.map(mapDbCredential);
+}
+
+export function getRegistryCredential(server: string): RegistryCredential | undefined {
+	const row = getRow(server);
+	return row ? mapDbCredential(row) : undefined;
+}
+
+/** Store (or replace) a login that has just been verified. `server` must already be normalized. */
+export function saveRegistryCredential(server: string, username: string, password: string, savedBy: string): RegistryCredential {
+	const now = new Date().toISOString();
+	db.prepare(`
+		INSERT INTO registry_credentials (server, username, secret, created_by, created_at, updated_at, last_checked_at, last_check_ok)
+		VALUES (?, ?, ?, ?, ?, ?, ?, 1)
+		ON CONFLICT(server) DO UPDATE SET username = excluded.username, secret = excluded.secret,
+			updated_at = excluded.updated_at, last_checked_at = excluded.last_checked_at, last_check_ok = 1
+	`).run(server, username, secrets.encrypt(password), savedBy, now, now, now);
+	return getRegistryCredential(server)!;
+}
+
+export function deleteRegistryCredential(server: string): boolean {
+	return db.prepare("DELETE FROM registry_credentials WHERE server = ?").run(server).changes > 0;
+}
+
+export function recordRegistryCheck(server: string, ok: boolean): void {
+	db.prepare("UPDATE registry_credentials SET last_checked_at = ?, last_check_ok = ? WHERE server = ?").run(
+		new Date().toISOString(),
+		ok ? 1 : 0,
+		server
+	);
+}
+
+/** Daemon auth for unsaved credentials (used to test a login before storing it). */
+export function toRegistryAuth(server: string, username: string, password: string): RegistryAuth {
+	return { username, password, serveraddress: serverAddress(server) };
+}
+
+/**
+ * Saved auth for a registry host. Throws if the stored secret can't be
+ * decrypted, which happens after JWT_SECRET changes.
+ */
+export function getRegistryAuth(server: string): RegistryAuth | undefined {
+	const row = getRow(server);
+	if (!row) return undefined;
+	try {
+		return toRegistryAuth(row.server, row.username, secrets.decrypt(row.secret));
+	} catch {
+		throw new Error(`Saved credentials for ${server} can't be decrypted (was JWT_SECRET changed?); save them again`);
+	}
+}
+
+/** Saved auth for whichever registry an image comes from; anonymous when there is none. */
+export function getRegistryAuthForImage(image: string): RegistryAuth | undefined {
+	return getRegistryAuth(registryForImage(image));
+}
+
+/**
+ * The parts of the user's own Docker CLI config a throwaway one still needs:
+ * per-user CLI plugins (e.g. ~/.docker/cli-plugins/docker-compose) and
+ * contexts are linked in, and the current context and proxies are copied.
+ */
+function inheritDockerConfig(dir: string): Record<string, unknown> {
+	const userDir = process.env.DOCKER_CONFIG || path.join(os.homedir(), ".docker");
+	for (const name of ["cli-plugins", "contexts"]) {
+		const source = path.join(userDir, name);
+		if (fs.existsSync(source)) fs.symlinkSync(source, path.join(dir, name));
+	}
+
+	try {
+		const { currentContext, proxies } = JSON.parse(fs.readFileSync(path.join(userDir, "config.json"), "utf-8"));
+		return { currentContext, proxies };
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Run a Docker CLI command (compose) with every saved login available, via a
+ * temporary DOCKER_CONFIG directory that is removed afterwards. Credentials
+ * that can't be decrypted are left out.
+ */
+export async function withDockerConfig<T>(run: (env: NodeJS.ProcessEnv) => Promise<T>): Promise<T> {
+	const auths: Record<string, { auth: string }> = {};
+	for (const row of db.prepare("SELECT * FROM registry_credentials").all() as DbRegistryCredential[]) {
+		try {
+			const auth = Buffer.from(`${row.username}:${secrets.decrypt(row.secret)}`).toString("base64");
+			auths[serverAddress(row.server)] = { auth };
+		} catch {
+			// Unreadable after a secret change; compose falls back to anonymous pulls
+		}
+	}
+
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "serverpilot-docker-"));
+	try {
+		const inherited = inheritDockerConfig(dir);
+		fs.writeFileSync(path.join(dir, "config.json"), JSON.stringify({ ...inherited, auths }), { mode: 0o600 });
+		return await run({ ...process.env, DOCKER_CONFIG: dir });
+	} finally {
+		fs.rmSync(dir, { recursive: true, force: true });
+	}
+}
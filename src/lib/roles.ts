@@ -0,0 +1,146 @@
+/**
+ * roles.ts – Roles and the permission engine (server-side).
+ *
+ * A role is a named set of permission strings (as declared by modules, e.g.
+ * "docker:write"). "*" grants everything. Nav items, pages, API routes and
+ * API keys all go through hasPermission() here.
+ */
+
+import { db } from "./db";
+
+export const BUILTIN_ROLES = ["admin", "operator", "viewer"] as const;
+
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9-]{1,31}$/;
+const PERMISSION_PATTERN = /^(\*|[a-z][a-z0-9-]*(:[a-z0-9-]+)?)$/;
+
+export interface Role {
+	name: string;
+	description: string;
+	permissions: string[];
+	builtin: boolean;
+	createdAt: string;
+	updatedAt: string;
+}
+
+interface DbRole {
+	name: string;
+	description: string | null;
+	permissions: string;
+	builtin: number;
+	created_at: string;
+	updated_at: string;
+}
+
+function mapDbRole(row: DbRole): Role {
+	return {
+		name: row.name,
+		description: row.description || "",
+		permissions: row.permissions.split(",").filter(Boolean),
+		builtin: row.builtin === 1,
+		createdAt: row.created_at,
+		updatedAt: row.updated_at,
+	};
+}
+
+function normalizePermissions(permissions: string[]): string[] {
+	const unique = Array.from(new Set(permissions.map((p) => p.trim()).filter(Boolean)));
+	for (const permission of unique) {
+		if (!PERMISSION_PATTERN.test(permission)) {
+			throw new Error(`Invalid permission: ${permission}`);
+		}
+	}
+	return unique;
+}
+
+export function listRoles(): Role[] {
+	const rows = db.prepare("SELECT * FROM roles ORDER BY builtin DESC, name ASC").all() as DbRole[];
+	return rows.map(mapDbRole);
+}
+
+export function getRole(name: string): Role | undefined {
+	const row = db.prepare("SELECT * FROM roles WHERE name = ?").get(name) as DbRole | undefined;
+	return row ? mapDbRole(row) : undefined;
+}
+
+export function roleExists(name: string): boolean {
+	return !!db.prepare("SELECT name FROM roles WHERE name = ?").get(name);
+}
+
+export function createRole(name: string, description: string, permissions: string[]): Role {
+	if (!ROLE_NAME_PATTERN.test(name)) {
+		throw new Error("Role name must be 2-32 lowercase letters, digits or dashes");
+	}
+	if (roleExists(name)) {
+		throw new Error("Role already exists");
+	}
+
+	const perms = normalizePermissions(permissions);
+	const now = new Date().toISOString();
+	db.prepare(`
+		INSERT INTO roles (name, description, permissions, builtin, created_at, updated_at)
+		VALUES (?, ?, ?, 0, ?, ?)
+	`).run(name, description.trim(), perms.join(","), now, now);
+
+	return { name, description: description.trim(), permissions: perms, builtin: false, createdAt: now, updatedAt: now };
+}
+
+/** Update a role's description and permissions. The admin role is fixed. */
+export function updateRole(name: string, updates: { description?: string; permissions?: string[] }): Role {
+	const existing = getRole(name);
+	if (!existing) {
+		throw new Error("Role not found");
+	}
+	if (name === "admin" && updates.permissions) {
+		throw new Error("The admin role's permissions cannot be changed");
+	}
+
+	const description = updates.description !== undefined ? updates.description.trim() : existing.description;
+	const permissions = updates.permissions ? normalizePermissions(updates.permissions) : existing.permissions;
+	const updatedAt = new Date().toISOString();
+
+	db.prepare("UPDATE roles SET description = ?, permissions = ?, updated_at = ? WHERE name = ?").run(
+		description,
+		permissions.join(","),
+		updatedAt,
+		name
+	);
+
+	return { ...existing, description, permissions, updatedAt };
+}
+
+export function deleteRole(name: string): void {
+	const existing = getRole(name);
+	if (!existing) {
+		throw new Error("Role not found");
+	}
+	if (existing.builtin) {
+		throw new Error("Built-in roles cannot be deleted");
+	}
+
+	const inUse = db.prepare("SELECT COUNT(*) as count FROM users WHERE role = ?").get(name) as { count: number };
+	if (inUse.count > 0) {
+		throw new Error(`Role is assigned to ${inUse.count} user(s)`);
+	}
+
+	db.prepare("DELETE FROM roles WHERE name = ?").run(name);
+}
+
+/** Permissions granted to a role (empty for unknown roles). */
+export function getRolePermissions(role: string): string[] {
+	const row = db.prepare("SELECT permissions FROM roles WHERE name = ?").get(role) as
+		| { permissions: string }
+		| undefined;
+	return row ? row.permissions.split(",").filter(Boolean) : [];
+}
+
+/**
+ * Whether a role grants a permission. An undefined permission means the
+ * resource is unrestricted; an undefined role (anonymous) gets nothing.
+ */
+export function hasPermission(role: string | undefined, permission: string | undefined): boolean {
+	if (!permission) return true;
+	if (!role) return false;
+
+	const perms = getRolePermissions(role);
+	return perms.includes("*") || perms.includes(permission);
+}
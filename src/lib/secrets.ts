@@ -0,0 +1,39 @@
+/**
+ * secrets.ts – Encryption for credentials kept in the database (server-side).
+ *
+ * Values are sealed with AES-256-GCM under a key derived from JWT_SECRET for
+ * one purpose (see deriveSecretKey), so each kind of secret has its own key.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { deriveSecretKey } from "./auth";
+
+export interface SecretBox {
+	/** "v1:<iv>:<tag>:<ciphertext>", all base64. */
+	encrypt(plaintext: string): string;
+	decrypt(stored: string): string;
+}
+
+export function createSecretBox(purpose: string): SecretBox {
+	let key: Buffer | null = null;
+	const encryptionKey = () => (key ??= deriveSecretKey(purpose));
+
+	return {
+		encrypt(plaintext) {
+			const iv = randomBytes(12);
+			const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+			const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+			return ["v1", iv.toString("base64"), cipher.getAuthTag().toString("base64"), ciphertext.toString("base64")].join(":");
+		},
+
+		decrypt(stored) {
+			const [version, iv, tag, ciphertext] = stored.split(":");
+			if (version !== "v1" || !iv || !tag || ciphertext === undefined) {
+				throw new Error("Unknown credential format");
+			}
+			const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), Buffer.from(iv, "base64"));
+			decipher.setAuthTag(Buffer.from(tag, "base64"));
+			return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf-8");
+		},
+	};
+}
@@ -0,0 +1,111 @@
+/**
+ * sessions.ts – Server-side registry of issued login sessions.
+ *
+ * Every session JWT carries a `jti` claim that must exist in the sessions
+ * table; deleting the row revokes the token immediately.
+ */
+
+import { randomUUID } from "node:crypto";
+import { db } from "./db";
+
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // matches the 24h JWT expiry
+const LAST_SEEN_THROTTLE_MS = 60_000;
+
+export interface Session {
+	id: string;
+	username: string;
+	createdAt: string;
+	lastSeenAt: string;
+	expiresAt: string;
+	ip?: string;
+	userAgent?: string;
+}
+
+export interface SessionMeta {
+	ip?: string;
+	userAgent?: string;
+}
+
+interface DbSession {
+	jti: string;
+	username: string;
+	created_at: string;
+	last_seen_at: string;
+	expires_at: string;
+	ip: string | null;
+	user_agent: string | null;
+}
+
+function mapDbSession(row: DbSession): Session {
+	return {
+		id: row.jti,
+		username: row.username,
+		createdAt: row.created_at,
+		lastSeenAt: row.last_seen_at,
+		expiresAt: row.expires_at,
+		ip: row.ip || undefined,
+		userAgent: row.user_agent || undefined,
+	};
+}
+
+/** Register a new session and return its id (used as the JWT `jti`). */
+export function createSession(username: string, meta: SessionMeta = {}): string {
+	const jti = randomUUID();
+	const now = new Date();
+	db.prepare(`
+		INSERT INTO sessions (jti, username, created_at, last_seen_at, expires_at, ip, user_agent)
+		VALUES (?, ?, ?, ?, ?, ?, ?)
+	`).run(
+		jti,
+		username,
+		now.toISOString(),
+		now.toISOString(),
+		new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+		meta.ip ?? null,
+		meta.userAgent?.slice(0, 255) ?? null
+	);
+	return jti;
+}
+
+/**
+ * Check that a session exists and has not expired; refreshes last-seen
+ * at most once a minute to keep writes cheap.
+ */
+export function touchSession(jti: string, username: string): boolean {
+	const row = db.prepare("SELECT * FROM sessions WHERE jti = ?").get(jti) as DbSession | undefined;
+	if (!row || row.username !== username) return false;
+
+	const now = Date.now();
+	if (Date.parse(row.expires_at) <= now) {
+		db.prepare("DELETE FROM sessions WHERE jti = ?").run(jti);
+		return false;
+	}
+
+	if (now - Date.parse(row.last_seen_at) > LAST_SEEN_THROTTLE_MS) {
+		db.prepare("UPDATE sessions SET last_seen_at = ? WHERE jti = ?").run(new Date(now).toISOString(), jti);
+	}
+	return true;
+}
+
+export function listSessions(username: string): Session[] {
+	db.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(new Date().toISOString());
+	const rows = db
+		.prepare("SELECT * FROM sessions WHERE username = ? ORDER BY last_seen_at DESC")
+		.all(username) as DbSession[];
+	return rows.map(mapDbSession);
+}
+
+export function revokeSession(username: string, jti: string): void {
+	const result = db.prepare("DELETE FROM sessions WHERE jti = ? AND username = ?").run(jti, username);
+	if (result.changes === 0) {
+		throw new Error("Session not found");
+	}
+}
+
+/** Revoke every session for a user, optionally keeping one (e.g. the caller's own). Returns the count revoked. */
+export function revokeUserSessions(username: string, exceptJti?: string): number {
+	const result = exceptJti
+		? db.prepare("DELETE FROM sessions WHERE username = ? AND jti != ?").run(username, exceptJti)
+		: db.prepare("DELETE FROM sessions WHERE username = ?").run(username);
+	return result.changes;
+}
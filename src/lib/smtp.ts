@@ -0,0 +1,201 @@
+/**
+ * smtp.ts – Minimal SMTP client for notification emails (server-side).
+ *
+ * One plain-text message per connection. Supports implicit TLS (usually port
+ * 465), STARTTLS (587) and unencrypted servers (25, local relays), with
+ * AUTH PLAIN or LOGIN when a username is given.
+ */
+
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+import { once } from "node:events";
+
+export type SmtpSecurity = "tls" | "starttls" | "none";
+
+export interface SmtpOptions {
+	host: string;
+	port: number;
+	security: SmtpSecurity;
+	username?: string;
+	password?: string;
+	timeoutMs?: number;
+}
+
+export interface MailMessage {
+	/** "Name <addr@example.com>" or a bare address. */
+	from: string;
+	to: string[];
+	subject: string;
+	text: string;
+}
+
+interface Reply {
+	code: number;
+	text: string;
+}
+
+const DEFAULT_TIMEOUT = 30_000;
+
+/** The address inside "Name <addr>", or the input itself. */
+export function mailAddress(value: string): string {
+	return (/<([^<>]+)>\s*$/.exec(value)?.[1] ?? value).trim();
+}
+
+/** Headers may not contain line breaks; anything outside ASCII goes in an RFC 2047 word. */
+function headerValue(value: string): string {
+	const flat = value.replace(/[\r\n]+/g, " ");
+	return /^[\x20-\x7e]*$/.test(flat) ? flat : `=?UTF-8?B?${Buffer.from(flat, "utf-8").toString("base64")}?=`;
+}
+
+/** Encodes only the display name of "Name <addr>". */
+function addressHeader(value: string): string {
+	const match = /^(.*?)\s*<([^<>]+)>\s*$/.exec(value);
+	if (!match) return headerValue(value);
+	return match[1] ? `${headerValue(match[1])} <${headerValue(match[2])}>` : `<${headerValue(match[2])}>`;
+}
+
+function formatMessage(message: MailMessage): string {
+	const body = Buffer.from(message.text.replace(/\r?\n/g, "\r\n"), "utf-8")
+		.toString("base64")
+		.replace(/.{76}/g, "$&\r\n");
+	return [
+		`From: ${addressHeader(message.from)}`,
+		`To: ${message.to.map(addressHeader).join(", ")}`,
+		`Subject: ${headerValue(message.subject)}`,
+		`Date: ${new Date().toUTCString()}`,
+		`Message-ID: <${Date.now()}.${Math.random().toString(36).slice(2)}@${os.hostname()}>`,
+		"MIME-Version: 1.0",
+		"Content-Type: text/plain; charset=utf-8",
+		"Content-Transfer-Encoding: base64",
+		"",
+		body,
+	].join("\r\n");
+}
+
+/** Reads multi-line replies ("250-...", "250 ...") off a socket that may be upgraded to TLS. */
+class SmtpSession {
+	private buffer = "";
+	private lines: string[] = [];
+	private error: Error | null = null;
+	private wake: (() => void) | null = null;
+
+	constructor(
+		private socket: net.Socket,
+		private timeoutMs: number
+	) {
+		this.listen();
+	}
+
+	private onData = (chunk: Buffer) => {
+		this.buffer += chunk.toString("utf-8");
+		let end: number;
+		while ((end = this.buffer.indexOf("\r\n")) >= 0) {
+			this.lines.push(this.buffer.slice(0, end));
+			this.buffer = this.buffer.slice(end + 2);
+		}
+		this.wake?.();
+	};
+
+	private onError = (err: Error) => {
+		this.error ??= err;
+		this.wake?.();
+	};
+
+	private onClose = () => this.onError(new Error("SMTP server closed the connection"));
+
+	private listen(): void {
+		this.socket.on("data", this.onData);
+		this.socket.on("error", this.onError);
+		this.socket.on("close", this.onClose);
+		this.socket.setTimeout(this.timeoutMs, () => this.socket.destroy(new Error("SMTP server timed out")));
+	}
+
+	async reply(): Promise<Reply> {
+		for (;;) {
+			const last = this.lines.findIndex((line) => line[3] !== "-");
+			if (last >= 0) {
+				const lines = this.lines.splice(0, last + 1);
+				return { code: parseInt(lines[last].slice(0, 3)) || 0, text: lines.map((l) => l.slice(4)).join("\n") };
+			}
+			if (this.error) throw this.error;
+			await new Promise<void>((resolve) => (this.wake = resolve));
+			this.wake = null;
+		}
+	}
+
+	async expect(codes: number[], label: string): Promise<Reply> {
+		const reply = await this.reply();
+		if (!codes.includes(reply.code)) {
+			throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.text}`.trim());
+		}
+		return reply;
+	}
+
+	/** Send a command; `label` names it in errors so credentials never end up in a message. */
+	command(line: string, codes: number[], label = line.split(" ")[0]): Promise<Reply> {
+		this.socket.write(`${line}\r\n`);
+		return this.expect(codes, label);
+	}
+
+	async startTls(host: string): Promise<void> {
+		this.socket.off("data", this.onData);
+		this.socket.off("error", this.onError);
+		this.socket.off("close", this.onClose);
+		this.socket.setTimeout(0);
+		const secure = tls.connect({ socket: this.socket, servername: host });
+		await once(secure, "secureConnect");
+		this.socket = secure;
+		this.listen();
+	}
+
+	close(): void {
+		this.socket.destroy();
+	}
+}
+
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+	const { host, port, security } = options;
+	const socket =
+		security === "tls" ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+	const timer = setTimeout(() => socket.destroy(new Error("SMTP connection timed out")), options.timeoutMs ?? DEFAULT_TIMEOUT);
+	try {
+		await once(socket, security === "tls" ? "secureConnect" : "connect");
+	} finally {
+		clearTimeout(timer);
+	}
+
+	const session = new SmtpSession(socket, options.timeoutMs ?? DEFAULT_TIMEOUT);
+	try {
+		await session.expect([220], "greeting");
+		let hello = await session.command(`EHLO ${os.hostname()}`, [250]);
+		if (security === "starttls") {
+			await session.command("STARTTLS", [220]);
+			await session.startTls(host);
+			hello = await session.command(`EHLO ${os.hostname()}`, [250]);
+		}
+
+		if (options.username) {
+			const methods = /^AUTH[ =](.*)$/im.exec(hello.text)?.[1].toUpperCase().split(/\s+/) ?? [];
+			const b64 = (value: string) => Buffer.from(value, "utf-8").toString("base64");
+			if (methods.includes("LOGIN") && !methods.includes("PLAIN")) {
+				await session.command("AUTH LOGIN", [334]);
+				await session.command(b64(options.username), [334], "AUTH");
+				await session.command(b64(options.password ?? ""), [235], "AUTH");
+			} else {
+				await session.command(`AUTH PLAIN ${b64(`\0${options.username}\0${options.password ?? ""}`)}`, [235], "AUTH");
+			}
+		}
+
+		await session.command(`MAIL FROM:<${mailAddress(message.from)}>`, [250], "MAIL FROM");
+		for (const rcpt of message.to) {
+			await session.command(`RCPT TO:<${mailAddress(rcpt)}>`, [250, 251], "RCPT TO");
+		}
+		await session.command("DATA", [354]);
+		// The body is base64, so no line can start with a dot
+		await session.command(`${formatMessage(message)}\r\n.`, [250], "DATA");
+		await session.command("QUIT", [221]).catch(() => {});
+	} finally {
+		session.close();
+	}
+}
@@ -0,0 +1,161 @@
+/**
+ * system-sampler.ts – Current CPU usage, network rates and disk throughput for
+ * GET /api/system and GET /api/system/disks.
+ *
+ * /proc/stat, /proc/net/dev and /proc/diskstats only hold counters since boot, so usage has to
+ * come from the difference between two readings. The sampler keeps the
+ * previous reading between requests:
+ *
+ * - Calls less than MIN_INTERVAL_MS apart share one result, so several open
+ *   dashboards don't shrink the interval to a few noisy milliseconds.
+ * - With no previous reading, or one older than MAX_AGE_MS, it reads twice
+ *   FIRST_INTERVAL_MS apart instead of reporting a long-term average.
+ */
+
+import {
+	cpuUsage,
+	readCpuStat,
+	readDiskStats,
+	readNetworkInterfaces,
+	type CpuStat,
+	type CpuUsage,
+	type DiskIoTotals,
+	type InterfaceTotals,
+} from "./system-stats";
+
+const MIN_INTERVAL_MS = 1000;
+const MAX_AGE_MS = 60_000;
+const FIRST_INTERVAL_MS = 500;
+
+export interface InterfaceRate {
+	name: string;
+	/** Bytes per second over the interval. */
+	rxRate: number;
+	txRate: number;
+	/** Bytes since boot. */
+	rxTotal: number;
+	txTotal: number;
+}
+
+export interface DiskIoRate {
+	name: string;
+	/** Bytes and operations per second over the interval. */
+	readRate: number;
+	writeRate: number;
+	readOps: number;
+	writeOps: number;
+	/** Share of the interval the disk was busy, in percent. */
+	busy: number;
+	/** Bytes since boot. */
+	readTotal: number;
+	writeTotal: number;
+}
+
+export interface SystemSample {
+	/** Length of the interval the rates cover, in milliseconds. */
+	intervalMs: number;
+	cpu: (CpuUsage & { cores: CpuUsage[] }) | null;
+	network: { rxRate: number; txRate: number; interfaces: InterfaceRate[] } | null;
+	diskIo: { readRate: number; writeRate: number; disks: DiskIoRate[] } | null;
+}
+
+interface Reading {
+	at: number;
+	cpu: CpuStat | null;
+	net: InterfaceTotals[] | null;
+	disks: DiskIoTotals[] | null;
+}
+
+let previous: Reading | null = null;
+let latest: SystemSample | null = null;
+let pending: Promise<SystemSample> | null = null;
+
+function read(): Reading {
+	return { at: Date.now(), cpu: readCpuStat(), net: readNetworkInterfaces(), disks: readDiskStats() };
+}
+
+function compare(current: Reading, before: Reading): SystemSample {
+	const intervalMs = current.at - before.at;
+	const seconds = intervalMs / 1000;
+
+	let cpu: SystemSample["cpu"] = null;
+	if (current.cpu) {
+		const last = before.cpu;
+		cpu = {
+			...cpuUsage(current.cpu.all, last?.all),
+			// A core that came online since the last reading has no usable baseline
+			cores: current.cpu.cores.map((core, i) => (last?.cores[i] ? cpuUsage(core, last.cores[i]) : cpuUsage(core))),
+		};
+	}
+
+	// Counters restart when an interface or device is re-created; report 0 rather than a negative rate
+	const rate = (now: number, then?: number) =>
+		then !== undefined && now >= then && seconds > 0 ? Math.round((now - then) / seconds) : 0;
+
+	let network: SystemSample["network"] = null;
+	if (current.net) {
+		const interfaces = current.net.map((iface): InterfaceRate => {
+			const then = before.net?.find((i) => i.name === iface.name);
+			return {
+				name: iface.name,
+				rxRate: rate(iface.rx, then?.rx),
+				txRate: rate(iface.tx, then?.tx),
+				rxTotal: iface.rx,
+				txTotal: iface.tx,
+			};
+		});
+		network = {
+			rxRate: interfaces.reduce((sum, i) => sum + i.rxRate, 0),
+			txRate: interfaces.reduce((sum, i) => sum + i.txRate, 0),
+			interfaces,
+		};
+	}
+
+	let diskIo: SystemSample["diskIo"] = null;
+	if (current.disks) {
+		const disks = current.disks.map((disk): DiskIoRate => {
+			const then = before.disks?.find((d) => d.name === disk.name);
+			const busyMs = then && disk.ioMs >= then.ioMs && intervalMs > 0 ? disk.ioMs - then.ioMs : 0;
+			return {
+				name: disk.name,
+				readRate: rate(disk.readBytes, then?.readBytes),
+				writeRate: rate(disk.writeBytes, then?.writeBytes),
+				readOps: rate(disk.reads, then?.reads),
+				writeOps: rate(disk.writes, then?.writes),
+				busy: intervalMs > 0 ? Math.min(Math.round((busyMs / intervalMs) * 1000) / 10, 100) : 0,
+				readTotal: disk.readBytes,
+				writeTotal: disk.writeBytes,
+			};
+		});
+		diskIo = {
+			readRate: disks.reduce((sum, d) => sum + d.readRate, 0),
+			writeRate: disks.reduce((sum, d) => sum + d.writeRate, 0),
+			disks,
+		};
+	}
+
+	return { intervalMs, cpu, network, diskIo };
+}
+
+async function takeSample(): Promise<SystemSample> {
+	let before = previous;
+	if (!before || Date.now() - before.at > MAX_AGE_MS) {
+		before = read();
+		await new Promise((resolve) => setTimeout(resolve, FIRST_INTERVAL_MS));
+	}
+	const current = read();
+	previous = current;
+	latest = compare(current, before);
+	return latest;
+}
+
+/** Usage since the previous call (or over a short fresh interval). Concurrent callers share one sample. */
+export async function sampleSystem(): Promise<SystemSample> {
+	if (latest && previous && Date.now() - previous.at < MIN_INTERVAL_MS) return latest;
+	if (!pending) {
+		pending = takeSample().finally(() => {
+			pending = null;
+		});
+	}
+	return pending;
+}
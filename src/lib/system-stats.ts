@@ -0,0 +1,291 @@
+/**
+ * system-stats.ts – Readers for host CPU, memory, disk, load and network counters.
+ *
+ * Shared by GET /api/system, the metrics history collector, alerts and the
+ * Prometheus exporter so they all report the same numbers. Each reader returns null when its source is unavailable
+ * (e.g. on a non-Linux dev machine).
+ */
+
+import { runSync } from "./exec";
+
+/** Cumulative jiffies from one "cpu" line of /proc/stat. */
+export interface CpuTimes {
+	/** user + nice */
+	user: number;
+	system: number;
+	idle: number;
+	iowait: number;
+	/** irq + softirq */
+	irq: number;
+	steal: number;
+	total: number;
+}
+
+export interface CpuStat {
+	/** The aggregate "cpu" line. */
+	all: CpuTimes;
+	/** One entry per "cpuN" line, in order. */
+	cores: CpuTimes[];
+}
+
+/** Share of an interval (percent) spent in each state. `percent` is everything but idle and iowait. */
+export interface CpuUsage {
+	percent: number;
+	user: number;
+	system: number;
+	iowait: number;
+	irq: number;
+	steal: number;
+}
+
+export interface MemoryUsage {
+	total: number;
+	used: number;
+	free: number;
+}
+
+export interface DiskUsage {
+	total: number;
+	used: number;
+}
+
+/** One mounted filesystem, from `df` and /proc/mounts. Sizes in bytes. */
+export interface MountUsage {
+	device: string;
+	mountpoint: string;
+	fstype: string;
+	size: number;
+	used: number;
+	available: number;
+	/** 0 when the filesystem has no fixed inode table (e.g. btrfs). */
+	inodesTotal: number;
+	inodesUsed: number;
+	readOnly: boolean;
+}
+
+/** Cumulative I/O of one block device since boot, from /proc/diskstats. */
+export interface DiskIoTotals {
+	name: string;
+	reads: number;
+	writes: number;
+	readBytes: number;
+	writeBytes: number;
+	/** Milliseconds the device had I/O in flight. */
+	ioMs: number;
+}
+
+export interface NetworkTotals {
+	rx: number;
+	tx: number;
+}
+
+export interface InterfaceTotals extends NetworkTotals {
+	name: string;
+}
+
+function parseCpuLine(line: string): CpuTimes {
+	// user nice system idle iowait irq softirq steal [guest guest_nice]; guest time is already in user/nice
+	const [user, nice, system, idle, iowait, irq, softirq, steal] = line
+		.split(/\s+/)
+		.slice(1, 9)
+		.map((n) => Number(n) || 0);
+	return {
+		user: user + nice,
+		system,
+		idle,
+		iowait,
+		irq: irq + softirq,
+		steal,
+		total: user + nice + system + idle + iowait + irq + softirq + steal,
+	};
+}
+
+/** Cumulative CPU times since boot, overall and per core, from /proc/stat. */
+export function readCpuStat(): CpuStat | null {
+	const result = runSync("cat:proc/stat");
+	if (!result.ok) return null;
+	let all: CpuTimes | null = null;
+	const cores: CpuTimes[] = [];
+	for (const line of result.stdout.split("\n")) {
+		if (line.startsWith("cpu ")) all = parseCpuLine(line);
+		else if (/^cpu\d+ /.test(line)) cores.push(parseCpuLine(line));
+	}
+	return all ? { all, cores } : null;
+}
+
+/**
+ * Usage between two readings of the same CPU. Without a previous reading
+ * this is the average since boot, which is rarely what you want to show.
+ */
+export function cpuUsage(current: CpuTimes, previous?: CpuTimes): CpuUsage {
+	const delta = (key: keyof CpuTimes) => Math.max(current[key] - (previous?.[key] ?? 0), 0);
+	const total = delta("total");
+	const pct = (n: number) => (total > 0 ? Math.round((n / total) * 1000) / 10 : 0);
+	return {
+		percent: pct(total - delta("idle") - delta("iowait")),
+		user: pct(delta("user")),
+		system: pct(delta("system")),
+		iowait: pct(delta("iowait")),
+		irq: pct(delta("irq")),
+		steal: pct(delta("steal")),
+	};
+}
+
+export function readLoadAvg(): [number, number, number] | null {
+	const result = runSync("cat:proc/loadavg");
+	if (!result.ok) return null;
+	const [one, five, fifteen] = result.stdout.split(" ").map(Number);
+	return [one, five, fifteen];
+}
+
+export function readCpuCores(): number {
+	const result = runSync("cat:proc/cpuinfo");
+	return result.ok ? (result.stdout.match(/^processor/gm) || []).length : 0;
+}
+
+/** Memory in bytes, from `free -b`. */
+export function readMemory(): MemoryUsage | null {
+	const result = runSync("free");
+	if (!result.ok) return null;
+	const memLine = result.stdout.split("\n").find((l) => l.startsWith("Mem:"));
+	if (!memLine) return null;
+	const parts = memLine.split(/\s+/);
+	return { total: parseInt(parts[1]) || 0, used: parseInt(parts[2]) || 0, free: parseInt(parts[3]) || 0 };
+}
+
+/** Usage in bytes of the filesystem holding `mount`, from `df -B1 <mount>`. */
+export function readDiskUsage(mount: string): DiskUsage | null {
+	const result = runSync("df", [mount]);
+	if (!result.ok) return null;
+	const line = result.stdout.split("\n")[1];
+	if (!line) return null;
+	const parts = line.split(/\s+/);
+	return { total: parseInt(parts[1]) || 0, used: parseInt(parts[2]) || 0 };
+}
+
+export function readRootDisk(): DiskUsage | null {
+	return readDiskUsage("/");
+}
+
+/** Kernel and virtual filesystems that hold no user data. */
+const PSEUDO_FILESYSTEMS = new Set([
+	"autofs",
+	"binfmt_misc",
+	"bpf",
+	"cgroup",
+	"cgroup2",
+	"configfs",
+	"debugfs",
+	"devpts",
+	"devtmpfs",
+	"efivarfs",
+	"fuse.lxcfs",
+	"fusectl",
+	"hugetlbfs",
+	"mqueue",
+	"nsfs",
+	"overlay",
+	"proc",
+	"pstore",
+	"ramfs",
+	"rpc_pipefs",
+	"securityfs",
+	"squashfs",
+	"sysfs",
+	"tmpfs",
+	"tracefs",
+]);
+
+/** /proc/mounts writes spaces and other separators in paths as octal escapes (\040). */
+function unescapeMountPath(value: string): string {
+	return value.replace(/\\([0-7]{3})/g, (_, octal: string) => String.fromCharCode(parseInt(octal, 8)));
+}
+
+/**
+ * Every mounted filesystem that can hold data, in mount order. Pseudo
+ * filesystems (proc, tmpfs, overlay, …) and empty ones are left out; a path
+ * mounted over twice is reported once, for the mount on top.
+ */
+export function readMounts(): MountUsage[] | null {
+	const result = runSync("df:mounts");
+	if (!result.ok) return null;
+
+	const readOnly = new Set<string>();
+	const procMounts = runSync("cat:proc/mounts");
+	if (procMounts.ok) {
+		for (const line of procMounts.stdout.split("\n")) {
+			const [, target, , options] = line.split(" ");
+			if (target && options?.split(",").includes("ro")) readOnly.add(unescapeMountPath(target));
+		}
+	}
+
+	const mounts = new Map<string, MountUsage>();
+	for (const line of result.stdout.split("\n").slice(1)) {
+		// source fstype size used avail itotal iused target (the target may contain spaces)
+		const parts = line.trim().split(/\s+/);
+		if (parts.length < 8) continue;
+		const [device, fstype, size, used, available, inodesTotal, inodesUsed] = parts;
+		const mountpoint = parts.slice(7).join(" ");
+		const mount: MountUsage = {
+			device,
+			mountpoint,
+			fstype,
+			size: parseInt(size) || 0,
+			used: parseInt(used) || 0,
+			available: parseInt(available) || 0,
+			inodesTotal: parseInt(inodesTotal) || 0,
+			inodesUsed: parseInt(inodesUsed) || 0,
+			readOnly: readOnly.has(mountpoint),
+		};
+		if (PSEUDO_FILESYSTEMS.has(fstype) || mount.size === 0) continue;
+		mounts.delete(mountpoint);
+		mounts.set(mountpoint, mount);
+	}
+	return [...mounts.values()];
+}
+
+export function readUptimeSeconds(): number | null {
+	const result = runSync("cat:proc/uptime");
+	return result.ok ? parseFloat(result.stdout.split(" ")[0]) : null;
+}
+
+/** Bytes received/sent since boot per interface, except loopback. */
+export function readNetworkInterfaces(): InterfaceTotals[] | null {
+	const result = runSync("cat:proc/net/dev");
+	if (!result.ok) return null;
+	const interfaces: InterfaceTotals[] = [];
+	for (const line of result.stdout.split("\n").slice(2)) {
+		const name = line.split(":")[0]?.trim();
+		if (name && name !== "lo") {
+			const parts = line.split(":")[1]?.trim().split(/\s+/) || [];
+			interfaces.push({ name, rx: parseInt(parts[0]) || 0, tx: parseInt(parts[8]) || 0 });
+		}
+	}
+	return interfaces;
+}
+
+/** Bytes received/sent since boot on all interfaces except loopback. */
+export function readNetworkTotals(): NetworkTotals | null {
+	const interfaces = readNetworkInterfaces();
+	if (!interfaces) return null;
+	return interfaces.reduce((sum, i) => ({ rx: sum.rx + i.rx, tx: sum.tx + i.tx }), { rx: 0, tx: 0 });
+}
+
+/** Partitions are counted in their disk's totals already; loop, RAM and optical devices aren't real disks. */
+const IGNORED_BLOCK_DEVICE = /^(?:loop\d+|ram\d+|zram\d+|sr\d+|fd\d+|(?:[shv]d|xvd)[a-z]+\d+|(?:nvme\d+n\d+|mmcblk\d+)p\d+)$/;
+
+/** Bytes and operations per disk since boot, from /proc/diskstats (sectors are always 512 bytes there). */
+export function readDiskStats(): DiskIoTotals[] | null {
+	const result = runSync("cat:proc/diskstats");
+	if (!result.ok) return null;
+	const disks: DiskIoTotals[] = [];
+	for (const line of result.stdout.split("\n")) {
+		// major minor name reads merged sectors ms writes merged sectors ms in-flight io-ms ...
+		const parts = line.trim().split(/\s+/);
+		const name = parts[2];
+		if (parts.length < 13 || IGNORED_BLOCK_DEVICE.test(name)) continue;
+		const n = (i: number) => Number(parts[i]) || 0;
+		disks.push({ name, reads: n(3), readBytes: n(5) * 512, writes: n(7), writeBytes: n(9) * 512, ioMs: n(12) });
+	}
+	return disks;
+}
@@ -0,0 +1,101 @@
+/**
+ * totp.ts – RFC 6238 time-based one-time passwords (server-side).
+ *
+ * Compatible with common authenticator apps (SHA-1, 6 digits, 30s step).
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // accept one step of clock drift either way
+
+/** Encode a buffer as RFC 4648 base32 (no padding). */
+export function base32Encode(buf: Buffer): string {
+	let bits = 0;
+	let value = 0;
+	let output = "";
+	for (const byte of buf) {
+		value = (value << 8) | byte;
+		bits += 8;
+		while (bits >= 5) {
+			output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+			bits -= 5;
+		}
+	}
+	if (bits > 0) {
+		output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+	}
+	return output;
+}
+
+/** Decode an RFC 4648 base32 string (case-insensitive, padding/spaces ignored). */
+export function base32Decode(input: string): Buffer {
+	const clean = input.toUpperCase().replace(/[\s=]/g, "");
+	let bits = 0;
+	let value = 0;
+	const bytes: number[] = [];
+	for (const char of clean) {
+		const idx = BASE32_ALPHABET.indexOf(char);
+		if (idx === -1) throw new Error("Invalid base32 character");
+		value = (value << 5) | idx;
+		bits += 5;
+		if (bits >= 8) {
+			bytes.push((value >>> (bits - 8)) & 0xff);
+			bits -= 8;
+		}
+	}
+	return Buffer.from(bytes);
+}
+
+/** Generate a new random base32 secret (160 bits). */
+export function generateSecret(): string {
+	return base32Encode(randomBytes(20));
+}
+
+/** Current TOTP time step. */
+export function currentStep(now = Date.now()): number {
+	return Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+}
+
+/** Compute the TOTP code for a given secret and time step. */
+export function generateCode(secret: string, step = currentStep()): string {
+	const counter = Buffer.alloc(8);
+	counter.writeBigUInt64BE(BigInt(step));
+	const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+	const offset = hmac[hmac.length - 1] & 0x0f;
+	const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+	return binary.toString().padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Verify a code against the secret within the allowed drift window.
+ * Returns the matched time step (so callers can reject replays), or null.
+ */
+export function verifyCode(secret: string, code: string, now = Date.now()): number | null {
+	const normalized = code.replace(/\s/g, "");
+	if (!/^\d{6}$/.test(normalized)) return null;
+
+	const step = currentStep(now);
+	for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+		const expected = generateCode(secret, step + drift);
+		if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+			return step + drift;
+		}
+	}
+	return null;
+}
+
+/** Build an otpauth:// URI for authenticator app enrollment. */
+export function buildOtpauthUri(secret: string, account: string, issuer = "ServerPilot"): string {
+	const label = encodeURIComponent(`${issuer}:${account}`);
+	const params = new URLSearchParams({
+		secret,
+		issuer,
+		algorithm: "SHA1",
+		digits: String(TOTP_DIGITS),
+		period: String(TOTP_STEP_SECONDS),
+	});
+	return `otpauth://totp/${label}?${params.toString()}`;
+}
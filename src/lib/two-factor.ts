@@ -0,0 +1,187 @@
+/**
+ * two-factor.ts – TOTP enrollment, verification and recovery codes.
+ *
+ * Secrets live in the user_totp table; recovery codes are stored as
+ * SHA-256 hashes in recovery_codes and can each be used once.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { db } from "./db";
+import { updateSetting } from "./settings";
+import { generateSecret, verifyCode, buildOtpauthUri } from "./totp";
+import type { UserRole } from "./users";
+
+const RECOVERY_CODE_COUNT = 10;
+const REQUIRED_ROLES_KEY = "twofa_required_roles";
+
+interface DbTotp {
+	username: string;
+	secret: string;
+	enabled: number;
+	last_used_step: number | null;
+	created_at: string;
+	enabled_at: string | null;
+}
+
+export interface TwoFactorStatus {
+	enabled: boolean;
+	enabledAt?: string;
+	recoveryCodesRemaining: number;
+}
+
+function getTotpRow(username: string): DbTotp | undefined {
+	return db.prepare("SELECT * FROM user_totp WHERE username = ?").get(username) as DbTotp | undefined;
+}
+
+function hashRecoveryCode(code: string): string {
+	return createHash("sha256").update(code.trim().toLowerCase()).digest("hex");
+}
+
+export function isTwoFactorEnabled(username: string): boolean {
+	return getTotpRow(username)?.enabled === 1;
+}
+
+export function getTwoFactorStatus(username: string): TwoFactorStatus {
+	const row = getTotpRow(username);
+	const remaining = db
+		.prepare("SELECT COUNT(*) as count FROM recovery_codes WHERE username = ? AND used_at IS NULL")
+		.get(username) as { count: number };
+
+	return {
+		enabled: row?.enabled === 1,
+		enabledAt: row?.enabled_at || undefined,
+		recoveryCodesRemaining: row?.enabled === 1 ? remaining.count : 0,
+	};
+}
+
+/**
+ * Start (or restart) enrollment: stores a fresh, not-yet-enabled secret.
+ * Returns the secret and otpauth URI for the authenticator app.
+ */
+export function beginEnrollment(username: string): { secret: string; otpauthUri: string } {
+	if (isTwoFactorEnabled(username)) {
+		throw new Error("Two-factor authentication is already enabled");
+	}
+
+	const secret = generateSecret();
+	db.prepare(`
+		INSERT INTO user_totp (username, secret, enabled, created_at)
+		VALUES (?, ?, 0, ?)
+		ON CONFLICT(username) DO UPDATE SET secret = excluded.secret, enabled = 0,
+			last_used_step = NULL, created_at = excluded.created_at, enabled_at = NULL
+	`).run(username, secret, new Date().toISOString());
+
+	return { secret, otpauthUri: buildOtpauthUri(secret, username) };
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app.
+ * Returns freshly generated recovery codes (shown to the user once).
+ */
+export function confirmEnrollment(username: string, code: string): string[] {
+	const row = getTotpRow(username);
+	if (!row) {
+		throw new Error("Two-factor enrollment has not been started");
+	}
+	if (row.enabled === 1) {
+		throw new Error("Two-factor authentication is already enabled");
+	}
+
+	const step = verifyCode(row.secret, code);
+	if (step === null) {
+		throw new Error("Invalid verification code");
+	}
+
+	db.prepare("UPDATE user_totp SET enabled = 1, last_used_step = ?, enabled_at = ? WHERE username = ?").run(
+		step,
+		new Date().toISOString(),
+		username
+	);
+
+	return regenerateRecoveryCodes(username);
+}
+
+/** Replace all recovery codes for a user. Returns the plaintext codes. */
+export function regenerateRecoveryCodes(username: string): string[] {
+	const codes: string[] = [];
+	for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+		const raw = randomBytes(5).toString("hex");
+		codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+	}
+
+	const createdAt = new Date().toISOString();
+	const insert = db.prepare("INSERT INTO recovery_codes (username, code_hash, created_at) VALUES (?, ?, ?)");
+	const transaction = db.transaction(() => {
+		db.prepare("DELETE FROM recovery_codes WHERE username = ?").run(username);
+		for (const code of codes) {
+			insert.run(username, hashRecoveryCode(code), createdAt);
+		}
+	});
+	transaction();
+
+	return codes;
+}
+
+/** Verify a TOTP code for an enrolled user, rejecting codes that were already used. */
+export function verifyTotp(username: string, code: string): boolean {
+	const row = getTotpRow(username);
+	if (!row || row.enabled !== 1) return false;
+
+	const step = verifyCode(row.secret, code);
+	if (step === null) return false;
+	if (row.last_used_step !== null && step <= row.last_used_step) return false;
+
+	db.prepare("UPDATE user_totp SET last_used_step = ? WHERE username = ?").run(step, username);
+	return true;
+}
+
+/** Consume a recovery code. Each code is valid exactly once. */
+export function useRecoveryCode(username: string, code: string): boolean {
+	const result = db
+		.prepare(`
+			UPDATE recovery_codes SET used_at = ?
+			WHERE id = (
+				SELECT id FROM recovery_codes
+				WHERE username = ? AND code_hash = ? AND used_at IS NULL
+				LIMIT 1
+			)
+		`)
+		.run(new Date().toISOString(), username, hashRecoveryCode(code));
+	return result.changes > 0;
+}
+
+/** Verify either a TOTP code or a recovery code. */
+export function verifySecondFactor(
+	username: string,
+	input: { code?: string; recoveryCode?: string }
+): "totp" | "recovery" | null {
+	if (input.code && verifyTotp(username, input.code)) return "totp";
+	if (input.recoveryCode && useRecoveryCode(username, input.recoveryCode)) return "recovery";
+	return null;
+}
+
+/** Remove the user's TOTP secret and recovery codes. */
+export function disableTwoFactor(username: string): void {
+	const transaction = db.transaction(() => {
+		db.prepare("DELETE FROM user_totp WHERE username = ?").run(username);
+		db.prepare("DELETE FROM recovery_codes WHERE username = ?").run(username);
+	});
+	transaction();
+}
+
+/** Roles for which the admin requires two-factor authentication. */
+export function getTwoFactorRequiredRoles(): UserRole[] {
+	const row = db.prepare("SELECT value FROM settings WHERE key = ?").get(REQUIRED_ROLES_KEY) as
+		| { value: string | null }
+		| undefined;
+	if (!row?.value) return [];
+	return row.value.split(",").filter(Boolean) as UserRole[];
+}
+
+export function setTwoFactorRequiredRoles(roles: UserRole[]): void {
+	updateSetting(REQUIRED_ROLES_KEY, Array.from(new Set(roles)).join(","));
+}
+
+export function isTwoFactorRequired(role: UserRole): boolean {
+	return getTwoFactorRequiredRoles().includes(role);
+}
@@ -1,7 +1,11 @@
 import bcrypt from "bcryptjs";
 import { db } from "./db";
+import { disableTwoFactor } from "./two-factor";
+import { revokeUserSessions } from "./sessions";
+import { roleExists } from "./roles";
 
-export type UserRole = "admin" | "operator" | "viewer";
+/** Name of a role in the roles table (built-in: admin, operator, viewer). */
+export type UserRole = string;
 
 export interface User {
 	username: string;
@@ -47,6 +51,9 @@ export function createUser(username: string, password: string, role: UserRole):
 	if (existing) {
 		throw new Error("User already exists");
 	}
+	if (!roleExists(role)) {
+		throw new Error("Invalid role");
+	}
 
 	const hash = bcrypt.hashSync(password, 10);
 	const createdAt = new Date().toISOString();
@@ -59,13 +66,24 @@ export function createUser(username: string, password: string, role: UserRole):
 	return { username, role, createdAt };
 }
 
-export function updateUser(username: string, updates: Partial<Pick<User, "role" | "hash">>): void {
+/**
+ * Update a user's role and/or password hash. Any change revokes the user's
+ * sessions (except `keepSessionId`, used when users change their own password).
+ */
+export function updateUser(
+	username: string,
+	updates: Partial<Pick<User, "role" | "hash">>,
+	keepSessionId?: string
+): void {
 	const existing = db.prepare("SELECT role FROM users WHERE username = ?").get(username) as
 		| { role: UserRole }
 		| undefined;
 	if (!existing) {
 		throw new Error("User not found");
 	}
+	if (updates.role && !roleExists(updates.role)) {
+		throw new Error("Invalid role");
+	}
 
 	if (updates.role && updates.role !== "admin") {
 		const adminCount = db.prepare("SELECT COUNT(*) as count FROM users WHERE role = 'admin'").get() as {
@@ -78,9 +96,11 @@ export function updateUser(username: string, updates: Partial<Pick<User, "role"
 
 	if (updates.hash) {
 		db.prepare("UPDATE users SET hash = ? WHERE username = ?").run(updates.hash, username);
+		revokeUserSessions(username, keepSessionId);
 	}
-	if (updates.role) {
+	if (updates.role && updates.role !== existing.role) {
 		db.prepare("UPDATE users SET role = ? WHERE username = ?").run(updates.role, username);
+		revokeUserSessions(username);
 	}
 }
 
@@ -102,11 +122,14 @@ export function deleteUser(username: string): void {
 	}
 
 	db.prepare("DELETE FROM users WHERE username = ?").run(username);
+	db.prepare("DELETE FROM api_keys WHERE username = ?").run(username);
+	disableTwoFactor(username);
+	revokeUserSessions(username);
 }
 
-export function changePassword(username: string, newPassword: string): void {
+export function changePassword(username: string, newPassword: string, keepSessionId?: string): void {
 	const hash = bcrypt.hashSync(newPassword, 10);
-	updateUser(username, { hash });
+	updateUser(username, { hash }, keepSessionId);
 }
 
 export function updateLastLogin(username: string): void {
@@ -119,26 +142,3 @@ export function verifyPassword(username: string, password: string): boolean {
 	if (!user) return false;
 	return bcrypt.compareSync(password, user.hash);
 }
-
-export function hasPermission(role: UserRole, permission: string): boolean {
-	const permissions: Record<UserRole, string[]> = {
-		admin: ["*"],
-		operator: [
-			"docker:read",
-			"docker:write",
-			"service:read",
-			"service:write",
-			"system:read",
-			"settings:read",
-		],
-		viewer: [
-			"docker:read",
-			"service:read",
-			"system:read",
-			"settings:read",
-		],
-	};
-
-	const userPerms = permissions[role] || [];
-	return userPerms.includes("*") || userPerms.includes(permission);
-}
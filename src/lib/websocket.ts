@@ -0,0 +1,195 @@
+/**
+ * websocket.ts – WebSocket endpoints alongside the Astro API routes.
+ *
+ * Astro's Node adapter only speaks request/response, so upgrade requests
+ * are handled on the underlying HTTP server. The server isn't exposed to
+ * the app; it is picked up from the requests it serves (via the
+ * `http.server.*` diagnostics channels) and an `upgrade` listener is
+ * attached to it.
+ *
+ * Routes get the same checks as API routes: LAN-only, a valid session
+ * cookie, a same-origin handshake, 2FA enrolment where the role requires it
+ * and a role permission.
+ */
+
+import dc from "node:diagnostics_channel";
+import type { IncomingMessage, Server } from "node:http";
+import type { Duplex } from "node:stream";
+import { WebSocketServer, type WebSocket } from "ws";
+import { isLocalNetwork, resolveClientIp, verifyToken, TOKEN_COOKIE, type User } from "./auth";
+import { hasPermission } from "./roles";
+import { isTwoFactorEnabled, isTwoFactorRequired } from "./two-factor";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "./audit";
+
+export interface WebSocketContext {
+	user: User;
+	params: Record<string, string>;
+	url: URL;
+	ip?: string;
+}
+
+export type WebSocketHandler = (ws: WebSocket, ctx: WebSocketContext) => void;
+
+interface WebSocketRoute {
+	path: string; // e.g. "/api/docker/container/:id/terminal"
+	permission: string;
+	handler: WebSocketHandler;
+}
+
+const HEARTBEAT_INTERVAL = 30_000;
+
+const routes: WebSocketRoute[] = [];
+const attachedServers = new WeakSet<Server>();
+const wss = new WebSocketServer({ noServer: true });
+let enabled = false;
+
+/** Serve `handler` for WebSocket upgrades on `path` (":name" segments become params). */
+export function registerWebSocketRoute(path: string, permission: string, handler: WebSocketHandler): void {
+	if (routes.some((r) => r.path === path)) return;
+	routes.push({ path, permission, handler });
+}
+
+/** Start listening for upgrade requests once the HTTP server is known. */
+export function enableWebSockets(): void {
+	if (enabled) return;
+	enabled = true;
+
+	const attach = (message: unknown) => {
+		const { server } = message as { server: Server };
+		if (attachedServers.has(server)) return;
+		attachedServers.add(server);
+		server.on("upgrade", handleUpgrade);
+	};
+	// This module loads while the first request is already being handled, so
+	// also catch its response finishing; later requests hit request.start.
+	dc.subscribe("http.server.request.start", attach);
+	dc.subscribe("http.server.response.finish", attach);
+}
+
+function matchPath(pattern: string, pathname: string): Record<string, string> | null {
+	const patternParts = pattern.split("/").filter(Boolean);
+	const pathParts = pathname.split("/").filter(Boolean);
+	if (patternParts.length !== pathParts.length) return null;
+
+	const params: Record<string, string> = {};
+	for (let i = 0; i < patternParts.length; i++) {
+		if (patternParts[i].startsWith(":")) {
+			try {
+				params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+			} catch {
+				return null;
+			}
+		} else if (patternParts[i] !== pathParts[i]) {
+			return null;
+		}
+	}
+	return params;
+}
+
+function reject(socket: Duplex, status: number, message: string): void {
+	socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+function getCookie(req: IncomingMessage, name: string): string | undefined {
+	const match = req.headers.cookie?.match(new RegExp(`(?:^|;\\s*)${name}=([^;]+)`));
+	return match?.[1];
+}
+
+/** Host part of an Origin header; null for "null" and other unparseable values. */
+function originHost(origin: string): string | null {
+	try {
+		return new URL(origin).host;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * The upgrade listener runs outside any request handler, so a throw here
+ * (malformed Host, bad URL) would end the process. Refuse the handshake instead.
+ */
+function handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+	try {
+		upgrade(req, socket, head);
+	} catch {
+		if (socket.destroyed) return;
+		socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\nContent-Length: 0\r\n\r\n", () => socket.destroy());
+	}
+}
+
+function upgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+	const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+	let route: WebSocketRoute | undefined;
+	let params: Record<string, string> | null = null;
+	for (const candidate of routes) {
+		params = matchPath(candidate.path, url.pathname);
+		if (params) {
+			route = candidate;
+			break;
+		}
+	}
+
+	// Leave other upgrades (e.g. the dev server's HMR socket) to their own listeners
+	if (!route || !params) {
+		if (url.pathname.startsWith("/api/")) reject(socket, 404, "Not Found");
+		return;
+	}
+
+	const forwarded = req.headers["x-forwarded-for"];
+	const ip = resolveClientIp(req.socket.remoteAddress, Array.isArray(forwarded) ? forwarded[0] : forwarded);
+	if (!isLocalNetwork(ip)) {
+		reject(socket, 403, "Forbidden");
+		return;
+	}
+
+	// Browsers always send Origin on WebSocket handshakes; refuse cross-site ones
+	const origin = req.headers.origin;
+	if (origin && originHost(origin) !== req.headers.host) {
+		reject(socket, 403, "Forbidden");
+		return;
+	}
+
+	const token = getCookie(req, TOKEN_COOKIE);
+	const user = token ? verifyToken(token) : null;
+	if (!user) {
+		reject(socket, 401, "Unauthorized");
+		return;
+	}
+	if (isTwoFactorRequired(user.role) && !isTwoFactorEnabled(user.username)) {
+		reject(socket, 403, "Forbidden");
+		return;
+	}
+	if (!hasPermission(user.role, route.permission)) {
+		logAction(user.username, "WEBSOCKET_DENIED", url.pathname, `Missing permission ${route.permission}`, ip, {
+			level: LOG_LEVELS.WARN,
+			code: ERROR_CODES.ERR_FORBIDDEN,
+		});
+		reject(socket, 403, "Forbidden");
+		return;
+	}
+
+	const { handler } = route;
+	const context: WebSocketContext = { user, params, url, ip };
+	wss.handleUpgrade(req, socket, head, (ws) => {
+		keepAlive(ws);
+		handler(ws, context);
+	});
+}
+
+/** Ping clients periodically and drop the ones that stop answering. */
+function keepAlive(ws: WebSocket): void {
+	let alive = true;
+	ws.on("pong", () => {
+		alive = true;
+	});
+	const timer = setInterval(() => {
+		if (!alive) {
+			ws.terminate();
+			return;
+		}
+		alive = false;
+		ws.ping();
+	}, HEARTBEAT_INTERVAL);
+	ws.on("close", () => clearInterval(timer));
+}
@@ -1,17 +1,62 @@
 /**
  * Astro middleware – Security layer + module initialization.
  * - Enforces LAN-only access on API routes
+ * - Authenticates `Authorization: Bearer` API keys and enforces their scopes
  * - Adds security headers to all responses
  * - Checks page access permissions
+ * - Sends users whose role requires 2FA to /profile until they enroll, and
+ *   refuses their API calls other than enrolment and logout
  * - Initializes the module system on first request
+ * - Registers WebSocket endpoints (upgrades bypass Astro, see lib/websocket.ts)
+ * - Starts the background metrics collector (see lib/metrics-history.ts)
+ * - Starts the alert rules engine while the alerts module is enabled (see lib/alerts.ts)
  */
 import { defineMiddleware } from "astro:middleware";
-import { isLocalNetwork, verifyToken } from "./lib/auth";
-import { getAllPages } from "./modules/registry";
+import { isLocalNetwork, verifyToken, getBearerToken, bindApiKeyUser, getUserFromCookies, isClientAddressTrusted } from "./lib/auth";
+import { verifyApiKey, apiKeyAllows } from "./lib/api-keys";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "./lib/audit";
+import { isTwoFactorEnabled, isTwoFactorRequired } from "./lib/two-factor";
+import { hasPermission } from "./lib/roles";
+import { enableWebSockets, registerWebSocketRoute } from "./lib/websocket";
+import { handleContainerTerminal } from "./lib/container-terminal";
+import { checkTerminalSettings, handleHostTerminal } from "./lib/host-terminal";
+import { startMetricsCollector } from "./lib/metrics-history";
+import { startAlertEngine } from "./lib/alerts";
+import { getAllPages, getModule } from "./modules/registry";
+import { getModuleSettings, registerSettingsValidator } from "./modules/settings";
+import type { dockerSettings } from "./modules/core/docker/manifest";
+import type { terminalSettings } from "./modules/core/terminal/manifest";
 import type { UserRole } from "./lib/users";
 
 let modulesInitialized = false;
 
+/** Reads through an API key (e.g. Prometheus scraping /api/metrics) are audited at most once per key per window. */
+const API_KEY_READ_AUDIT_WINDOW = 60 * 60 * 1000;
+const apiKeyReadsAudited = new Map<string, { at: number; skipped: number }>();
+
+/** API routes a user who still has to enroll in 2FA can reach (login is public). */
+const TWO_FACTOR_ENROLMENT_PATHS = [
+	"/api/auth/logout",
+	"/api/modules/security/two-factor",
+	"/api/modules/security/two-factor/setup",
+	"/api/modules/security/two-factor/enable",
+];
+
+registerWebSocketRoute("/api/docker/container/:id/terminal", "docker:exec", (ws, ctx) =>
+	handleContainerTerminal(ws, ctx, getModuleSettings<typeof dockerSettings>("docker").terminalIdleMinutes)
+);
+registerWebSocketRoute("/api/modules/terminal/session", "admin", (ws, ctx) => {
+	if (!getModule("terminal")?.enabled) {
+		ws.close(1008, "Terminal module is disabled");
+		return;
+	}
+	handleHostTerminal(ws, ctx, getModuleSettings<typeof terminalSettings>("terminal"));
+});
+registerSettingsValidator("terminal", checkTerminalSettings);
+enableWebSockets();
+startMetricsCollector();
+startAlertEngine(() => getModule("alerts")?.enabled === true);
+
 function getUserFromRequest(request: Request): { username: string; role: UserRole } | null {
 	const cookieHeader = request.headers.get("cookie");
 	if (!cookieHeader) return null;
@@ -22,20 +67,6 @@ function getUserFromRequest(request: Request): { username: string; role: UserRol
 	return verifyToken(tokenMatch[1]);
 }
 
-function hasPagePermission(role: UserRole | undefined, permission: string | undefined): boolean {
-	if (!permission) return true;
-	if (!role) return false;
-
-	const permissions: Record<UserRole, string[]> = {
-		admin: ["*", "admin"],
-		operator: ["docker:read", "docker:write", "service:read", "service:write", "system:read", "settings:read"],
-		viewer: ["docker:read", "service:read", "system:read", "settings:read"],
-	};
-
-	const userPerms = permissions[role] || [];
-	return userPerms.includes("*") || userPerms.includes(permission);
-}
-
 function getPageRequiredPermission(pathname: string): string | undefined {
 	const pages = getAllPages();
 
@@ -48,10 +79,11 @@ function getPageRequiredPermission(pathname: string): string | undefined {
 	return undefined;
 }
 
-export const onRequest = defineMiddleware(async ({ request, url, clientAddress }, next) => {
+export const onRequest = defineMiddleware(async ({ request, url, clientAddress, cookies }, next) => {
 	const pathname = url.pathname;
 
-	if (!modulesInitialized && !pathname.startsWith("/api/")) {
+	// API routes need the registry too: roles are edited against module-declared permissions
+	if (!modulesInitialized) {
 		modulesInitialized = true;
 		try {
 			const { initModules } = await import("./modules/loader");
@@ -62,17 +94,75 @@ export const onRequest = defineMiddleware(async ({ request, url, clientAddress }
 	}
 
 	if (pathname.startsWith("/api/")) {
-		const ip =
-			clientAddress ||
-			request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
-			request.headers.get("x-real-ip");
+		const ip = clientAddress;
 
-		if (!isLocalNetwork(ip ?? undefined)) {
+		if (!isClientAddressTrusted(request) || !isLocalNetwork(ip ?? undefined)) {
 			return new Response(JSON.stringify({ error: "Access denied: LAN only" }), {
 				status: 403,
 				headers: { "Content-Type": "application/json" },
 			});
 		}
+
+		const bearer = getBearerToken(request);
+		if (bearer) {
+			const result = verifyApiKey(bearer, ip ?? undefined);
+			if (!result) {
+				return new Response(
+					JSON.stringify({ error: "Invalid or expired API key", code: ERROR_CODES.ERR_TOKEN_INVALID }),
+					{ status: 401, headers: { "Content-Type": "application/json" } }
+				);
+			}
+
+			const { key, role } = result;
+			if (!apiKeyAllows(key, role, pathname, request.method)) {
+				logAction(
+					key.username,
+					"API_KEY_DENIED",
+					`${request.method} ${pathname}`,
+					`API key "${key.name}" lacks the required scope`,
+					ip ?? undefined,
+					{ level: LOG_LEVELS.WARN, code: ERROR_CODES.ERR_FORBIDDEN }
+				);
+				return new Response(
+					JSON.stringify({ error: "API key does not have access to this route", code: ERROR_CODES.ERR_FORBIDDEN }),
+					{ status: 403, headers: { "Content-Type": "application/json" } }
+				);
+			}
+
+			bindApiKeyUser(cookies, { username: key.username, role, apiKey: { id: key.id, name: key.name, scopes: key.scopes } });
+			const isRead = request.method === "GET" || request.method === "HEAD";
+			const lastRead = apiKeyReadsAudited.get(key.id);
+			if (isRead && lastRead && Date.now() - lastRead.at < API_KEY_READ_AUDIT_WINDOW) {
+				lastRead.skipped++;
+			} else {
+				const skipped = isRead && lastRead?.skipped ? ` (${lastRead.skipped} more reads since the last entry)` : "";
+				if (isRead) apiKeyReadsAudited.set(key.id, { at: Date.now(), skipped: 0 });
+				logAction(
+					key.username,
+					"API_KEY_REQUEST",
+					`${request.method} ${pathname}`,
+					`via API key "${key.name}"${skipped}`,
+					ip ?? undefined
+				);
+			}
+		}
+
+		// Without this the page redirect alone could be skipped by calling the API directly
+		const apiUser = getUserFromCookies(cookies);
+		if (
+			apiUser &&
+			!TWO_FACTOR_ENROLMENT_PATHS.includes(pathname.replace(/\/$/, "")) &&
+			isTwoFactorRequired(apiUser.role) &&
+			!isTwoFactorEnabled(apiUser.username)
+		) {
+			return new Response(
+				JSON.stringify({
+					error: "Two-factor authentication is required for your role. Enroll on your profile page first.",
+					code: ERROR_CODES.ERR_TWO_FACTOR_REQUIRED,
+				}),
+				{ status: 403, headers: { "Content-Type": "application/json" } }
+			);
+		}
 	}
 
 	const publicPaths = ["/login", "/api/auth/login"];
@@ -86,9 +176,13 @@ export const onRequest = defineMiddleware(async ({ request, url, clientAddress }
 		}
 
 		const requiredPermission = getPageRequiredPermission(pathname);
-		if (requiredPermission && !hasPagePermission(user.role, requiredPermission)) {
+		if (!hasPermission(user.role, requiredPermission)) {
 			return Response.redirect(new URL("/", url));
 		}
+
+		if (pathname !== "/profile" && isTwoFactorRequired(user.role) && !isTwoFactorEnabled(user.username)) {
+			return Response.redirect(new URL("/profile", url));
+		}
 	}
 
 	const response = await next();
@@ -0,0 +1,50 @@
+/**
+ * Alert Channel Test API - POST /api/modules/alerts/channels/:id/test
+ * Sends a test notification; 502 with the delivery error if it fails
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../lib/audit";
+import { getChannel, sendToChannel } from "../../../../lib/alert-channels";
+
+export const POST: APIRoute = async ({ cookies, params, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "alerts:write")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	const channel = getChannel(Number(params.id));
+	if (!channel) {
+		return new Response(JSON.stringify({ error: "Channel not found" }), { status: 404 });
+	}
+
+	try {
+		await sendToChannel(channel.id, {
+			title: "ServerPilot test notification",
+			message: `Sent by ${user.username} to check the "${channel.name}" channel.`,
+			state: "test",
+			severity: "info",
+		});
+		logAction(user.username, "TEST_ALERT_CHANNEL", channel.name, "Test notification sent", clientAddress, {
+			level: LOG_LEVELS.INFO,
+			code: "INF016",
+		});
+
+		return new Response(JSON.stringify({ ok: true }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		logAction(user.username, "TEST_ALERT_CHANNEL", channel.name, `Failed: ${message}`, clientAddress, {
+			level: LOG_LEVELS.WARN,
+			code: ERROR_CODES.ERR_ALERT_NOTIFY_FAILED,
+		});
+
+		return new Response(JSON.stringify({ error: message, code: ERROR_CODES.ERR_ALERT_NOTIFY_FAILED }), {
+			status: 502,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
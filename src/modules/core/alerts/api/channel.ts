@@ -0,0 +1,65 @@
+/**
+ * Alert Channel API - PUT/DELETE /api/modules/alerts/channels/:id
+ * PUT takes { name?, config?, enabled? }; secret fields left empty keep their value
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction, LOG_LEVELS } from "../../../../lib/audit";
+import { deleteChannel, getChannel, updateChannel } from "../../../../lib/alert-channels";
+
+export const PUT: APIRoute = async ({ cookies, params, request, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "alerts:write")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	const id = Number(params.id);
+	if (!getChannel(id)) {
+		return new Response(JSON.stringify({ error: "Channel not found" }), { status: 404 });
+	}
+
+	try {
+		const { name, config, enabled } = await request.json();
+		const channel = updateChannel(id, {
+			name: typeof name === "string" ? name.trim() : undefined,
+			config,
+			enabled: typeof enabled === "boolean" ? enabled : undefined,
+		});
+		logAction(user.username, "UPDATE_ALERT_CHANNEL", channel.name, channel.enabled ? "Enabled" : "Disabled", clientAddress, {
+			level: LOG_LEVELS.INFO,
+			code: "INF016",
+		});
+
+		return new Response(JSON.stringify({ channel }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(JSON.stringify({ error: err instanceof Error ? err.message : "Invalid request" }), {
+			status: 400,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
+
+export const DELETE: APIRoute = async ({ cookies, params, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "alerts:write")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	const channel = getChannel(Number(params.id));
+	if (!channel || !deleteChannel(channel.id)) {
+		return new Response(JSON.stringify({ error: "Channel not found" }), { status: 404 });
+	}
+	logAction(user.username, "DELETE_ALERT_CHANNEL", channel.name, "Deleted notification channel", clientAddress, {
+		level: LOG_LEVELS.INFO,
+		code: "INF016",
+	});
+
+	return new Response(JSON.stringify({ ok: true }), {
+		status: 200,
+		headers: { "Content-Type": "application/json" },
+	});
+};
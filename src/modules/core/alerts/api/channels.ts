@@ -0,0 +1,47 @@
+/**
+ * Alert Channels API - GET/POST /api/modules/alerts/channels
+ * GET lists channels (without secrets) and the fields each type takes; POST creates one
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction, LOG_LEVELS } from "../../../../lib/audit";
+import { CHANNEL_TYPES, createChannel, listChannels } from "../../../../lib/alert-channels";
+
+export const GET: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "alerts:read")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	return new Response(JSON.stringify({ channels: listChannels(), types: CHANNEL_TYPES }), {
+		status: 200,
+		headers: { "Content-Type": "application/json" },
+	});
+};
+
+export const POST: APIRoute = async ({ cookies, request, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "alerts:write")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	try {
+		const { name, type, config } = await request.json();
+		const channel = createChannel(typeof name === "string" ? name.trim() : "", type, config, user.username);
+		logAction(user.username, "CREATE_ALERT_CHANNEL", channel.name, `Type: ${channel.type}`, clientAddress, {
+			level: LOG_LEVELS.INFO,
+			code: "INF016",
+		});
+
+		return new Response(JSON.stringify({ channel }), {
+			status: 201,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(JSON.stringify({ error: err instanceof Error ? err.message : "Invalid request" }), {
+			status: 400,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
@@ -0,0 +1,26 @@
+/**
+ * Alert History API - GET /api/modules/alerts/history?limit=100&rule=<id>
+ * Firing and resolved events, newest first (kept 90 days)
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { listAlertEvents } from "../../../../lib/alerts";
+
+export const GET: APIRoute = async ({ cookies, url }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "alerts:read")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	const limit = url.searchParams.has("limit") ? Number(url.searchParams.get("limit")) : undefined;
+	const ruleId = url.searchParams.has("rule") ? Number(url.searchParams.get("rule")) : undefined;
+	if ((limit !== undefined && !Number.isInteger(limit)) || (ruleId !== undefined && !Number.isInteger(ruleId))) {
+		return new Response(JSON.stringify({ error: "limit and rule must be integers" }), { status: 400 });
+	}
+
+	return new Response(JSON.stringify({ events: listAlertEvents({ limit, ruleId }) }), {
+		status: 200,
+		headers: { "Content-Type": "application/json" },
+	});
+};
@@ -0,0 +1,60 @@
+/**
+ * Alert Rule API - PUT/DELETE /api/modules/alerts/rules/:id
+ * Edit (including enable/disable) or delete a rule; its history is kept
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction, LOG_LEVELS } from "../../../../lib/audit";
+import { deleteRule, getRule, updateRule } from "../../../../lib/alerts";
+
+export const PUT: APIRoute = async ({ cookies, params, request, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "alerts:write")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	const id = Number(params.id);
+	if (!getRule(id)) {
+		return new Response(JSON.stringify({ error: "Rule not found" }), { status: 404 });
+	}
+
+	try {
+		const rule = updateRule(id, await request.json());
+		logAction(user.username, "UPDATE_ALERT_RULE", rule.name, rule.enabled ? "Enabled" : "Disabled", clientAddress, {
+			level: LOG_LEVELS.INFO,
+			code: "INF016",
+		});
+
+		return new Response(JSON.stringify({ rule }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(JSON.stringify({ error: err instanceof Error ? err.message : "Invalid request" }), {
+			status: 400,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
+
+export const DELETE: APIRoute = async ({ cookies, params, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "alerts:write")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	const rule = getRule(Number(params.id));
+	if (!rule || !deleteRule(rule.id)) {
+		return new Response(JSON.stringify({ error: "Rule not found" }), { status: 404 });
+	}
+	logAction(user.username, "DELETE_ALERT_RULE", rule.name, "Deleted alert rule", clientAddress, {
+		level: LOG_LEVELS.INFO,
+		code: "INF016",
+	});
+
+	return new Response(JSON.stringify({ ok: true }), {
+		status: 200,
+		headers: { "Content-Type": "application/json" },
+	});
+};
@@ -0,0 +1,46 @@
+/**
+ * Alert Rules API - GET/POST /api/modules/alerts/rules
+ * GET lists rules with their current state and the rule types; POST creates a rule
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction, LOG_LEVELS } from "../../../../lib/audit";
+import { createRule, listRules, RULE_KINDS } from "../../../../lib/alerts";
+
+export const GET: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "alerts:read")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	return new Response(JSON.stringify({ rules: listRules(), kinds: RULE_KINDS }), {
+		status: 200,
+		headers: { "Content-Type": "application/json" },
+	});
+};
+
+export const POST: APIRoute = async ({ cookies, request, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "alerts:write")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	try {
+		const rule = createRule(await request.json(), user.username);
+		logAction(user.username, "CREATE_ALERT_RULE", rule.name, `Type: ${rule.kind}`, clientAddress, {
+			level: LOG_LEVELS.INFO,
+			code: "INF016",
+		});
+
+		return new Response(JSON.stringify({ rule }), {
+			status: 201,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(JSON.stringify({ error: err instanceof Error ? err.message : "Invalid request" }), {
+			status: 400,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
@@ -0,0 +1,30 @@
+/**
+ * Alert Silence API - DELETE /api/modules/alerts/silences/:id
+ * Ends a silence early (or removes an upcoming one)
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction, LOG_LEVELS } from "../../../../lib/audit";
+import { deleteSilence, listSilences } from "../../../../lib/alerts";
+
+export const DELETE: APIRoute = async ({ cookies, params, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "alerts:write")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	const silence = listSilences().find((s) => s.id === Number(params.id));
+	if (!silence || !deleteSilence(silence.id)) {
+		return new Response(JSON.stringify({ error: "Silence not found" }), { status: 404 });
+	}
+	logAction(user.username, "DELETE_ALERT_SILENCE", silence.ruleName ?? "all rules", "Removed silence", clientAddress, {
+		level: LOG_LEVELS.INFO,
+		code: "INF016",
+	});
+
+	return new Response(JSON.stringify({ ok: true }), {
+		status: 200,
+		headers: { "Content-Type": "application/json" },
+	});
+};
@@ -0,0 +1,51 @@
+/**
+ * Alert Silences API - GET/POST /api/modules/alerts/silences
+ * GET lists current, upcoming and recently ended silences;
+ * POST { ruleId?, startsAt?, endsAt, reason? } mutes one rule (or all, without ruleId)
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction, LOG_LEVELS } from "../../../../lib/audit";
+import { createSilence, listSilences } from "../../../../lib/alerts";
+
+export const GET: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "alerts:read")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	return new Response(JSON.stringify({ silences: listSilences() }), {
+		status: 200,
+		headers: { "Content-Type": "application/json" },
+	});
+};
+
+export const POST: APIRoute = async ({ cookies, request, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "alerts:write")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	try {
+		const silence = createSilence(await request.json(), user.username);
+		logAction(
+			user.username,
+			"CREATE_ALERT_SILENCE",
+			silence.ruleName ?? "all rules",
+			`Until ${silence.endsAt}${silence.reason ? `: ${silence.reason}` : ""}`,
+			clientAddress,
+			{ level: LOG_LEVELS.INFO, code: "INF016" }
+		);
+
+		return new Response(JSON.stringify({ silence }), {
+			status: 201,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(JSON.stringify({ error: err instanceof Error ? err.message : "Invalid request" }), {
+			status: 400,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
@@ -0,0 +1,128 @@
+/**
+ * Alerts module manifest - Alert rules, notification channels and history
+ */
+
+import type { ModuleManifest } from "../../types";
+
+const manifest: ModuleManifest = {
+	id: "alerts",
+	name: "Alerts",
+	version: "1.0.0",
+	description: "Threshold and health alerts with email, webhook, Slack, ntfy and Gotify notifications",
+	type: "core",
+
+	permissions: [
+		{ id: "alerts:read", label: "View alerts", description: "See alert rules, their state and history" },
+		{ id: "alerts:write", label: "Manage alerts", description: "Edit alert rules, notification channels and silences" },
+	],
+
+	navItems: [
+		{
+			id: "alerts",
+			label: "Alerts",
+			href: "/alerts",
+			icon: `<svg class="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2"><path d="M15 17h5l-1.4-1.4A2 2 0 0118 14.2V11a6 6 0 00-4-5.7V5a2 2 0 10-4 0v.3A6 6 0 006 11v3.2c0 .5-.2 1-.6 1.4L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"/></svg>`,
+			group: "",
+			order: 5,
+			requiredPermission: "alerts:read",
+		},
+	],
+
+	pages: [
+		{
+			route: "/alerts",
+			component: "../../pages/alerts.astro",
+			title: "Alerts",
+			description: "Alert rules, notification channels, silences and history",
+			requiredPermission: "alerts:read",
+		},
+	],
+
+	apiRoutes: [
+		{
+			path: "/rules",
+			method: "GET",
+			handler: "./api/rules.ts",
+			requiredPermission: "alerts:read",
+		},
+		{
+			path: "/rules",
+			method: "POST",
+			handler: "./api/rules.ts",
+			requiredPermission: "alerts:write",
+		},
+		{
+			path: "/rules/:id",
+			method: "PUT",
+			handler: "./api/rule.ts",
+			requiredPermission: "alerts:write",
+		},
+		{
+			path: "/rules/:id",
+			method: "DELETE",
+			handler: "./api/rule.ts",
+			requiredPermission: "alerts:write",
+		},
+		{
+			path: "/channels",
+			method: "GET",
+			handler: "./api/channels.ts",
+			requiredPermission: "alerts:read",
+		},
+		{
+			path: "/channels",
+			method: "POST",
+			handler: "./api/channels.ts",
+			requiredPermission: "alerts:write",
+		},
+		{
+			path: "/channels/:id",
+			method: "PUT",
+			handler: "./api/channel.ts",
+			requiredPermission: "alerts:write",
+		},
+		{
+			path: "/channels/:id",
+			method: "DELETE",
+			handler: "./api/channel.ts",
+			requiredPermission: "alerts:write",
+		},
+		{
+			path: "/channels/:id/test",
+			method: "POST",
+			handler: "./api/channel-test.ts",
+			requiredPermission: "alerts:write",
+			timeout: 45000,
+		},
+		{
+			path: "/silences",
+			method: "GET",
+			handler: "./api/silences.ts",
+			requiredPermission: "alerts:read",
+		},
+		{
+			path: "/silences",
+			method: "POST",
+			handler: "./api/silences.ts",
+			requiredPermission: "alerts:write",
+		},
+		{
+			path: "/silences/:id",
+			method: "DELETE",
+			handler: "./api/silence.ts",
+			requiredPermission: "alerts:write",
+		},
+		{
+			path: "/history",
+			method: "GET",
+			handler: "./api/history.ts",
+			requiredPermission: "alerts:read",
+		},
+	],
+
+	sandbox: {
+		allowedCommands: ["systemctl", "df"],
+	},
+};
+
+export default manifest;
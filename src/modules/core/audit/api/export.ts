@@ -3,12 +3,13 @@
  */
 import type { APIRoute } from "astro";
 import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
 import { logAction } from "../../../../lib/audit";
 import { exportAuditLogs } from "../../../../lib/audit";
 
 export const GET: APIRoute = async ({ cookies, url }) => {
 	const user = getUserFromCookies(cookies);
-	if (!user || user.role !== "admin") {
+	if (!user || !hasPermission(user.role, "admin")) {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
 
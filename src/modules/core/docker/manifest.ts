@@ -3,6 +3,28 @@
  */
 
 import type { ModuleManifest } from "../../types";
+import type { SettingsSchema } from "../../settings";
+
+export const dockerSettings = {
+	logTail: {
+		type: "number",
+		label: "Default log lines",
+		description: "Lines of container logs to show when no tail is requested (max 500)",
+		default: 100,
+	},
+	terminalIdleMinutes: {
+		type: "number",
+		label: "Terminal idle timeout",
+		description: "Minutes without input before a container terminal is closed (0 disables)",
+		default: 15,
+	},
+	pushRegistry: {
+		type: "text",
+		label: "Push registry",
+		description: "Registry (and optional namespace) images are pushed to, e.g. registry.example.com:5000/team",
+		default: "",
+	},
+} satisfies SettingsSchema;
 
 const manifest: ModuleManifest = {
 	id: "docker",
@@ -11,6 +33,22 @@ const manifest: ModuleManifest = {
 	description: "Container management and orchestration",
 	type: "core",
 
+	permissions: [
+		{ id: "docker:read", label: "View containers", description: "View containers, images, volumes, networks and logs" },
+		{ id: "docker:write", label: "Manage containers", description: "Create containers and pull, tag and remove images" },
+		{
+			id: "docker:manage",
+			label: "Control containers",
+			description: "Start, stop and remove containers, change resource limits, run compose actions, back up volumes and scan images",
+		},
+		{ id: "docker:exec", label: "Container shells", description: "Open interactive shells inside containers" },
+		{
+			id: "docker:stacks",
+			label: "Compose stacks",
+			description: "Create, edit, deploy and delete compose stacks (a stack can run privileged containers)",
+		},
+	],
+
 	navItems: [
 		{
 			id: "docker",
@@ -19,6 +57,7 @@ const manifest: ModuleManifest = {
 			icon: `<svg class="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2"><path d="M21 8c-1.45 0-2.26.15-3 .5-1.12-1.28-2.7-2-4.5-2h-3c-1.8 0-3.38.72-4.5 2C5.26 8.15 4.45 8 3 8c-1 0-1 2 0 2 .6 0 1 .1 1.4.3C4.15 11.4 4 12.6 4 14c0 3.32 2.68 6 6 6h4c3.32 0 6-2.68 6-6 0-1.4-.15-2.6-.4-3.7.4-.2.8-.3 1.4-.3 1 0 1-2 0-2z"/></svg>`,
 			group: "",
 			order: 2,
+			requiredPermission: "docker:read",
 		},
 	],
 
@@ -28,6 +67,7 @@ const manifest: ModuleManifest = {
 			component: "../../pages/docker.astro",
 			title: "Docker",
 			description: "Container management and orchestration",
+			requiredPermission: "docker:read",
 		},
 	],
 
@@ -36,95 +76,215 @@ const manifest: ModuleManifest = {
 		{
 			path: "/containers",
 			method: "GET",
-			handler: "../../pages/api/docker/containers.ts",
+			handler: "../../../pages/api/docker/containers.ts",
+			requiredPermission: "docker:read",
 		},
 		{
 			path: "/containers",
 			method: "POST",
-			handler: "../../pages/api/docker/containers.ts",
-		},
-		{
-			path: "/container/:id",
-			method: "GET",
-			handler: "../../pages/api/docker/container/[id].ts",
+			handler: "../../../pages/api/docker/containers.ts",
+			requiredPermission: "docker:write",
 		},
 		{
-			path: "/container/:id/action",
+			path: "/container/:action",
 			method: "POST",
-			handler: "../../pages/api/docker/container/[id]/action.ts",
+			handler: "../../../pages/api/docker/container/[action].ts",
+			requiredPermission: "docker:manage",
 		},
 		{
 			path: "/container/:id/resources",
 			method: "GET",
-			handler: "../../pages/api/docker/container/[id]/resources.ts",
+			handler: "../../../pages/api/docker/container/[id]/resources.ts",
+			requiredPermission: "docker:read",
 		},
 		{
 			path: "/container/:id/resources",
 			method: "POST",
-			handler: "../../pages/api/docker/container/[id]/resources.ts",
+			handler: "../../../pages/api/docker/container/[id]/resources.ts",
+			requiredPermission: "docker:manage",
 		},
 		// Logs & Terminal
 		{
 			path: "/container/:id/logs",
 			method: "GET",
-			handler: "../../pages/api/docker/container/[id]/logs.ts",
+			handler: "../../../pages/api/docker/container/[id]/logs.ts",
+			requiredPermission: "docker:read",
 		},
 		{
-			path: "/container/:id/exec",
-			method: "POST",
-			handler: "../../pages/api/docker/container/[id]/exec.ts",
+			path: "/logs",
+			method: "GET",
+			handler: "../../../pages/api/docker/logs.ts",
+			requiredPermission: "docker:read",
 		},
+		// GET /container/:id/terminal is a WebSocket endpoint, registered in middleware.ts
 		// Images
 		{
 			path: "/images",
 			method: "GET",
-			handler: "../../pages/api/docker/images.ts",
+			handler: "../../../pages/api/docker/images.ts",
+			requiredPermission: "docker:read",
+		},
+		{
+			path: "/images/pull",
+			method: "POST",
+			handler: "../../../pages/api/docker/images/pull.ts",
+			requiredPermission: "docker:write",
+		},
+		{
+			path: "/images/prune",
+			method: "POST",
+			handler: "../../../pages/api/docker/images/prune.ts",
+			requiredPermission: "docker:write",
+		},
+		{
+			path: "/images/:id",
+			method: "DELETE",
+			handler: "../../../pages/api/docker/images/[id].ts",
+			requiredPermission: "docker:write",
+		},
+		{
+			path: "/images/:id/tag",
+			method: "POST",
+			handler: "../../../pages/api/docker/images/[id]/tag.ts",
+			requiredPermission: "docker:write",
+		},
+		{
+			path: "/images/:id/push",
+			method: "POST",
+			handler: "../../../pages/api/docker/images/[id]/push.ts",
+			requiredPermission: "docker:write",
 		},
 		{
 			path: "/images/:id/scan",
 			method: "POST",
-			handler: "../../pages/api/docker/images/[id]/scan.ts",
+			handler: "../../../pages/api/docker/images/[id]/scan.ts",
+			requiredPermission: "docker:manage",
+		},
+		// Registry credentials
+		{
+			path: "/registries",
+			method: "GET",
+			handler: "../../../pages/api/docker/registries.ts",
+			requiredPermission: "docker:read",
+		},
+		{
+			path: "/registries",
+			method: "POST",
+			handler: "../../../pages/api/docker/registries.ts",
+			requiredPermission: "admin",
+		},
+		{
+			path: "/registries/:server",
+			method: "DELETE",
+			handler: "../../../pages/api/docker/registries/[server].ts",
+			requiredPermission: "admin",
+		},
+		{
+			path: "/registries/:server/test",
+			method: "POST",
+			handler: "../../../pages/api/docker/registries/[server]/test.ts",
+			requiredPermission: "docker:write",
 		},
 		// Volumes
 		{
 			path: "/volumes",
 			method: "GET",
-			handler: "../../pages/api/docker/volumes.ts",
+			handler: "../../../pages/api/docker/volumes.ts",
+			requiredPermission: "docker:read",
 		},
 		{
 			path: "/volumes/:name/backup",
 			method: "POST",
-			handler: "../../pages/api/docker/volumes/[name]/backup.ts",
+			handler: "../../../pages/api/docker/volumes/[name]/backup.ts",
+			requiredPermission: "docker:manage",
 		},
 		{
 			path: "/volumes/:name/restore",
 			method: "POST",
-			handler: "../../pages/api/docker/volumes/[name]/restore.ts",
+			handler: "../../../pages/api/docker/volumes/[name]/restore.ts",
+			requiredPermission: "docker:manage",
 		},
 		// Networks
 		{
 			path: "/networks",
 			method: "GET",
-			handler: "../../pages/api/docker/networks.ts",
+			handler: "../../../pages/api/docker/networks.ts",
+			requiredPermission: "docker:read",
 		},
 		// Docker Compose
 		{
 			path: "/compose/projects",
 			method: "GET",
-			handler: "../../pages/api/docker/compose/projects.ts",
+			handler: "../../../pages/api/docker/compose/projects.ts",
+			requiredPermission: "docker:read",
 		},
 		{
 			path: "/compose/:project/action",
 			method: "POST",
-			handler: "../../pages/api/docker/compose/[project]/action.ts",
+			handler: "../../../pages/api/docker/compose/[project]/action.ts",
+			requiredPermission: "docker:manage",
 		},
 		{
 			path: "/compose/:project/logs",
 			method: "GET",
-			handler: "../../pages/api/docker/compose/[project]/logs.ts",
+			handler: "../../../pages/api/docker/compose/[project]/logs.ts",
+			requiredPermission: "docker:read",
+		},
+		// Compose stacks managed by ServerPilot
+		{
+			path: "/compose/stacks",
+			method: "GET",
+			handler: "../../../pages/api/docker/compose/stacks.ts",
+			requiredPermission: "docker:read",
+		},
+		{
+			path: "/compose/stacks",
+			method: "POST",
+			handler: "../../../pages/api/docker/compose/stacks.ts",
+			requiredPermission: "docker:stacks",
+		},
+		{
+			path: "/compose/stacks/:name",
+			method: "GET",
+			handler: "../../../pages/api/docker/compose/stacks/[name].ts",
+			requiredPermission: "docker:read",
+		},
+		{
+			path: "/compose/stacks/:name",
+			method: "PUT",
+			handler: "../../../pages/api/docker/compose/stacks/[name].ts",
+			requiredPermission: "docker:stacks",
+		},
+		{
+			path: "/compose/stacks/:name",
+			method: "DELETE",
+			handler: "../../../pages/api/docker/compose/stacks/[name].ts",
+			requiredPermission: "docker:stacks",
+		},
+		{
+			path: "/compose/stacks/:name/validate",
+			method: "POST",
+			handler: "../../../pages/api/docker/compose/stacks/[name]/validate.ts",
+			requiredPermission: "docker:stacks",
+		},
+		{
+			path: "/compose/stacks/:name/diff",
+			method: "GET",
+			handler: "../../../pages/api/docker/compose/stacks/[name]/diff.ts",
+			requiredPermission: "docker:read",
+		},
+		{
+			path: "/compose/stacks/:name/deploy",
+			method: "POST",
+			handler: "../../../pages/api/docker/compose/stacks/[name]/deploy.ts",
+			requiredPermission: "docker:stacks",
 		},
 	],
 
+	settings: {
+		schema: dockerSettings,
+	},
+
 	sandbox: {
 		allowedCommands: ["docker", "docker-compose"],
 		timeout: 30000,
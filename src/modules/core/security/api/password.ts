@@ -32,7 +32,8 @@ export const POST: APIRoute = async ({ cookies, request }) => {
 			});
 		}
 
-		changePassword(user.username, newPassword);
+		// Other devices are signed out; this browser keeps its session
+		changePassword(user.username, newPassword, user.sessionId);
 		logAction(user.username, "CHANGE_PASSWORD", user.username, "Changed own password");
 
 		return new Response(JSON.stringify({ ok: true, message: "Password changed successfully" }), {
@@ -3,12 +3,14 @@
  */
 import type { APIRoute } from "astro";
 import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
 import { logAction } from "../../../../lib/audit";
 import { updateUser, deleteUser, changePassword, type UserRole } from "../../../../lib/users";
+import { disableTwoFactor } from "../../../../lib/two-factor";
 
 export const PUT: APIRoute = async ({ cookies, request, params }) => {
 	const user = getUserFromCookies(cookies);
-	if (!user || user.role !== "admin") {
+	if (!user || !hasPermission(user.role, "admin")) {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
 
@@ -19,7 +21,7 @@ export const PUT: APIRoute = async ({ cookies, request, params }) => {
 
 	try {
 		const body = await request.json();
-		const { role, password } = body;
+		const { role, password, resetTwoFactor } = body;
 
 		if (role) {
 			updateUser(username, { role: role as UserRole });
@@ -31,6 +33,11 @@ export const PUT: APIRoute = async ({ cookies, request, params }) => {
 			logAction(user.username, "UPDATE_USER", username, "Changed password");
 		}
 
+		if (resetTwoFactor) {
+			disableTwoFactor(username);
+			logAction(user.username, "UPDATE_USER", username, "Reset two-factor authentication");
+		}
+
 		return new Response(JSON.stringify({ ok: true }), {
 			status: 200,
 			headers: { "Content-Type": "application/json" },
@@ -48,7 +55,7 @@ export const PUT: APIRoute = async ({ cookies, request, params }) => {
 
 export const DELETE: APIRoute = async ({ cookies, params }) => {
 	const user = getUserFromCookies(cookies);
-	if (!user || user.role !== "admin") {
+	if (!user || !hasPermission(user.role, "admin")) {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
 
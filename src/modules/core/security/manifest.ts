@@ -12,6 +12,10 @@ const manifest: ModuleManifest = {
 	description: "RBAC, user management, and security settings",
 	type: "core",
 
+	permissions: [
+		{ id: "admin", label: "Administration", description: "Manage users, roles, modules and audit logs" },
+	],
+
 	navItems: [
 		{
 			id: "users",
@@ -3,6 +3,7 @@
  */
 import type { APIRoute } from "astro";
 import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
 import { readFileSync, writeFileSync, existsSync } from "fs";
 
 const SERVICE_CONFIGS: Record<string, string[]> = {
@@ -74,8 +75,8 @@ export const POST: APIRoute = async ({ cookies, request }) => {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
 
-	if (user.role !== "admin") {
-		return new Response(JSON.stringify({ error: "Admin only" }), { status: 403 });
+	if (!hasPermission(user.role, "service:config")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
 	}
 
 	try {
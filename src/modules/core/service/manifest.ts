@@ -11,6 +11,12 @@ const manifest: ModuleManifest = {
 	description: "Linux service management with logs and configuration",
 	type: "core",
 
+	permissions: [
+		{ id: "service:read", label: "View services", description: "View service status and logs" },
+		{ id: "service:control", label: "Control services", description: "Start, stop and restart services" },
+		{ id: "service:config", label: "Edit service configuration", description: "Rewrite allowlisted configuration files such as sshd_config" },
+	],
+
 	navItems: [
 		{
 			id: "services",
@@ -19,6 +25,7 @@ const manifest: ModuleManifest = {
 			icon: `<svg class="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2"><path d="M4 6h16M4 12h16M4 18h16"/></svg>`,
 			group: "",
 			order: 3,
+			requiredPermission: "service:read",
 		},
 	],
 
@@ -28,6 +35,7 @@ const manifest: ModuleManifest = {
 			component: "../../pages/services.astro",
 			title: "Services",
 			description: "Manage Linux services, view logs, and edit configurations",
+			requiredPermission: "service:read",
 		},
 	],
 
@@ -36,31 +44,37 @@ const manifest: ModuleManifest = {
 			path: "/list",
 			method: "GET",
 			handler: "./api/list.ts",
+			requiredPermission: "service:read",
 		},
 		{
 			path: "/status",
 			method: "GET",
 			handler: "./api/status.ts",
+			requiredPermission: "service:read",
 		},
 		{
 			path: "/action",
 			method: "POST",
 			handler: "./api/action.ts",
+			requiredPermission: "service:control",
 		},
 		{
 			path: "/logs",
 			method: "GET",
 			handler: "./api/logs.ts",
+			requiredPermission: "service:read",
 		},
 		{
 			path: "/config",
 			method: "GET",
 			handler: "./api/config.ts",
+			requiredPermission: "service:read",
 		},
 		{
 			path: "/config",
 			method: "POST",
 			handler: "./api/config.ts",
+			requiredPermission: "service:config",
 		},
 	],
 
@@ -11,6 +11,11 @@ const manifest: ModuleManifest = {
 	description: "Application configuration and preferences",
 	type: "core",
 
+	permissions: [
+		{ id: "settings:read", label: "View settings" },
+		{ id: "settings:write", label: "Change settings", description: "Edit settings and import configuration" },
+	],
+
 	navItems: [
 		{
 			id: "settings",
@@ -36,22 +41,26 @@ const manifest: ModuleManifest = {
 		{
 			path: "/",
 			method: "GET",
-			handler: "./api/index.ts",
+			handler: "../../../pages/api/settings/index.ts",
+			requiredPermission: "settings:read",
 		},
 		{
 			path: "/",
 			method: "POST",
-			handler: "./api/index.ts",
+			handler: "../../../pages/api/settings/index.ts",
+			requiredPermission: "settings:write",
 		},
 		{
 			path: "/export",
 			method: "GET",
-			handler: "./api/export.ts",
+			handler: "../../../pages/api/settings/export.ts",
+			requiredPermission: "settings:read",
 		},
 		{
 			path: "/import",
 			method: "POST",
-			handler: "./api/import.ts",
+			handler: "../../../pages/api/settings/import.ts",
+			requiredPermission: "settings:write",
 		},
 	],
 };
@@ -11,6 +11,10 @@ const manifest: ModuleManifest = {
 	description: "Server hardware and OS information",
 	type: "core",
 
+	permissions: [
+		{ id: "system:read", label: "View system metrics", description: "CPU, memory, disk and network usage" },
+	],
+
 	navItems: [
 		{
 			id: "system",
@@ -19,6 +23,7 @@ const manifest: ModuleManifest = {
 			icon: `<svg class="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2"><rect x="2" y="3" width="20" height="14" rx="2"/><path d="M8 21h8m-4-4v4"/></svg>`,
 			group: "",
 			order: 4,
+			requiredPermission: "system:read",
 		},
 	],
 
@@ -28,6 +33,7 @@ const manifest: ModuleManifest = {
 			component: "../../pages/system.astro",
 			title: "System",
 			description: "Server hardware and OS information",
+			requiredPermission: "system:read",
 		},
 	],
 
@@ -35,7 +41,14 @@ const manifest: ModuleManifest = {
 		{
 			path: "/info",
 			method: "GET",
-			handler: "./api/info.ts",
+			handler: "../../../pages/api/system.ts",
+			requiredPermission: "system:read",
+		},
+		{
+			path: "/history",
+			method: "GET",
+			handler: "../../../pages/api/system/history.ts",
+			requiredPermission: "system:read",
 		},
 	],
 };
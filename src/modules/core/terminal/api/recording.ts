@@ -0,0 +1,44 @@
+/**
+ * Terminal Recording API - GET /api/modules/terminal/recordings/:id
+ * Returns a host terminal session's recording (asciicast v2) for replay
+ */
+import fs from "node:fs";
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction } from "../../../../lib/audit";
+import { getRecordingPath } from "../../../../lib/host-terminal";
+
+export const GET: APIRoute = async ({ cookies, params, url }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "admin")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	const file = params.id ? getRecordingPath(params.id) : null;
+	if (!file) {
+		return new Response(JSON.stringify({ error: "Recording not found" }), {
+			status: 404,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+
+	try {
+		const data = fs.readFileSync(file, "utf-8");
+		logAction(user.username, "TERMINAL_REPLAY", params.id!, "Viewed host terminal recording");
+
+		const download = url.searchParams.get("download") === "1";
+		return new Response(data, {
+			status: 200,
+			headers: {
+				"Content-Type": "application/x-asciicast",
+				...(download ? { "Content-Disposition": `attachment; filename="${params.id}.cast"` } : {}),
+			},
+		});
+	} catch (err) {
+		return new Response(JSON.stringify({ error: "Internal server error" }), {
+			status: 500,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
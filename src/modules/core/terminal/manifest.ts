@@ -0,0 +1,93 @@
+/**
+ * Terminal module manifest - Admin shell on the host
+ */
+
+import type { ModuleManifest } from "../../types";
+import type { SettingsSchema } from "../../settings";
+
+export const terminalSettings = {
+	shell: {
+		type: "text",
+		label: "Login shell",
+		description: "Shell started for each session (must be listed in /etc/shells)",
+		default: "/bin/bash",
+		required: true,
+	},
+	user: {
+		type: "text",
+		label: "Run as user",
+		description: "Switch to this existing account with su (leave empty for the user ServerPilot runs as)",
+	},
+	maxSessions: {
+		type: "number",
+		label: "Concurrent sessions",
+		description: "Sessions allowed at the same time across all admins",
+		default: 2,
+	},
+	idleMinutes: {
+		type: "number",
+		label: "Idle timeout",
+		description: "Minutes without input before a session is closed (0 disables)",
+		default: 30,
+	},
+	recordingRetentionDays: {
+		type: "number",
+		label: "Keep recordings for",
+		description: "Days before a session recording is deleted (0 keeps them forever)",
+		default: 90,
+	},
+	recordingMaxTotalMb: {
+		type: "number",
+		label: "Recordings size limit",
+		description: "MB all recordings may take up; the oldest are deleted first (0 disables)",
+		default: 1024,
+	},
+} satisfies SettingsSchema;
+
+const manifest: ModuleManifest = {
+	id: "terminal",
+	name: "Terminal",
+	version: "1.0.0",
+	description: "Recorded shell sessions on the host",
+	type: "core",
+
+	navItems: [
+		{
+			id: "terminal",
+			label: "Terminal",
+			href: "/terminal",
+			icon: `<svg class="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2"><path d="M4 17l6-6-6-6m8 14h8"/></svg>`,
+			group: "Admin",
+			order: 5,
+			requiredPermission: "admin",
+		},
+	],
+
+	pages: [
+		{
+			route: "/terminal",
+			component: "../../pages/terminal.astro",
+			title: "Terminal",
+			description: "Shell on the host",
+			requiredPermission: "admin",
+		},
+	],
+
+	apiRoutes: [
+		// GET /session is a WebSocket endpoint, registered in middleware.ts
+		{
+			path: "/recordings/:id",
+			method: "GET",
+			handler: "./api/recording.ts",
+			requiredPermission: "admin",
+		},
+	],
+
+	settings: {
+		schema: terminalSettings,
+		// These pick the program and account admin shells run as
+		writePermission: "admin",
+	},
+};
+
+export default manifest;
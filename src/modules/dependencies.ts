@@ -0,0 +1,64 @@
+/**
+ * Module dependencies - load ordering for manifests that declare
+ * `dependencies` / `optionalDependencies` on other module ids.
+ */
+
+import type { ModuleManifest } from "./types";
+
+/** Ids a manifest depends on; optional ones only order loading. */
+export function dependencyIds(manifest: ModuleManifest, includeOptional = true): string[] {
+	return [
+		...Object.keys(manifest.dependencies ?? {}),
+		...(includeOptional ? Object.keys(manifest.optionalDependencies ?? {}) : []),
+	];
+}
+
+/**
+ * Order modules so every module comes after the modules it depends on
+ * (Kahn's algorithm, keeping the original order between independent modules).
+ * Dependencies outside the list are ignored here and reported by validation.
+ * Modules caught in a cycle are returned separately with the cycle path.
+ */
+export function sortByDependencies<T extends { manifest: ModuleManifest }>(
+	items: T[]
+): { ordered: T[]; cyclic: { item: T; cycle: string[] }[] } {
+	const byId = new Map(items.map((item) => [item.manifest.id, item]));
+	const remaining = new Map<string, Set<string>>();
+	for (const item of items) {
+		remaining.set(item.manifest.id, new Set(dependencyIds(item.manifest).filter((id) => byId.has(id))));
+	}
+
+	const ordered: T[] = [];
+	let progress = true;
+	while (progress) {
+		progress = false;
+		for (const item of items) {
+			const deps = remaining.get(item.manifest.id);
+			if (!deps || deps.size > 0) continue;
+
+			ordered.push(item);
+			remaining.delete(item.manifest.id);
+			for (const other of remaining.values()) {
+				other.delete(item.manifest.id);
+			}
+			progress = true;
+		}
+	}
+
+	const cyclic = Array.from(remaining.keys()).map((id) => ({
+		item: byId.get(id)!,
+		cycle: findCycle(id, remaining),
+	}));
+	return { ordered, cyclic };
+}
+
+/** Follow unresolved dependencies from `start` until an id repeats. */
+function findCycle(start: string, remaining: Map<string, Set<string>>): string[] {
+	const path: string[] = [];
+	let current: string | undefined = start;
+	while (current && !path.includes(current)) {
+		path.push(current);
+		current = remaining.get(current)?.values().next().value;
+	}
+	return current ? [...path.slice(path.indexOf(current)), current] : path;
+}
@@ -0,0 +1,78 @@
+/**
+ * Module files - resolves the handler, hook, page and widget paths a
+ * manifest names. Paths are relative to the manifest: core files are bundled
+ * via import.meta.glob, external files are imported from the package at runtime.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import type { LoadedModule, ModuleManifest, ModuleSource } from "./types";
+
+// Handler and hook files a core manifest may point at, keyed by path relative to this file
+const coreHandlers = import.meta.glob<Record<string, unknown>>([
+	"./core/*/api/**/*.ts",
+	"./core/*/hooks/**/*.ts",
+	"../pages/api/**/*.ts",
+	"!../pages/api/modules/**",
+]);
+
+/**
+ * Import a file shipped by an external module (manifest, API handler, page
+ * or widget). Paths are relative to the package root and may not escape it.
+ * The file's mtime is added to the URL so a reinstall loads fresh code.
+ */
+export async function importModuleFile(source: ModuleSource, file: string): Promise<Record<string, unknown>> {
+	const resolved = path.resolve(source.path, file);
+	if (resolved !== source.path && !resolved.startsWith(source.path + path.sep)) {
+		throw new Error(`Path "${file}" is outside the module package`);
+	}
+
+	const url = pathToFileURL(resolved);
+	url.searchParams.set("v", String(fs.statSync(resolved).mtimeMs));
+	return import(/* @vite-ignore */ url.href);
+}
+
+/** Bundle key for a core module file, e.g. "./core/docker/api/x.ts". */
+function coreFileKey(moduleId: string, file: string): string {
+	return normalizeRelative(`./core/${moduleId}/` + file.replace(/^\.\//, ""));
+}
+
+/** Whether a file named in a manifest exists (inside the package, for external modules). */
+export function moduleFileExists(manifest: ModuleManifest, source: ModuleSource | undefined, file: string): boolean {
+	if (manifest.type === "core") {
+		return coreFileKey(manifest.id, file) in coreHandlers;
+	}
+	if (!source) return false;
+
+	const resolved = path.resolve(source.path, file);
+	return resolved.startsWith(source.path + path.sep) && fs.existsSync(resolved);
+}
+
+/**
+ * Resolve a file named in a module's manifest (relative to the manifest) to
+ * its exports. External files are imported from the installed package at runtime.
+ */
+export async function loadModuleExports(module: LoadedModule, file: string): Promise<Record<string, unknown> | null> {
+	if (module.manifest.type !== "core") {
+		return module.source ? await importModuleFile(module.source, file) : null;
+	}
+
+	const load = coreHandlers[coreFileKey(module.manifest.id, file)];
+	return load ? await load() : null;
+}
+
+/** Collapse "a/b/../c" style segments while keeping the leading "./" or "../". */
+function normalizeRelative(file: string): string {
+	const out: string[] = [];
+	for (const part of file.split("/")) {
+		if (part === "." || part === "") continue;
+		if (part === ".." && out.length > 0 && out[out.length - 1] !== "..") {
+			out.pop();
+		} else {
+			out.push(part);
+		}
+	}
+	return out[0] === ".." ? out.join("/") : `./${out.join("/")}`;
+}
+
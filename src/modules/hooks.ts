@@ -0,0 +1,38 @@
+/**
+ * Module lifecycle hooks - runs the files named in a manifest's `hooks`.
+ *
+ * A hook file default-exports `(context) => void | Promise<void>`; it gets
+ * the module id and version. Hooks share the module's sandbox timeout.
+ */
+
+import { loadModuleExports } from "./files";
+import { DEFAULT_ROUTE_TIMEOUT, runWithTimeout } from "./router";
+import type { LoadedModule, ModuleHooks } from "./types";
+
+export interface HookContext {
+	moduleId: string;
+	version: string;
+}
+
+/** Run one lifecycle hook if the module declares it; throws on failure or timeout. */
+export async function runModuleHook(module: LoadedModule, hook: keyof ModuleHooks): Promise<void> {
+	const file = module.manifest.hooks?.[hook];
+	if (!file) return;
+
+	const exports = await loadModuleExports(module, file);
+	const fn = exports?.default;
+	if (typeof fn !== "function") {
+		throw new Error(`${hook} hook "${file}" must default-export a function`);
+	}
+
+	const timeout = module.manifest.sandbox?.timeout ?? DEFAULT_ROUTE_TIMEOUT;
+	const context: HookContext = { moduleId: module.manifest.id, version: module.manifest.version };
+	const done = await runWithTimeout(async (ctx: HookContext) => {
+		await fn(ctx);
+		return true;
+	}, context, timeout);
+
+	if (!done) {
+		throw new Error(`${hook} hook timed out after ${timeout}ms`);
+	}
+}
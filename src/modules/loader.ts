@@ -1,26 +1,51 @@
 /**
- * Module loader - discovers and loads modules at build-time.
+ * Module loader - discovers and loads modules.
  * 
- * Core modules are loaded from src/modules/core/
- * External modules from node_modules/serverpilot-module-*
+ * Core modules are loaded from src/modules/core/ at build-time.
+ * External modules are loaded at runtime from node_modules/serverpilot-module-*
  */
 
-import { registerModule } from "./registry";
+import * as fs from "fs";
+import * as path from "path";
+import {
+	registerModule,
+	registerModuleError,
+	unregisterModule,
+	getModule,
+	getAllModules,
+	loadModuleStates,
+} from "./registry";
+import { importModuleFile } from "./files";
+import { sortByDependencies } from "./dependencies";
+import { sealStoredSecrets } from "./settings";
+import type { LoadedModule, ModuleManifest, ModuleSource } from "./types";
+
+export const EXTERNAL_PREFIX = "serverpilot-module-";
+
+const NODE_MODULES = path.join(process.cwd(), "node_modules");
+
+/** A manifest waiting to be registered (in dependency order). */
+interface ModuleCandidate {
+	manifest: ModuleManifest;
+	source?: ModuleSource;
+}
 
 /**
- * Load all core modules
+ * Collect all core module manifests
  */
-async function loadCoreModules(): Promise<void> {
+async function collectCoreModules(): Promise<ModuleCandidate[]> {
+	const candidates: ModuleCandidate[] = [];
+
 	try {
 		const { default: systemManifest } = await import("./core/system/manifest");
-		registerModule({ ...systemManifest, id: "system", type: "core" });
+		candidates.push({ manifest: { ...systemManifest, id: "system", type: "core" } });
 	} catch (err) {
 		console.error("[modules] Failed to load system module:", err);
 	}
 
 	try {
 		const { default: settingsManifest } = await import("./core/settings/manifest");
-		registerModule({ ...settingsManifest, id: "settings", type: "core", canDisable: false });
+		candidates.push({ manifest: { ...settingsManifest, id: "settings", type: "core", canDisable: false } });
 	} catch (err) {
 		console.error("[modules] Failed to load settings module:", err);
 	}
@@ -28,7 +53,7 @@ async function loadCoreModules(): Promise<void> {
 	// Try to load Docker as core module (optional - may not exist yet)
 	try {
 		const { default: dockerManifest } = await import("./core/docker/manifest");
-		registerModule({ ...dockerManifest, id: "docker", type: "core" });
+		candidates.push({ manifest: { ...dockerManifest, id: "docker", type: "core" } });
 	} catch {
 		// Docker module not found - that's OK
 	}
@@ -36,15 +61,31 @@ async function loadCoreModules(): Promise<void> {
 	// Load Service module
 	try {
 		const { default: serviceManifest } = await import("./core/service/manifest");
-		registerModule({ ...serviceManifest, id: "service", type: "core" });
+		candidates.push({ manifest: { ...serviceManifest, id: "service", type: "core" } });
 	} catch (err) {
 		console.error("[modules] Failed to load service module:", err);
 	}
 
+	// Load Alerts module (rules, notification channels, history)
+	try {
+		const { default: alertsManifest } = await import("./core/alerts/manifest");
+		candidates.push({ manifest: { ...alertsManifest, id: "alerts", type: "core" } });
+	} catch (err) {
+		console.error("[modules] Failed to load alerts module:", err);
+	}
+
+	// Load Terminal module (host shell for admins)
+	try {
+		const { default: terminalManifest } = await import("./core/terminal/manifest");
+		candidates.push({ manifest: { ...terminalManifest, id: "terminal", type: "core" } });
+	} catch (err) {
+		console.error("[modules] Failed to load terminal module:", err);
+	}
+
 	// Load Security module (RBAC + User Management) - cannot be disabled
 	try {
 		const { default: securityManifest } = await import("./core/security/manifest");
-		registerModule({ ...securityManifest, id: "security", type: "core", canDisable: false });
+		candidates.push({ manifest: { ...securityManifest, id: "security", type: "core", canDisable: false } });
 	} catch (err) {
 		console.error("[modules] Failed to load security module:", err);
 	}
@@ -52,7 +93,7 @@ async function loadCoreModules(): Promise<void> {
 	// Load Audit module - cannot be disabled
 	try {
 		const { default: auditManifest } = await import("./core/audit/manifest");
-		registerModule({ ...auditManifest, id: "audit", type: "core", canDisable: false });
+		candidates.push({ manifest: { ...auditManifest, id: "audit", type: "core", canDisable: false } });
 	} catch (err) {
 		console.error("[modules] Failed to load audit module:", err);
 	}
@@ -60,25 +101,135 @@ async function loadCoreModules(): Promise<void> {
 	// Load Modules page as a core module - cannot be disabled
 	try {
 		const { default: modulesManifest } = await import("./core/modules/manifest");
-		registerModule({ ...modulesManifest, id: "modules", type: "core", canDisable: false });
+		candidates.push({ manifest: { ...modulesManifest, id: "modules", type: "core", canDisable: false } });
 	} catch (err) {
 		console.error("[modules] Failed to load modules module:", err);
 	}
+
+	return candidates;
 }
 
 /**
- * Load external modules from node_modules
+ * Render an external page or widget. The component file must default-export
+ * a function returning an HTML string (or a promise of one).
+ */
+export async function renderModuleComponent(
+	module: LoadedModule,
+	component: string,
+	context: Record<string, unknown>
+): Promise<string> {
+	if (!module.source) {
+		throw new Error(`Module "${module.manifest.id}" has no package to render from`);
+	}
+
+	const render = (await importModuleFile(module.source, component)).default;
+	if (typeof render !== "function") {
+		throw new Error(`${component} must default-export a render function`);
+	}
+	return String(await render(context));
+}
+
+/** Check that a package's manifest belongs to it; the registry validates the rest. */
+function checkPackageManifest(manifest: unknown, packageName: string): string | null {
+	if (!manifest || typeof manifest !== "object") {
+		return "Manifest must export an object";
+	}
+
+	const id = (manifest as Partial<ModuleManifest>).id;
+	if (packageName !== EXTERNAL_PREFIX + id) {
+		return `Manifest id "${id}" does not match package name ${packageName}`;
+	}
+	return null;
+}
+
+/**
+ * Locate the manifest in an installed package: the file named by
+ * `serverpilot.manifest` in its package.json, else manifest.js / manifest.json.
+ */
+function findManifestFile(packageDir: string): string | null {
+	const pkg = JSON.parse(fs.readFileSync(path.join(packageDir, "package.json"), "utf-8"));
+	const candidates = [pkg.serverpilot?.manifest, "manifest.js", "manifest.mjs", "manifest.json"].filter(Boolean);
+	for (const file of candidates) {
+		if (fs.existsSync(path.join(packageDir, file))) return file;
+	}
+	return null;
+}
+
+/** Read an installed package's manifest, or the reason it cannot be loaded. */
+async function readExternalModule(
+	packageName: string
+): Promise<ModuleCandidate | { error: string; source: ModuleSource; manifest?: Partial<ModuleManifest> }> {
+	const source: ModuleSource = { packageName, path: path.join(NODE_MODULES, packageName) };
+
+	try {
+		if (!fs.existsSync(path.join(source.path, "package.json"))) {
+			throw new Error("Package is not installed");
+		}
+
+		const manifestFile = findManifestFile(source.path);
+		if (!manifestFile) {
+			throw new Error("No manifest found (set \"serverpilot.manifest\" in package.json)");
+		}
+
+		const manifest = manifestFile.endsWith(".json")
+			? JSON.parse(fs.readFileSync(path.join(source.path, manifestFile), "utf-8"))
+			: ((await importModuleFile(source, manifestFile)).default as ModuleManifest);
+
+		const error = checkPackageManifest(manifest, packageName);
+		if (error) {
+			return { error, source, manifest };
+		}
+
+		return { manifest: { ...manifest, type: "external" }, source };
+	} catch (err) {
+		return { error: err instanceof Error ? err.message : String(err), source };
+	}
+}
+
+/**
+ * Load (or reload) a single external package and register it. Failures are
+ * recorded on the returned module (and the registry entry) rather than thrown.
+ */
+export async function loadExternalModule(packageName: string): Promise<LoadedModule> {
+	const result = await readExternalModule(packageName);
+	if ("error" in result) {
+		return registerModuleError(packageName.slice(EXTERNAL_PREFIX.length), result.source, result.error, result.manifest);
+	}
+	return registerModule(result.manifest, result.source);
+}
+
+/** Remove an external module from the registry (after uninstall). */
+export function unloadExternalModule(id: string): boolean {
+	const module = getModule(id);
+	if (!module || module.manifest.type !== "external") return false;
+	return unregisterModule(id);
+}
+
+/**
+ * Collect external modules from node_modules
  * External packages should be named: serverpilot-module-*
  * Users install: npm install serverpilot-module-example
  * 
- * Note: External modules are loaded at runtime, not build time
- * This allows adding new modules without rebuilding
+ * External modules are plain JavaScript loaded at runtime, so installing
+ * one does not require rebuilding ServerPilot. Packages whose manifest
+ * cannot be read are registered as failed right away.
  */
-async function loadExternalModules(): Promise<void> {
-	// External modules are loaded dynamically at runtime
-	// The module API will handle requests to external modules
-	// This is a placeholder for future enhancement
-	console.log("[modules] External module support ready - install serverpilot-module-* packages");
+async function collectExternalModules(): Promise<ModuleCandidate[]> {
+	if (!fs.existsSync(NODE_MODULES)) return [];
+
+	const packages = fs.readdirSync(NODE_MODULES).filter((name) => name.startsWith(EXTERNAL_PREFIX));
+	const candidates: ModuleCandidate[] = [];
+	for (const packageName of packages) {
+		const result = await readExternalModule(packageName);
+		if ("error" in result) {
+			registerModuleError(packageName.slice(EXTERNAL_PREFIX.length), result.source, result.error, result.manifest);
+		} else {
+			candidates.push(result);
+		}
+	}
+
+	console.log(`[modules] Found ${packages.length} external module package(s)`);
+	return candidates;
 }
 
 /**
@@ -87,10 +238,25 @@ async function loadExternalModules(): Promise<void> {
 export async function initModules(): Promise<void> {
 	console.log("[modules] Initializing module system...");
 
-	await loadCoreModules();
-	await loadExternalModules();
+	// Enabled/disabled choices must be known before modules register
+	loadModuleStates();
+
+	// Register dependencies before the modules that need them
+	const candidates = [...(await collectCoreModules()), ...(await collectExternalModules())];
+	const { ordered, cyclic } = sortByDependencies(candidates);
+
+	for (const { manifest, source } of ordered) {
+		registerModule(manifest, source);
+	}
+	for (const { item, cycle } of cyclic) {
+		registerModule(item.manifest, item.source, [`Dependency cycle: ${cycle.join(" -> ")}`]);
+	}
+
+	// Secrets saved before password settings were encrypted
+	for (const module of getAllModules()) {
+		sealStoredSecrets(module.manifest.id);
+	}
 
-	const { getAllModules } = await import("./registry");
 	console.log(`[modules] Loaded ${getAllModules().length} module(s)`);
 }
 
@@ -2,26 +2,131 @@
  * Module registry - tracks all loaded modules in the system.
  */
 
+import { hasPermission } from "../lib/roles";
+import { listModuleStates, recordModuleVersion, saveModuleEnabled, type ModuleState } from "../lib/module-state";
 import type { UserRole } from "../lib/users";
-import type { LoadedModule, ModuleManifest, NavItem, ModulePage, ModuleWidget } from "./types";
+import { dependencyIds } from "./dependencies";
+import { validateManifest } from "./validator";
+import type {
+	LoadedModule,
+	ModuleManifest,
+	ModuleSource,
+	NavItem,
+	ModulePage,
+	ModuleWidget,
+	PermissionDefinition,
+} from "./types";
 
 const modules = new Map<string, LoadedModule>();
-const disabledModules = new Set<string>();
+const moduleStates = new Map<string, ModuleState>();
+
+/** Load persisted enabled/disabled state; call before registering modules. */
+export function loadModuleStates(): void {
+	moduleStates.clear();
+	for (const state of listModuleStates()) {
+		moduleStates.set(state.moduleId, state);
+	}
+}
+
+export function getModuleStateInfo(id: string): ModuleState | undefined {
+	return moduleStates.get(id);
+}
+
+/** An id is free, or already held by an earlier load of the same package. */
+function canTakeId(id: string, source?: ModuleSource): boolean {
+	const existing = modules.get(id);
+	return !existing || (!!source && existing.source?.packageName === source.packageName);
+}
+
+/**
+ * Validate and register a module. Invalid manifests are quarantined: listed
+ * with their validation report but never enabled. A module whose id belongs
+ * to another module is refused and not stored at all. `loadErrors` are
+ * problems found by the loader (e.g. dependency cycles). Returns the record.
+ */
+export function registerModule(manifest: ModuleManifest, source?: ModuleSource, loadErrors: string[] = []): LoadedModule {
+	const others = getAllModules().filter((m) => m.loaded && m.manifest.id !== manifest.id);
+	const validation = validateManifest(manifest, others, source);
+	validation.errors.push(...loadErrors);
+
+	if (!canTakeId(manifest.id, source)) {
+		validation.errors.unshift(`Module id "${manifest.id}" is already used by another module`);
+	}
+
+	if (validation.errors.length > 0) {
+		const module: LoadedModule = {
+			manifest,
+			enabled: false,
+			loaded: false,
+			error: `Invalid manifest: ${validation.errors.join("; ")}`,
+			validation,
+			source,
+		};
+		if (canTakeId(manifest.id, source)) {
+			modules.set(manifest.id, module);
+		}
+		console.error(`[modules] Quarantined ${manifest.name ?? manifest.id}: ${validation.errors.join("; ")}`);
+		return module;
+	}
+
+	const previous = moduleStates.get(manifest.id);
+	const state =
+		previous?.installedVersion === manifest.version ? previous : recordModuleVersion(manifest.id, manifest.version);
+	moduleStates.set(manifest.id, state);
 
-export function registerModule(manifest: ModuleManifest): void {
-	const isDisabled = disabledModules.has(manifest.id);
 	const module: LoadedModule = {
 		manifest,
-		enabled: !isDisabled,
+		// Protected modules are always on; others also need their dependencies on
+		enabled:
+			manifest.canDisable === false ||
+			(state.enabled && dependencyIds(manifest, false).every((dep) => modules.get(dep)?.enabled)),
 		loaded: true,
+		validation,
+		source,
 	};
 
-	if (modules.has(manifest.id)) {
-		console.warn(`[modules] Module "${manifest.id}" is already registered. Overwriting.`);
-	}
-
 	modules.set(manifest.id, module);
+	for (const warning of validation.warnings) {
+		console.warn(`[modules] ${manifest.id}: ${warning}`);
+	}
 	console.log(`[modules] Registered module: ${manifest.name} (${manifest.id}) v${manifest.version}`);
+	return module;
+}
+
+/**
+ * Record an external package that failed to load so the module manager can
+ * show the error. It is never enabled and contributes no routes or pages.
+ */
+export function registerModuleError(
+	id: string,
+	source: ModuleSource,
+	error: string,
+	manifest?: Partial<ModuleManifest>
+): LoadedModule {
+	const module: LoadedModule = {
+		manifest: {
+			name: manifest?.name || source.packageName,
+			version: manifest?.version || "0.0.0",
+			description: manifest?.description || "",
+			author: manifest?.author,
+			id,
+			type: "external",
+		},
+		enabled: false,
+		loaded: false,
+		error,
+		source,
+	};
+	if (canTakeId(id, source)) {
+		modules.set(id, module);
+	}
+	console.error(`[modules] Failed to load ${source.packageName}: ${error}`);
+	return module;
+}
+
+export function unregisterModule(id: string): boolean {
+	moduleStates.delete(id);
+	return modules.delete(id);
 }
 
 export function getModule(id: string): LoadedModule | undefined {
@@ -36,22 +141,74 @@ export function getEnabledModules(): LoadedModule[] {
 	return getAllModules().filter((m) => m.enabled);
 }
 
-export function setModuleEnabled(id: string, enabled: boolean): boolean {
+export type ModuleToggleResult =
+	| { ok: true; changed: string[] }
+	| { ok: false; error: string; dependents?: string[] };
+
+/** Loaded modules that list `id` in their (required) dependencies. */
+export function getDependents(id: string): LoadedModule[] {
+	return getAllModules().filter((m) => m.loaded && dependencyIds(m.manifest, false).includes(id));
+}
+
+/**
+ * Enabled modules that need `id`, directly or through another module,
+ * ordered so each comes before the modules it depends on (safe disable order).
+ */
+export function getEnabledDependents(id: string): string[] {
+	const order: string[] = [];
+	const visit = (current: string) => {
+		for (const dependent of getDependents(current)) {
+			const depId = dependent.manifest.id;
+			if (!dependent.enabled || order.includes(depId)) continue;
+			visit(depId);
+			order.push(depId);
+		}
+	};
+	visit(id);
+	return order;
+}
+
+/**
+ * Enable or disable a module. Enabling requires its dependencies to be
+ * enabled; disabling is refused while enabled modules depend on it unless
+ * `cascade` is set, in which case those dependents are disabled too.
+ */
+export function setModuleEnabled(id: string, enabled: boolean, options: { cascade?: boolean } = {}): ModuleToggleResult {
 	const module = modules.get(id);
-	if (!module) return false;
+	if (!module) return { ok: false, error: "Module not found" };
+	// Modules that failed to load have nothing to enable
+	if (enabled && !module.loaded) return { ok: false, error: `Module failed to load: ${module.error}` };
+
+	if (enabled) {
+		const missing = dependencyIds(module.manifest, false).filter((dep) => !modules.get(dep)?.enabled);
+		if (missing.length > 0) {
+			return { ok: false, error: `Enable ${missing.join(", ")} first` };
+		}
+		moduleStates.set(id, saveModuleEnabled(id, true));
+		module.enabled = true;
+		return { ok: true, changed: [id] };
+	}
 
-	const canDisable = module.manifest.canDisable !== false;
-	if (!enabled && !canDisable) {
-		return false;
+	if (module.manifest.canDisable === false) {
+		return { ok: false, error: "This module cannot be disabled" };
 	}
 
-	if (enabled) {
-		disabledModules.delete(id);
-	} else {
-		disabledModules.add(id);
+	const dependents = getEnabledDependents(id);
+	if (dependents.length > 0) {
+		if (!options.cascade) {
+			return { ok: false, error: `Required by ${dependents.join(", ")}`, dependents };
+		}
+		const locked = dependents.filter((dep) => modules.get(dep)?.manifest.canDisable === false);
+		if (locked.length > 0) {
+			return { ok: false, error: `Required by ${locked.join(", ")}, which cannot be disabled`, dependents };
+		}
+	}
+
+	for (const changedId of [...dependents, id]) {
+		moduleStates.set(changedId, saveModuleEnabled(changedId, false));
+		modules.get(changedId)!.enabled = false;
 	}
-	module.enabled = enabled;
-	return true;
+	return { ok: true, changed: [...dependents, id] };
 }
 
 export function canDisableModule(id: string): boolean {
@@ -60,18 +217,21 @@ export function canDisableModule(id: string): boolean {
 	return module.manifest.canDisable !== false;
 }
 
-function hasPermission(role: UserRole | undefined, permission: string | undefined): boolean {
-	if (!permission) return true;
-	if (!role) return false;
-
-	const permissions: Record<UserRole, string[]> = {
-		admin: ["*", "admin"],
-		operator: ["docker:read", "docker:write", "service:read", "service:write", "system:read", "settings:read"],
-		viewer: ["docker:read", "service:read", "system:read", "settings:read"],
-	};
-
-	const userPerms = permissions[role] || [];
-	return userPerms.includes("*") || userPerms.includes(permission);
+/**
+ * All permission strings declared by loaded modules (enabled or not),
+ * so roles can be edited before a module is switched on.
+ */
+export function getDeclaredPermissions(): (PermissionDefinition & { moduleId: string; moduleName: string })[] {
+	const seen = new Set<string>();
+	const permissions: (PermissionDefinition & { moduleId: string; moduleName: string })[] = [];
+	for (const module of getAllModules().filter((m) => m.loaded)) {
+		for (const permission of module.manifest.permissions ?? []) {
+			if (seen.has(permission.id)) continue;
+			seen.add(permission.id);
+			permissions.push({ ...permission, moduleId: module.manifest.id, moduleName: module.manifest.name });
+		}
+	}
+	return permissions;
 }
 
 export function getNavItems(user?: { role: UserRole }): NavItem[] {
@@ -120,6 +280,28 @@ export function getAllPages(): ModulePage[] {
 	return pages;
 }
 
+/** The enabled module page mounted at a route, with its owning module. */
+export function findPage(route: string): { module: LoadedModule; page: ModulePage } | undefined {
+	for (const module of getEnabledModules()) {
+		const page = module.manifest.pages?.find((p) => p.route === route);
+		if (page) return { module, page };
+	}
+	return undefined;
+}
+
+/** Widgets at a placement with their owning module, filtered by the user's role. */
+export function getModuleWidgets(placement: string | undefined, user?: { role: UserRole }): { module: LoadedModule; widget: ModuleWidget }[] {
+	const entries: { module: LoadedModule; widget: ModuleWidget }[] = [];
+	for (const module of getEnabledModules()) {
+		for (const widget of module.manifest.widgets ?? []) {
+			if (placement && widget.placement !== placement) continue;
+			if (!hasPermission(user?.role, widget.requiredPermission)) continue;
+			entries.push({ module, widget });
+		}
+	}
+	return entries;
+}
+
 export function getWidgets(placement?: string): ModuleWidget[] {
 	const widgets: ModuleWidget[] = [];
 	for (const module of getEnabledModules()) {
@@ -0,0 +1,97 @@
+/**
+ * Module API router - matches /api/modules/:moduleId/* requests against a
+ * module's declared apiRoutes and resolves their handlers.
+ *
+ * Route paths support ":param" segments (e.g. "/users/:username"); matched
+ * values are passed to the handler as Astro params.
+ */
+
+import type { APIRoute } from "astro";
+import { loadModuleExports } from "./files";
+import type { HttpMethod, LoadedModule, ModuleApiRoute } from "./types";
+
+export const DEFAULT_ROUTE_TIMEOUT = 30000;
+
+export interface RouteMatch {
+	route: ModuleApiRoute;
+	params: Record<string, string>;
+}
+
+export type RouteResolution =
+	| { status: "ok"; match: RouteMatch }
+	| { status: "method_not_allowed"; allow: HttpMethod[] }
+	| { status: "not_found" };
+
+function splitPath(path: string): string[] {
+	return path.split("/").filter(Boolean);
+}
+
+/** Match a request path against a route pattern; returns params or null. */
+export function matchRoutePath(pattern: string, path: string): Record<string, string> | null {
+	const patternParts = splitPath(pattern);
+	const pathParts = splitPath(path);
+	if (patternParts.length !== pathParts.length) return null;
+
+	const params: Record<string, string> = {};
+	for (let i = 0; i < patternParts.length; i++) {
+		const part = patternParts[i];
+		if (part.startsWith(":")) {
+			try {
+				params[part.slice(1)] = decodeURIComponent(pathParts[i]);
+			} catch {
+				return null;
+			}
+		} else if (part !== pathParts[i]) {
+			return null;
+		}
+	}
+	return params;
+}
+
+/**
+ * Find the route for a path and method. Static segments win over params
+ * when several patterns match (e.g. "/users/me" before "/users/:username").
+ */
+export function resolveRoute(routes: ModuleApiRoute[], path: string, method: string): RouteResolution {
+	const matches: RouteMatch[] = [];
+	for (const route of routes) {
+		const params = matchRoutePath(route.path, path);
+		if (params) matches.push({ route, params });
+	}
+
+	if (matches.length === 0) {
+		return { status: "not_found" };
+	}
+
+	const forMethod = matches
+		.filter((m) => m.route.method === method)
+		.sort((a, b) => Object.keys(a.params).length - Object.keys(b.params).length);
+	if (forMethod.length > 0) {
+		return { status: "ok", match: forMethod[0] };
+	}
+
+	return { status: "method_not_allowed", allow: Array.from(new Set(matches.map((m) => m.route.method))) };
+}
+
+/** Resolve a route's handler file to its exports. */
+export function loadRouteHandlers(module: LoadedModule, route: ModuleApiRoute): Promise<Record<string, unknown> | null> {
+	return loadModuleExports(module, route.handler);
+}
+
+/** Run a handler; resolves to null if it takes longer than `timeout` ms. */
+export async function runWithTimeout<C = Parameters<APIRoute>[0], R = Response>(
+	handler: (context: C) => R | Promise<R>,
+	context: C,
+	timeout: number
+): Promise<R | null> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timedOut = new Promise<null>((resolve) => {
+		timer = setTimeout(() => resolve(null), timeout);
+	});
+
+	try {
+		return await Promise.race([Promise.resolve(handler(context)), timedOut]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
@@ -1,19 +1,36 @@
 /**
  * Module sandbox - provides safe command execution for modules
- * 
+ *
  * Each module can define allowed commands in its manifest
- * This utility enforces those restrictions
+ * This utility enforces those restrictions:
+ * - only whitelisted binaries run, and path arguments must fall inside `allowedPaths`
+ * - memory and CPU time are capped with rlimits (`ulimit -v` / `ulimit -t`)
+ * - the server's environment is replaced by a minimal one
+ * - commands can run as an unprivileged uid/gid
+ * - every command (and every refusal) is written to the audit log
  */
 
 import { execFile } from "child_process";
+import { existsSync, mkdirSync, realpathSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
 import { promisify } from "util";
+import { logAction } from "../lib/audit";
+import { ERROR_CODES, LOG_LEVELS } from "../lib/logger";
 
 const execFileAsync = promisify(execFile);
 
+const SANDBOX_PATH = "/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin";
+
 export interface SandboxConfig {
 	allowedCommands: string[];
 	allowedPaths?: string[];
+	maxMemory?: number; // MB
+	maxCpuTime?: number; // seconds
 	timeout?: number;
+	uid?: number;
+	gid?: number;
+	env?: Record<string, string>;
 }
 
 export interface ExecResult {
@@ -22,12 +39,117 @@ export interface ExecResult {
 	code: number | null;
 }
 
+/** Resolve symlinks as far as the path exists, so a link cannot point outside an allowed directory. */
+function resolveReal(target: string): string {
+	let current = path.resolve(target);
+	const rest: string[] = [];
+	while (!existsSync(current)) {
+		const parent = path.dirname(current);
+		if (parent === current) break;
+		rest.unshift(path.basename(current));
+		current = parent;
+	}
+	try {
+		current = realpathSync(current);
+	} catch {
+		// Keep the lexical path if it cannot be resolved
+	}
+	return path.join(current, ...rest);
+}
+
+function isInside(target: string, dir: string): boolean {
+	const relative = path.relative(dir, target);
+	return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+/**
+ * The path part of an argument, if it looks like one ("/x", "./x", "~/x",
+ * "a/../b", "--out=/x", and short options with the value attached: "-f/x", "-xf/x").
+ */
+function pathArgument(arg: string): string | null {
+	const attached = /^-[A-Za-z]+(.+)$/.exec(arg);
+	const value = arg.startsWith("-") && arg.includes("=") ? arg.slice(arg.indexOf("=") + 1) : attached ? attached[1] : arg;
+	if (value.startsWith("/") || value.startsWith(".") || value.startsWith("~") || value.split("/").includes("..")) {
+		return value;
+	}
+	return null;
+}
+
+/**
+ * Variables that decide which binary runs or what gets loaded into it, so a
+ * module could use them to escape allowedCommands (PATH, LD_PRELOAD, NODE_OPTIONS, ...).
+ */
+function isUnsafeEnvName(name: string): boolean {
+	const upper = name.toUpperCase();
+	return (
+		["PATH", "NODE_OPTIONS", "BASH_ENV", "ENV", "IFS", "SHELLOPTS"].includes(upper) ||
+		upper.startsWith("LD_") ||
+		upper.startsWith("DYLD_")
+	);
+}
+
+/** Working directory for a command: the first allowed path, or a private temp dir. */
+function sandboxCwd(moduleId: string, allowedPaths: string[]): string {
+	if (allowedPaths.length > 0) {
+		return allowedPaths[0];
+	}
+	const dir = path.join(tmpdir(), `serverpilot-sandbox-${moduleId}`);
+	mkdirSync(dir, { recursive: true, mode: 0o700 });
+	return dir;
+}
+
+/** Check a command against the sandbox config; returns the reason it is refused, if any. */
+function checkCommand(config: SandboxConfig, command: string, args: string[], cwd: string): string | null {
+	if (!(config.allowedCommands ?? []).includes(command)) {
+		return `disallowed command: ${command}. Allowed: ${(config.allowedCommands ?? []).join(", ")}`;
+	}
+
+	const unsafeEnv = Object.keys(config.env ?? {}).filter(isUnsafeEnvName);
+	if (unsafeEnv.length > 0) {
+		return `environment variable ${unsafeEnv.join(", ")} is not allowed`;
+	}
+
+	const allowed = (config.allowedPaths ?? []).map(resolveReal);
+	for (const arg of args) {
+		const value = pathArgument(arg);
+		if (value === null) continue;
+		if (value.startsWith("~")) {
+			return `path argument "${arg}" uses "~", which is not allowed`;
+		}
+		const target = resolveReal(path.resolve(cwd, value));
+		if (!allowed.some((dir) => isInside(target, dir))) {
+			return allowed.length === 0
+				? `path argument "${arg}" is not allowed (no allowedPaths configured)`
+				: `path argument "${arg}" is outside the allowed paths`;
+		}
+	}
+
+	if ((config.uid !== undefined || config.gid !== undefined) && process.getuid?.() !== 0) {
+		return "running as another uid/gid requires ServerPilot to run as root";
+	}
+	return null;
+}
+
+/**
+ * Wrap the command in a shell that applies rlimits before exec'ing it.
+ * The command and its arguments are passed positionally, never interpolated.
+ */
+function withLimits(config: SandboxConfig, command: string, args: string[]): [string, string[]] {
+	const limits: string[] = [];
+	if (config.maxMemory) limits.push(`ulimit -v ${Math.floor(config.maxMemory * 1024)}`);
+	if (config.maxCpuTime) limits.push(`ulimit -t ${Math.ceil(config.maxCpuTime)}`);
+	if (limits.length === 0 || process.platform === "win32") {
+		return [command, args];
+	}
+	return ["/bin/sh", ["-c", `${limits.join(" && ")} && exec "$0" "$@"`, command, ...args]];
+}
+
 /**
  * Execute a command within the module's sandbox
  * @param moduleId - The module's ID (for logging)
  * @param config - Sandbox configuration from module manifest
  * @param command - Command to execute (must be in allowedCommands)
- * @param args - Arguments to pass to command
+ * @param args - Arguments to pass to command (paths must be inside allowedPaths)
  */
 export async function execInSandbox(
 	moduleId: string,
@@ -35,44 +157,76 @@ export async function execInSandbox(
 	command: string,
 	args: string[] = []
 ): Promise<ExecResult> {
-	// Validate command is in whitelist
-	if (!config.allowedCommands.includes(command)) {
-		throw new Error(
-			`Module "${moduleId}" attempted to execute disallowed command: ${command}. Allowed: ${config.allowedCommands.join(", ")}`
-		);
+	const actor = `module:${moduleId}`;
+	const commandLine = [command, ...args].join(" ");
+	const cwd = sandboxCwd(moduleId, config.allowedPaths ?? []);
+
+	const denied = checkCommand(config, command, args, cwd);
+	if (denied) {
+		logAction(actor, "SANDBOX_EXEC", command, `Denied ${commandLine}: ${denied}`, undefined, {
+			level: LOG_LEVELS.WARN,
+			code: ERROR_CODES.ERR_MODULE_SANDBOX_DENIED,
+		});
+		throw new Error(`Module "${moduleId}" attempted to execute ${denied}`);
 	}
 
 	const timeout = config.timeout ?? 30000;
+	const [file, fileArgs] = withLimits(config, command, args);
+	const started = Date.now();
 
+	let result: ExecResult;
 	try {
-		const { stdout, stderr } = await execFileAsync(command, args, {
+		const { stdout, stderr } = await execFileAsync(file, fileArgs, {
+			cwd,
+			env: { PATH: SANDBOX_PATH, LANG: "C.UTF-8", HOME: cwd, ...config.env },
+			uid: config.uid,
+			gid: config.gid,
 			timeout,
 			encoding: "utf-8",
 			maxBuffer: 10 * 1024 * 1024, // 10MB
 		});
 
-		return {
+		result = {
 			stdout,
 			stderr,
 			code: 0,
 		};
 	} catch (err) {
 		if (err instanceof Error) {
+			const execErr = err as { code?: number | string; signal?: string; killed?: boolean; stdout?: string; stderr?: string };
+
 			// Handle timeout
-			if (err.message.includes("ETIMEDOUT") || err.message.includes("timeout")) {
+			if (execErr.killed || err.message.includes("ETIMEDOUT")) {
+				logAction(actor, "SANDBOX_EXEC", command, `Timed out after ${timeout}ms: ${commandLine}`, undefined, {
+					level: LOG_LEVELS.WARN,
+					code: ERROR_CODES.ERR_TIMEOUT,
+				});
 				throw new Error(`Command "${command}" timed out after ${timeout}ms`);
 			}
 
+			// SIGXCPU / SIGKILL without our timeout means an rlimit was hit
+			const limitHit = execErr.signal === "SIGXCPU" || execErr.signal === "SIGKILL";
+
 			// Handle exec error
-			const execErr = err as { code?: number; stdout?: string; stderr?: string };
-			return {
+			result = {
 				stdout: execErr.stdout ?? "",
-				stderr: execErr.stderr ?? err.message,
-				code: execErr.code ?? 1,
+				stderr: limitHit ? `${execErr.stderr ?? ""}Killed by sandbox limit (${execErr.signal})` : (execErr.stderr ?? err.message),
+				code: typeof execErr.code === "number" ? execErr.code : 1,
 			};
+		} else {
+			throw err;
 		}
-		throw err;
 	}
+
+	logAction(
+		actor,
+		"SANDBOX_EXEC",
+		command,
+		`${commandLine} (exit ${result.code}, ${Date.now() - started}ms)`,
+		undefined,
+		result.code === 0 ? { level: LOG_LEVELS.INFO, code: "INF010" } : { level: LOG_LEVELS.WARN, code: "INF010" }
+	);
+	return result;
 }
 
 /**
@@ -87,11 +241,31 @@ export function validateSandboxConfig(config: SandboxConfig): string[] {
 
 	// Warn about dangerous commands
 	const dangerous = ["rm", "del", "format", "mkfs", "dd"];
-	for (const cmd of config.allowedCommands) {
+	for (const cmd of config.allowedCommands ?? []) {
 		const baseCmd = cmd.split(" ")[0];
 		if (dangerous.includes(baseCmd)) {
 			warnings.push(`Module allows dangerous command: ${cmd}`);
 		}
+		if (["sh", "bash", "env", "sudo"].includes(baseCmd)) {
+			warnings.push(`Module allows "${cmd}", which can run arbitrary commands outside the sandbox rules`);
+		}
+	}
+
+	// Warn about paths that open up the whole filesystem
+	for (const dir of config.allowedPaths ?? []) {
+		if (!path.isAbsolute(dir)) {
+			warnings.push(`Allowed path "${dir}" is not absolute`);
+		} else if (["/", "/etc", "/root", "/home", "/usr"].includes(path.resolve(dir))) {
+			warnings.push(`Module has access to ${dir}`);
+		}
+	}
+
+	if (config.uid === 0 || config.gid === 0) {
+		warnings.push("Module commands run as root");
+	}
+
+	for (const name of Object.keys(config.env ?? {}).filter(isUnsafeEnvName)) {
+		warnings.push(`Sandbox env sets ${name}; commands will be refused until it is removed`);
 	}
 
 	return warnings;
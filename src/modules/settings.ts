@@ -0,0 +1,196 @@
+/**
+ * Module settings - validates values against a module's settings schema and
+ * gives modules typed access to their current settings.
+ *
+ * Usage inside a module:
+ *   const { logTail } = getModuleSettings<typeof dockerSettings>("docker");
+ *
+ * `password` fields are stored encrypted (see lib/secrets.ts) and only
+ * decrypted here.
+ */
+
+import { getStoredModuleSettings, saveModuleSettings } from "../lib/module-settings";
+import { createSecretBox } from "../lib/secrets";
+import { getModule } from "./registry";
+import type { SettingField } from "./types";
+
+export type SettingsSchema = Record<string, SettingField>;
+
+type FieldValue<F extends SettingField> = F["type"] extends "number"
+	? number
+	: F["type"] extends "boolean"
+		? boolean
+		: string;
+
+/** Values for a schema; fields without a default or `required` may be unset. */
+export type SettingsValues<S extends SettingsSchema> = {
+	[K in keyof S]: S[K] extends { default: unknown } | { required: true } ? FieldValue<S[K]> : FieldValue<S[K]> | undefined;
+};
+
+/** Cross-field checks a module's settings must pass before they are saved; returns error messages. */
+export type SettingsValidator = (values: Record<string, unknown>) => string[];
+
+const validators = new Map<string, SettingsValidator>();
+const secrets = createSecretBox("module-settings");
+
+/** Check a module's settings (as they would be after an update) beyond what the schema can express. */
+export function registerSettingsValidator(moduleId: string, validator: SettingsValidator): void {
+	validators.set(moduleId, validator);
+}
+
+function getSchema(moduleId: string): SettingsSchema {
+	return getModule(moduleId)?.manifest.settings?.schema ?? {};
+}
+
+function isEmpty(value: unknown): boolean {
+	return value === undefined || value === null || value === "";
+}
+
+/** Coerce one submitted value to the field's type; returns an error message on failure. */
+function coerceValue(field: SettingField, value: unknown): { value: unknown } | { error: string } {
+	switch (field.type) {
+		case "number": {
+			const num = typeof value === "string" ? Number(value) : value;
+			if (typeof num !== "number" || !Number.isFinite(num)) {
+				return { error: `${field.label} must be a number` };
+			}
+			return { value: num };
+		}
+		case "boolean":
+			if (typeof value !== "boolean") {
+				return { error: `${field.label} must be true or false` };
+			}
+			return { value };
+		case "select":
+			if (!field.options?.some((o) => o.value === value)) {
+				return { error: `${field.label} must be one of: ${(field.options ?? []).map((o) => o.value).join(", ")}` };
+			}
+			return { value };
+		default:
+			if (typeof value !== "string") {
+				return { error: `${field.label} must be text` };
+			}
+			return { value };
+	}
+}
+
+function isSealed(value: string): boolean {
+	return value.startsWith("v1:");
+}
+
+/**
+ * Stored values with `password` fields decrypted. Secrets saved in plaintext
+ * before they were encrypted are sealed on the way.
+ */
+function readStoredSettings(moduleId: string, schema: SettingsSchema): Record<string, unknown> {
+	const stored = getStoredModuleSettings(moduleId);
+	const plaintext: Record<string, unknown> = {};
+	for (const [key, field] of Object.entries(schema)) {
+		const value = stored[key];
+		if (field.type !== "password" || typeof value !== "string") continue;
+		if (!isSealed(value)) {
+			plaintext[key] = secrets.encrypt(value);
+			continue;
+		}
+		try {
+			stored[key] = secrets.decrypt(value);
+		} catch {
+			// Unreadable secrets (e.g. JWT_SECRET changed) have to be entered again
+			delete stored[key];
+		}
+	}
+	if (Object.keys(plaintext).length > 0) saveModuleSettings(moduleId, plaintext);
+	return stored;
+}
+
+/** Encrypt any `password` values of a module still stored in plaintext. */
+export function sealStoredSecrets(moduleId: string): void {
+	readStoredSettings(moduleId, getSchema(moduleId));
+}
+
+/** Current settings for a module: stored values over schema defaults. */
+export function getModuleSettings<S extends SettingsSchema = SettingsSchema>(moduleId: string): SettingsValues<S> {
+	const schema = getSchema(moduleId);
+	const stored = readStoredSettings(moduleId, schema);
+
+	const values: Record<string, unknown> = {};
+	for (const [key, field] of Object.entries(schema)) {
+		values[key] = key in stored ? stored[key] : field.default;
+	}
+	return values as SettingsValues<S>;
+}
+
+/**
+ * Settings safe to send to the browser: `password` fields are left out and
+ * listed in `secretsSet` when a value is stored.
+ */
+export function getPublicModuleSettings(moduleId: string): { values: Record<string, unknown>; secretsSet: string[] } {
+	const schema = getSchema(moduleId);
+	const current = getModuleSettings(moduleId) as Record<string, unknown>;
+
+	const values: Record<string, unknown> = {};
+	const secretsSet: string[] = [];
+	for (const [key, field] of Object.entries(schema)) {
+		if (field.type === "password") {
+			if (!isEmpty(current[key])) secretsSet.push(key);
+		} else {
+			values[key] = current[key];
+		}
+	}
+	return { values, secretsSet };
+}
+
+/**
+ * Validate and save a partial update. Keys left out keep their value; an
+ * empty `password` field keeps the stored secret and `null` clears a key.
+ * Returns the validation errors (nothing is saved if there are any).
+ */
+export function updateModuleSettings(moduleId: string, input: Record<string, unknown>): string[] {
+	const schema = getSchema(moduleId);
+	const current = getModuleSettings(moduleId) as Record<string, unknown>;
+	const errors: string[] = [];
+	const updates: Record<string, unknown> = {};
+
+	for (const [key, value] of Object.entries(input)) {
+		const field = schema[key];
+		if (!field) {
+			errors.push(`Unknown setting "${key}"`);
+			continue;
+		}
+		if (field.type === "password" && value === "") continue;
+		if (value === null) {
+			updates[key] = null;
+			continue;
+		}
+
+		const result = coerceValue(field, value);
+		if ("error" in result) {
+			errors.push(result.error);
+		} else {
+			updates[key] = result.value;
+		}
+	}
+
+	for (const [key, field] of Object.entries(schema)) {
+		if (!field.required) continue;
+		const next = key in updates ? (updates[key] ?? field.default) : current[key];
+		if (isEmpty(next)) {
+			errors.push(`${field.label} is required`);
+		}
+	}
+
+	const validator = validators.get(moduleId);
+	if (errors.length === 0 && validator) {
+		const next: Record<string, unknown> = { ...current };
+		for (const [key, value] of Object.entries(updates)) next[key] = value ?? schema[key].default;
+		errors.push(...validator(next));
+	}
+
+	if (errors.length === 0) {
+		for (const [key, value] of Object.entries(updates)) {
+			if (schema[key].type === "password" && typeof value === "string") updates[key] = secrets.encrypt(value);
+		}
+		saveModuleSettings(moduleId, updates);
+	}
+	return errors;
+}
@@ -33,11 +33,18 @@ export interface ModuleWidget {
 	requiredPermission?: string;
 }
 
+export interface PermissionDefinition {
+	id: string; // e.g. "docker:write"
+	label: string;
+	description?: string;
+}
+
 export interface ModuleApiRoute {
 	path: string;
 	method: HttpMethod;
 	handler: string;
 	requiredPermission?: string;
+	timeout?: number; // ms; defaults to the module's sandbox timeout, then 30s
 }
 
 export interface SettingField {
@@ -51,13 +58,18 @@ export interface SettingField {
 
 export interface ModuleSettings {
 	schema: Record<string, SettingField>;
+	writePermission?: string; // Needed to change the values (default "settings:write")
 }
 
 export interface ModuleSandbox {
 	allowedCommands: string[];
-	allowedPaths?: string[];
-	maxMemory?: number;
+	allowedPaths?: string[]; // Directories path arguments may point into
+	maxMemory?: number; // MB of address space per command
+	maxCpuTime?: number; // Seconds of CPU time per command
 	timeout?: number;
+	uid?: number; // Run commands as this (unprivileged) user; requires ServerPilot to run as root
+	gid?: number;
+	env?: Record<string, string>; // Extra variables; the server's own environment is never passed through
 }
 
 export interface ModuleHooks {
@@ -73,8 +85,13 @@ export interface ModuleManifest {
 	description: string;
 	author?: string;
 	type: ModuleType;
+	engines?: { serverpilot?: string }; // Semver range of compatible ServerPilot versions, e.g. ">=0.1.0 <1.0.0"
+	dependencies?: Record<string, string>; // Module id -> semver range; must be loaded and enabled first
+	optionalDependencies?: Record<string, string>; // Loaded first when present, not required
 	canDisable?: boolean; // If false, module cannot be disabled (default: true for external, true for core)
 
+	permissions?: PermissionDefinition[]; // Permission strings roles can be granted for this module
+
 	navItems?: NavItem[];
 	pages?: ModulePage[];
 	apiRoutes?: ModuleApiRoute[];
@@ -84,11 +101,23 @@ export interface ModuleManifest {
 	hooks?: ModuleHooks;
 }
 
+export interface ModuleSource {
+	packageName: string; // e.g. "serverpilot-module-nginx"
+	path: string; // Absolute package directory; manifest file paths resolve against it
+}
+
+export interface ManifestValidation {
+	errors: string[]; // Any error quarantines the module
+	warnings: string[];
+}
+
 export interface LoadedModule {
 	manifest: ModuleManifest;
 	enabled: boolean;
 	loaded: boolean;
 	error?: string;
+	validation?: ManifestValidation;
+	source?: ModuleSource; // Set for external modules
 }
 
 export interface ModuleAPI {
@@ -0,0 +1,272 @@
+/**
+ * Manifest validator - checks a ModuleManifest before it is registered.
+ *
+ * Errors (missing fields, bad versions, id or route conflicts, missing
+ * handler files, incompatible engines) quarantine the module; warnings
+ * (e.g. risky sandbox settings) are shown but the module still loads.
+ */
+
+import pkg from "../../package.json";
+import { moduleFileExists } from "./files";
+import { validateSandboxConfig } from "./sandbox";
+import type { LoadedModule, ManifestValidation, ModuleManifest, ModuleSource } from "./types";
+
+export const SERVERPILOT_VERSION: string = pkg.version;
+
+const ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+const SEMVER_PATTERN = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const HTTP_METHODS = ["GET", "POST", "PUT", "DELETE"];
+const SETTING_TYPES = ["text", "number", "boolean", "select", "password"];
+
+// Routes served by compiled Astro pages, which module pages must not shadow
+const builtinPageRoutes = Object.keys(import.meta.glob("../pages/**/*.astro"))
+	.filter((file) => !file.includes("["))
+	.map((file) => file.replace(/^\.\.\/pages/, "").replace(/(\/index)?\.astro$/, "") || "/");
+
+type Version = [number, number, number, string | undefined];
+
+function parseVersion(version: string): Version | null {
+	const match = SEMVER_PATTERN.exec(version);
+	return match ? [Number(match[1]), Number(match[2]), Number(match[3]), match[4]] : null;
+}
+
+function compareVersions(a: Version, b: Version): number {
+	for (let i = 0; i < 3; i++) {
+		if (a[i] !== b[i]) return (a[i] as number) - (b[i] as number);
+	}
+	if (a[3] === b[3]) return 0;
+	if (!a[3]) return 1; // a release outranks its prereleases
+	if (!b[3]) return -1;
+	return a[3] < b[3] ? -1 : 1;
+}
+
+/** Expand "x"/"*" wildcards and partial versions ("1", "1.2") to a full version. */
+function fillVersion(partial: string): { version: Version; parts: number } | null {
+	const parts = partial.split(".").filter((p) => p !== "x" && p !== "X" && p !== "*");
+	if (parts.length > 3 || parts.length === 0) return null;
+	const version = parseVersion([...parts, "0", "0"].slice(0, 3).join("."));
+	return version ? { version, parts: parts.length } : null;
+}
+
+/** One comparator such as "^1.2.0", ">=0.3", "~1.4.2" or "1.x"; null if malformed. */
+function satisfiesComparator(version: Version, comparator: string): boolean | null {
+	if (comparator === "*" || comparator === "x" || comparator === "") return true;
+
+	const match = /^(\^|~|>=|<=|>|<|=)?v?(.+)$/.exec(comparator);
+	if (!match) return null;
+	const op = match[1] ?? "";
+	const target = fillVersion(match[2]);
+	if (!target) return null;
+
+	const cmp = compareVersions(version, target.version);
+	const [major, minor] = target.version;
+
+	switch (op) {
+		case ">=":
+			return cmp >= 0;
+		case ">":
+			return cmp > 0;
+		case "<=":
+			return cmp <= 0;
+		case "<":
+			return cmp < 0;
+		case "^": {
+			if (cmp < 0) return false;
+			if (major > 0 || target.parts === 1) return version[0] === major;
+			if (minor > 0 || target.parts === 2) return version[0] === 0 && version[1] === minor;
+			return cmp === 0;
+		}
+		case "~":
+			return cmp >= 0 && version[0] === major && (target.parts === 1 || version[1] === minor);
+		default:
+			// "=1.2.3", "1.2.3" or a partial like "1.2" (any 1.2.x)
+			if (target.parts === 3) return cmp === 0;
+			return version[0] === major && (target.parts === 1 || version[1] === minor);
+	}
+}
+
+/**
+ * Whether a version satisfies a semver range ("||" alternatives of
+ * space-separated comparators). Returns null if the range is malformed.
+ */
+export function satisfiesRange(version: string, range: string): boolean | null {
+	const parsed = parseVersion(version);
+	if (!parsed) return null;
+
+	let satisfied = false;
+	for (const alternative of range.split("||")) {
+		const comparators = alternative.trim().replace(/(\^|~|>=|<=|>|<|=)\s+/g, "$1").split(/\s+/);
+		let all = true;
+		for (const comparator of comparators) {
+			const result = satisfiesComparator(parsed, comparator);
+			if (result === null) return null;
+			all = all && result;
+		}
+		satisfied = satisfied || all;
+	}
+	return satisfied;
+}
+
+/** "/users/:id" and "/users/:name" are the same route to the router. */
+function routeShape(path: string): string {
+	return path
+		.split("/")
+		.filter(Boolean)
+		.map((part) => (part.startsWith(":") ? ":" : part))
+		.join("/");
+}
+
+function findDuplicates(values: string[]): string[] {
+	const seen = new Set<string>();
+	const duplicates = new Set<string>();
+	for (const value of values) {
+		if (seen.has(value)) duplicates.add(value);
+		seen.add(value);
+	}
+	return Array.from(duplicates);
+}
+
+/**
+ * Validate a manifest against the modules already registered (`others`
+ * should not include an earlier copy of the same module).
+ */
+export function validateManifest(
+	manifest: ModuleManifest,
+	others: LoadedModule[],
+	source?: ModuleSource
+): ManifestValidation {
+	const errors: string[] = [];
+	const warnings: string[] = [];
+
+	// Required fields
+	if (typeof manifest.id !== "string" || !ID_PATTERN.test(manifest.id)) {
+		errors.push("id must be lowercase letters, digits and dashes, starting with a letter");
+	}
+	if (typeof manifest.name !== "string" || !manifest.name.trim()) {
+		errors.push("name is required");
+	}
+	if (typeof manifest.description !== "string") {
+		errors.push("description is required");
+	}
+	if (manifest.type !== "core" && manifest.type !== "external") {
+		errors.push('type must be "core" or "external"');
+	}
+	if (typeof manifest.version !== "string" || !parseVersion(manifest.version)) {
+		errors.push(`version "${manifest.version}" is not a valid semver version (e.g. 1.0.0)`);
+	}
+
+	// Compatibility
+	const range = manifest.engines?.serverpilot;
+	if (range !== undefined) {
+		const compatible = typeof range === "string" ? satisfiesRange(SERVERPILOT_VERSION, range) : null;
+		if (compatible === null) {
+			errors.push(`engines.serverpilot "${range}" is not a valid semver range`);
+		} else if (!compatible) {
+			errors.push(`Requires ServerPilot ${range} (running ${SERVERPILOT_VERSION})`);
+		}
+	} else if (manifest.type === "external") {
+		warnings.push("No engines.serverpilot range declared; compatibility is not checked");
+	}
+
+	// Dependencies must already be loaded (modules register in dependency order)
+	for (const [kind, deps] of [
+		["dependencies", manifest.dependencies],
+		["optionalDependencies", manifest.optionalDependencies],
+	] as const) {
+		for (const [id, depRange] of Object.entries(deps ?? {})) {
+			const optional = kind === "optionalDependencies";
+			const dependency = others.find((m) => m.manifest.id === id);
+			const matches = typeof depRange === "string" ? satisfiesRange(dependency?.manifest.version ?? "0.0.0", depRange) : null;
+
+			if (id === manifest.id) {
+				errors.push(`${kind} lists the module itself`);
+			} else if (matches === null) {
+				errors.push(`${kind}.${id} "${depRange}" is not a valid semver range`);
+			} else if (!dependency) {
+				if (!optional) errors.push(`Requires module "${id}" ${depRange}, which is not installed or failed to load`);
+			} else if (!matches) {
+				const message = `Requires module "${id}" ${depRange}, found ${dependency.manifest.version}`;
+				if (optional) warnings.push(`Optional dependency: ${message}`);
+				else errors.push(message);
+			}
+		}
+	}
+
+	// Ids must be unique within the manifest and across modules
+	const otherNavIds = new Set(others.flatMap((m) => m.manifest.navItems?.map((n) => n.id) ?? []));
+	const navIds = manifest.navItems?.map((n) => n.id) ?? [];
+	for (const id of findDuplicates(navIds)) errors.push(`Duplicate nav item id "${id}"`);
+	for (const id of navIds.filter((id) => otherNavIds.has(id))) errors.push(`Nav item id "${id}" is used by another module`);
+
+	const otherWidgetIds = new Set(others.flatMap((m) => m.manifest.widgets?.map((w) => w.id) ?? []));
+	const widgetIds = manifest.widgets?.map((w) => w.id) ?? [];
+	for (const id of findDuplicates(widgetIds)) errors.push(`Duplicate widget id "${id}"`);
+	for (const id of widgetIds.filter((id) => otherWidgetIds.has(id))) errors.push(`Widget id "${id}" is used by another module`);
+
+	const otherPermissions = new Set(others.flatMap((m) => m.manifest.permissions?.map((p) => p.id) ?? []));
+	for (const permission of manifest.permissions ?? []) {
+		if (otherPermissions.has(permission.id)) {
+			warnings.push(`Permission "${permission.id}" is also declared by another module`);
+		}
+	}
+
+	// Page routes must not collide with other modules or built-in pages
+	const otherPages = new Set(others.flatMap((m) => m.manifest.pages?.map((p) => p.route) ?? []));
+	const pageRoutes = manifest.pages?.map((p) => p.route) ?? [];
+	for (const route of findDuplicates(pageRoutes)) errors.push(`Duplicate page route "${route}"`);
+	for (const route of pageRoutes) {
+		if (otherPages.has(route)) {
+			errors.push(`Page route "${route}" conflicts with another module`);
+		} else if (manifest.type === "external" && builtinPageRoutes.includes(route)) {
+			errors.push(`Page route "${route}" conflicts with a built-in page`);
+		}
+	}
+
+	// API routes: valid methods, no two routes answering the same request
+	const routeKeys: string[] = [];
+	for (const route of manifest.apiRoutes ?? []) {
+		if (!HTTP_METHODS.includes(route.method)) {
+			errors.push(`API route ${route.path} has unsupported method "${route.method}"`);
+		}
+		if (typeof route.path !== "string" || !route.path.startsWith("/")) {
+			errors.push(`API route path "${route.path}" must start with "/"`);
+		}
+		routeKeys.push(`${route.method} /${routeShape(route.path ?? "")}`);
+	}
+	for (const key of findDuplicates(routeKeys)) errors.push(`API routes conflict: more than one route matches ${key}`);
+
+	// Referenced files must exist
+	const files = [
+		...(manifest.apiRoutes ?? []).map((r) => ({ file: r.handler, what: `API route ${r.method} ${r.path}` })),
+		...Object.entries(manifest.hooks ?? {}).map(([hook, file]) => ({ file: file as string, what: `${hook} hook` })),
+	];
+	if (manifest.type === "external") {
+		files.push(
+			...(manifest.pages ?? []).map((p) => ({ file: p.component, what: `page ${p.route}` })),
+			...(manifest.widgets ?? []).map((w) => ({ file: w.component, what: `widget ${w.id}` }))
+		);
+	}
+	for (const { file, what } of files) {
+		if (typeof file !== "string" || !moduleFileExists(manifest, source, file)) {
+			errors.push(`${what}: file "${file}" not found`);
+		}
+	}
+
+	// Settings schema
+	for (const [key, field] of Object.entries(manifest.settings?.schema ?? {})) {
+		if (!SETTING_TYPES.includes(field.type)) {
+			errors.push(`Setting "${key}" has unknown type "${field.type}"`);
+		} else if (field.type === "select" && !field.options?.length) {
+			errors.push(`Setting "${key}" is a select without options`);
+		}
+		if (field.type === "password" && field.default !== undefined) {
+			warnings.push(`Setting "${key}" ships a default password`);
+		}
+	}
+
+	if (manifest.sandbox) {
+		warnings.push(...validateSandboxConfig(manifest.sandbox));
+	}
+
+	return { errors, warnings };
+}
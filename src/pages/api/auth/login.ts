@@ -1,10 +1,21 @@
 /**
  * POST /api/auth/login – Authenticate user and set JWT cookie.
  * Includes in-memory rate limiting: 5 attempts per IP per 60 seconds.
+ *
+ * Two-step flow for users with 2FA enabled:
+ *   1. { username, password }  → sets a short-lived sp_2fa_pending cookie, returns { twoFactorRequired: true }
+ *   2. { code } or { recoveryCode } → verifies the pending token + second factor, sets sp_token
  */
-import type { APIRoute } from "astro";
-import { authenticate, TOKEN_COOKIE } from "../../../lib/auth";
-import { logAction } from "../../../lib/audit";
+import type { APIRoute, AstroCookies } from "astro";
+import {
+	authenticate,
+	completeTwoFactor,
+	getPendingTwoFactorUser,
+	TOKEN_COOKIE,
+	PENDING_2FA_COOKIE,
+} from "../../../lib/auth";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../lib/audit";
+import { recordLoginFailure } from "../../../lib/prometheus";
 
 /* ── Rate limiter ── */
 const RATE_LIMIT_WINDOW = 60_000; // 60 seconds
@@ -30,10 +41,21 @@ setInterval(() => {
 	}
 }, 300_000);
 
+function setSessionCookie(cookies: AstroCookies, token: string): void {
+	cookies.set(TOKEN_COOKIE, token, {
+		httpOnly: true,
+		secure: false, // local LAN usage — set true behind HTTPS reverse proxy
+		sameSite: "lax",
+		path: "/",
+		maxAge: 60 * 60 * 24, // 24h
+	});
+}
+
 export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
-	const ip = clientAddress || request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown";
+	const ip = clientAddress || "unknown";
 
 	if (!checkRateLimit(ip)) {
+		recordLoginFailure("rate_limited");
 		return new Response(
 			JSON.stringify({ error: "Too many login attempts. Try again later." }),
 			{ status: 429, headers: { "Content-Type": "application/json", "Retry-After": "60" } }
@@ -42,25 +64,80 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
 
 	try {
 		const body = await request.json();
-		const { username, password } = body;
+		const { username, password, code, recoveryCode } = body;
+		const meta = { ip, userAgent: request.headers.get("user-agent") ?? undefined };
+
+		// Step 2: second factor for a pending login
+		if (code || recoveryCode) {
+			const pendingToken = cookies.get(PENDING_2FA_COOKIE)?.value;
+			if (!pendingToken || !getPendingTwoFactorUser(pendingToken)) {
+				return new Response(
+					JSON.stringify({ error: "Login session expired. Sign in again.", code: ERROR_CODES.ERR_SESSION_EXPIRED }),
+					{ status: 401, headers: { "Content-Type": "application/json" } }
+				);
+			}
+
+			const result = completeTwoFactor(pendingToken, { code, recoveryCode }, meta);
+			if (!result) {
+				recordLoginFailure("two_factor");
+				logAction(
+					getPendingTwoFactorUser(pendingToken) ?? "unknown",
+					"LOGIN_FAILED",
+					"auth",
+					"Invalid two-factor code",
+					ip,
+					{ level: LOG_LEVELS.WARN, code: ERROR_CODES.ERR_TWO_FACTOR_INVALID }
+				);
+				return new Response(
+					JSON.stringify({ error: "Invalid verification code", code: ERROR_CODES.ERR_TWO_FACTOR_INVALID }),
+					{ status: 401, headers: { "Content-Type": "application/json" } }
+				);
+			}
+
+			cookies.delete(PENDING_2FA_COOKIE, { path: "/" });
+			setSessionCookie(cookies, result.token);
+
+			logAction(
+				result.username,
+				"LOGIN",
+				"auth",
+				result.method === "recovery" ? "User logged in with a recovery code" : "User logged in with 2FA",
+				ip
+			);
+
+			return new Response(JSON.stringify({ ok: true }), {
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
 
 		if (!username || !password) {
 			return new Response(JSON.stringify({ error: "Username and password required" }), { status: 400 });
 		}
 
-		const token = authenticate(username, password);
-		if (!token) {
+		const result = authenticate(username, password, meta);
+		if (!result) {
+			recordLoginFailure("password");
 			logAction(username, "LOGIN_FAILED", "auth", "Invalid credentials", ip);
 			return new Response(JSON.stringify({ error: "Invalid credentials" }), { status: 401 });
 		}
 
-		cookies.set(TOKEN_COOKIE, token, {
-			httpOnly: true,
-			secure: false, // local LAN usage — set true behind HTTPS reverse proxy
-			sameSite: "lax",
-			path: "/",
-			maxAge: 60 * 60 * 24, // 24h
-		});
+		if (result.status === "2fa_required") {
+			cookies.set(PENDING_2FA_COOKIE, result.pendingToken, {
+				httpOnly: true,
+				secure: false,
+				sameSite: "strict",
+				path: "/",
+				maxAge: 60 * 5, // 5m
+			});
+
+			return new Response(JSON.stringify({ ok: false, twoFactorRequired: true }), {
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+
+		setSessionCookie(cookies, result.token);
 
 		logAction(username, "LOGIN", "auth", "User logged in", ip);
 
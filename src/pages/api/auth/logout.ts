@@ -1,11 +1,22 @@
 /**
- * POST /api/auth/logout – Clear auth cookie.
+ * POST /api/auth/logout – Revoke the current session and clear auth cookie.
  * GET handler removed to prevent CSRF logout via image/link tags.
  */
 import type { APIRoute } from "astro";
-import { TOKEN_COOKIE } from "../../../lib/auth";
+import { getUserFromCookies, TOKEN_COOKIE } from "../../../lib/auth";
+import { revokeUserSessions, revokeSession } from "../../../lib/sessions";
+
+export const POST: APIRoute = async ({ cookies, url }) => {
+	const user = getUserFromCookies(cookies);
+	if (user?.sessionId) {
+		// ?everywhere=1 signs out every device, not just this browser
+		if (url.searchParams.get("everywhere") === "1") {
+			revokeUserSessions(user.username);
+		} else {
+			revokeSession(user.username, user.sessionId);
+		}
+	}
 
-export const POST: APIRoute = async ({ cookies }) => {
 	cookies.delete(TOKEN_COOKIE, { path: "/" });
 	return new Response(JSON.stringify({ ok: true }), {
 		status: 200,
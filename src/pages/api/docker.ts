@@ -1,10 +1,21 @@
 /**
  * /api/docker/* – Docker management endpoints.
- * Communicates with Docker Engine via CLI (docker commands).
+ * Communicates with Docker Engine via its HTTP API (see lib/docker.ts).
  */
 import type { APIRoute } from "astro";
-import { runSync, runAsync } from "../../lib/exec";
+import {
+	listContainers,
+	listImages,
+	listNetworks,
+	listVolumes,
+	removeContainer,
+	restartContainer,
+	startContainer,
+	stopContainer,
+	toDockerError,
+} from "../../lib/docker";
 import { getUserFromCookies } from "../../lib/auth";
+import { hasPermission } from "../../lib/roles";
 
 function authGuard(cookies: any) {
 	const user = getUserFromCookies(cookies);
@@ -21,44 +32,31 @@ export const GET: APIRoute = async ({ cookies, url }) => {
 	const path = url.searchParams.get("resource") || "containers";
 
 	try {
-		let result;
+		let items: unknown[];
 		switch (path) {
 			case "containers":
-				result = runSync("docker:ps", [], 15000);
+				items = await listContainers({ all: true });
 				break;
 			case "images":
-				result = runSync("docker:images", [], 15000);
+				items = await listImages();
 				break;
 			case "volumes":
-				result = runSync("docker:volumes", [], 10000);
+				items = await listVolumes();
 				break;
 			case "networks":
-				result = runSync("docker:networks", [], 10000);
+				items = await listNetworks();
 				break;
 			default:
 				return new Response(JSON.stringify({ error: "Unknown resource" }), { status: 400 });
 		}
 
-		if (!result.ok) {
-			return new Response(JSON.stringify({ error: result.stderr || "Docker command failed" }), { status: 500 });
-		}
-
-		// Parse NDJSON lines
-		const items = result.stdout
-			.split("\n")
-			.filter(Boolean)
-			.map((line) => {
-				try { return JSON.parse(line); }
-				catch { return null; }
-			})
-			.filter(Boolean);
-
 		return new Response(JSON.stringify(items), {
 			status: 200,
 			headers: { "Content-Type": "application/json" },
 		});
-	} catch {
-		return new Response(JSON.stringify({ error: "Internal server error" }), { status: 500 });
+	} catch (err) {
+		const error = toDockerError(err);
+		return new Response(JSON.stringify({ error: error.message, code: error.code }), { status: error.status });
 	}
 };
 
@@ -68,8 +66,8 @@ export const POST: APIRoute = async ({ cookies, request }) => {
 	if (!user) {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
-	if (user.role !== "admin") {
-		return new Response(JSON.stringify({ error: "Forbidden: admin only" }), { status: 403 });
+	if (!hasPermission(user.role, "docker:manage")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
 	}
 
 	try {
@@ -87,13 +85,23 @@ export const POST: APIRoute = async ({ cookies, request }) => {
 
 		// Sanitize container ID (alphanumeric + underscores + hyphens only)
 		const sanitized = id.replace(/[^a-zA-Z0-9_\-]/g, "");
-		const cmdKey = `docker:${action}`;
 
-		const result = await runAsync(cmdKey, [sanitized], 30000);
+		try {
+			if (action === "start") await startContainer(sanitized);
+			else if (action === "stop") await stopContainer(sanitized);
+			else if (action === "restart") await restartContainer(sanitized);
+			else await removeContainer(sanitized, { force: true });
+		} catch (err) {
+			const error = toDockerError(err);
+			return new Response(
+				JSON.stringify({ ok: false, message: error.message, code: error.code }),
+				{ status: error.status, headers: { "Content-Type": "application/json" } }
+			);
+		}
 
 		return new Response(
-			JSON.stringify({ ok: result.ok, message: result.stdout || result.stderr }),
-			{ status: result.ok ? 200 : 500, headers: { "Content-Type": "application/json" } }
+			JSON.stringify({ ok: true, message: `Container ${action} successful` }),
+			{ status: 200, headers: { "Content-Type": "application/json" } }
 		);
 	} catch {
 		return new Response(JSON.stringify({ error: "Internal server error" }), { status: 500 });
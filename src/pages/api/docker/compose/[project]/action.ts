@@ -1,119 +1,92 @@
 /**
  * Docker Compose Action API - POST /api/docker/compose/:project/action
- * Start, stop, restart, or remove a compose project
+ * Lifecycle actions for a whole project or one of its services
+ *
+ * Body: { action, service?, replicas? }
+ *   project actions: up, down, start, stop, restart, pull
+ *   service actions: up, start, stop, restart, pull, scale (with replicas)
  */
 import type { APIRoute } from "astro";
 import { getUserFromCookies } from "../../../../../lib/auth";
+import { hasPermission } from "../../../../../lib/roles";
 import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../../lib/audit";
-import { execFileSync } from "child_process";
+import { toDockerError } from "../../../../../lib/docker";
+import {
+	composeProjectAction,
+	composeServiceAction,
+	getComposeProject,
+	PROJECT_ACTIONS,
+	SERVICE_ACTIONS,
+	type ProjectAction,
+	type ServiceAction,
+} from "../../../../../lib/compose";
 
-export const POST: APIRoute = async ({ cookies, params, request }) => {
+const MAX_REPLICAS = 100;
+
+export const POST: APIRoute = async ({ cookies, params, request, clientAddress }) => {
 	const user = getUserFromCookies(cookies);
-	if (!user || user.role !== "admin") {
+	if (!user) {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
+	if (!hasPermission(user.role, "docker:manage")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
 
-	const project = params.project;
-	if (!project) {
+	const projectName = params.project;
+	if (!projectName) {
 		return new Response(JSON.stringify({ error: "Project name required" }), { status: 400 });
 	}
 
+	let body: { action?: string; service?: string; replicas?: number };
 	try {
-		const body = await request.json();
-		const { action } = body;
+		body = await request.json();
+	} catch {
+		return new Response(JSON.stringify({ error: "Invalid JSON body" }), { status: 400 });
+	}
 
-		if (!action || !["up", "down", "restart", "pull"].includes(action)) {
-			return new Response(JSON.stringify({ error: "Invalid action" }), { status: 400 });
-		}
+	const { action, service: serviceName, replicas } = body;
+	const allowed: readonly string[] = serviceName ? SERVICE_ACTIONS : PROJECT_ACTIONS;
+	if (!action || !allowed.includes(action)) {
+		return new Response(JSON.stringify({ error: `Invalid action; expected one of ${allowed.join(", ")}` }), { status: 400 });
+	}
+	if (action === "scale" && (!Number.isInteger(replicas) || replicas! < 0 || replicas! > MAX_REPLICAS)) {
+		return new Response(JSON.stringify({ error: `replicas must be a whole number from 0 to ${MAX_REPLICAS}` }), { status: 400 });
+	}
+
+	const target = serviceName ? `${projectName}/${serviceName}` : projectName;
+	const description = action === "scale" ? `scale to ${replicas}` : action;
 
-		let result: string;
-		try {
-			switch (action) {
-				case "up":
-					result = execFileSync(
-						"docker-compose",
-						["-p", project, "up", "-d"],
-						{ encoding: "utf-8", timeout: 60000 }
-					);
-					break;
-				case "down":
-					result = execFileSync(
-						"docker-compose",
-						["-p", project, "down"],
-						{ encoding: "utf-8", timeout: 60000 }
-					);
-					break;
-				case "restart":
-					result = execFileSync(
-						"docker-compose",
-						["-p", project, "restart"],
-						{ encoding: "utf-8", timeout: 60000 }
-					);
-					break;
-				case "pull":
-					result = execFileSync(
-						"docker-compose",
-						["-p", project, "pull"],
-						{ encoding: "utf-8", timeout: 120000 }
-					);
-					break;
-				default:
-					return new Response(JSON.stringify({ error: "Invalid action" }), { status: 400 });
+	try {
+		const project = await getComposeProject(projectName);
+		let output: string;
+		if (serviceName) {
+			const service = project.services.find((s) => s.name === serviceName);
+			if (!service) {
+				return new Response(JSON.stringify({ error: `Service "${serviceName}" not found in ${projectName}` }), { status: 404 });
 			}
-		} catch (execErr: any) {
-			const execErrorMsg = execErr instanceof Error ? execErr.message : "Unknown error";
-			logAction(
-				user.username,
-				"COMPOSE_ACTION",
-				project,
-				`Action ${action} failed: ${execErrorMsg}`,
-				undefined,
-				{ level: LOG_LEVELS.ERROR, code: ERROR_CODES.ERR_COMPOSE_ACTION_FAILED }
-			);
-			return new Response(
-				JSON.stringify({
-					error: "Action failed",
-					message: execErrorMsg,
-					code: ERROR_CODES.ERR_COMPOSE_ACTION_FAILED,
-				}),
-				{ status: 500, headers: { "Content-Type": "application/json" } }
-			);
+			output = await composeServiceAction(project, service, action as ServiceAction, replicas);
+		} else {
+			output = await composeProjectAction(project, action as ProjectAction);
 		}
 
-		logAction(
-			user.username,
-			"COMPOSE_ACTION",
-			project,
-			`Action: ${action} successful`,
-			undefined,
-			{ level: LOG_LEVELS.INFO, code: "INF003" }
-		);
+		logAction(user.username, "COMPOSE_ACTION", target, `Action: ${description} successful`, clientAddress, {
+			level: LOG_LEVELS.INFO,
+			code: "INF003",
+		});
 
-		return new Response(
-			JSON.stringify({ ok: true, action, project, output: result }),
-			{
-				status: 200,
-				headers: { "Content-Type": "application/json" },
-			}
-		);
-	} catch (err: any) {
-		const errorMsg = err instanceof Error ? err.message : "Unknown error";
-		logAction(
-			user.username,
-			"COMPOSE_ACTION",
-			project,
-			`Internal error: ${errorMsg}`,
-			undefined,
-			{ level: LOG_LEVELS.ERROR, code: ERROR_CODES.ERR_INTERNAL }
-		);
-		console.error("[docker] Error performing compose action:", err);
-		return new Response(
-			JSON.stringify({
-				error: "Action failed",
-				message: errorMsg,
-				code: ERROR_CODES.ERR_INTERNAL,
-			}),
-			{ status: 500, headers: { "Content-Type": "application/json" } }
-		);
+		return new Response(JSON.stringify({ ok: true, action, project: projectName, service: serviceName, output }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		const error = toDockerError(err, ERROR_CODES.ERR_COMPOSE_ACTION_FAILED);
+		logAction(user.username, "COMPOSE_ACTION", target, `Action ${description} failed: ${error.message}`, clientAddress, {
+			level: LOG_LEVELS.ERROR,
+			code: error.code,
+		});
+		return new Response(JSON.stringify({ ok: false, error: error.message, code: error.code }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
 	}
 };
@@ -4,7 +4,7 @@
  */
 import type { APIRoute } from "astro";
 import { getUserFromCookies } from "../../../../../lib/auth";
-import { execFileSync } from "child_process";
+import { containerLogs, listContainers, toDockerError } from "../../../../../lib/docker";
 
 export const GET: APIRoute = async ({ cookies, params, url }) => {
 	const user = getUserFromCookies(cookies);
@@ -21,22 +21,31 @@ export const GET: APIRoute = async ({ cookies, params, url }) => {
 	const service = url.searchParams.get("service");
 
 	try {
-		const args = ["compose", "-p", project, "logs", "--no-color", "--tail", lines.toString()];
-		
+		// Compose labels every container with its project and service
+		const labels = [`com.docker.compose.project=${project}`];
 		if (service) {
-			args.push(service);
+			labels.push(`com.docker.compose.service=${service}`);
 		}
+		const containers = await listContainers({ all: true, filters: { label: labels } });
 
-		const logs = execFileSync("docker", args, {
-			encoding: "utf-8",
-			timeout: 30000,
-		});
+		// Prefix lines like `docker compose logs` and merge them by timestamp
+		const entries: { time: string; line: string }[] = [];
+		for (const container of containers) {
+			const name = container.Names[0]?.replace(/^\//, "") ?? container.Id.slice(0, 12);
+			const { stdout, stderr } = await containerLogs(container.Id, { tail: lines, timestamps: true });
+			for (const raw of `${stdout}\n${stderr}`.split("\n")) {
+				if (!raw.trim()) continue;
+				const space = raw.indexOf(" ");
+				entries.push({ time: raw.slice(0, space), line: `${name}  | ${raw.slice(space + 1)}` });
+			}
+		}
+		entries.sort((a, b) => a.time.localeCompare(b.time));
 
 		return new Response(
 			JSON.stringify({
 				project,
 				service,
-				logs: logs.split("\n").filter((line) => line.trim()),
+				logs: entries.map((e) => e.line),
 				lines,
 			}),
 			{
@@ -44,15 +53,17 @@ export const GET: APIRoute = async ({ cookies, params, url }) => {
 				headers: { "Content-Type": "application/json" },
 			}
 		);
-	} catch (err: any) {
-		console.error("[docker] Error getting compose logs:", err);
+	} catch (err) {
+		const error = toDockerError(err);
+		console.error("[docker] Error getting compose logs:", error.message);
 		return new Response(
 			JSON.stringify({
 				error: "Failed to get logs",
-				message: err.message,
+				message: error.message,
+				code: error.code,
 				logs: [],
 			}),
-			{ status: 500, headers: { "Content-Type": "application/json" } }
+			{ status: error.status, headers: { "Content-Type": "application/json" } }
 		);
 	}
 };
@@ -1,62 +1,35 @@
 /**
  * Docker Compose Projects API - GET /api/docker/compose/projects
- * List all Docker Compose projects
+ * Lists Compose projects found from the com.docker.compose.* labels on
+ * containers, with their services, working directory and config files.
+ * `cli` is the Compose CLI in use ("docker compose", "docker-compose" or null).
  */
 import type { APIRoute } from "astro";
 import { getUserFromCookies } from "../../../../lib/auth";
-import { execFileSync } from "child_process";
-
-interface ComposeProject {
-	name: string;
-	status: string;
-	services: string[];
-	path: string;
-}
+import { hasPermission } from "../../../../lib/roles";
+import { detectComposeCli, listComposeProjects } from "../../../../lib/compose";
+import { toDockerError } from "../../../../lib/docker";
 
 export const GET: APIRoute = async ({ cookies }) => {
 	const user = getUserFromCookies(cookies);
 	if (!user) {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
+	if (!hasPermission(user.role, "docker:read")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
 
 	try {
-		// Get all running compose projects
-		const result = execFileSync(
-			"docker",
-			["ps", "--all", "--format", "json"],
-			{ encoding: "utf-8", timeout: 30000 }
-		);
-
-		const projects: ComposeProject[] = JSON.parse(result);
-
-		// Enhance with service information
-		for (const project of projects) {
-			try {
-				// Get services in this project
-				const configResult = execFileSync(
-					"docker-compose",
-					["-p", project.name, "config", "--services"],
-					{ encoding: "utf-8", timeout: 10000 }
-				);
-				project.services = configResult.trim().split("\n").filter(Boolean);
-			} catch {
-				project.services = [];
-			}
-		}
-
-		return new Response(JSON.stringify({ projects }), {
+		const [projects, cli] = await Promise.all([listComposeProjects(), detectComposeCli()]);
+		return new Response(JSON.stringify({ projects, cli }), {
 			status: 200,
 			headers: { "Content-Type": "application/json" },
 		});
-	} catch (err: any) {
-		console.error("[docker] Error listing compose projects:", err);
-		return new Response(
-			JSON.stringify({
-				error: "Failed to list compose projects",
-				message: err.message,
-				projects: [],
-			}),
-			{ status: 500, headers: { "Content-Type": "application/json" } }
-		);
+	} catch (err) {
+		const error = toDockerError(err);
+		return new Response(JSON.stringify({ error: error.message, code: error.code, projects: [] }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
 	}
 };
@@ -0,0 +1,108 @@
+/**
+ * Compose Stacks API
+ * GET  /api/docker/compose/stacks – Stacks managed by ServerPilot, with their running status
+ * POST /api/docker/compose/stacks – Create a stack from its first version
+ *
+ * Body: { name: "blog", compose: "<compose.yaml>", env?: "<.env>", message?: "..." }
+ * The files are validated with `compose config` before anything is saved.
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction, LOG_LEVELS } from "../../../../lib/audit";
+import { toDockerError } from "../../../../lib/docker";
+import { listComposeProjects } from "../../../../lib/compose";
+import {
+	checkStackFiles,
+	getStack,
+	isForeignProject,
+	isValidStackName,
+	listStacks,
+	saveStackVersion,
+} from "../../../../lib/compose-stacks";
+
+export const GET: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:read")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	// Status is best-effort: stacks are still listed while Docker is down
+	const projects = await listComposeProjects().catch(() => []);
+	const stacks = listStacks().map((stack) => ({
+		...stack,
+		status: projects.find((p) => p.name === stack.name)?.status ?? "stopped",
+	}));
+
+	return new Response(JSON.stringify({ stacks }), {
+		status: 200,
+		headers: { "Content-Type": "application/json" },
+	});
+};
+
+export const POST: APIRoute = async ({ cookies, request, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:stacks")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	let body: { name?: unknown; compose?: unknown; env?: unknown; message?: unknown };
+	try {
+		body = await request.json();
+	} catch {
+		return new Response(JSON.stringify({ error: "Invalid JSON body" }), { status: 400 });
+	}
+
+	const name = typeof body.name === "string" ? body.name.trim() : "";
+	if (!isValidStackName(name)) {
+		return new Response(
+			JSON.stringify({ error: "Stack name must be lowercase letters, digits, dashes or underscores (max 63)" }),
+			{ status: 400 }
+		);
+	}
+	const problem = checkStackFiles(body.compose, body.env);
+	if (problem) {
+		return new Response(JSON.stringify({ error: problem }), { status: 400 });
+	}
+	if (getStack(name)) {
+		return new Response(JSON.stringify({ error: `Stack "${name}" already exists` }), { status: 409 });
+	}
+
+	try {
+		if (await isForeignProject(name)) {
+			return new Response(
+				JSON.stringify({ error: `A Compose project named "${name}" already runs outside ServerPilot; pick another name` }),
+				{ status: 409 }
+			);
+		}
+
+		const version = await saveStackVersion(
+			name,
+			body.compose as string,
+			(body.env as string | undefined) ?? "",
+			user.username,
+			typeof body.message === "string" ? body.message.slice(0, 200) : undefined
+		);
+		logAction(user.username, "COMPOSE_STACK_SAVE", name, `Created stack (v${version.version})`, clientAddress, {
+			level: LOG_LEVELS.INFO,
+			code: "INF015",
+		});
+
+		return new Response(JSON.stringify({ ok: true, stack: getStack(name), version }), {
+			status: 201,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		const error = toDockerError(err);
+		return new Response(JSON.stringify({ ok: false, error: error.message, code: error.code }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
@@ -0,0 +1,132 @@
+/**
+ * Compose Stack API
+ * GET    /api/docker/compose/stacks/:name?version=N – Stack, its version history and the files of
+ *                                                   version N (default: the latest)
+ * PUT    /api/docker/compose/stacks/:name           – Save a new version { compose, env?, message? }
+ * DELETE /api/docker/compose/stacks/:name           – Take the stack down and delete it with its history
+ *
+ * Saving doesn't deploy; see ./deploy.ts.
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { hasPermission } from "../../../../../lib/roles";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../../lib/audit";
+import { toDockerError } from "../../../../../lib/docker";
+import {
+	checkStackFiles,
+	deleteStack,
+	getStackVersion,
+	listStackVersions,
+	requireStack,
+	saveStackVersion,
+} from "../../../../../lib/compose-stacks";
+
+export const GET: APIRoute = async ({ cookies, params, url }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:read")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	try {
+		const stack = requireStack(params.name!);
+		const version = url.searchParams.has("version") ? Number(url.searchParams.get("version")) : stack.latestVersion;
+		const content = getStackVersion(stack.name, version);
+		if (!content) {
+			return new Response(JSON.stringify({ error: `Stack "${stack.name}" has no version ${version}` }), { status: 404 });
+		}
+
+		return new Response(JSON.stringify({ stack, versions: listStackVersions(stack.name), content }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		const error = toDockerError(err);
+		return new Response(JSON.stringify({ error: error.message, code: error.code }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
+
+export const PUT: APIRoute = async ({ cookies, params, request, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:stacks")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	let body: { compose?: unknown; env?: unknown; message?: unknown };
+	try {
+		body = await request.json();
+	} catch {
+		return new Response(JSON.stringify({ error: "Invalid JSON body" }), { status: 400 });
+	}
+	const problem = checkStackFiles(body.compose, body.env);
+	if (problem) {
+		return new Response(JSON.stringify({ error: problem }), { status: 400 });
+	}
+
+	try {
+		const stack = requireStack(params.name!);
+		const version = await saveStackVersion(
+			stack.name,
+			body.compose as string,
+			(body.env as string | undefined) ?? "",
+			user.username,
+			typeof body.message === "string" ? body.message.slice(0, 200) : undefined
+		);
+		logAction(user.username, "COMPOSE_STACK_SAVE", stack.name, `Saved v${version.version}`, clientAddress, {
+			level: LOG_LEVELS.INFO,
+			code: "INF015",
+		});
+
+		return new Response(JSON.stringify({ ok: true, stack: requireStack(stack.name), version }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		const error = toDockerError(err);
+		return new Response(JSON.stringify({ ok: false, error: error.message, code: error.code }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
+
+export const DELETE: APIRoute = async ({ cookies, params, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:stacks")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	const name = params.name!;
+	try {
+		const output = await deleteStack(name);
+		logAction(user.username, "COMPOSE_STACK_DELETE", name, "Took down and deleted stack", clientAddress, {
+			level: LOG_LEVELS.INFO,
+			code: "INF015",
+		});
+		return new Response(JSON.stringify({ ok: true, output }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		const error = toDockerError(err, ERROR_CODES.ERR_COMPOSE_ACTION_FAILED);
+		logAction(user.username, "COMPOSE_STACK_DELETE", name, `Failed: ${error.message}`, clientAddress, {
+			level: LOG_LEVELS.ERROR,
+			code: error.code,
+		});
+		return new Response(JSON.stringify({ ok: false, error: error.message, code: error.code }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
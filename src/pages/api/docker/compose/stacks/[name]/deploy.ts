@@ -0,0 +1,92 @@
+/**
+ * Compose Stack Deploy API - POST /api/docker/compose/stacks/:name/deploy
+ * Deploys a version (default: the latest) with `compose up -d` and streams
+ * the CLI output as newline-delimited JSON:
+ *   {"type":"output","text":"Container blog-web-1  Started\n"}
+ *   {"type":"done","version":4}
+ *   {"type":"error","error":"...","code":"ERR221"}
+ * Deploying an older version rolls back to it (saved again as the newest version).
+ * The deploy runs to completion even if the browser disconnects.
+ *
+ * Body: { version?: number }
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../../lib/auth";
+import { hasPermission } from "../../../../../../lib/roles";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../../../lib/audit";
+import { toDockerError } from "../../../../../../lib/docker";
+import { deployStack, requireStack } from "../../../../../../lib/compose-stacks";
+
+export const POST: APIRoute = async ({ cookies, params, request, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:stacks")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	let version: number | undefined;
+	try {
+		const body = await request.json();
+		version = body.version === undefined || body.version === null ? undefined : Number(body.version);
+	} catch {
+		return new Response(JSON.stringify({ error: "Invalid JSON body" }), { status: 400 });
+	}
+	if (version !== undefined && !Number.isInteger(version)) {
+		return new Response(JSON.stringify({ error: "version must be a number" }), { status: 400 });
+	}
+
+	const name = params.name!;
+	try {
+		requireStack(name);
+	} catch (err) {
+		const error = toDockerError(err);
+		return new Response(JSON.stringify({ error: error.message, code: error.code }), { status: error.status });
+	}
+
+	const encoder = new TextEncoder();
+	let closed = false;
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			const write = (message: object) => {
+				if (!closed) controller.enqueue(encoder.encode(JSON.stringify(message) + "\n"));
+			};
+			request.signal.addEventListener("abort", () => (closed = true), { once: true });
+
+			deployStack(name, version, user.username, (text) => write({ type: "output", text }))
+				.then((deployed) => {
+					write({ type: "done", version: deployed.version });
+					logAction(user.username, "COMPOSE_STACK_DEPLOY", name, `Deployed v${deployed.version}`, clientAddress, {
+						level: LOG_LEVELS.INFO,
+						code: "INF015",
+					});
+				})
+				.catch((err) => {
+					const error = toDockerError(err, ERROR_CODES.ERR_COMPOSE_DEPLOY_FAILED);
+					write({ type: "error", error: error.message, code: error.code });
+					logAction(user.username, "COMPOSE_STACK_DEPLOY", name, `Failed: ${error.message}`, clientAddress, {
+						level: LOG_LEVELS.ERROR,
+						code: error.code,
+					});
+				})
+				.finally(() => {
+					if (closed) return;
+					closed = true;
+					controller.close();
+				});
+		},
+		cancel() {
+			closed = true;
+		},
+	});
+
+	return new Response(body, {
+		status: 200,
+		headers: {
+			"Content-Type": "application/x-ndjson",
+			"Cache-Control": "no-cache",
+			"X-Accel-Buffering": "no",
+		},
+	});
+};
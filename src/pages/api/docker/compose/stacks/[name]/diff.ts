@@ -0,0 +1,38 @@
+/**
+ * Compose Stack Diff API - GET /api/docker/compose/stacks/:name/diff?version=N
+ * Line diff of compose.yaml and .env between the deployed version and
+ * version N (default: the latest), for review before deploying or rolling back.
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../../lib/auth";
+import { hasPermission } from "../../../../../../lib/roles";
+import { toDockerError } from "../../../../../../lib/docker";
+import { diffStack } from "../../../../../../lib/compose-stacks";
+
+export const GET: APIRoute = async ({ cookies, params, url }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:read")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	const version = url.searchParams.has("version") ? Number(url.searchParams.get("version")) : undefined;
+	if (version !== undefined && !Number.isInteger(version)) {
+		return new Response(JSON.stringify({ error: "version must be a number" }), { status: 400 });
+	}
+
+	try {
+		return new Response(JSON.stringify(diffStack(params.name!, version)), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		const error = toDockerError(err);
+		return new Response(JSON.stringify({ error: error.message, code: error.code }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
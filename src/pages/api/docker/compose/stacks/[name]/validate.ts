@@ -0,0 +1,56 @@
+/**
+ * Compose Stack Validate API - POST /api/docker/compose/stacks/:name/validate
+ * Checks draft files with `compose config` without saving them.
+ * The stack doesn't have to exist yet (the editor validates new stacks too).
+ *
+ * Body: { compose: "<compose.yaml>", env?: "<.env>" }
+ * Response: { valid: true } | { valid: false, error: "<compose's complaint>" }
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../../lib/auth";
+import { hasPermission } from "../../../../../../lib/roles";
+import { toDockerError } from "../../../../../../lib/docker";
+import { checkStackFiles, isValidStackName, validateStack } from "../../../../../../lib/compose-stacks";
+
+export const POST: APIRoute = async ({ cookies, params, request }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:stacks")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	const name = params.name!;
+	if (!isValidStackName(name)) {
+		return new Response(JSON.stringify({ error: "Invalid stack name" }), { status: 400 });
+	}
+
+	let body: { compose?: unknown; env?: unknown };
+	try {
+		body = await request.json();
+	} catch {
+		return new Response(JSON.stringify({ error: "Invalid JSON body" }), { status: 400 });
+	}
+	const problem = checkStackFiles(body.compose, body.env);
+	if (problem) {
+		return new Response(JSON.stringify({ valid: false, error: problem }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+
+	try {
+		const error = await validateStack(name, body.compose as string, (body.env as string | undefined) ?? "");
+		return new Response(JSON.stringify(error ? { valid: false, error } : { valid: true }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		const error = toDockerError(err);
+		return new Response(JSON.stringify({ error: error.message, code: error.code }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
@@ -3,14 +3,15 @@
  * Supports: start, stop, restart, remove
  */
 import type { APIRoute } from "astro";
-import { runAsync } from "../../../../lib/exec";
+import { restartContainer, removeContainer, startContainer, stopContainer, toDockerError } from "../../../../lib/docker";
 import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
 import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../lib/audit";
 
 export const POST: APIRoute = async ({ cookies, request, params }) => {
 	const user = getUserFromCookies(cookies);
 	if (!user) return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
-	if (user.role !== "admin") return new Response(JSON.stringify({ error: "Admin only" }), { status: 403 });
+	if (!hasPermission(user.role, "docker:manage")) return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
 
 	try {
 		const body = await request.json();
@@ -27,28 +28,37 @@ export const POST: APIRoute = async ({ cookies, request, params }) => {
 		}
 
 		const sanitized = id.replace(/[^a-zA-Z0-9_\-]/g, "");
-		const cmdKey = action === "remove" ? "docker:rm" : `docker:${action}`;
 
-		const result = await runAsync(cmdKey, [sanitized], 30000);
-
-		if (!result.ok) {
-			const errorCode = action === "start" ? ERROR_CODES.ERR_CONTAINER_START_FAILED
-				: action === "stop" ? ERROR_CODES.ERR_CONTAINER_STOP_FAILED
-					: action === "restart" ? ERROR_CODES.ERR_CONTAINER_START_FAILED
-						: ERROR_CODES.ERR_CONTAINER_REMOVE_FAILED;
+		try {
+			switch (action) {
+				case "start":
+					await startContainer(sanitized);
+					break;
+				case "stop":
+					await stopContainer(sanitized);
+					break;
+				case "restart":
+					await restartContainer(sanitized);
+					break;
+				case "remove":
+					await removeContainer(sanitized, { force: true });
+					break;
+			}
+		} catch (err) {
+			const error = toDockerError(err);
 
 			logAction(
 				user.username,
 				`CONTAINER_${action.toUpperCase()}`,
 				id,
-				`Failed: ${result.stderr || result.stdout}`,
+				`Failed: ${error.message}`,
 				undefined,
-				{ level: LOG_LEVELS.ERROR, code: errorCode }
+				{ level: LOG_LEVELS.ERROR, code: error.code }
 			);
 
 			return new Response(
-				JSON.stringify({ ok: false, error: result.stderr || "Action failed", code: errorCode }),
-				{ status: 500, headers: { "Content-Type": "application/json" } }
+				JSON.stringify({ ok: false, error: error.message, code: error.code }),
+				{ status: error.status, headers: { "Content-Type": "application/json" } }
 			);
 		}
 
@@ -62,7 +72,7 @@ export const POST: APIRoute = async ({ cookies, request, params }) => {
 		);
 
 		return new Response(
-			JSON.stringify({ ok: true, message: result.stdout }),
+			JSON.stringify({ ok: true, message: `Container ${action} successful` }),
 			{ status: 200, headers: { "Content-Type": "application/json" } }
 		);
 	} catch (err) {
@@ -0,0 +1,201 @@
+/**
+ * Container Logs API - GET /api/docker/container/:id/logs
+ * Recent log lines as JSON, or a live Server-Sent Events stream with ?follow=1
+ *
+ * Query: tail (or "all"), since, until (unix seconds, ISO date or "15m"/"2h"/"1d" ago),
+ * timestamps=1, stream=stdout|stderr|all
+ *
+ * SSE events: "logs" (batch of entries), "end" (container stopped), "error"
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { hasPermission } from "../../../../../lib/roles";
+import { createDemuxer, openLogStream, toDockerError, type LogStream } from "../../../../../lib/docker";
+import { getModuleSettings } from "../../../../../modules/settings";
+import type { dockerSettings } from "../../../../../modules/core/docker/manifest";
+
+const MAX_TAIL = 5000;
+const HEARTBEAT_INTERVAL = 15000;
+
+interface LogEntry {
+	stream: LogStream;
+	time?: string;
+	line: string;
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+/** Parse since/until; returns undefined when unset and null when invalid. */
+function parseLogTime(value: string | null): number | undefined | null {
+	if (!value) return undefined;
+	if (/^\d+(\.\d+)?$/.test(value)) return Number(value);
+
+	const relative = /^(\d+)([smhd])$/.exec(value);
+	if (relative) {
+		return Math.floor(Date.now() / 1000) - Number(relative[1]) * DURATION_UNITS[relative[2]];
+	}
+
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? null : Math.floor(date / 1000);
+}
+
+/**
+ * Turn demuxed chunks into complete lines, keeping a partial line per stream
+ * until its newline arrives. With timestamps, Docker prefixes each line with
+ * an RFC 3339 time followed by a space.
+ */
+function createLineSplitter(timestamps: boolean, onLines: (entries: LogEntry[]) => void) {
+	const partial: Record<LogStream, string> = { stdout: "", stderr: "" };
+
+	function toEntry(stream: LogStream, raw: string): LogEntry {
+		const line = raw.replace(/\r$/, "");
+		if (!timestamps) return { stream, line };
+		const space = line.indexOf(" ");
+		return space > 0 ? { stream, time: line.slice(0, space), line: line.slice(space + 1) } : { stream, line };
+	}
+
+	return {
+		push(stream: LogStream, data: Buffer) {
+			const parts = (partial[stream] + data.toString("utf-8")).split("\n");
+			partial[stream] = parts.pop() ?? "";
+			if (parts.length > 0) onLines(parts.map((raw) => toEntry(stream, raw)));
+		},
+		flush() {
+			const rest = (["stdout", "stderr"] as const).filter((s) => partial[s]).map((s) => toEntry(s, partial[s]));
+			partial.stdout = partial.stderr = "";
+			if (rest.length > 0) onLines(rest);
+		},
+	};
+}
+
+export const GET: APIRoute = async ({ cookies, params, url, request }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:read")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	const id = params.id;
+	if (!id) {
+		return new Response(JSON.stringify({ error: "Container ID required" }), { status: 400 });
+	}
+
+	const follow = url.searchParams.get("follow") === "1";
+	const timestamps = url.searchParams.get("timestamps") === "1";
+	const streamFilter = url.searchParams.get("stream") || "all";
+	const tailParam = url.searchParams.get("tail") || url.searchParams.get("lines") || String(getModuleSettings<typeof dockerSettings>("docker").logTail);
+	const tail = tailParam === "all" ? undefined : Math.min(parseInt(tailParam, 10) || 0, MAX_TAIL);
+	const since = parseLogTime(url.searchParams.get("since"));
+	const until = parseLogTime(url.searchParams.get("until"));
+
+	if (since === null || until === null) {
+		return new Response(JSON.stringify({ error: "since/until must be a unix time, a date or a duration like 15m" }), { status: 400 });
+	}
+	if (!["all", "stdout", "stderr"].includes(streamFilter)) {
+		return new Response(JSON.stringify({ error: "stream must be stdout, stderr or all" }), { status: 400 });
+	}
+
+	let logStream: Awaited<ReturnType<typeof openLogStream>>;
+	try {
+		logStream = await openLogStream(id, {
+			follow,
+			tail,
+			since,
+			until,
+			timestamps,
+			stdout: streamFilter !== "stderr",
+			stderr: streamFilter !== "stdout",
+		});
+	} catch (err) {
+		const error = toDockerError(err);
+		return new Response(JSON.stringify({ error: error.message, code: error.code }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+
+	const { stream: upstream, tty } = logStream;
+
+	// One-off read: collect everything and answer with JSON
+	if (!follow) {
+		const entries: LogEntry[] = [];
+		const splitter = createLineSplitter(timestamps, (lines) => entries.push(...lines));
+		const demux = createDemuxer(tty, splitter.push);
+
+		try {
+			for await (const chunk of upstream) demux(chunk as Buffer);
+			splitter.flush();
+		} catch (err) {
+			const error = toDockerError(err);
+			return new Response(JSON.stringify({ error: error.message, code: error.code }), {
+				status: error.status,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+
+		return new Response(JSON.stringify({ logs: entries.map((e) => e.line), entries }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+
+	// Live stream: relay batches as SSE until the container stops or the client leaves
+	const encoder = new TextEncoder();
+	let heartbeat: ReturnType<typeof setInterval> | undefined;
+	let closed = false;
+
+	function cleanup() {
+		if (closed) return;
+		closed = true;
+		clearInterval(heartbeat);
+		upstream.destroy();
+	}
+
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			const send = (event: string, data: unknown) => {
+				if (closed) return;
+				controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+			};
+			const finish = () => {
+				if (closed) return;
+				cleanup();
+				controller.close();
+			};
+
+			const splitter = createLineSplitter(timestamps, (entries) => send("logs", entries));
+			const demux = createDemuxer(tty, splitter.push);
+
+			upstream.on("data", (chunk: Buffer) => demux(chunk));
+			upstream.on("end", () => {
+				splitter.flush();
+				send("end", { reason: "Container stopped" });
+				finish();
+			});
+			upstream.on("error", (err) => {
+				send("error", { error: err.message });
+				finish();
+			});
+
+			heartbeat = setInterval(() => {
+				if (!closed) controller.enqueue(encoder.encode(": ping\n\n"));
+			}, HEARTBEAT_INTERVAL);
+			request.signal.addEventListener("abort", cleanup, { once: true });
+		},
+		cancel() {
+			cleanup();
+		},
+	});
+
+	return new Response(body, {
+		status: 200,
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache",
+			Connection: "keep-alive",
+			"X-Accel-Buffering": "no",
+		},
+	});
+};
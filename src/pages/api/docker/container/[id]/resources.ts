@@ -4,8 +4,16 @@
  */
 import type { APIRoute } from "astro";
 import { getUserFromCookies } from "../../../../../lib/auth";
+import { hasPermission } from "../../../../../lib/roles";
 import { logAction } from "../../../../../lib/audit";
-import { execFileSync } from "child_process";
+import {
+	containerStats,
+	inspectContainer,
+	summarizeStats,
+	toDockerError,
+	updateContainer,
+	type DockerContainerUpdate,
+} from "../../../../../lib/docker";
 
 export const GET: APIRoute = async ({ cookies, params }) => {
 	const user = getUserFromCookies(cookies);
@@ -19,26 +27,14 @@ export const GET: APIRoute = async ({ cookies, params }) => {
 	}
 
 	try {
-		// Get container stats
-		const stats = execFileSync(
-			"docker",
-			["stats", "--no-stream", "--format", "{{.CPUPerc}}|{{.MemUsage}}|{{.MemLimit}}|{{.NetIO}}|{{.BlockIO}}", id],
-			{ encoding: "utf-8", timeout: 10000 }
-		);
-
-		// Get container inspect for resource limits
-		const inspect = execFileSync(
-			"docker",
-			["inspect", "--format", "{{json .HostConfig}}", id],
-			{ encoding: "utf-8", timeout: 10000 }
-		);
-
-		const hostConfig = JSON.parse(inspect);
+		// Current usage, and the configured limits from inspect
+		const [stats, inspect] = await Promise.all([containerStats(id), inspectContainer(id)]);
+		const hostConfig = inspect.HostConfig;
 
 		return new Response(
 			JSON.stringify({
 				id,
-				stats: stats.trim(),
+				stats: inspect.State.Running ? summarizeStats(stats) : null,
 				limits: {
 					cpu: hostConfig.NanoCpus ? hostConfig.NanoCpus / 1000000000 : null,
 					memory: hostConfig.Memory,
@@ -51,21 +47,23 @@ export const GET: APIRoute = async ({ cookies, params }) => {
 				headers: { "Content-Type": "application/json" },
 			}
 		);
-	} catch (err: any) {
-		console.error("[docker] Error getting container resources:", err);
+	} catch (err) {
+		const error = toDockerError(err);
+		console.error("[docker] Error getting container resources:", error.message);
 		return new Response(
 			JSON.stringify({
 				error: "Failed to get container resources",
-				message: err.message,
+				message: error.message,
+				code: error.code,
 			}),
-			{ status: 500, headers: { "Content-Type": "application/json" } }
+			{ status: error.status, headers: { "Content-Type": "application/json" } }
 		);
 	}
 };
 
 export const POST: APIRoute = async ({ cookies, params, request }) => {
 	const user = getUserFromCookies(cookies);
-	if (!user || user.role !== "admin") {
+	if (!user || !hasPermission(user.role, "docker:manage")) {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
 
@@ -78,22 +76,24 @@ export const POST: APIRoute = async ({ cookies, params, request }) => {
 		const body = await request.json();
 		const { cpu, memory, memorySwap } = body;
 
-		// Build update command
-		const args = ["update"];
+		// Build the update; cpu is in cores, memory values in bytes
+		const update: DockerContainerUpdate = {};
 
 		if (cpu !== undefined) {
-			args.push("--cpus", cpu.toString());
+			update.NanoCpus = Math.round(Number(cpu) * 1000000000);
 		}
 		if (memory !== undefined) {
-			args.push("--memory", memory.toString());
+			update.Memory = Number(memory);
 		}
 		if (memorySwap !== undefined) {
-			args.push("--memory-swap", memorySwap.toString());
+			update.MemorySwap = Number(memorySwap);
 		}
 
-		args.push(id);
+		if (Object.values(update).some((value) => !Number.isFinite(value) || (value as number) < -1)) {
+			return new Response(JSON.stringify({ error: "Resource limits must be numbers" }), { status: 400 });
+		}
 
-		execFileSync("docker", args, { encoding: "utf-8", timeout: 30000 });
+		await updateContainer(id, update);
 
 		logAction(user.username, "UPDATE_CONTAINER_RESOURCES", id, `Updated resources: CPU=${cpu}, Memory=${memory}`);
 
@@ -104,14 +104,16 @@ export const POST: APIRoute = async ({ cookies, params, request }) => {
 				headers: { "Content-Type": "application/json" },
 			}
 		);
-	} catch (err: any) {
-		console.error("[docker] Error updating container resources:", err);
+	} catch (err) {
+		const error = toDockerError(err);
+		console.error("[docker] Error updating container resources:", error.message);
 		return new Response(
 			JSON.stringify({
 				error: "Failed to update container resources",
-				message: err.message,
+				message: error.message,
+				code: error.code,
 			}),
-			{ status: 500, headers: { "Content-Type": "application/json" } }
+			{ status: error.status, headers: { "Content-Type": "application/json" } }
 		);
 	}
 };
@@ -1,10 +1,35 @@
 /**
  * GET /api/docker/containers – Lists all Docker containers.
- * Uses Docker CLI with JSON formatting for reliable parsing.
+ * Uses the Docker Engine API, which already returns the structure ContainerCard expects.
+ *
+ * POST /api/docker/containers – Creates (and by default starts) a container
+ * from a ContainerSpec, pulling the image first when it isn't present.
  */
 import type { APIRoute } from "astro";
-import { runSync } from "../../../lib/exec";
+import {
+	connectNetwork,
+	createContainer,
+	imageExists,
+	listContainers,
+	pullImage,
+	removeContainer,
+	splitImageTag,
+	startContainer,
+	toDockerError,
+} from "../../../lib/docker";
 import { getUserFromCookies } from "../../../lib/auth";
+import { hasPermission } from "../../../lib/roles";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../lib/audit";
+import {
+	emptyContainerSpec,
+	findPortConflicts,
+	hostAccessIn,
+	toCreateConfig,
+	toDockerRunCommand,
+	validateContainerSpec,
+	type ContainerSpec,
+} from "../../../lib/container-spec";
+import { getRegistryAuthForImage } from "../../../lib/registry-credentials";
 
 export const GET: APIRoute = async ({ cookies }) => {
 	const user = getUserFromCookies(cookies);
@@ -13,62 +38,109 @@ export const GET: APIRoute = async ({ cookies }) => {
 	}
 
 	try {
-		// Use docker ps with JSON format
-		const result = runSync("docker:ps", [], 15000);
+		const containers = await listContainers({ all: true });
 
-		if (!result.ok) {
-			return new Response(JSON.stringify([]), {
-				status: 200,
+		return new Response(JSON.stringify(containers), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		const error = toDockerError(err);
+		return new Response(JSON.stringify({ error: error.message, code: error.code }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
+
+export const POST: APIRoute = async ({ cookies, request, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:write")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	let spec: ContainerSpec;
+	try {
+		spec = { ...emptyContainerSpec(), ...(await request.json()) };
+	} catch {
+		return new Response(JSON.stringify({ error: "Invalid JSON body" }), { status: 400 });
+	}
+
+	const errors = validateContainerSpec(spec);
+	if (errors.length > 0) {
+		return new Response(JSON.stringify({ error: errors[0], errors }), {
+			status: 400,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+
+	const hostAccess = hostAccessIn(spec);
+	if (hostAccess.length > 0 && !hasPermission(user.role, "admin")) {
+		logAction(user.username, "CONTAINER_CREATE", spec.name || spec.image, `Refused ${hostAccess.join(", ")}`, clientAddress, {
+			level: LOG_LEVELS.WARN,
+			code: ERROR_CODES.ERR_FORBIDDEN,
+		});
+		return new Response(JSON.stringify({ error: `Only admins can use ${hostAccess.join(", ")}` }), {
+			status: 403,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+
+	const label = spec.name || spec.image;
+	let createdId: string | undefined;
+	try {
+		const conflicts = findPortConflicts(spec, await listContainers());
+		if (conflicts.length > 0) {
+			const list = conflicts.map((c) => `${c.port}/${c.protocol} (used by ${c.container})`).join(", ");
+			return new Response(JSON.stringify({ error: `Host ports already in use: ${list}`, conflicts }), {
+				status: 409,
 				headers: { "Content-Type": "application/json" },
 			});
 		}
 
-		const containers = result.stdout
-			.split("\n")
-			.filter(Boolean)
-			.map((line) => {
-				try {
-					const c = JSON.parse(line);
-					// Normalize into structure ContainerCard expects
-					return {
-						Id: c.ID,
-						Names: [`/${c.Names}`],
-						Image: c.Image,
-						State: c.State?.toLowerCase(),
-						Status: c.Status,
-						Ports: parsePorts(c.Ports || ""),
-						Created: c.CreatedAt,
-					};
-				} catch {
-					return null;
-				}
-			})
-			.filter(Boolean);
+		if (!(await imageExists(spec.image))) {
+			const [image, tag] = splitImageTag(spec.image);
+			await pullImage(image, tag, { auth: getRegistryAuthForImage(image) });
+		}
 
-		return new Response(JSON.stringify(containers), {
-			status: 200,
+		const { Id, Warnings } = await createContainer(toCreateConfig(spec), spec.name || undefined);
+		createdId = Id;
+		for (const network of spec.networks.slice(1)) {
+			await connectNetwork(network, Id);
+		}
+		if (spec.start !== false) {
+			await startContainer(Id);
+		}
+
+		// Environment values often carry credentials; keep them out of the audit log
+		const redacted = { ...spec, env: spec.env.map(({ key }) => ({ key, value: "***" })) };
+		logAction(user.username, "CONTAINER_CREATE", label, toDockerRunCommand(redacted), clientAddress, {
+			level: LOG_LEVELS.INFO,
+			code: "INF001",
+		});
+
+		return new Response(JSON.stringify({ ok: true, id: Id, warnings: Warnings ?? [] }), {
+			status: 201,
 			headers: { "Content-Type": "application/json" },
 		});
-	} catch {
-		return new Response(JSON.stringify([]), {
-			status: 200,
+	} catch (err) {
+		const error = toDockerError(err, ERROR_CODES.ERR_CONTAINER_START_FAILED);
+
+		// Don't leave a half-configured container behind
+		if (createdId) {
+			await removeContainer(createdId, { force: true }).catch(() => undefined);
+		}
+
+		logAction(user.username, "CONTAINER_CREATE", label, `Failed: ${error.message}`, clientAddress, {
+			level: LOG_LEVELS.ERROR,
+			code: error.code,
+		});
+		return new Response(JSON.stringify({ ok: false, error: error.message, code: error.code }), {
+			status: error.status,
 			headers: { "Content-Type": "application/json" },
 		});
 	}
 };
-
-function parsePorts(portStr: string) {
-	if (!portStr) return [];
-	return portStr.split(",").map((p) => {
-		const match = p.trim().match(/(?:(\d+\.\d+\.\d+\.\d+):)?(\d+)->(\d+)\/(\w+)/);
-		if (match) {
-			return {
-				IP: match[1] || "0.0.0.0",
-				PublicPort: parseInt(match[2]),
-				PrivatePort: parseInt(match[3]),
-				Type: match[4],
-			};
-		}
-		return null;
-	}).filter(Boolean);
-}
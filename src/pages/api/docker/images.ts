@@ -1,8 +1,9 @@
 /**
  * GET /api/docker/images – Lists all Docker images.
+ * Each image gets a UsedBy list with the names of the containers created from it.
  */
 import type { APIRoute } from "astro";
-import { runSync } from "../../../lib/exec";
+import { containersByImage, listContainers, listImages, toDockerError } from "../../../lib/docker";
 import { getUserFromCookies } from "../../../lib/auth";
 
 export const GET: APIRoute = async ({ cookies }) => {
@@ -12,38 +13,12 @@ export const GET: APIRoute = async ({ cookies }) => {
 	}
 
 	try {
-		const result = runSync("docker:images", [], 15000);
-		if (!result.ok) {
-			return new Response(JSON.stringify([]), { status: 200, headers: { "Content-Type": "application/json" } });
-		}
-
-		const images = result.stdout
-			.split("\n")
-			.filter(Boolean)
-			.map((line) => {
-				try {
-					const img = JSON.parse(line);
-					return {
-						Id: img.ID,
-						RepoTags: [`${img.Repository}:${img.Tag}`],
-						Size: parseSize(img.Size || "0"),
-						Created: img.CreatedAt,
-					};
-				} catch { return null; }
-			})
-			.filter(Boolean);
-
-		return new Response(JSON.stringify(images), { status: 200, headers: { "Content-Type": "application/json" } });
-	} catch {
-		return new Response(JSON.stringify([]), { status: 200, headers: { "Content-Type": "application/json" } });
+		const [images, containers] = await Promise.all([listImages(), listContainers({ all: true })]);
+		const usage = containersByImage(containers);
+		const result = images.map((image) => ({ ...image, UsedBy: usage.get(image.Id) ?? [] }));
+		return new Response(JSON.stringify(result), { status: 200, headers: { "Content-Type": "application/json" } });
+	} catch (err) {
+		const error = toDockerError(err);
+		return new Response(JSON.stringify({ error: error.message, code: error.code }), { status: error.status, headers: { "Content-Type": "application/json" } });
 	}
 };
-
-function parseSize(sizeStr: string): number {
-	const match = sizeStr.match(/([\d.]+)\s*(B|KB|MB|GB|TB)/i);
-	if (!match) return 0;
-	const val = parseFloat(match[1]);
-	const unit = match[2].toUpperCase();
-	const multipliers: Record<string, number> = { B: 1, KB: 1024, MB: 1048576, GB: 1073741824, TB: 1099511627776 };
-	return val * (multipliers[unit] || 1);
-}
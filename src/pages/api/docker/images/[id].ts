@@ -0,0 +1,56 @@
+/**
+ * Image Remove API - DELETE /api/docker/images/:id
+ * Removes an image by id or reference. Images used by a container are
+ * refused with 409 unless ?force=1 is given.
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../lib/audit";
+import { removeImage, toDockerError } from "../../../../lib/docker";
+
+export const DELETE: APIRoute = async ({ cookies, params, url, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:write")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	const id = params.id;
+	if (!id) {
+		return new Response(JSON.stringify({ error: "Image ID required" }), { status: 400 });
+	}
+	const force = url.searchParams.get("force") === "1";
+
+	try {
+		const removed = await removeImage(id, { force });
+		const deleted = removed.filter((item) => item.Deleted).length;
+		const untagged = removed.filter((item) => item.Untagged).map((item) => item.Untagged);
+
+		logAction(
+			user.username,
+			"IMAGE_REMOVE",
+			id,
+			`Removed${force ? " (forced)" : ""}: ${deleted} layer(s)${untagged.length ? `, untagged ${untagged.join(", ")}` : ""}`,
+			clientAddress,
+			{ level: LOG_LEVELS.INFO, code: "INF013" }
+		);
+
+		return new Response(JSON.stringify({ ok: true, removed }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		const error = toDockerError(err, ERROR_CODES.ERR_IMAGE_REMOVE_FAILED);
+		logAction(user.username, "IMAGE_REMOVE", id, `Failed: ${error.message}`, clientAddress, {
+			level: LOG_LEVELS.ERROR,
+			code: error.code,
+		});
+		return new Response(JSON.stringify({ ok: false, error: error.message, code: error.code }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
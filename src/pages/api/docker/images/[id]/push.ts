@@ -0,0 +1,96 @@
+/**
+ * Image Push API - POST /api/docker/images/:id/push
+ * Tags an image for the push registry from the Docker module settings and
+ * pushes it, streaming progress as NDJSON (see lib/image-progress.ts)
+ *
+ * Body: { source?: "app:1.2" } – which of the image's tags to push (defaults to the first)
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { hasPermission } from "../../../../../lib/roles";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../../lib/audit";
+import {
+	inspectImage,
+	pushImage,
+	splitImageTag,
+	tagImage,
+	toDockerError,
+	type DockerImageInspect,
+} from "../../../../../lib/docker";
+import { imageProgressResponse } from "../../../../../lib/image-progress";
+import { getRegistryAuthForImage } from "../../../../../lib/registry-credentials";
+import { getModuleSettings } from "../../../../../modules/settings";
+import type { dockerSettings } from "../../../../../modules/core/docker/manifest";
+
+/** "ghcr.io/org/app" → "org/app"; the first path part is a registry host if it has a dot, a port or is localhost. */
+function stripRegistry(repo: string): string {
+	const [first, ...rest] = repo.split("/");
+	if (rest.length > 0 && (first.includes(".") || first.includes(":") || first === "localhost")) {
+		return rest.join("/");
+	}
+	return repo;
+}
+
+export const POST: APIRoute = async ({ cookies, params, request, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:write")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	const id = params.id;
+	if (!id) {
+		return new Response(JSON.stringify({ error: "Image ID required" }), { status: 400 });
+	}
+
+	const registry = getModuleSettings<typeof dockerSettings>("docker").pushRegistry.trim().replace(/\/+$/, "");
+	if (!registry) {
+		return new Response(JSON.stringify({ error: "No push registry configured (Docker module settings)" }), { status: 400 });
+	}
+
+	// The body is optional
+	const body = await request.json().catch(() => ({}));
+	let source: string | undefined = typeof body?.source === "string" && body.source ? body.source : undefined;
+
+	let image: DockerImageInspect;
+	try {
+		image = await inspectImage(id);
+	} catch (err) {
+		const error = toDockerError(err);
+		return new Response(JSON.stringify({ error: error.message, code: error.code }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+
+	const tags = (image.RepoTags ?? []).filter((t) => t !== "<none>:<none>");
+	source ??= tags[0];
+	if (!source || !tags.includes(source)) {
+		const error = source ? `Image has no tag "${source}"` : "Untagged images cannot be pushed; tag it first";
+		return new Response(JSON.stringify({ error }), { status: 400 });
+	}
+
+	const [repo, tag] = splitImageTag(source);
+	const target = repo.startsWith(`${registry}/`) ? repo : `${registry}/${stripRegistry(repo)}`;
+
+	return imageProgressResponse(
+		request,
+		async (onProgress) => {
+			if (target !== repo) await tagImage(image.Id, target, tag);
+			await pushImage(target, tag, { auth: getRegistryAuthForImage(target), onProgress });
+		},
+		ERROR_CODES.ERR_IMAGE_PUSH_FAILED,
+		(error) => {
+			logAction(
+				user.username,
+				"IMAGE_PUSH",
+				`${target}:${tag}`,
+				error ? `Failed: ${error.message}` : `Pushed ${source}`,
+				clientAddress,
+				{ level: error ? LOG_LEVELS.ERROR : LOG_LEVELS.INFO, code: error ? error.code : "INF013" }
+			);
+		}
+	);
+};
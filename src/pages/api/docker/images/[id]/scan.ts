@@ -4,12 +4,13 @@
  */
 import type { APIRoute } from "astro";
 import { getUserFromCookies } from "../../../../../lib/auth";
+import { hasPermission } from "../../../../../lib/roles";
 import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../../lib/audit";
 import { execFileSync } from "child_process";
 
 export const POST: APIRoute = async ({ cookies, params }) => {
 	const user = getUserFromCookies(cookies);
-	if (!user || user.role !== "admin") {
+	if (!user || !hasPermission(user.role, "docker:manage")) {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
 
@@ -0,0 +1,68 @@
+/**
+ * Image Tag API - POST /api/docker/images/:id/tag
+ * Adds a repository:tag reference to an image
+ *
+ * Body: { repo: "registry.example.com/app", tag: "1.2" }
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { hasPermission } from "../../../../../lib/roles";
+import { logAction, LOG_LEVELS } from "../../../../../lib/audit";
+import { tagImage, toDockerError } from "../../../../../lib/docker";
+
+// Same rules as `docker tag`: lowercase path components, optional registry host:port
+const REPO_PATTERN = /^[a-z0-9]+([._\-/:][a-z0-9]+)*$/;
+const TAG_PATTERN = /^\w[\w.-]{0,127}$/;
+
+export const POST: APIRoute = async ({ cookies, params, request, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:write")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	const id = params.id;
+	if (!id) {
+		return new Response(JSON.stringify({ error: "Image ID required" }), { status: 400 });
+	}
+
+	let repo: string;
+	let tag: string;
+	try {
+		const body = await request.json();
+		repo = String(body.repo ?? "").trim();
+		tag = String(body.tag ?? "").trim() || "latest";
+	} catch {
+		return new Response(JSON.stringify({ error: "Invalid JSON body" }), { status: 400 });
+	}
+	if (!REPO_PATTERN.test(repo)) {
+		return new Response(JSON.stringify({ error: `Invalid repository name "${repo}"` }), { status: 400 });
+	}
+	if (!TAG_PATTERN.test(tag)) {
+		return new Response(JSON.stringify({ error: `Invalid tag "${tag}"` }), { status: 400 });
+	}
+
+	try {
+		await tagImage(id, repo, tag);
+		logAction(user.username, "IMAGE_TAG", id, `Tagged as ${repo}:${tag}`, clientAddress, {
+			level: LOG_LEVELS.INFO,
+			code: "INF013",
+		});
+		return new Response(JSON.stringify({ ok: true, reference: `${repo}:${tag}` }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		const error = toDockerError(err);
+		logAction(user.username, "IMAGE_TAG", id, `Failed to tag as ${repo}:${tag}: ${error.message}`, clientAddress, {
+			level: LOG_LEVELS.ERROR,
+			code: error.code,
+		});
+		return new Response(JSON.stringify({ ok: false, error: error.message, code: error.code }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
@@ -0,0 +1,91 @@
+/**
+ * Image Prune API - POST /api/docker/images/prune
+ * Removes dangling images, or every image no container uses
+ *
+ * Body: { mode: "dangling" | "unused", dryRun?: boolean }
+ * A dry run lists the images that would go and the space they take up.
+ * Layers shared with kept images are not freed, so that is an upper bound.
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../lib/audit";
+import {
+	containersByImage,
+	isDanglingImage,
+	listContainers,
+	listImages,
+	pruneImages,
+	toDockerError,
+} from "../../../../lib/docker";
+
+export const POST: APIRoute = async ({ cookies, request, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:write")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	let mode: string;
+	let dryRun: boolean;
+	try {
+		const body = await request.json();
+		mode = body.mode ?? "dangling";
+		dryRun = body.dryRun === true;
+	} catch {
+		return new Response(JSON.stringify({ error: "Invalid JSON body" }), { status: 400 });
+	}
+	if (mode !== "dangling" && mode !== "unused") {
+		return new Response(JSON.stringify({ error: 'mode must be "dangling" or "unused"' }), { status: 400 });
+	}
+
+	try {
+		if (dryRun) {
+			const [images, containers] = await Promise.all([listImages(), listContainers({ all: true })]);
+			const usage = containersByImage(containers);
+			const candidates = images
+				.filter((image) => !usage.has(image.Id) && (mode === "unused" || isDanglingImage(image)))
+				.map((image) => ({ Id: image.Id, RepoTags: image.RepoTags, Size: image.Size, Created: image.Created }));
+
+			return new Response(
+				JSON.stringify({
+					dryRun: true,
+					mode,
+					images: candidates,
+					reclaimable: candidates.reduce((sum, image) => sum + image.Size, 0),
+				}),
+				{ status: 200, headers: { "Content-Type": "application/json" } }
+			);
+		}
+
+		const result = await pruneImages(mode === "unused");
+		const deleted = (result.ImagesDeleted ?? []).filter((item) => item.Deleted).length;
+		logAction(
+			user.username,
+			"IMAGE_PRUNE",
+			mode,
+			`Removed ${deleted} image layer(s), reclaimed ${(result.SpaceReclaimed / 1024 / 1024).toFixed(1)} MB`,
+			clientAddress,
+			{ level: LOG_LEVELS.INFO, code: "INF013" }
+		);
+
+		return new Response(
+			JSON.stringify({ ok: true, mode, removed: result.ImagesDeleted ?? [], reclaimed: result.SpaceReclaimed }),
+			{ status: 200, headers: { "Content-Type": "application/json" } }
+		);
+	} catch (err) {
+		const error = toDockerError(err, ERROR_CODES.ERR_IMAGE_REMOVE_FAILED);
+		if (!dryRun) {
+			logAction(user.username, "IMAGE_PRUNE", mode, `Failed: ${error.message}`, clientAddress, {
+				level: LOG_LEVELS.ERROR,
+				code: error.code,
+			});
+		}
+		return new Response(JSON.stringify({ ok: false, error: error.message, code: error.code }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
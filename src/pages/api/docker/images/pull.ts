@@ -0,0 +1,48 @@
+/**
+ * Image Pull API - POST /api/docker/images/pull
+ * Pulls an image and streams per-layer progress as NDJSON (see lib/image-progress.ts).
+ * Saved credentials for the image's registry are used automatically.
+ *
+ * Body: { image: "nginx:1.27" }
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../lib/audit";
+import { pullImage, splitImageTag } from "../../../../lib/docker";
+import { isImageReference } from "../../../../lib/container-spec";
+import { imageProgressResponse } from "../../../../lib/image-progress";
+import { getRegistryAuthForImage } from "../../../../lib/registry-credentials";
+
+export const POST: APIRoute = async ({ cookies, request, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:write")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	let image: string;
+	try {
+		image = String((await request.json()).image ?? "").trim();
+	} catch {
+		return new Response(JSON.stringify({ error: "Invalid JSON body" }), { status: 400 });
+	}
+	if (!image || !isImageReference(image)) {
+		return new Response(JSON.stringify({ error: `Invalid image reference "${image}"` }), { status: 400 });
+	}
+
+	const [name, tag] = splitImageTag(image);
+	return imageProgressResponse(
+		request,
+		(onProgress) => pullImage(name, tag, { auth: getRegistryAuthForImage(name), onProgress }),
+		ERROR_CODES.ERR_IMAGE_PULL_FAILED,
+		(error) => {
+			logAction(user.username, "IMAGE_PULL", image, error ? `Failed: ${error.message}` : "Pulled", clientAddress, {
+				level: error ? LOG_LEVELS.ERROR : LOG_LEVELS.INFO,
+				code: error ? error.code : "INF013",
+			});
+		}
+	);
+};
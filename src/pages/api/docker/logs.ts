@@ -2,25 +2,33 @@
  * GET /api/docker/logs?id=xxx&tail=100 – Fetch container logs.
  */
 import type { APIRoute } from "astro";
-import { runSync } from "../../../lib/exec";
+import { containerLogs, toDockerError } from "../../../lib/docker";
 import { getUserFromCookies } from "../../../lib/auth";
+import { getModuleSettings } from "../../../modules/settings";
+import type { dockerSettings } from "../../../modules/core/docker/manifest";
 
 export const GET: APIRoute = async ({ cookies, url }) => {
 	const user = getUserFromCookies(cookies);
 	if (!user) return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 
 	const id = url.searchParams.get("id");
-	const tail = parseInt(url.searchParams.get("tail") || "100");
+	const tail = parseInt(url.searchParams.get("tail") || String(getModuleSettings<typeof dockerSettings>("docker").logTail));
 
 	if (!id) {
 		return new Response(JSON.stringify({ error: "Missing container id" }), { status: 400 });
 	}
 
-	const sanitized = id.replace(/[^a-zA-Z0-9_\-]/g, "");
-	const result = runSync("docker:logs", ["--tail", String(Math.min(tail, 500)), sanitized], 10000);
+	try {
+		const sanitized = id.replace(/[^a-zA-Z0-9_\-]/g, "");
+		const { stdout, stderr } = await containerLogs(sanitized, { tail: Math.min(tail, 500) });
+		const logs = [stdout.trimEnd(), stderr.trimEnd()].filter(Boolean).join("\n");
 
-	return new Response(
-		JSON.stringify({ logs: result.stdout || (result.ok ? "No logs available" : "No logs available") }),
-		{ status: 200, headers: { "Content-Type": "application/json" } }
-	);
+		return new Response(
+			JSON.stringify({ logs: logs || "No logs available" }),
+			{ status: 200, headers: { "Content-Type": "application/json" } }
+		);
+	} catch (err) {
+		const error = toDockerError(err);
+		return new Response(JSON.stringify({ error: error.message, code: error.code }), { status: error.status, headers: { "Content-Type": "application/json" } });
+	}
 };
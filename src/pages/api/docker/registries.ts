@@ -0,0 +1,86 @@
+/**
+ * Registry Credentials API
+ * GET  /api/docker/registries – Saved registry logins (never includes passwords)
+ * POST /api/docker/registries – Log in to a registry and save the credentials
+ *
+ * Body: { server: "ghcr.io", username: "bot", password: "<password or token>" }
+ * The login is checked through the Docker daemon first; nothing is saved if it fails.
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../lib/auth";
+import { hasPermission } from "../../../lib/roles";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../lib/audit";
+import { registryLogin, toDockerError } from "../../../lib/docker";
+import {
+	listRegistryCredentials,
+	normalizeRegistryServer,
+	saveRegistryCredential,
+	toRegistryAuth,
+} from "../../../lib/registry-credentials";
+
+export const GET: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:read")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	return new Response(JSON.stringify({ registries: listRegistryCredentials() }), {
+		status: 200,
+		headers: { "Content-Type": "application/json" },
+	});
+};
+
+export const POST: APIRoute = async ({ cookies, request, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "admin")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	let body: { server?: unknown; username?: unknown; password?: unknown };
+	try {
+		body = await request.json();
+	} catch {
+		return new Response(JSON.stringify({ error: "Invalid JSON body" }), { status: 400 });
+	}
+
+	const server = normalizeRegistryServer(String(body.server ?? "docker.io"));
+	const username = typeof body.username === "string" ? body.username.trim() : "";
+	const password = typeof body.password === "string" ? body.password : "";
+	if (!server) {
+		return new Response(JSON.stringify({ error: "Registry must be a host name, e.g. ghcr.io or registry.example.com:5000" }), { status: 400 });
+	}
+	if (!username || !password) {
+		return new Response(JSON.stringify({ error: "Username and password are required" }), { status: 400 });
+	}
+
+	try {
+		await registryLogin(toRegistryAuth(server, username, password));
+	} catch (err) {
+		const error = toDockerError(err, ERROR_CODES.ERR_REGISTRY_LOGIN_FAILED);
+		logAction(user.username, "REGISTRY_LOGIN", server, `Login as ${username} failed: ${error.message}`, clientAddress, {
+			level: LOG_LEVELS.WARN,
+			code: error.code,
+		});
+		return new Response(JSON.stringify({ ok: false, error: error.message, code: error.code }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+
+	const registry = saveRegistryCredential(server, username, password, user.username);
+	logAction(user.username, "REGISTRY_LOGIN", server, `Saved credentials for ${username}`, clientAddress, {
+		level: LOG_LEVELS.INFO,
+		code: "INF014",
+	});
+
+	return new Response(JSON.stringify({ ok: true, registry }), {
+		status: 200,
+		headers: { "Content-Type": "application/json" },
+	});
+};
@@ -0,0 +1,34 @@
+/**
+ * Registry Credentials API - DELETE /api/docker/registries/:server
+ * Forgets the saved login for a registry
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction, LOG_LEVELS } from "../../../../lib/audit";
+import { deleteRegistryCredential } from "../../../../lib/registry-credentials";
+
+export const DELETE: APIRoute = async ({ cookies, params, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "admin")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	const server = params.server;
+	if (!server || !deleteRegistryCredential(server)) {
+		return new Response(JSON.stringify({ error: "No credentials saved for this registry" }), { status: 404 });
+	}
+
+	logAction(user.username, "REGISTRY_REMOVE", server, "Removed saved credentials", clientAddress, {
+		level: LOG_LEVELS.INFO,
+		code: "INF014",
+	});
+
+	return new Response(JSON.stringify({ ok: true }), {
+		status: 200,
+		headers: { "Content-Type": "application/json" },
+	});
+};
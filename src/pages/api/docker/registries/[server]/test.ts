@@ -0,0 +1,49 @@
+/**
+ * Registry Credentials API - POST /api/docker/registries/:server/test
+ * Checks that the saved login for a registry still works
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { hasPermission } from "../../../../../lib/roles";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../../lib/audit";
+import { registryLogin, toDockerError } from "../../../../../lib/docker";
+import { getRegistryAuth, recordRegistryCheck } from "../../../../../lib/registry-credentials";
+
+export const POST: APIRoute = async ({ cookies, params, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "docker:write")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	const server = params.server;
+	if (!server) {
+		return new Response(JSON.stringify({ error: "Registry required" }), { status: 400 });
+	}
+
+	try {
+		const auth = getRegistryAuth(server);
+		if (!auth) {
+			return new Response(JSON.stringify({ error: "No credentials saved for this registry" }), { status: 404 });
+		}
+		await registryLogin(auth);
+		recordRegistryCheck(server, true);
+		return new Response(JSON.stringify({ ok: true }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		const error = toDockerError(err, ERROR_CODES.ERR_REGISTRY_LOGIN_FAILED);
+		recordRegistryCheck(server, false);
+		logAction(user.username, "REGISTRY_TEST", server, `Saved login failed: ${error.message}`, clientAddress, {
+			level: LOG_LEVELS.WARN,
+			code: error.code,
+		});
+		return new Response(JSON.stringify({ ok: false, error: error.message, code: error.code }), {
+			status: error.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
@@ -2,7 +2,7 @@
  * GET /api/docker/volumes – Lists all Docker volumes.
  */
 import type { APIRoute } from "astro";
-import { runSync } from "../../../lib/exec";
+import { listVolumes, toDockerError } from "../../../lib/docker";
 import { getUserFromCookies } from "../../../lib/auth";
 
 export const GET: APIRoute = async ({ cookies }) => {
@@ -10,20 +10,10 @@ export const GET: APIRoute = async ({ cookies }) => {
 	if (!user) return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 
 	try {
-		const result = runSync("docker:volumes", [], 10000);
-		if (!result.ok) {
-			return new Response(JSON.stringify({ Volumes: [] }), { status: 200, headers: { "Content-Type": "application/json" } });
-		}
-
-		const volumes = result.stdout.split("\n").filter(Boolean).map((line) => {
-			try {
-				const v = JSON.parse(line);
-				return { Name: v.Name, Driver: v.Driver, Mountpoint: v.Mountpoint || "N/A" };
-			} catch { return null; }
-		}).filter(Boolean);
-
+		const volumes = await listVolumes();
 		return new Response(JSON.stringify({ Volumes: volumes }), { status: 200, headers: { "Content-Type": "application/json" } });
-	} catch {
-		return new Response(JSON.stringify({ Volumes: [] }), { status: 200, headers: { "Content-Type": "application/json" } });
+	} catch (err) {
+		const error = toDockerError(err);
+		return new Response(JSON.stringify({ Volumes: [], error: error.message, code: error.code }), { status: error.status, headers: { "Content-Type": "application/json" } });
 	}
 };
@@ -4,14 +4,15 @@
  */
 import type { APIRoute } from "astro";
 import { getUserFromCookies } from "../../../../../lib/auth";
+import { hasPermission } from "../../../../../lib/roles";
 import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../../lib/audit";
-import { execFileSync } from "child_process";
+import { inspectVolume, runToCompletion, toDockerError } from "../../../../../lib/docker";
 import * as fs from "fs";
 import * as path from "path";
 
 export const POST: APIRoute = async ({ cookies, params }) => {
 	const user = getUserFromCookies(cookies);
-	if (!user || user.role !== "admin") {
+	if (!user || !hasPermission(user.role, "docker:manage")) {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
 
@@ -31,25 +32,18 @@ export const POST: APIRoute = async ({ cookies, params }) => {
 		const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
 		const backupFile = path.join(backupDir, `${volumeName}-${timestamp}.tar.gz`);
 
+		await inspectVolume(volumeName);
+
 		// Create a temporary container to backup the volume
-		execFileSync(
-			"docker",
-			[
-				"run",
-				"--rm",
-				"-v",
-				`${volumeName}:/data:ro`,
-				"-v",
-				`${backupDir}:/backup`,
-				"alpine",
-				"tar",
-				"czf",
-				`/backup/${volumeName}-${timestamp}.tar.gz`,
-				"-C",
-				"/data",
-				".",
-			],
-			{ encoding: "utf-8", timeout: 120000 }
+		await runToCompletion(
+			{
+				Image: "alpine",
+				Cmd: ["tar", "czf", `/backup/${volumeName}-${timestamp}.tar.gz`, "-C", "/data", "."],
+				HostConfig: {
+					Binds: [`${volumeName}:/data:ro`, `${backupDir}:/backup`],
+				},
+			},
+			{ timeout: 120000, failedCode: ERROR_CODES.ERR_VOLUME_BACKUP_FAILED }
 		);
 
 		logAction(
@@ -73,24 +67,24 @@ export const POST: APIRoute = async ({ cookies, params }) => {
 				headers: { "Content-Type": "application/json" },
 			}
 		);
-	} catch (err: any) {
-		const errorMsg = err instanceof Error ? err.message : "Unknown error";
+	} catch (err) {
+		const error = toDockerError(err, ERROR_CODES.ERR_VOLUME_BACKUP_FAILED);
 		logAction(
 			user.username,
 			"VOLUME_BACKUP",
 			volumeName,
-			`Backup failed: ${errorMsg}`,
+			`Backup failed: ${error.message}`,
 			undefined,
-			{ level: LOG_LEVELS.ERROR, code: ERROR_CODES.ERR_VOLUME_BACKUP_FAILED }
+			{ level: LOG_LEVELS.ERROR, code: error.code }
 		);
-		console.error("[docker] Error backing up volume:", err);
+		console.error("[docker] Error backing up volume:", error.message);
 		return new Response(
 			JSON.stringify({
 				error: "Backup failed",
-				message: errorMsg,
-				code: ERROR_CODES.ERR_VOLUME_BACKUP_FAILED,
+				message: error.message,
+				code: error.code,
 			}),
-			{ status: 500, headers: { "Content-Type": "application/json" } }
+			{ status: error.status, headers: { "Content-Type": "application/json" } }
 		);
 	}
 };
@@ -4,14 +4,15 @@
  */
 import type { APIRoute } from "astro";
 import { getUserFromCookies } from "../../../../../lib/auth";
+import { hasPermission } from "../../../../../lib/roles";
 import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../../lib/audit";
-import { execFileSync } from "child_process";
+import { createVolume, DockerError, inspectVolume, runToCompletion, toDockerError } from "../../../../../lib/docker";
 import * as fs from "fs";
 import * as path from "path";
 
 export const POST: APIRoute = async ({ cookies, params, request }) => {
 	const user = getUserFromCookies(cookies);
-	if (!user || user.role !== "admin") {
+	if (!user || !hasPermission(user.role, "docker:manage")) {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
 
@@ -41,34 +42,22 @@ export const POST: APIRoute = async ({ cookies, params, request }) => {
 
 		// Create volume if it doesn't exist
 		try {
-			execFileSync("docker", ["volume", "inspect", volumeName], {
-				encoding: "utf-8",
-				timeout: 10000,
-			});
-		} catch {
-			// Volume doesn't exist, create it
-			execFileSync("docker", ["volume", "create", volumeName], {
-				encoding: "utf-8",
-				timeout: 10000,
-			});
+			await inspectVolume(volumeName);
+		} catch (err) {
+			if (!(err instanceof DockerError) || err.status !== 404) throw err;
+			await createVolume(volumeName);
 		}
 
 		// Restore the volume using a temporary container
-		execFileSync(
-			"docker",
-			[
-				"run",
-				"--rm",
-				"-v",
-				`${volumeName}:/data`,
-				"-v",
-				`${backupPath}:/backup.tar.gz:ro`,
-				"alpine",
-				"sh",
-				"-c",
-				"cd /data && rm -rf * && tar xzf /backup.tar.gz",
-			],
-			{ encoding: "utf-8", timeout: 120000 }
+		await runToCompletion(
+			{
+				Image: "alpine",
+				Cmd: ["sh", "-c", "cd /data && rm -rf * && tar xzf /backup.tar.gz"],
+				HostConfig: {
+					Binds: [`${volumeName}:/data`, `${backupPath}:/backup.tar.gz:ro`],
+				},
+			},
+			{ timeout: 120000, failedCode: ERROR_CODES.ERR_VOLUME_RESTORE_FAILED }
 		);
 
 		logAction(
@@ -90,24 +79,24 @@ export const POST: APIRoute = async ({ cookies, params, request }) => {
 				headers: { "Content-Type": "application/json" },
 			}
 		);
-	} catch (err: any) {
-		const errorMsg = err instanceof Error ? err.message : "Unknown error";
+	} catch (err) {
+		const error = toDockerError(err, ERROR_CODES.ERR_VOLUME_RESTORE_FAILED);
 		logAction(
 			user.username,
 			"VOLUME_RESTORE",
 			volumeName,
-			`Restore failed: ${errorMsg}`,
+			`Restore failed: ${error.message}`,
 			undefined,
-			{ level: LOG_LEVELS.ERROR, code: ERROR_CODES.ERR_VOLUME_RESTORE_FAILED }
+			{ level: LOG_LEVELS.ERROR, code: error.code }
 		);
-		console.error("[docker] Error restoring volume:", err);
+		console.error("[docker] Error restoring volume:", error.message);
 		return new Response(
 			JSON.stringify({
 				error: "Restore failed",
-				message: errorMsg,
-				code: ERROR_CODES.ERR_VOLUME_RESTORE_FAILED,
+				message: error.message,
+				code: error.code,
 			}),
-			{ status: 500, headers: { "Content-Type": "application/json" } }
+			{ status: error.status, headers: { "Content-Type": "application/json" } }
 		);
 	}
 };
@@ -0,0 +1,65 @@
+/**
+ * GET /api/metrics – Prometheus exporter (text format 0.0.4).
+ * Host metrics need system:read; container and systemd metrics are added when
+ * the caller may also read Docker (docker:read) and services (service:read),
+ * which for an API key means both its owner's role and its scopes allow it.
+ * Scrape with an API key: `authorization: { credentials: sp_<id>_<secret> }`.
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../lib/auth";
+import { hasPermission } from "../../lib/roles";
+import {
+	collectContainerMetrics,
+	collectHostMetrics,
+	collectLoginMetrics,
+	collectServiceMetrics,
+	family,
+	formatMetrics,
+	type MetricFamily,
+} from "../../lib/prometheus";
+import { getAllModules } from "../../modules/registry";
+
+function moduleMetrics(): MetricFamily[] {
+	const modules = family("serverpilot_modules", "gauge", "Registered modules by type and state.");
+	const counts = new Map<string, number>();
+	for (const m of getAllModules()) {
+		const state = m.error || !m.loaded ? "error" : m.enabled ? "enabled" : "disabled";
+		const key = `${m.manifest.type}:${state}`;
+		counts.set(key, (counts.get(key) ?? 0) + 1);
+	}
+	for (const type of ["core", "external"]) {
+		for (const state of ["enabled", "disabled", "error"]) {
+			modules.samples.push({ labels: { type, state }, value: counts.get(`${type}:${state}`) ?? 0 });
+		}
+	}
+	return [modules];
+}
+
+export const GET: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "system:read")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	const scopes = user.apiKey?.scopes;
+	const allowed = (permission: string) =>
+		hasPermission(user.role, permission) && (!scopes || scopes.includes("admin") || scopes.includes(permission));
+
+	const started = performance.now();
+	const [containers, services] = await Promise.all([
+		allowed("docker:read") ? collectContainerMetrics() : [],
+		allowed("service:read") ? collectServiceMetrics() : [],
+	]);
+
+	const scrape = family("serverpilot_scrape_duration_seconds", "gauge", "Time taken to collect these metrics.");
+	const families = [...collectHostMetrics(), ...containers, ...services, ...collectLoginMetrics(), ...moduleMetrics(), scrape];
+	scrape.samples.push({ value: Math.round(performance.now() - started) / 1000 });
+
+	return new Response(formatMetrics(families), {
+		status: 200,
+		headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8", "Cache-Control": "no-store" },
+	});
+};
@@ -0,0 +1,140 @@
+/**
+ * Module API router - handles /api/modules/:moduleId/*
+ * Authenticates the caller, matches the request against the module's apiRoutes
+ * (with :param segments), enforces requiredPermission, then runs the handler
+ * with a per-route timeout.
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction, logSystemError, LOG_LEVELS, ERROR_CODES } from "../../../../lib/audit";
+import { getModule, getApiRoutes } from "../../../../modules/registry";
+import { resolveRoute, loadRouteHandlers, runWithTimeout, DEFAULT_ROUTE_TIMEOUT } from "../../../../modules/router";
+
+function json(body: unknown, status: number, headers: Record<string, string> = {}): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { "Content-Type": "application/json", ...headers },
+	});
+}
+
+export const ALL: APIRoute = async (context) => {
+	const { params, request, cookies, clientAddress } = context;
+	const moduleId = params.moduleId;
+	const path = params.path ?? "";
+
+	// Before any lookup, so anonymous callers can't probe which modules and routes exist
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return json({ error: "Unauthorized", code: ERROR_CODES.ERR_UNAUTHORIZED }, 401);
+	}
+
+	if (!moduleId) {
+		return json({ error: "Module ID required" }, 400);
+	}
+
+	const module = getModule(moduleId);
+
+	if (!module) {
+		return json(
+			{
+				error: `Module "${moduleId}" not found`,
+				message: `The module "${moduleId}" is not installed or disabled.`,
+				code: ERROR_CODES.ERR_MODULE_NOT_FOUND,
+			},
+			404
+		);
+	}
+
+	if (!module.enabled) {
+		return json(
+			{
+				error: `Module "${moduleId}" is disabled`,
+				message: "Enable the module in settings to use this API.",
+			},
+			403
+		);
+	}
+
+	const method = request.method;
+	const resolution = resolveRoute(getApiRoutes(moduleId) ?? [], path, method);
+
+	if (resolution.status === "not_found") {
+		return json(
+			{
+				error: "Route not found",
+				message: `No handler for /api/modules/${moduleId}/${path}`,
+				code: ERROR_CODES.ERR_NOT_FOUND,
+			},
+			404
+		);
+	}
+
+	if (resolution.status === "method_not_allowed") {
+		return json(
+			{
+				error: "Method not allowed",
+				message: `${method} is not supported for /api/modules/${moduleId}/${path}`,
+			},
+			405,
+			{ Allow: resolution.allow.join(", ") }
+		);
+	}
+
+	const { route, params: routeParams } = resolution.match;
+
+	if (!hasPermission(user.role, route.requiredPermission)) {
+		logAction(
+			user.username,
+			"MODULE_API_DENIED",
+			`${method} /api/modules/${moduleId}/${path}`,
+			`Missing permission "${route.requiredPermission}"`,
+			clientAddress,
+			{ level: LOG_LEVELS.WARN, code: ERROR_CODES.ERR_FORBIDDEN }
+		);
+		return json({ error: "Forbidden", code: ERROR_CODES.ERR_FORBIDDEN }, 403);
+	}
+
+	try {
+		const handlers = await loadRouteHandlers(module, route);
+		const handler = handlers?.[method];
+
+		if (typeof handler !== "function") {
+			logSystemError(ERROR_CODES.ERR_INTERNAL, `Handler "${route.handler}" for ${moduleId} ${method} ${route.path} not found`);
+			return json({ error: "Handler not found" }, 500);
+		}
+
+		// Same request context, with the route's :params alongside moduleId
+		const handlerContext = Object.create(context, {
+			params: { value: { ...params, ...routeParams, moduleId }, enumerable: true },
+		});
+
+		const timeout = route.timeout ?? module.manifest.sandbox?.timeout ?? DEFAULT_ROUTE_TIMEOUT;
+		const response = await runWithTimeout(handler as APIRoute, handlerContext, timeout);
+
+		if (!response) {
+			logSystemError(ERROR_CODES.ERR_TIMEOUT, `${moduleId} ${method} ${route.path} timed out after ${timeout}ms`, {
+				user: user.username,
+				ip: clientAddress,
+			});
+			return json({ error: "Module handler timed out", code: ERROR_CODES.ERR_TIMEOUT }, 504);
+		}
+
+		return response;
+	} catch (err) {
+		console.error(`[modules] Error in ${moduleId}/${path}:`, err);
+
+		// Check if it's a version incompatibility error
+		if (err instanceof Error && err.message.includes("Cannot find module")) {
+			return json(
+				{
+					error: "Module version incompatible",
+					message: `This module may be outdated or incompatible with the current ServerPilot version.`,
+				},
+				500
+			);
+		}
+
+		return json({ error: "Internal server error" }, 500);
+	}
+};
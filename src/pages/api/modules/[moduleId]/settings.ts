@@ -0,0 +1,81 @@
+/**
+ * GET /api/modules/:moduleId/settings - Module settings schema and values
+ * PUT /api/modules/:moduleId/settings - Update module settings
+ *
+ * Password fields are write-only: GET reports whether one is set, and an
+ * empty value in PUT keeps the stored secret. A manifest can require a
+ * stronger permission than settings:write for PUT (`settings.writePermission`).
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction, ERROR_CODES } from "../../../../lib/audit";
+import { getModule } from "../../../../modules/registry";
+import { getPublicModuleSettings, updateModuleSettings } from "../../../../modules/settings";
+
+function notFound() {
+	return new Response(JSON.stringify({ error: "Module has no settings", code: ERROR_CODES.ERR_MODULE_NOT_FOUND }), {
+		status: 404,
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+export const GET: APIRoute = async ({ cookies, params }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	if (!hasPermission(user.role, "settings:read")) return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+
+	const module = getModule(params.moduleId ?? "");
+	const schema = module?.manifest.settings?.schema;
+	if (!module || !schema) return notFound();
+
+	return new Response(
+		JSON.stringify({ moduleId: module.manifest.id, name: module.manifest.name, schema, ...getPublicModuleSettings(module.manifest.id) }),
+		{ status: 200, headers: { "Content-Type": "application/json" } }
+	);
+};
+
+export const PUT: APIRoute = async ({ cookies, params, request, clientAddress }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+
+	const module = getModule(params.moduleId ?? "");
+	if (!module || !module.manifest.settings?.schema) return notFound();
+
+	const writePermission = module.manifest.settings.writePermission ?? "settings:write";
+	if (!hasPermission(user.role, "settings:write") || !hasPermission(user.role, writePermission)) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	try {
+		const body = await request.json();
+		if (!body || typeof body !== "object" || Array.isArray(body)) {
+			return new Response(JSON.stringify({ error: "Expected an object of setting values" }), {
+				status: 400,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+
+		const errors = updateModuleSettings(module.manifest.id, body);
+		if (errors.length > 0) {
+			return new Response(
+				JSON.stringify({ error: errors.join("; "), errors, code: ERROR_CODES.ERR_INVALID_INPUT }),
+				{ status: 400, headers: { "Content-Type": "application/json" } }
+			);
+		}
+
+		// Keys only - values may be secrets
+		logAction(user.username, "MODULE_SETTINGS", module.manifest.id, `Updated ${Object.keys(body).join(", ")}`, clientAddress);
+
+		return new Response(JSON.stringify({ ok: true, ...getPublicModuleSettings(module.manifest.id) }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		console.error("[modules] Error updating module settings:", err);
+		return new Response(JSON.stringify({ error: "Failed to update settings" }), {
+			status: 500,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
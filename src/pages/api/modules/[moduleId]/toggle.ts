@@ -1,14 +1,23 @@
 /**
  * POST /api/modules/:moduleId/toggle - Enable or disable a module
+ *
+ * The choice is persisted and the manifest's onEnable/onDisable hook runs.
+ * A failing onEnable rolls the module back to disabled; a failing onDisable
+ * is reported but the module is still turned off.
+ *
+ * Disabling a module other enabled modules depend on returns 409 with the
+ * dependents unless `cascade: true` is sent, which disables them as well.
  */
 import type { APIRoute } from "astro";
 import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
 import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../lib/audit";
-import { setModuleEnabled, canDisableModule } from "../../../../modules/registry";
+import { setModuleEnabled, canDisableModule, getModule, getEnabledDependents } from "../../../../modules/registry";
+import { runModuleHook } from "../../../../modules/hooks";
 
 export const POST: APIRoute = async ({ cookies, params, request }) => {
 	const user = getUserFromCookies(cookies);
-	if (!user || user.role !== "admin") {
+	if (!user || !hasPermission(user.role, "admin")) {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
 
@@ -23,7 +32,7 @@ export const POST: APIRoute = async ({ cookies, params, request }) => {
 
 	try {
 		const body = await request.json();
-		const { enabled } = body;
+		const { enabled, cascade } = body;
 
 		// Check if module can be disabled
 		if (!enabled && !canDisableModule(moduleId)) {
@@ -41,9 +50,8 @@ export const POST: APIRoute = async ({ cookies, params, request }) => {
 			});
 		}
 
-		const success = setModuleEnabled(moduleId, enabled);
-
-		if (!success) {
+		const module = getModule(moduleId);
+		if (!module) {
 			logAction(
 				user.username,
 				"MODULE_TOGGLE",
@@ -58,16 +66,99 @@ export const POST: APIRoute = async ({ cookies, params, request }) => {
 			});
 		}
 
-		logAction(
-			user.username,
-			"MODULE_TOGGLE",
-			moduleId,
-			`Module ${enabled ? "enabled" : "disabled"}`,
-			undefined,
-			{ level: LOG_LEVELS.INFO, code: "INF008" }
-		);
+		if (module.enabled === !!enabled) {
+			return new Response(JSON.stringify({ ok: true, enabled: module.enabled, changed: [] }), {
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+
+		const warnings: string[] = [];
+		let changed: string[];
+
+		if (enabled) {
+			const result = setModuleEnabled(moduleId, true);
+			if (!result.ok) {
+				return new Response(JSON.stringify({ error: result.error, code: ERROR_CODES.ERR_MODULE_ENABLE_FAILED }), {
+					status: 409,
+					headers: { "Content-Type": "application/json" },
+				});
+			}
+			changed = result.changed;
+
+			try {
+				await runModuleHook(module, "onEnable");
+			} catch (hookErr) {
+				setModuleEnabled(moduleId, false);
+				const errorMsg = hookErr instanceof Error ? hookErr.message : "Unknown error";
+				logAction(
+					user.username,
+					"MODULE_TOGGLE",
+					moduleId,
+					`onEnable hook failed: ${errorMsg}`,
+					undefined,
+					{ level: LOG_LEVELS.ERROR, code: ERROR_CODES.ERR_MODULE_ENABLE_FAILED }
+				);
+				return new Response(
+					JSON.stringify({ error: `Enable failed: ${errorMsg}`, code: ERROR_CODES.ERR_MODULE_ENABLE_FAILED }),
+					{ status: 500, headers: { "Content-Type": "application/json" } }
+				);
+			}
+		} else {
+			const dependents = getEnabledDependents(moduleId);
+			if (dependents.length > 0 && (!cascade || !dependents.every(canDisableModule))) {
+				return new Response(
+					JSON.stringify({
+						error: `${module.manifest.name} is required by ${dependents.join(", ")}`,
+						dependents,
+						code: ERROR_CODES.ERR_MODULE_DISABLE_FAILED,
+					}),
+					{ status: 409, headers: { "Content-Type": "application/json" } }
+				);
+			}
+
+			// Dependents go first, in the order they will be disabled
+			for (const id of [...dependents, moduleId]) {
+				const target = getModule(id);
+				if (!target) continue;
+				try {
+					await runModuleHook(target, "onDisable");
+				} catch (hookErr) {
+					const warning = `${id}: onDisable hook failed: ${hookErr instanceof Error ? hookErr.message : "Unknown error"}`;
+					warnings.push(warning);
+					logAction(
+						user.username,
+						"MODULE_TOGGLE",
+						id,
+						warning,
+						undefined,
+						{ level: LOG_LEVELS.WARN, code: ERROR_CODES.ERR_MODULE_DISABLE_FAILED }
+					);
+				}
+			}
+
+			const result = setModuleEnabled(moduleId, false, { cascade: !!cascade });
+			if (!result.ok) {
+				return new Response(
+					JSON.stringify({ error: result.error, dependents: result.dependents, code: ERROR_CODES.ERR_MODULE_DISABLE_FAILED }),
+					{ status: 409, headers: { "Content-Type": "application/json" } }
+				);
+			}
+			changed = result.changed;
+		}
+
+		for (const id of changed) {
+			logAction(
+				user.username,
+				"MODULE_TOGGLE",
+				id,
+				id === moduleId ? `Module ${enabled ? "enabled" : "disabled"}` : `Module disabled (required ${moduleId})`,
+				undefined,
+				{ level: LOG_LEVELS.INFO, code: "INF008" }
+			);
+		}
 
-		return new Response(JSON.stringify({ ok: true, enabled }), {
+		return new Response(JSON.stringify({ ok: true, enabled: !!enabled, changed, warning: warnings.join("; ") || undefined }), {
 			status: 200,
 			headers: { "Content-Type": "application/json" },
 		});
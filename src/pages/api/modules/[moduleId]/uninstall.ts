@@ -2,6 +2,13 @@
  * POST /api/modules/:moduleId/uninstall - Uninstall an external module
  */
 import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../lib/audit";
+import { deleteModuleState } from "../../../../lib/module-state";
+import { deleteModuleSettings } from "../../../../lib/module-settings";
+import { unloadExternalModule } from "../../../../modules/loader";
+import { getDependents } from "../../../../modules/registry";
 import { execFile } from "child_process";
 import { promisify } from "util";
 import * as fs from "fs";
@@ -9,7 +16,12 @@ import * as path from "path";
 
 const execFileAsync = promisify(execFile);
 
-export const POST: APIRoute = async ({ params }) => {
+export const POST: APIRoute = async ({ params, cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "admin")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
 	const moduleId = params.moduleId;
 
 	if (!moduleId) {
@@ -43,6 +55,22 @@ export const POST: APIRoute = async ({ params }) => {
 			);
 		}
 
+		const dependents = getDependents(moduleId).map((m) => m.manifest.id);
+		if (dependents.length > 0) {
+			return new Response(
+				JSON.stringify({
+					error: "Module is in use",
+					message: `Required by ${dependents.join(", ")}; uninstall those first`,
+					dependents,
+					code: ERROR_CODES.ERR_MODULE_UNINSTALL_FAILED,
+				}),
+				{
+					status: 409,
+					headers: { "Content-Type": "application/json" },
+				}
+			);
+		}
+
 		// Uninstall the package
 		console.log(`[modules] Uninstalling ${packageName}...`);
 
@@ -53,11 +81,23 @@ export const POST: APIRoute = async ({ params }) => {
 			});
 
 			console.log(`[modules] Successfully uninstalled ${packageName}`);
+			unloadExternalModule(moduleId);
+			deleteModuleState(moduleId);
+			deleteModuleSettings(moduleId);
+
+			logAction(
+				user.username,
+				"MODULE_UNINSTALL",
+				packageName,
+				"Module uninstalled successfully",
+				undefined,
+				{ level: LOG_LEVELS.INFO, code: "INF009" }
+			);
 
 			return new Response(
 				JSON.stringify({
 					ok: true,
-					message: `Module ${moduleId} uninstalled. Please rebuild and restart the application.`,
+					message: `Module ${moduleId} uninstalled.`,
 				}),
 				{
 					status: 200,
@@ -65,6 +105,14 @@ export const POST: APIRoute = async ({ params }) => {
 				}
 			);
 		} catch (installErr) {
+			logAction(
+				user.username,
+				"MODULE_UNINSTALL",
+				packageName,
+				`Uninstallation failed: ${installErr instanceof Error ? installErr.message : "Unknown error"}`,
+				undefined,
+				{ level: LOG_LEVELS.ERROR, code: ERROR_CODES.ERR_MODULE_UNINSTALL_FAILED }
+			);
 			console.error(`[modules] Failed to uninstall ${packageName}:`, installErr);
 			return new Response(
 				JSON.stringify({
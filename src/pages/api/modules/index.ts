@@ -3,7 +3,7 @@
  * Lists all available modules
  */
 import type { APIRoute } from "astro";
-import { getAllModules } from "../../../modules/registry";
+import { getAllModules, getModuleStateInfo, getDependents } from "../../../modules/registry";
 
 export const GET: APIRoute = async () => {
 	const modules = getAllModules();
@@ -15,7 +15,15 @@ export const GET: APIRoute = async () => {
 		description: m.manifest.description,
 		type: m.manifest.type,
 		enabled: m.enabled,
+		loaded: m.loaded,
+		error: m.error,
+		validation: m.validation,
+		packageName: m.source?.packageName,
+		firstEnabledAt: getModuleStateInfo(m.manifest.id)?.firstEnabledAt,
 		canDisable: m.manifest.canDisable !== false,
+		dependencies: m.manifest.dependencies ?? {},
+		optionalDependencies: m.manifest.optionalDependencies ?? {},
+		dependents: getDependents(m.manifest.id).map((d) => d.manifest.id),
 		navItems: m.manifest.navItems?.map((n) => n.id) ?? [],
 		apiRoutes: m.manifest.apiRoutes?.map((r) => `${r.method} ${r.path}`) ?? [],
 		widgets: m.manifest.widgets?.map((w) => w.id) ?? [],
@@ -1,11 +1,14 @@
 /**
  * POST /api/modules/install - Install an external module
  * 
- * This adds the npm package to package.json and runs npm install
+ * This adds the npm package to package.json, runs npm install and loads
+ * the module into the running registry.
  */
 import type { APIRoute } from "astro";
 import { getUserFromCookies } from "../../../lib/auth";
+import { hasPermission } from "../../../lib/roles";
 import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../lib/audit";
+import { loadExternalModule } from "../../../modules/loader";
 import { execFile } from "child_process";
 import { promisify } from "util";
 import * as fs from "fs";
@@ -15,7 +18,7 @@ const execFileAsync = promisify(execFile);
 
 export const POST: APIRoute = async ({ cookies, request }) => {
 	const user = getUserFromCookies(cookies);
-	if (!user || user.role !== "admin") {
+	if (!user || !hasPermission(user.role, "admin")) {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
 
@@ -91,19 +94,27 @@ export const POST: APIRoute = async ({ cookies, request }) => {
 
 			console.log(`[modules] Successfully installed ${packageName}`);
 
+			// Load it now; a bad manifest is reported on the module, not as an install failure
+			const module = await loadExternalModule(packageName);
+
 			logAction(
 				user.username,
 				"MODULE_INSTALL",
 				packageName,
-				"Module installed successfully",
+				module.error ? `Module installed but failed to load: ${module.error}` : "Module installed successfully",
 				undefined,
-				{ level: LOG_LEVELS.INFO, code: "INF007" }
+				module.error
+					? { level: LOG_LEVELS.WARN, code: ERROR_CODES.ERR_MODULE_LOAD_FAILED }
+					: { level: LOG_LEVELS.INFO, code: "INF007" }
 			);
 
 			return new Response(
 				JSON.stringify({
 					ok: true,
-					message: `Module ${packageName} installed. Please rebuild and restart the application.`,
+					message: module.error
+						? `Module ${packageName} installed but failed to load: ${module.error}`
+						: `Module ${packageName} installed and loaded.`,
+					module: { id: module.manifest.id, loaded: module.loaded, error: module.error, validation: module.validation },
 				}),
 				{
 					status: 200,
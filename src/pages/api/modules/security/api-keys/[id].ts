@@ -0,0 +1,38 @@
+/**
+ * API Key API - DELETE /api/modules/security/api-keys/:id
+ * Revokes one of the current user's API keys
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { logAction } from "../../../../../lib/audit";
+import { revokeApiKey } from "../../../../../lib/api-keys";
+
+export const DELETE: APIRoute = async ({ cookies, params }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	const id = params.id;
+	if (!id) {
+		return new Response(JSON.stringify({ error: "Key ID required" }), { status: 400 });
+	}
+
+	try {
+		revokeApiKey(user.username, id);
+		logAction(user.username, "REVOKE_API_KEY", id, "Revoked API key");
+
+		return new Response(JSON.stringify({ ok: true }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(
+			JSON.stringify({ error: err instanceof Error ? err.message : "Internal server error" }),
+			{
+				status: 404,
+				headers: { "Content-Type": "application/json" },
+			}
+		);
+	}
+};
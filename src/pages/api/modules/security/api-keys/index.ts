@@ -0,0 +1,78 @@
+/**
+ * API Keys API - GET/POST /api/modules/security/api-keys
+ * Lists and creates personal API keys for the current user
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { logAction } from "../../../../../lib/audit";
+import { hasPermission } from "../../../../../lib/roles";
+import { listApiKeys, createApiKey, API_KEY_SCOPES } from "../../../../../lib/api-keys";
+
+export const GET: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	try {
+		const keys = listApiKeys(user.username);
+		const availableScopes = API_KEY_SCOPES.filter((scope) => hasPermission(user.role, scope));
+
+		return new Response(JSON.stringify({ keys, availableScopes }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(JSON.stringify({ error: "Internal server error" }), {
+			status: 500,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
+
+export const POST: APIRoute = async ({ cookies, request }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	try {
+		const body = await request.json();
+		const { name, scopes, expiresInDays } = body;
+
+		if (!name || !Array.isArray(scopes)) {
+			return new Response(JSON.stringify({ error: "Missing required fields" }), {
+				status: 400,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+
+		let expiresAt: string | undefined;
+		if (expiresInDays) {
+			const days = Number(expiresInDays);
+			if (!Number.isFinite(days) || days <= 0) {
+				return new Response(JSON.stringify({ error: "Invalid expiry" }), {
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				});
+			}
+			expiresAt = new Date(Date.now() + days * 86_400_000).toISOString();
+		}
+
+		const { key, token } = createApiKey(user.username, user.role, String(name), scopes, expiresAt);
+		logAction(user.username, "CREATE_API_KEY", key.name, `Created API key with scopes ${key.scopes.join(", ")}`);
+
+		return new Response(JSON.stringify({ key, token }), {
+			status: 201,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(
+			JSON.stringify({ error: err instanceof Error ? err.message : "Internal server error" }),
+			{
+				status: 400,
+				headers: { "Content-Type": "application/json" },
+			}
+		);
+	}
+};
@@ -0,0 +1,19 @@
+/**
+ * Permissions API - GET /api/modules/security/permissions
+ * The current user's role and the permissions it grants
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../lib/auth";
+import { getRolePermissions } from "../../../../lib/roles";
+
+export const GET: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	return new Response(JSON.stringify({ role: user.role, permissions: getRolePermissions(user.role) }), {
+		status: 200,
+		headers: { "Content-Type": "application/json" },
+	});
+};
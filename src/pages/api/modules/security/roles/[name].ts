@@ -0,0 +1,87 @@
+/**
+ * Role API - PUT/DELETE /api/modules/security/roles/:name
+ * Admin-only: edit a role's permissions or delete an unused custom role
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { logAction } from "../../../../../lib/audit";
+import { hasPermission, updateRole, deleteRole } from "../../../../../lib/roles";
+import { getTwoFactorRequiredRoles, setTwoFactorRequiredRoles } from "../../../../../lib/two-factor";
+import { getDeclaredPermissions } from "../../../../../modules/registry";
+
+export const PUT: APIRoute = async ({ cookies, params, request }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "admin")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	const name = params.name;
+	if (!name) {
+		return new Response(JSON.stringify({ error: "Role name required" }), { status: 400 });
+	}
+
+	try {
+		const body = await request.json();
+		const { description, permissions } = body;
+
+		if (permissions !== undefined) {
+			const known = new Set(getDeclaredPermissions().map((p) => p.id));
+			if (!Array.isArray(permissions) || permissions.some((p: unknown) => typeof p !== "string" || !known.has(p))) {
+				return new Response(JSON.stringify({ error: "Invalid permissions" }), {
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				});
+			}
+		}
+
+		const role = updateRole(name, {
+			description: typeof description === "string" ? description : undefined,
+			permissions,
+		});
+		logAction(user.username, "UPDATE_ROLE", name, `Permissions: ${role.permissions.join(", ") || "none"}`);
+
+		return new Response(JSON.stringify({ role }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(
+			JSON.stringify({ error: err instanceof Error ? err.message : "Internal server error" }),
+			{
+				status: 400,
+				headers: { "Content-Type": "application/json" },
+			}
+		);
+	}
+};
+
+export const DELETE: APIRoute = async ({ cookies, params }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "admin")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	const name = params.name;
+	if (!name) {
+		return new Response(JSON.stringify({ error: "Role name required" }), { status: 400 });
+	}
+
+	try {
+		deleteRole(name);
+		setTwoFactorRequiredRoles(getTwoFactorRequiredRoles().filter((r) => r !== name));
+		logAction(user.username, "DELETE_ROLE", name, "Deleted role");
+
+		return new Response(JSON.stringify({ ok: true }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(
+			JSON.stringify({ error: err instanceof Error ? err.message : "Internal server error" }),
+			{
+				status: 400,
+				headers: { "Content-Type": "application/json" },
+			}
+		);
+	}
+};
@@ -0,0 +1,79 @@
+/**
+ * Roles API - GET/POST /api/modules/security/roles
+ * Admin-only: list roles with the permissions modules declare, create custom roles
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { logAction } from "../../../../../lib/audit";
+import { hasPermission, listRoles, createRole } from "../../../../../lib/roles";
+import { getAllUsers } from "../../../../../lib/users";
+import { getDeclaredPermissions } from "../../../../../modules/registry";
+
+export const GET: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "admin")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	try {
+		const users = getAllUsers();
+		const roles = listRoles().map((role) => ({
+			...role,
+			userCount: users.filter((u) => u.role === role.name).length,
+		}));
+
+		return new Response(JSON.stringify({ roles, permissions: getDeclaredPermissions() }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(JSON.stringify({ error: "Internal server error" }), {
+			status: 500,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
+
+export const POST: APIRoute = async ({ cookies, request }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "admin")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	try {
+		const body = await request.json();
+		const { name, description, permissions } = body;
+
+		if (typeof name !== "string" || !Array.isArray(permissions)) {
+			return new Response(JSON.stringify({ error: "Missing required fields" }), {
+				status: 400,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+
+		const known = new Set(getDeclaredPermissions().map((p) => p.id));
+		const unknown = permissions.filter((p: unknown) => typeof p !== "string" || !known.has(p));
+		if (unknown.length > 0) {
+			return new Response(JSON.stringify({ error: `Unknown permission: ${unknown.join(", ")}` }), {
+				status: 400,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+
+		const role = createRole(name, typeof description === "string" ? description : "", permissions);
+		logAction(user.username, "CREATE_ROLE", name, `Permissions: ${role.permissions.join(", ") || "none"}`);
+
+		return new Response(JSON.stringify({ role }), {
+			status: 201,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(
+			JSON.stringify({ error: err instanceof Error ? err.message : "Internal server error" }),
+			{
+				status: 400,
+				headers: { "Content-Type": "application/json" },
+			}
+		);
+	}
+};
@@ -0,0 +1,38 @@
+/**
+ * Session API - DELETE /api/modules/security/sessions/:id
+ * Revokes one of the current user's sessions
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { logAction } from "../../../../../lib/audit";
+import { revokeSession } from "../../../../../lib/sessions";
+
+export const DELETE: APIRoute = async ({ cookies, params }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	const id = params.id;
+	if (!id) {
+		return new Response(JSON.stringify({ error: "Session ID required" }), { status: 400 });
+	}
+
+	try {
+		revokeSession(user.username, id);
+		logAction(user.username, "REVOKE_SESSION", id, "Revoked session");
+
+		return new Response(JSON.stringify({ ok: true, current: id === user.sessionId }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(
+			JSON.stringify({ error: err instanceof Error ? err.message : "Internal server error" }),
+			{
+				status: 404,
+				headers: { "Content-Type": "application/json" },
+			}
+		);
+	}
+};
@@ -0,0 +1,53 @@
+/**
+ * Sessions API - GET/DELETE /api/modules/security/sessions
+ * Lists the current user's active sessions; DELETE signs out all other sessions
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { logAction } from "../../../../../lib/audit";
+import { listSessions, revokeUserSessions } from "../../../../../lib/sessions";
+
+export const GET: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	try {
+		const sessions = listSessions(user.username).map((s) => ({ ...s, current: s.id === user.sessionId }));
+		return new Response(JSON.stringify({ sessions }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(JSON.stringify({ error: "Internal server error" }), {
+			status: 500,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
+
+export const DELETE: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	try {
+		const revoked = revokeUserSessions(user.username, user.sessionId);
+		logAction(user.username, "REVOKE_SESSIONS", user.username, `Signed out ${revoked} other session(s)`);
+
+		return new Response(JSON.stringify({ ok: true, revoked }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(
+			JSON.stringify({ error: err instanceof Error ? err.message : "Internal server error" }),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			}
+		);
+	}
+};
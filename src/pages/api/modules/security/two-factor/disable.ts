@@ -0,0 +1,69 @@
+/**
+ * Two-Factor Disable API - POST /api/modules/security/two-factor/disable
+ * Turns off 2FA for the current user (requires password and a current code)
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../../../lib/audit";
+import { verifyPassword } from "../../../../../lib/users";
+import { disableTwoFactor, isTwoFactorRequired, verifySecondFactor } from "../../../../../lib/two-factor";
+
+export const POST: APIRoute = async ({ cookies, request }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	try {
+		const body = await request.json();
+		const { password, code, recoveryCode } = body;
+
+		if (!password || (!code && !recoveryCode)) {
+			return new Response(JSON.stringify({ error: "Password and verification code required" }), {
+				status: 400,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+
+		if (isTwoFactorRequired(user.role)) {
+			return new Response(
+				JSON.stringify({
+					error: "Two-factor authentication is required for your role",
+					code: ERROR_CODES.ERR_TWO_FACTOR_REQUIRED,
+				}),
+				{ status: 403, headers: { "Content-Type": "application/json" } }
+			);
+		}
+
+		if (!verifyPassword(user.username, password) || !verifySecondFactor(user.username, { code, recoveryCode })) {
+			logAction(
+				user.username,
+				"DISABLE_2FA",
+				user.username,
+				"Failed: invalid password or code",
+				undefined,
+				{ level: LOG_LEVELS.WARN, code: ERROR_CODES.ERR_TWO_FACTOR_INVALID }
+			);
+			return new Response(
+				JSON.stringify({ error: "Invalid password or verification code", code: ERROR_CODES.ERR_TWO_FACTOR_INVALID }),
+				{ status: 401, headers: { "Content-Type": "application/json" } }
+			);
+		}
+
+		disableTwoFactor(user.username);
+		logAction(user.username, "DISABLE_2FA", user.username, "Disabled two-factor authentication");
+
+		return new Response(JSON.stringify({ ok: true }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(
+			JSON.stringify({ error: err instanceof Error ? err.message : "Internal server error" }),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			}
+		);
+	}
+};
@@ -0,0 +1,43 @@
+/**
+ * Two-Factor Enable API - POST /api/modules/security/two-factor/enable
+ * Confirms enrollment with a code and returns one-time recovery codes
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { logAction } from "../../../../../lib/audit";
+import { confirmEnrollment } from "../../../../../lib/two-factor";
+
+export const POST: APIRoute = async ({ cookies, request }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	try {
+		const body = await request.json();
+		const { code } = body;
+
+		if (!code) {
+			return new Response(JSON.stringify({ error: "Verification code required" }), {
+				status: 400,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+
+		const recoveryCodes = confirmEnrollment(user.username, String(code));
+		logAction(user.username, "ENABLE_2FA", user.username, "Enabled two-factor authentication");
+
+		return new Response(JSON.stringify({ ok: true, recoveryCodes }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(
+			JSON.stringify({ error: err instanceof Error ? err.message : "Internal server error" }),
+			{
+				status: 400,
+				headers: { "Content-Type": "application/json" },
+			}
+		);
+	}
+};
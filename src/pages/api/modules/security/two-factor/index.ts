@@ -0,0 +1,27 @@
+/**
+ * Two-Factor Status API - GET /api/modules/security/two-factor
+ * Returns the current user's 2FA status and whether their role requires it
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { getTwoFactorStatus, isTwoFactorRequired } from "../../../../../lib/two-factor";
+
+export const GET: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	try {
+		const status = getTwoFactorStatus(user.username);
+		return new Response(JSON.stringify({ ...status, required: isTwoFactorRequired(user.role) }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(JSON.stringify({ error: "Internal server error" }), {
+			status: 500,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+};
@@ -0,0 +1,61 @@
+/**
+ * Two-Factor Policy API - GET/PUT /api/modules/security/two-factor/policy
+ * Admin-only: which roles must use two-factor authentication
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { hasPermission, roleExists } from "../../../../../lib/roles";
+import { logAction } from "../../../../../lib/audit";
+import { getTwoFactorRequiredRoles, setTwoFactorRequiredRoles } from "../../../../../lib/two-factor";
+
+export const GET: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "admin")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	return new Response(JSON.stringify({ requiredRoles: getTwoFactorRequiredRoles() }), {
+		status: 200,
+		headers: { "Content-Type": "application/json" },
+	});
+};
+
+export const PUT: APIRoute = async ({ cookies, request }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user || !hasPermission(user.role, "admin")) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	try {
+		const body = await request.json();
+		const { requiredRoles } = body;
+
+		if (!Array.isArray(requiredRoles) || requiredRoles.some((r) => typeof r !== "string" || !roleExists(r))) {
+			return new Response(JSON.stringify({ error: "Invalid roles" }), {
+				status: 400,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+
+		setTwoFactorRequiredRoles(requiredRoles);
+		logAction(
+			user.username,
+			"UPDATE_2FA_POLICY",
+			"security",
+			`2FA required for: ${requiredRoles.length > 0 ? requiredRoles.join(", ") : "none"}`
+		);
+
+		return new Response(JSON.stringify({ ok: true, requiredRoles }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(
+			JSON.stringify({ error: err instanceof Error ? err.message : "Internal server error" }),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			}
+		);
+	}
+};
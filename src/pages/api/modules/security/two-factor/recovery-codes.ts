@@ -0,0 +1,50 @@
+/**
+ * Recovery Codes API - POST /api/modules/security/two-factor/recovery-codes
+ * Regenerates recovery codes (invalidates the old set); requires a current code
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { logAction, ERROR_CODES } from "../../../../../lib/audit";
+import { isTwoFactorEnabled, regenerateRecoveryCodes, verifyTotp } from "../../../../../lib/two-factor";
+
+export const POST: APIRoute = async ({ cookies, request }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	try {
+		const body = await request.json();
+		const { code } = body;
+
+		if (!isTwoFactorEnabled(user.username)) {
+			return new Response(JSON.stringify({ error: "Two-factor authentication is not enabled" }), {
+				status: 400,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+
+		if (!code || !verifyTotp(user.username, String(code))) {
+			return new Response(
+				JSON.stringify({ error: "Invalid verification code", code: ERROR_CODES.ERR_TWO_FACTOR_INVALID }),
+				{ status: 401, headers: { "Content-Type": "application/json" } }
+			);
+		}
+
+		const recoveryCodes = regenerateRecoveryCodes(user.username);
+		logAction(user.username, "REGENERATE_RECOVERY_CODES", user.username, "Regenerated 2FA recovery codes");
+
+		return new Response(JSON.stringify({ ok: true, recoveryCodes }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(
+			JSON.stringify({ error: err instanceof Error ? err.message : "Internal server error" }),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			}
+		);
+	}
+};
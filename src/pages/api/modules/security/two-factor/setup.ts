@@ -0,0 +1,33 @@
+/**
+ * Two-Factor Setup API - POST /api/modules/security/two-factor/setup
+ * Starts enrollment: generates a secret and returns the otpauth URI + QR code
+ */
+import type { APIRoute } from "astro";
+import QRCode from "qrcode";
+import { getUserFromCookies } from "../../../../../lib/auth";
+import { beginEnrollment } from "../../../../../lib/two-factor";
+
+export const POST: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+
+	try {
+		const { secret, otpauthUri } = beginEnrollment(user.username);
+		const qrCode = await QRCode.toDataURL(otpauthUri, { margin: 1, width: 200 });
+
+		return new Response(JSON.stringify({ secret, otpauthUri, qrCode }), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		});
+	} catch (err) {
+		return new Response(
+			JSON.stringify({ error: err instanceof Error ? err.message : "Internal server error" }),
+			{
+				status: 400,
+				headers: { "Content-Type": "application/json" },
+			}
+		);
+	}
+};
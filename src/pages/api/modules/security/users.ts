@@ -3,17 +3,19 @@
  */
 import type { APIRoute } from "astro";
 import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission, roleExists } from "../../../../lib/roles";
 import { logAction } from "../../../../lib/audit";
 import { getAllUsers, createUser, type UserRole } from "../../../../lib/users";
+import { isTwoFactorEnabled } from "../../../../lib/two-factor";
 
 export const GET: APIRoute = async ({ cookies }) => {
 	const user = getUserFromCookies(cookies);
-	if (!user || user.role !== "admin") {
+	if (!user || !hasPermission(user.role, "admin")) {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
 
 	try {
-		const users = getAllUsers();
+		const users = getAllUsers().map((u) => ({ ...u, twoFactorEnabled: isTwoFactorEnabled(u.username) }));
 		return new Response(JSON.stringify({ users }), {
 			status: 200,
 			headers: { "Content-Type": "application/json" },
@@ -28,7 +30,7 @@ export const GET: APIRoute = async ({ cookies }) => {
 
 export const POST: APIRoute = async ({ cookies, request }) => {
 	const user = getUserFromCookies(cookies);
-	if (!user || user.role !== "admin") {
+	if (!user || !hasPermission(user.role, "admin")) {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
 
@@ -43,7 +45,7 @@ export const POST: APIRoute = async ({ cookies, request }) => {
 			});
 		}
 
-		if (!["admin", "operator", "viewer"].includes(role)) {
+		if (typeof role !== "string" || !roleExists(role)) {
 			return new Response(JSON.stringify({ error: "Invalid role" }), {
 				status: 400,
 				headers: { "Content-Type": "application/json" },
@@ -3,6 +3,7 @@
  */
 import type { APIRoute } from "astro";
 import { getUserFromCookies } from "../../../../lib/auth";
+import { hasPermission } from "../../../../lib/roles";
 import { execFile } from "child_process";
 import { promisify } from "util";
 
@@ -31,8 +32,8 @@ export const POST: APIRoute = async ({ cookies, request }) => {
 		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
 	}
 
-	if (user.role !== "admin") {
-		return new Response(JSON.stringify({ error: "Admin only" }), { status: 403 });
+	if (!hasPermission(user.role, "service:control")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
 	}
 
 	try {
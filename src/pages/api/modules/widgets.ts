@@ -1,22 +1,49 @@
 /**
  * Module widgets API - GET /api/modules/widgets
- * Returns all widgets from all modules, optionally filtered by placement
+ * Returns the widgets the user may see, optionally filtered by placement.
+ * External widgets are rendered server-side and returned as `html`.
  */
 import type { APIRoute } from "astro";
-import { getWidgets } from "../../../modules/registry";
+import { getUserFromCookies } from "../../../lib/auth";
+import { getModuleWidgets } from "../../../modules/registry";
+import { renderModuleComponent } from "../../../modules/loader";
+
+export const GET: APIRoute = async ({ url, cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
 
-export const GET: APIRoute = async ({ url }) => {
 	const placement = url.searchParams.get("placement") as "dashboard" | "sidebar" | "header" | null;
 
-	const widgets = getWidgets(placement ?? undefined);
+	const list = await Promise.all(
+		getModuleWidgets(placement ?? undefined, user).map(async ({ module, widget: w }) => {
+			let html: string | undefined;
+			let error: string | undefined;
+
+			if (module.manifest.type === "external") {
+				try {
+					html = await renderModuleComponent(module, w.component, {
+						user: { username: user.username, role: user.role },
+						props: w.props ?? {},
+					});
+				} catch (err) {
+					error = err instanceof Error ? err.message : String(err);
+				}
+			}
 
-	const list = widgets.map((w) => ({
-		id: w.id,
-		name: w.name,
-		component: w.component,
-		placement: w.placement,
-		props: w.props,
-	}));
+			return {
+				id: w.id,
+				moduleId: module.manifest.id,
+				name: w.name,
+				component: w.component,
+				placement: w.placement,
+				props: w.props,
+				html,
+				error,
+			};
+		})
+	);
 
 	return new Response(JSON.stringify({ widgets: list }), {
 		status: 200,
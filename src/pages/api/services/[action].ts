@@ -5,6 +5,7 @@
 import type { APIRoute } from "astro";
 import { runAsync } from "../../../lib/exec";
 import { getUserFromCookies } from "../../../lib/auth";
+import { hasPermission } from "../../../lib/roles";
 import { logAction, LOG_LEVELS, ERROR_CODES } from "../../../lib/audit";
 
 const ALLOWED_SERVICES = ["nginx", "ssh", "sshd", "ufw", "docker", "apache2", "mysql", "postgresql", "redis"];
@@ -12,7 +13,7 @@ const ALLOWED_SERVICES = ["nginx", "ssh", "sshd", "ufw", "docker", "apache2", "m
 export const POST: APIRoute = async ({ cookies, request, params }) => {
 	const user = getUserFromCookies(cookies);
 	if (!user) return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
-	if (user.role !== "admin") return new Response(JSON.stringify({ error: "Admin only" }), { status: 403 });
+	if (!hasPermission(user.role, "service:control")) return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
 
 	const action = params.action;
 	if (!action || !["start", "stop", "restart"].includes(action)) {
@@ -3,12 +3,13 @@
  */
 import type { APIRoute } from "astro";
 import { getUserFromCookies } from "../../../lib/auth";
+import { hasPermission } from "../../../lib/roles";
 import { updateSettings } from "../../../lib/settings";
 
 export const POST: APIRoute = async ({ cookies, request }) => {
 	const user = getUserFromCookies(cookies);
 	if (!user) return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
-	if (user.role !== "admin") return new Response(JSON.stringify({ error: "Admin only" }), { status: 403 });
+	if (!hasPermission(user.role, "settings:write")) return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
 
 	try {
 		const config = await request.json();
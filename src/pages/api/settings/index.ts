@@ -3,9 +3,15 @@
  * POST /api/settings – Update settings.
  */
 import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../lib/auth";
+import { hasPermission } from "../../../lib/roles";
 import { getSettings, updateSettings, type Settings } from "../../../lib/settings";
 
-export const GET: APIRoute = async () => {
+export const GET: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	if (!hasPermission(user.role, "settings:read")) return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+
 	try {
 		const settings = getSettings();
 		return new Response(JSON.stringify(settings), {
@@ -21,7 +27,11 @@ export const GET: APIRoute = async () => {
 	}
 };
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ cookies, request }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	if (!hasPermission(user.role, "settings:write")) return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+
 	try {
 		const body = await request.json();
 		const allowedKeys: (keyof Settings)[] = ["hostname", "timezone", "theme"];
@@ -1,8 +1,11 @@
 /**
  * GET /api/system – Returns real-time system stats (CPU, RAM, disk, uptime, network).
+ * CPU usage and network rates cover the interval since the previous request
+ * (see lib/system-sampler.ts).
  */
 import type { APIRoute } from "astro";
-import { runSync } from "../../lib/exec";
+import { readCpuCores, readLoadAvg, readMemory, readRootDisk, readUptimeSeconds } from "../../lib/system-stats";
+import { sampleSystem } from "../../lib/system-sampler";
 import { getUserFromCookies } from "../../lib/auth";
 
 export const GET: APIRoute = async ({ cookies }) => {
@@ -12,81 +15,27 @@ export const GET: APIRoute = async ({ cookies }) => {
 	}
 
 	try {
-		// CPU usage from /proc/stat (simplified)
-		const cpuResult = runSync("cat:proc/stat");
-		let cpuPercent = 0;
-		if (cpuResult.ok) {
-			const lines = cpuResult.stdout.split("\n");
-			const cpuLine = lines.find((l) => l.startsWith("cpu "));
-			if (cpuLine) {
-				const parts = cpuLine.split(/\s+/).slice(1).map(Number);
-				const idle = parts[3] + (parts[4] || 0);
-				const total = parts.reduce((a, b) => a + b, 0);
-				cpuPercent = total > 0 ? ((total - idle) / total) * 100 : 0;
-			}
-		}
+		const { cpu, network } = await sampleSystem();
 
-		// Load average
-		const loadResult = runSync("cat:proc/loadavg");
-		const loadAvg = loadResult.ok ? loadResult.stdout.split(" ").slice(0, 3).join(", ") : "N/A";
+		const load = readLoadAvg();
+		const loadAvg = load ? load.map((n) => n.toFixed(2)).join(", ") : "N/A";
 
-		// CPU cores
-		const coresResult = runSync("cat:proc/cpuinfo");
-		const cores = coresResult.ok
-			? (coresResult.stdout.match(/^processor/gm) || []).length
-			: 0;
+		const cores = readCpuCores();
 
-		// Memory from free
-		const memResult = runSync("free");
-		let memTotal = 0, memUsed = 0, memFree = 0;
-		if (memResult.ok) {
-			const memLine = memResult.stdout.split("\n").find((l) => l.startsWith("Mem:"));
-			if (memLine) {
-				const parts = memLine.split(/\s+/);
-				memTotal = parseInt(parts[1]) || 0;
-				memUsed = parseInt(parts[2]) || 0;
-				memFree = parseInt(parts[3]) || 0;
-			}
-		}
+		const { total: memTotal, used: memUsed, free: memFree } = readMemory() ?? { total: 0, used: 0, free: 0 };
 
-		// Disk
-		const diskResult = runSync("df");
-		let diskTotal = 0, diskUsed = 0;
-		if (diskResult.ok) {
-			const lines = diskResult.stdout.split("\n").slice(1);
-			if (lines[0]) {
-				const parts = lines[0].split(/\s+/);
-				diskTotal = parseInt(parts[1]) || 0;
-				diskUsed = parseInt(parts[2]) || 0;
-			}
-		}
+		const { total: diskTotal, used: diskUsed } = readRootDisk() ?? { total: 0, used: 0 };
 
 		// Uptime
-		const uptimeResult = runSync("cat:proc/uptime");
+		const secs = readUptimeSeconds();
 		let uptimeStr = "N/A";
-		if (uptimeResult.ok) {
-			const secs = parseFloat(uptimeResult.stdout.split(" ")[0]);
+		if (secs !== null) {
 			const d = Math.floor(secs / 86400);
 			const h = Math.floor((secs % 86400) / 3600);
 			const m = Math.floor((secs % 3600) / 60);
 			uptimeStr = d > 0 ? `${d}d ${h}h ${m}m` : h > 0 ? `${h}h ${m}m` : `${m}m`;
 		}
 
-		// Network I/O
-		const netResult = runSync("cat:proc/net/dev");
-		let rxBytes = 0, txBytes = 0;
-		if (netResult.ok) {
-			const lines = netResult.stdout.split("\n").slice(2);
-			for (const line of lines) {
-				const iface = line.split(":")[0]?.trim();
-				if (iface && iface !== "lo") {
-					const parts = line.split(":")[1]?.trim().split(/\s+/) || [];
-					rxBytes += parseInt(parts[0]) || 0;
-					txBytes += parseInt(parts[8]) || 0;
-				}
-			}
-		}
-
 		const formatBytes = (b: number) => {
 			if (b === 0) return "0 B";
 			const k = 1024;
@@ -98,9 +47,13 @@ export const GET: APIRoute = async ({ cookies }) => {
 		return new Response(
 			JSON.stringify({
 				cpu: {
-					percent: Math.round(cpuPercent * 10) / 10,
+					percent: cpu?.percent ?? 0,
 					cores,
 					loadAvg,
+					breakdown: cpu
+						? { user: cpu.user, system: cpu.system, iowait: cpu.iowait, irq: cpu.irq, steal: cpu.steal }
+						: null,
+					perCore: cpu?.cores ?? [],
 				},
 				memory: {
 					total: formatBytes(memTotal),
@@ -115,8 +68,11 @@ export const GET: APIRoute = async ({ cookies }) => {
 				},
 				uptime: uptimeStr,
 				network: {
-					rx: formatBytes(rxBytes),
-					tx: formatBytes(txBytes),
+					rx: `${formatBytes(network?.rxRate ?? 0)}/s`,
+					tx: `${formatBytes(network?.txRate ?? 0)}/s`,
+					rxRate: network?.rxRate ?? 0,
+					txRate: network?.txRate ?? 0,
+					interfaces: network?.interfaces ?? [],
 				},
 			}),
 			{ status: 200, headers: { "Content-Type": "application/json" } }
@@ -124,11 +80,11 @@ export const GET: APIRoute = async ({ cookies }) => {
 	} catch (err: any) {
 		return new Response(
 			JSON.stringify({
-				cpu: { percent: 0, cores: 0, loadAvg: "N/A" },
+				cpu: { percent: 0, cores: 0, loadAvg: "N/A", breakdown: null, perCore: [] },
 				memory: { total: "N/A", used: "N/A", free: "N/A", usedPercent: 0 },
 				disk: { total: "N/A", used: "N/A", usedPercent: 0 },
 				uptime: "N/A",
-				network: { rx: "N/A", tx: "N/A" },
+				network: { rx: "N/A", tx: "N/A", rxRate: 0, txRate: 0, interfaces: [] },
 				_error: "System commands unavailable (non-Linux environment)",
 			}),
 			{ status: 200, headers: { "Content-Type": "application/json" } }
@@ -0,0 +1,34 @@
+/**
+ * GET /api/system/disks – Usage of every mounted filesystem plus per-disk I/O.
+ *
+ * Pseudo filesystems (proc, tmpfs, overlay, ...) are left out. I/O rates cover
+ * the interval since the previous /api/system or /api/system/disks request
+ * (see lib/system-sampler.ts).
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../lib/auth";
+import { hasPermission } from "../../../lib/roles";
+import { readMounts } from "../../../lib/system-stats";
+import { sampleSystem } from "../../../lib/system-sampler";
+
+export const GET: APIRoute = async ({ cookies }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "system:read")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	const mounts = readMounts();
+	const { diskIo } = await sampleSystem();
+
+	return new Response(
+		JSON.stringify({
+			mounts: mounts ?? [],
+			io: diskIo ?? { readRate: 0, writeRate: 0, disks: [] },
+			...(mounts === null && { _error: "Filesystem usage unavailable (df failed or non-Linux environment)" }),
+		}),
+		{ status: 200, headers: { "Content-Type": "application/json" } }
+	);
+};
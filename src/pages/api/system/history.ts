@@ -0,0 +1,54 @@
+/**
+ * GET /api/system/history?metric=cpu&from=&to=&step= – Stored metric history.
+ *
+ * metric: cpu, memory, memory_used, disk, disk_used, net_rx, net_tx, load1, load5, load15
+ * from/to: epoch milliseconds or ISO dates (default: the last hour)
+ * step:    bucket width in seconds (default: about 300 points over the range)
+ *
+ * Samples come from the background collector (see lib/metrics-history.ts).
+ */
+import type { APIRoute } from "astro";
+import { getUserFromCookies } from "../../../lib/auth";
+import { hasPermission } from "../../../lib/roles";
+import { isMetricName, METRICS, queryHistory } from "../../../lib/metrics-history";
+
+/** Epoch ms from "1718000000000" or "2024-06-10T06:00:00Z"; NaN when neither. */
+function parseTime(value: string): number {
+	return /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+}
+
+export const GET: APIRoute = async ({ cookies, url }) => {
+	const user = getUserFromCookies(cookies);
+	if (!user) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+	}
+	if (!hasPermission(user.role, "system:read")) {
+		return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403 });
+	}
+
+	const metric = url.searchParams.get("metric") ?? "cpu";
+	if (!isMetricName(metric)) {
+		return new Response(JSON.stringify({ error: `Unknown metric; expected one of ${Object.keys(METRICS).join(", ")}` }), {
+			status: 400,
+		});
+	}
+
+	const now = Date.now();
+	const to = url.searchParams.has("to") ? parseTime(url.searchParams.get("to")!) : now;
+	const from = url.searchParams.has("from") ? parseTime(url.searchParams.get("from")!) : to - 60 * 60 * 1000;
+	const stepParam = url.searchParams.get("step");
+	const step = stepParam ? Number(stepParam) * 1000 : undefined;
+	if (Number.isNaN(from) || Number.isNaN(to) || from >= to) {
+		return new Response(JSON.stringify({ error: "from and to must be times (epoch ms or ISO) with from before to" }), {
+			status: 400,
+		});
+	}
+	if (step !== undefined && !(step > 0)) {
+		return new Response(JSON.stringify({ error: "step must be a positive number of seconds" }), { status: 400 });
+	}
+
+	return new Response(JSON.stringify(queryHistory(metric, from, to, step, now)), {
+		status: 200,
+		headers: { "Content-Type": "application/json" },
+	});
+};